@@ -11,7 +11,7 @@ import { StatusBar } from "expo-status-bar";
 import { useEffect } from "react";
 import { SafeAreaProvider, SafeAreaView } from "react-native-safe-area-context";
 
-import { ErrorBoundary } from "@/components/common";
+import { ErrorBoundary, UndoSnackbar } from "@/components/common";
 import { getDatabase } from "@/database";
 import { useAppStore } from "@/stores";
 import { colors } from "@/theme";
@@ -80,6 +80,7 @@ export default function RootLayout() {
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="+not-found" />
           </Stack>
+          <UndoSnackbar />
         </SafeAreaView>
       </ErrorBoundary>
     </SafeAreaProvider>
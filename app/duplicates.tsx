@@ -0,0 +1,3 @@
+import { DuplicatesScreen } from "@/screens";
+
+export default DuplicatesScreen;
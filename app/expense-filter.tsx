@@ -0,0 +1,3 @@
+import { ExpenseFilterScreen } from "@/screens";
+
+export default ExpenseFilterScreen;
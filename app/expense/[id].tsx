@@ -0,0 +1,3 @@
+import { ExpenseDetailScreen } from "@/screens";
+
+export default ExpenseDetailScreen;
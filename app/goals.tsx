@@ -0,0 +1,3 @@
+import { SavingsGoalsScreen } from "@/screens";
+
+export default SavingsGoalsScreen;
@@ -0,0 +1,3 @@
+import { MerchantRankingScreen } from "@/screens";
+
+export default MerchantRankingScreen;
@@ -0,0 +1,3 @@
+import { SearchScreen } from "@/screens";
+
+export default SearchScreen;
@@ -0,0 +1,2 @@
+import AccountsScreen from "@/screens/settings/AccountsScreen";
+export default AccountsScreen;
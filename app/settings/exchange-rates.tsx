@@ -0,0 +1,2 @@
+import ExchangeRatesScreen from "@/screens/settings/ExchangeRatesScreen";
+export default ExchangeRatesScreen;
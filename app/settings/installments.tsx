@@ -0,0 +1,2 @@
+import InstallmentPlansScreen from "@/screens/settings/InstallmentPlansScreen";
+export default InstallmentPlansScreen;
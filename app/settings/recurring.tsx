@@ -0,0 +1,2 @@
+import RecurringExpensesScreen from "@/screens/settings/RecurringExpensesScreen";
+export default RecurringExpensesScreen;
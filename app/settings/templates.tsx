@@ -0,0 +1,2 @@
+import ExpenseTemplatesScreen from "@/screens/settings/ExpenseTemplatesScreen";
+export default ExpenseTemplatesScreen;
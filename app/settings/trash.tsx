@@ -0,0 +1,2 @@
+import TrashScreen from "@/screens/settings/TrashScreen";
+export default TrashScreen;
@@ -0,0 +1,3 @@
+import { TagReportScreen } from "@/screens";
+
+export default TagReportScreen;
@@ -1,11 +1,52 @@
 import { AppText, Button, Card, Input } from "@/components/common";
+import { ALLOWANCE_FREQUENCY_LABELS } from "@/services";
 import { useAppStore, useUIStore } from "@/stores";
 import { colors, layout } from "@/theme";
-import { AllowanceSource, MonthSummary } from "@/types";
-import { formatCurrency, formatForInput, getMonthName, parseToCents } from "@/utils";
+import { AllowanceFrequency, AllowanceSource, IncomeEntry, MonthSummary } from "@/types";
+import { formatCurrency, formatForInput, getMonthName, getShortMonthName, parseToCents } from "@/utils";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useState } from "react";
-import { Modal, ScrollView, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, View } from "react-native";
+import { Alert, Modal, ScrollView, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, View } from "react-native";
+
+const FREQUENCIES = Object.keys(ALLOWANCE_FREQUENCY_LABELS) as AllowanceFrequency[];
+
+/**
+ * Month picker stepping through January-December
+ */
+const MonthStepper = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (month: number) => void;
+}) => (
+  <View style={styles.stepper}>
+    <AppText variant="caption" color={colors.textMuted}>
+      {label}
+    </AppText>
+    <View style={styles.stepperControls}>
+      <TouchableOpacity
+        onPress={() => onChange(value - 1)}
+        disabled={value <= 1}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Ionicons name="chevron-back" size={18} color={value <= 1 ? colors.textMuted : colors.primary} />
+      </TouchableOpacity>
+      <AppText variant="bodyMedium" style={styles.stepperValue}>
+        {getShortMonthName(value)}
+      </AppText>
+      <TouchableOpacity
+        onPress={() => onChange(value + 1)}
+        disabled={value >= 12}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Ionicons name="chevron-forward" size={18} color={value >= 12 ? colors.textMuted : colors.primary} />
+      </TouchableOpacity>
+    </View>
+  </View>
+);
 
 export const AllowanceSourcesModal = () => {
   const { isAllowanceSourcesModalVisible, hideAllowanceSourcesModal } = useUIStore();
@@ -18,10 +59,16 @@ export const AllowanceSourcesModal = () => {
     hideCents,
     selectedYear,
     monthSummaries,
+    incomeEntries,
+    deleteIncomeEntry,
   } = useAppStore();
 
   const [name, setName] = useState("");
   const [amount, setAmount] = useState("");
+  const [frequency, setFrequency] = useState<AllowanceFrequency>("monthly");
+  const [startMonth, setStartMonth] = useState(1);
+  const [endMonth, setEndMonth] = useState(12);
+  const [firstPayDay, setFirstPayDay] = useState("1");
   const [editingId, setEditingId] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -30,29 +77,73 @@ export const AllowanceSourcesModal = () => {
     (m) => m.year === selectedYear && m.allowanceOverrideCents !== null
   );
 
+  const handleDeleteIncome = async (id: number) => {
+    setLoading(true);
+    try {
+      await deleteIncomeEntry(id);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleEdit = (source: AllowanceSource) => {
     setName(source.name);
     setAmount(formatForInput(source.amountCents));
+    setFrequency(source.frequency);
+    setStartMonth(source.startMonth);
+    setEndMonth(source.endMonth);
+    setFirstPayDay(String(source.firstPayDay));
     setEditingId(source.id);
   };
 
   const handleReset = () => {
     setName("");
     setAmount("");
+    setFrequency("monthly");
+    setStartMonth(1);
+    setEndMonth(12);
+    setFirstPayDay("1");
     setEditingId(null);
   };
 
+  // Keep the pay period in order when either end moves past the other
+  const handleStartMonthChange = (month: number) => {
+    setStartMonth(month);
+    if (month > endMonth) setEndMonth(month);
+  };
+
+  const handleEndMonthChange = (month: number) => {
+    setEndMonth(month);
+    if (month < startMonth) setStartMonth(month);
+  };
+
+  const isPaidByWeek = frequency === "weekly" || frequency === "biweekly";
+
   const handleSubmit = async () => {
     if (!name || !amount) return;
     const amountCents = parseToCents(amount);
     if (amountCents === null) return;
+    const payDay = isPaidByWeek ? parseInt(firstPayDay, 10) : 1;
+    if (isNaN(payDay) || payDay < 1 || payDay > 31) {
+      Alert.alert("Invalid Day", "Please enter the day of the first payment (1-31)");
+      return;
+    }
+
+    const schedule = {
+      frequency,
+      startMonth,
+      endMonth: frequency === "once" ? startMonth : endMonth,
+      firstPayDay: payDay,
+    };
 
     setLoading(true);
     try {
       if (editingId) {
-        await updateAllowanceSource(editingId, { name, amountCents });
+        await updateAllowanceSource(editingId, { name, amountCents, ...schedule });
       } else {
-        await addAllowanceSource({ year: selectedYear, name, amountCents, isActive: true });
+        await addAllowanceSource({ year: selectedYear, name, amountCents, isActive: true, ...schedule });
       }
       handleReset();
     } catch (error) {
@@ -74,11 +165,27 @@ export const AllowanceSourcesModal = () => {
     }
   };
 
+  // e.g. "Every 2 weeks from day 2 · Jul–Dec"; whole-year ranges are left out
+  const describeSchedule = (source: AllowanceSource) => {
+    const label = ALLOWANCE_FREQUENCY_LABELS[source.frequency];
+    if (source.frequency === "once") return `${label} · ${getShortMonthName(source.startMonth)}`;
+    const range =
+      source.startMonth === 1 && source.endMonth === 12
+        ? ""
+        : ` · ${getShortMonthName(source.startMonth)}–${getShortMonthName(source.endMonth)}`;
+    const isWeekly = source.frequency === "weekly" || source.frequency === "biweekly";
+    const payDay = isWeekly ? ` from day ${source.firstPayDay}` : "";
+    return `${label}${payDay}${range}`;
+  };
+
   const renderItem = ({ item }: { item: AllowanceSource }) => (
     <View style={styles.itemContainer}>
       <View style={styles.itemInfo}>
         <AppText variant="bodyMedium">{item.name}</AppText>
         <AppText variant="body">{formatCurrency(item.amountCents, undefined, currency, hideCents)}</AppText>
+        <AppText variant="caption" color={colors.textMuted}>
+          {describeSchedule(item)}
+        </AppText>
       </View>
       <View style={styles.itemActions}>
         <TouchableOpacity onPress={() => handleEdit(item)} style={styles.iconButton}>
@@ -91,6 +198,28 @@ export const AllowanceSourcesModal = () => {
     </View>
   );
 
+  const renderIncomeItem = ({ item }: { item: IncomeEntry }) => {
+    const month = monthSummaries.find((m) => m.monthId === item.monthId)?.month;
+    return (
+      <View style={styles.itemContainer}>
+        <View style={styles.itemInfo}>
+          <AppText variant="bodyMedium">{item.name}</AppText>
+          <AppText variant="caption" color={colors.textMuted}>
+            {month ? `${getShortMonthName(month)} ${Number(item.entryDate.split("-")[2])}` : item.entryDate}
+          </AppText>
+        </View>
+        <View style={styles.itemActions}>
+          <AppText variant="body" color={colors.success}>
+            +{formatCurrency(item.amountCents, undefined, currency, hideCents)}
+          </AppText>
+          <TouchableOpacity onPress={() => handleDeleteIncome(item.id)} style={styles.iconButton}>
+            <Ionicons name="trash-outline" size={20} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   const renderOverrideItem = ({ item }: { item: MonthSummary }) => (
     <View style={styles.overrideItem}>
       <View style={styles.overrideInfo}>
@@ -142,6 +271,41 @@ export const AllowanceSourcesModal = () => {
                   containerStyle={{ marginBottom: 0, flex: 1 }}
                 />
               </View>
+              <View style={styles.frequencyRow}>
+                {FREQUENCIES.map((f) => (
+                  <TouchableOpacity
+                    key={f}
+                    style={[styles.frequencyChip, frequency === f && styles.frequencyChipSelected]}
+                    onPress={() => setFrequency(f)}
+                    accessibilityLabel={ALLOWANCE_FREQUENCY_LABELS[f]}
+                  >
+                    <AppText variant="small" color={frequency === f ? colors.primaryForeground : colors.text}>
+                      {ALLOWANCE_FREQUENCY_LABELS[f]}
+                    </AppText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.periodRow}>
+                <MonthStepper
+                  label={frequency === "once" ? "Paid in" : "From"}
+                  value={startMonth}
+                  onChange={handleStartMonthChange}
+                />
+                {frequency !== "once" && (
+                  <MonthStepper label="Until" value={endMonth} onChange={handleEndMonthChange} />
+                )}
+              </View>
+              {isPaidByWeek && (
+                <Input
+                  label={`Day of the first payment in ${getMonthName(startMonth)}`}
+                  placeholder="1"
+                  value={firstPayDay}
+                  onChangeText={setFirstPayDay}
+                  keyboardType="number-pad"
+                  maxLength={2}
+                  containerStyle={{ marginTop: layout.spacing.s, marginBottom: 0 }}
+                />
+              )}
               <Button
                 title={editingId ? "Update" : "Add"}
                 onPress={handleSubmit}
@@ -160,7 +324,7 @@ export const AllowanceSourcesModal = () => {
 
             {/* Source List */}
             <AppText variant="caption" color={colors.textMuted} style={styles.sectionLabel}>
-              Monthly Income ({selectedYear})
+              Income Sources ({selectedYear})
             </AppText>
             {allowanceSources
               .filter((s) => !s.deletedAt)
@@ -181,6 +345,28 @@ export const AllowanceSourcesModal = () => {
               </AppText>
             )}
 
+            {/* One-off Income Section */}
+            {incomeEntries.length > 0 && (
+              <>
+                <AppText
+                  variant="caption"
+                  color={colors.textMuted}
+                  style={[styles.sectionLabel, { marginTop: layout.spacing.l }]}
+                >
+                  One-off Income ({selectedYear})
+                </AppText>
+                <AppText variant="caption" color={colors.textMuted} style={{ marginBottom: layout.spacing.s }}>
+                  Added on top of the allowance of their month. Add more from the allowance of a month.
+                </AppText>
+                {incomeEntries.map((item) => (
+                  <View key={item.id}>
+                    {renderIncomeItem({ item })}
+                    <View style={styles.separator} />
+                  </View>
+                ))}
+              </>
+            )}
+
             {/* Monthly Overrides Section */}
             {monthsWithOverrides.length > 0 && (
               <>
@@ -239,6 +425,45 @@ const styles = StyleSheet.create({
     alignItems: "flex-start",
     gap: layout.spacing.s,
   },
+  frequencyRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.s,
+  },
+  frequencyChip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  frequencyChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  periodRow: {
+    flexDirection: "row",
+    gap: layout.spacing.m,
+    marginTop: layout.spacing.s,
+  },
+  stepper: {
+    flex: 1,
+    gap: 4,
+  },
+  stepperControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: layout.spacing.s,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.m,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  stepperValue: {
+    textAlign: "center",
+  },
   addButton: {
     marginTop: layout.spacing.s,
   },
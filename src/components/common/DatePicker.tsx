@@ -0,0 +1,169 @@
+import { colors, layout } from "@/theme";
+import {
+  formatDate,
+  getCurrentMonth,
+  getCurrentYear,
+  getDaysInMonth,
+  getMonthName,
+  parseDateString,
+  toDateString,
+} from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import React, { useState } from "react";
+import { StyleSheet, TouchableOpacity, View, ViewStyle } from "react-native";
+import { AppText } from "./AppText";
+
+interface DatePickerProps {
+  label?: string;
+  value: string; // YYYY-MM-DD
+  onChange: (date: string) => void;
+  containerStyle?: ViewStyle;
+}
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+/**
+ * Date field that opens an inline month calendar
+ */
+export const DatePicker: React.FC<DatePickerProps> = ({ label, value, onChange, containerStyle }) => {
+  const selected = parseDateString(value);
+  const [isOpen, setIsOpen] = useState(false);
+  const [viewYear, setViewYear] = useState(selected?.year ?? getCurrentYear());
+  const [viewMonth, setViewMonth] = useState(selected?.month ?? getCurrentMonth());
+
+  const toggle = () => {
+    // Open on the month of the current value
+    if (!isOpen && selected) {
+      setViewYear(selected.year);
+      setViewMonth(selected.month);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const shiftMonth = (delta: number) => {
+    const index = viewYear * 12 + (viewMonth - 1) + delta;
+    setViewYear(Math.floor(index / 12));
+    setViewMonth((index % 12) + 1);
+  };
+
+  const handleSelect = (day: number) => {
+    Haptics.selectionAsync();
+    onChange(toDateString(viewYear, viewMonth, day));
+    setIsOpen(false);
+  };
+
+  // Leading blanks line the 1st up with its weekday
+  const firstWeekday = new Date(viewYear, viewMonth - 1, 1).getDay();
+  const cells: (number | null)[] = [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from({ length: getDaysInMonth(viewYear, viewMonth) }, (_, i) => i + 1),
+  ];
+
+  return (
+    <View style={[styles.container, containerStyle]}>
+      {label && (
+        <AppText variant="caption" color={colors.textMuted} style={styles.label}>
+          {label}
+        </AppText>
+      )}
+      <TouchableOpacity style={styles.field} onPress={toggle} activeOpacity={0.7}>
+        <Ionicons name="calendar-outline" size={18} color={colors.textMuted} />
+        <AppText style={styles.fieldText}>{selected ? formatDate(value) : "Pick a date"}</AppText>
+        <Ionicons name={isOpen ? "chevron-up" : "chevron-down"} size={18} color={colors.textMuted} />
+      </TouchableOpacity>
+
+      {isOpen && (
+        <View style={styles.calendar}>
+          <View style={styles.calendarHeader}>
+            <TouchableOpacity onPress={() => shiftMonth(-1)} hitSlop={layout.hitSlop}>
+              <Ionicons name="chevron-back" size={20} color={colors.text} />
+            </TouchableOpacity>
+            <AppText variant="bodyMedium">
+              {getMonthName(viewMonth)} {viewYear}
+            </AppText>
+            <TouchableOpacity onPress={() => shiftMonth(1)} hitSlop={layout.hitSlop}>
+              <Ionicons name="chevron-forward" size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.grid}>
+            {WEEKDAYS.map((weekday, index) => (
+              <View key={`weekday-${index}`} style={styles.cell}>
+                <AppText variant="small" color={colors.textMuted}>
+                  {weekday}
+                </AppText>
+              </View>
+            ))}
+            {cells.map((day, index) => {
+              if (day === null) return <View key={`blank-${index}`} style={styles.cell} />;
+              const isSelected = selected?.year === viewYear && selected.month === viewMonth && selected.day === day;
+              return (
+                <TouchableOpacity
+                  key={`day-${day}`}
+                  style={[styles.cell, isSelected && styles.cellSelected]}
+                  onPress={() => handleSelect(day)}
+                >
+                  <AppText variant="small" color={isSelected ? colors.primaryForeground : colors.text}>
+                    {day}
+                  </AppText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: layout.spacing.m,
+  },
+  label: {
+    marginBottom: layout.spacing.xs,
+    marginLeft: layout.spacing.xs,
+  },
+  field: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.s,
+    backgroundColor: colors.inputBackground,
+    borderRadius: layout.borderRadius.l,
+    borderWidth: 1,
+    borderColor: colors.border,
+    height: 56,
+    paddingHorizontal: layout.spacing.m,
+  },
+  fieldText: {
+    flex: 1,
+  },
+  calendar: {
+    marginTop: layout.spacing.s,
+    padding: layout.spacing.s,
+    backgroundColor: colors.inputBackground,
+    borderRadius: layout.borderRadius.l,
+  },
+  calendarHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: layout.spacing.s,
+    marginBottom: layout.spacing.s,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    borderRadius: layout.borderRadius.full,
+  },
+  cellSelected: {
+    backgroundColor: colors.primary,
+  },
+});
@@ -0,0 +1,86 @@
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import * as Haptics from "expo-haptics";
+import React, { useEffect, useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { AppText } from "./AppText";
+
+// How long the snackbar stays up after a change
+const VISIBLE_MS = 5000;
+
+/**
+ * Offers to undo the last store change (or redo it once undone)
+ * Rendered once in the root layout, above the tab bar and FAB.
+ */
+export const UndoSnackbar: React.FC = () => {
+  const lastChange = useAppStore((state) => state.lastChange);
+  const undo = useAppStore((state) => state.undo);
+  const redo = useAppStore((state) => state.redo);
+  const dismissLastChange = useAppStore((state) => state.dismissLastChange);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!lastChange) return;
+    const timer = setTimeout(dismissLastChange, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [lastChange, dismissLastChange]);
+
+  if (!lastChange) return null;
+
+  const handlePress = async () => {
+    if (isBusy) return;
+    setIsBusy(true);
+    try {
+      await (lastChange.undone ? redo() : undo());
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } catch (error) {
+      console.error("Failed to undo/redo:", error);
+      dismissLastChange();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.snackbar} accessibilityLiveRegion="polite">
+      <AppText variant="body" style={styles.message} numberOfLines={1}>
+        {lastChange.undone ? `Undone: ${lastChange.label}` : lastChange.label}
+      </AppText>
+      <TouchableOpacity onPress={handlePress} disabled={isBusy} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+        <AppText variant="bodyMedium" color={colors.primary}>
+          {lastChange.undone ? "Redo" : "Undo"}
+        </AppText>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: "absolute",
+    left: layout.spacing.m,
+    right: layout.spacing.m,
+    bottom: 96,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.m,
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: layout.spacing.l,
+    paddingVertical: layout.spacing.m,
+    // Shadow
+    shadowColor: "#000",
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 4.65,
+    elevation: 8,
+  },
+  message: {
+    flex: 1,
+  },
+});
@@ -1,7 +1,9 @@
 export { AppText } from "./AppText";
 export { Button } from "./Button";
 export { Card } from "./Card";
+export { DatePicker } from "./DatePicker";
 export { ErrorBoundary } from "./ErrorBoundary";
 export { FAB } from "./FAB";
 export { Input } from "./Input";
 export { ProfileSecurityModal } from "./ProfileSecurityModal";
+export { UndoSnackbar } from "./UndoSnackbar";
@@ -1,32 +1,131 @@
-import { AppText, Button, Card, Input } from "@/components/common";
+import { AppText, Button, Card, DatePicker, Input } from "@/components/common";
+import { DuplicateRepository } from "@/database";
+import { CalculationService } from "@/services";
 import { useAppStore, useUIStore } from "@/stores";
 import { colors, layout } from "@/theme";
-import { CreateExpenseDTO, UpdateExpenseDTO } from "@/types";
-import { formatForInput, getCurrencySymbol, parseToCents } from "@/utils";
+import {
+  AccountKind,
+  CreateExpenseDTO,
+  ExpenseLineItemDTO,
+  ExpenseTemplate,
+  RecurringEditScope,
+  RecurringFrequency,
+  UpdateExpenseDTO,
+} from "@/types";
+import {
+  formatCurrency,
+  formatForInput,
+  getCurrencySymbol,
+  getCurrentDateString,
+  getCurrentDay,
+  getMonthName,
+  normalizeTagName,
+  parseDateString,
+  parseToCents,
+  RECURRING_FREQUENCY_LABELS,
+  toDateString,
+} from "@/utils";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import React, { useEffect, useState } from "react";
 import {
+  Alert,
   Keyboard,
   KeyboardAvoidingView,
   Modal,
   Platform,
   ScrollView,
   StyleSheet,
+  Switch,
   TouchableOpacity,
   TouchableWithoutFeedback,
   View,
 } from "react-native";
+import { confirmDuplicate } from "./confirmDuplicate";
+
+const FREQUENCIES = Object.keys(RECURRING_FREQUENCY_LABELS) as RecurringFrequency[];
+
+const ACCOUNT_KIND_ICONS: Record<AccountKind, keyof typeof Ionicons.glyphMap> = {
+  cash: "cash-outline",
+  debit: "wallet-outline",
+  credit: "card-outline",
+};
+
+// An extra part of a split expense; whatever the parts leave over stays in the main category
+interface SplitPart {
+  key: number;
+  categoryId: number;
+  amount: string;
+}
+
+/**
+ * Ask whether an edit to a generated expense applies to this month only or to the template
+ * Resolves null when the user cancels
+ */
+const askRecurringEditScope = () =>
+  new Promise<RecurringEditScope | null>((resolve) => {
+    Alert.alert("Recurring Expense", "Apply this change to:", [
+      { text: "Cancel", style: "cancel", onPress: () => resolve(null) },
+      { text: "This month only", onPress: () => resolve("month") },
+      { text: "This and future months", onPress: () => resolve("future") },
+    ]);
+  });
 
 export const AddExpenseModal = () => {
-  const { isAddExpenseModalVisible, isEditExpenseModalVisible, editingExpenseId, hideExpenseModal } = useUIStore();
+  const {
+    isAddExpenseModalVisible,
+    isEditExpenseModalVisible,
+    editingExpenseId,
+    hideExpenseModal,
+    showAttachmentsModal,
+    showHistoryModal,
+  } = useUIStore();
 
-  const { addExpense, updateExpense, deleteExpense, selectedMonthExpenses, selectedMonthId, categories, currency } =
-    useAppStore();
+  const {
+    addExpense,
+    updateExpense,
+    deleteExpense,
+    addRecurringExpense,
+    updateRecurringExpense,
+    addInstallmentPlan,
+    addExpenseFromTemplate,
+    recordExpenseTemplateUse,
+    ensureTags,
+    ensureMerchant,
+    tags,
+    merchants,
+    accounts,
+    exchangeRates,
+    expenseTemplates,
+    selectedMonthExpenses,
+    selectedMonthId,
+    monthSummaries,
+    categories,
+    currentProfileId,
+    currency,
+    hideCents,
+  } = useAppStore();
 
   const [amount, setAmount] = useState("");
   const [note, setNote] = useState("");
+  const [expenseDate, setExpenseDate] = useState("");
   const [categoryId, setCategoryId] = useState<number | null>(null);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [frequency, setFrequency] = useState<RecurringFrequency>("monthly");
+  const [dayOfMonth, setDayOfMonth] = useState("");
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState("");
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitParts, setSplitParts] = useState<SplitPart[]>([]);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [merchantInput, setMerchantInput] = useState("");
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [expenseCurrency, setExpenseCurrency] = useState(currency);
+  const [isRefund, setIsRefund] = useState(false);
+  const [refundOfExpenseId, setRefundOfExpenseId] = useState<number | null>(null);
+  // Template the form was filled from, counted as used once the expense is saved
+  const [templateId, setTemplateId] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
 
@@ -46,48 +145,328 @@ export const AddExpenseModal = () => {
 
   // Determine if we are in edit mode
   const isEditing = isEditExpenseModalVisible && editingExpenseId !== null;
+  const editingExpense = isEditing ? selectedMonthExpenses.find((e) => e.id === editingExpenseId) : undefined;
+  const selectedSummary = monthSummaries.find((s) => s.monthId === selectedMonthId);
+  // Set when the chosen date is outside the selected month, which the expense then moves to
+  const chosenDate = parseDateString(expenseDate);
+  const dateMonth =
+    chosenDate &&
+    selectedSummary &&
+    (chosenDate.year !== selectedSummary.year || chosenDate.month !== selectedSummary.month)
+      ? chosenDate
+      : null;
 
   useEffect(() => {
     if (isEditing) {
       const expense = selectedMonthExpenses.find((e) => e.id === editingExpenseId);
       if (expense) {
-        setAmount(formatForInput(expense.amountCents));
+        // Foreign-currency expenses are edited in the currency they were entered in
+        setAmount(formatForInput(expense.originalAmountCents ?? expense.amountCents));
+        setExpenseCurrency(expense.originalCurrency ?? currency);
+        setIsRefund(expense.kind === "refund");
+        setRefundOfExpenseId(expense.refundOfExpenseId);
         setNote(expense.note || "");
+        setExpenseDate(expense.expenseDate);
         setCategoryId(expense.categoryId);
+        setTagNames(
+          expense.tagIds.map((id) => tags.find((t) => t.id === id)?.name).filter((name): name is string => !!name)
+        );
+        setTagInput("");
+        setMerchantInput(merchants.find((m) => m.id === expense.merchantId)?.name ?? "");
+        setAccountId(expense.accountId);
+
+        // The first part in the main category is the remainder; the rest are editable parts
+        const remainderIndex = expense.lineItems.findIndex((item) => item.categoryId === expense.categoryId);
+        setIsSplit(expense.lineItems.length > 0);
+        setSplitParts(
+          expense.lineItems
+            .filter((_, index) => index !== remainderIndex)
+            .map((item) => ({ key: item.id, categoryId: item.categoryId, amount: formatForInput(item.amountCents) }))
+        );
       }
     } else {
       // Reset for add mode
       setAmount("");
       setNote("");
+      // New expenses default to today, or to the 1st when backfilling another month
+      const today = parseDateString(getCurrentDateString());
+      setExpenseDate(
+        selectedSummary && (today?.year !== selectedSummary.year || today.month !== selectedSummary.month)
+          ? toDateString(selectedSummary.year, selectedSummary.month, 1)
+          : getCurrentDateString()
+      );
       // Default to first category or null
       setCategoryId(categories.length > 0 ? categories[0]!.id : null);
+      setIsRecurring(false);
+      setFrequency("monthly");
+      setDayOfMonth(String(getCurrentDay()));
+      setIsInstallment(false);
+      setInstallmentCount("12");
+      setIsSplit(false);
+      setSplitParts([]);
+      setTagNames([]);
+      setTagInput("");
+      setMerchantInput("");
+      setAccountId(null);
+      setExpenseCurrency(currency);
+      setIsRefund(false);
+      setRefundOfExpenseId(null);
+      setTemplateId(null);
     }
   }, [isAddExpenseModalVisible, isEditExpenseModalVisible, editingExpenseId]);
 
+  // An amount in another currency is converted into the home currency with the saved rate.
+  // Editing keeps the rate the expense was entered with unless its currency changes.
+  const isForeign = !isRecurring && !isInstallment && expenseCurrency !== currency;
+  const foreignRate = !isForeign
+    ? null
+    : editingExpense?.originalCurrency === expenseCurrency && editingExpense.exchangeRate !== null
+      ? editingExpense.exchangeRate
+      : (exchangeRates.find((r) => r.currency === expenseCurrency)?.rate ?? null);
+  const currencyOptions = [
+    currency,
+    ...exchangeRates.map((r) => r.currency),
+    ...(editingExpense?.originalCurrency ? [editingExpense.originalCurrency] : []),
+  ].filter((code, index, all) => all.indexOf(code) === index);
+
+  const selectCurrency = (code: string) => {
+    Haptics.selectionAsync();
+    setExpenseCurrency(code);
+    // Line items are kept in the home currency, so foreign amounts are not split
+    if (code !== currency) setIsSplit(false);
+  };
+
+  // Expenses of this month a refund can give money back for
+  const refundableExpenses = selectedMonthExpenses.filter((e) => e.kind === "expense" && e.id !== editingExpenseId);
+  const isLinkedElsewhere = refundOfExpenseId !== null && !refundableExpenses.some((e) => e.id === refundOfExpenseId);
+
+  const selectRefundOf = (expenseId: number) => {
+    Haptics.selectionAsync();
+    if (refundOfExpenseId === expenseId) {
+      setRefundOfExpenseId(null);
+      return;
+    }
+    setRefundOfExpenseId(expenseId);
+    // A new refund goes back to the category of what is refunded
+    const original = refundableExpenses.find((e) => e.id === expenseId);
+    if (!isEditing && original && !isSplit) setCategoryId(original.categoryId);
+  };
+
+  // Amount left for the main category once the extra parts are taken out
+  const amountCentsValue = parseToCents(amount) ?? 0;
+  const splitPartsCents = splitParts.map((part) => parseToCents(part.amount) ?? 0);
+  const splitRemainderCents = amountCentsValue - splitPartsCents.reduce((sum, cents) => sum + cents, 0);
+  const isSplitValid = !isSplit || (splitRemainderCents >= 0 && splitPartsCents.every((cents) => cents > 0));
+
+  const buildLineItems = (): ExpenseLineItemDTO[] => {
+    if (!isSplit || !categoryId || splitParts.length === 0) return [];
+    const parts = splitParts.map((part, index) => ({
+      categoryId: part.categoryId,
+      amountCents: splitPartsCents[index]!,
+    }));
+    return splitRemainderCents > 0 ? [{ categoryId, amountCents: splitRemainderCents }, ...parts] : parts;
+  };
+
+  const handleAddSplitPart = () => {
+    Haptics.selectionAsync();
+    const fallback = categories.find((c) => c.id !== categoryId) ?? categories[0];
+    if (!fallback) return;
+    setSplitParts([...splitParts, { key: Date.now(), categoryId: fallback.id, amount: "" }]);
+  };
+
+  const updateSplitPart = (key: number, changes: Partial<SplitPart>) => {
+    setSplitParts(splitParts.map((part) => (part.key === key ? { ...part, ...changes } : part)));
+  };
+
+  // Existing tags matching what is being typed
+  const tagQuery = normalizeTagName(tagInput);
+  const tagSuggestions =
+    tagQuery.length > 0 ? tags.filter((t) => t.name.includes(tagQuery) && !tagNames.includes(t.name)).slice(0, 5) : [];
+
+  const addTag = (name: string) => {
+    const normalized = normalizeTagName(name);
+    if (normalized && !tagNames.includes(normalized)) {
+      setTagNames([...tagNames, normalized]);
+    }
+    setTagInput("");
+  };
+
+  const handleTagInputChange = (text: string) => {
+    // A comma finishes the tag being typed
+    if (text.endsWith(",")) {
+      addTag(text.slice(0, -1));
+    } else {
+      setTagInput(text);
+    }
+  };
+
+  // Existing merchants matching what is being typed
+  const merchantQuery = merchantInput.trim().toLowerCase();
+  const merchantSuggestions =
+    merchantQuery.length > 0
+      ? merchants
+          .filter((m) => m.name.toLowerCase().includes(merchantQuery) && m.name.toLowerCase() !== merchantQuery)
+          .slice(0, 5)
+      : [];
+
+  const selectMerchant = (name: string) => {
+    setMerchantInput(name);
+    // New expenses start in the category last used at this merchant
+    const merchant = merchants.find((m) => m.name.toLowerCase() === name.trim().toLowerCase());
+    if (
+      !isEditing &&
+      !isSplit &&
+      merchant?.lastCategoryId &&
+      categories.some((c) => c.id === merchant.lastCategoryId)
+    ) {
+      setCategoryId(merchant.lastCategoryId);
+    }
+  };
+
+  const applyTemplate = (template: ExpenseTemplate) => {
+    Haptics.selectionAsync();
+    setAmount(formatForInput(template.amountCents));
+    setCategoryId(template.categoryId);
+    setNote(template.note ?? "");
+    setExpenseCurrency(currency);
+    setIsSplit(false);
+    setSplitParts([]);
+    setTemplateId(template.id);
+  };
+
+  // Long-pressing a favorite saves it straight away, on the date the form would use
+  const addFromTemplate = async (template: ExpenseTemplate) => {
+    if (!selectedMonthId) return;
+    setLoading(true);
+    try {
+      await addExpenseFromTemplate(template.id, selectedMonthId, expenseDate);
+      hideExpenseModal();
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!selectedMonthId || !categoryId || !amount) return;
 
-    const amountCents = parseToCents(amount);
-    if (amountCents === null) return;
+    const enteredCents = parseToCents(amount);
+    if (enteredCents === null) return;
+    if (isForeign && foreignRate === null) return;
+    const amountCents = isForeign ? CalculationService.convertToBaseCents(enteredCents, foreignRate!) : enteredCents;
+    const foreignAmount = isForeign
+      ? { currency: expenseCurrency, amountCents: enteredCents, rate: foreignRate! }
+      : null;
+
+    if (!isSplitValid) return;
+    const lineItems = buildLineItems();
+
+    const installmentMonths = parseInt(installmentCount, 10);
+    if (!isEditing && isInstallment && !(installmentMonths >= 1)) return;
+
+    // Edits to a generated expense can apply to its template as well
+    let scope: RecurringEditScope = "month";
+    if (editingExpense?.recurringExpenseId && selectedSummary) {
+      const chosen = await askRecurringEditScope();
+      if (!chosen) return;
+      scope = chosen;
+    }
 
     setLoading(true);
     try {
+      // A new expense that looks like one already saved is confirmed first
+      if (!isEditing && !isRecurring && !isInstallment) {
+        const matches = await DuplicateRepository.findMatches(
+          { categoryId, amountCents, note: note.trim() || null, expenseDate, kind: isRefund ? "refund" : "expense" },
+          currentProfileId
+        );
+        const match = matches[0];
+        if (
+          match &&
+          !(await confirmDuplicate(
+            match,
+            categories.find((c) => c.id === match.categoryId)?.name ?? "Unknown",
+            formatCurrency(match.amountCents, undefined, currency, hideCents)
+          ))
+        ) {
+          return;
+        }
+      }
+
+      // Tags apply to single expenses only, not to recurring templates or installment plans
+      const tagIds =
+        isRecurring || isInstallment
+          ? []
+          : await ensureTags(tagQuery && !tagNames.includes(tagQuery) ? [...tagNames, tagQuery] : tagNames);
+      const merchantId =
+        isRecurring || isInstallment || !merchantInput.trim() ? null : (await ensureMerchant(merchantInput)).id;
+
       if (isEditing) {
         const updateDto: UpdateExpenseDTO = {
           amountCents,
           categoryId,
           note: note.trim() || undefined,
+          expenseDate,
+          merchantId,
+          accountId,
+          foreignAmount,
+          kind: isRefund ? "refund" : "expense",
+          refundOfExpenseId: isRefund ? refundOfExpenseId : null,
+          lineItems,
+          tagIds,
         };
         await updateExpense(editingExpenseId!, updateDto);
+
+        // The expense keeps everything it was given; its template and later unpaid instances take the basics
+        if (scope === "future" && editingExpense?.recurringExpenseId && selectedSummary) {
+          await updateRecurringExpense(
+            editingExpense.recurringExpenseId,
+            { amountCents, categoryId, note: note.trim() || null },
+            selectedSummary.year,
+            selectedSummary.month,
+            editingExpenseId!
+          );
+        }
+      } else if (isInstallment && selectedSummary) {
+        await addInstallmentPlan({
+          categoryId,
+          note: note.trim() || undefined,
+          totalCents: amountCents,
+          installmentCount: installmentMonths,
+          dayOfMonth: getCurrentDay(),
+          startYear: selectedSummary.year,
+          startMonth: selectedSummary.month,
+        });
+      } else if (isRecurring && selectedSummary) {
+        const day = Math.min(Math.max(parseInt(dayOfMonth, 10) || 1, 1), 31);
+        await addRecurringExpense({
+          categoryId,
+          amountCents,
+          note: note.trim() || undefined,
+          dayOfMonth: day,
+          frequency,
+          startYear: selectedSummary.year,
+          startMonth: selectedSummary.month,
+        });
       } else {
         const createDto: CreateExpenseDTO = {
           monthId: selectedMonthId,
           categoryId,
           amountCents,
           note: note.trim() || undefined,
-          expenseDate: new Date().toISOString().split("T")[0]!,
+          expenseDate,
+          merchantId,
+          accountId,
+          foreignAmount: foreignAmount ?? undefined,
+          kind: isRefund ? "refund" : "expense",
+          refundOfExpenseId: isRefund ? refundOfExpenseId : null,
+          lineItems,
+          tagIds,
         };
         await addExpense(createDto);
+        if (templateId !== null) await recordExpenseTemplateUse(templateId);
       }
       hideExpenseModal();
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -131,22 +510,133 @@ export const AddExpenseModal = () => {
               >
                 <Card style={styles.modalContent}>
                   <View style={styles.header}>
-                    <AppText variant="heading3">{isEditing ? "Edit Expense" : "New Expense"}</AppText>
+                    <View>
+                      <AppText variant="heading3">
+                        {isEditing ? "Edit" : "New"} {isRefund ? "Refund" : "Expense"}
+                      </AppText>
+                      {!!editingExpense?.recurringExpenseId && (
+                        <AppText variant="caption" color={colors.textMuted}>
+                          Generated from a recurring expense
+                        </AppText>
+                      )}
+                    </View>
                     <TouchableOpacity onPress={hideExpenseModal} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
                       <Ionicons name="close" size={24} color={colors.danger} />
                     </TouchableOpacity>
                   </View>
 
+                  {!isEditing && expenseTemplates.length > 0 && (
+                    <>
+                      <AppText variant="caption" color={colors.textMuted} style={styles.categoryLabel}>
+                        Favorites · hold to add now
+                      </AppText>
+                      <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        style={styles.favoriteList}
+                        keyboardShouldPersistTaps="handled"
+                      >
+                        {expenseTemplates.map((template) => {
+                          const category = categories.find((c) => c.id === template.categoryId);
+                          const isSelected = templateId === template.id;
+                          return (
+                            <TouchableOpacity
+                              key={template.id}
+                              style={[
+                                styles.categoryChip,
+                                isSelected && styles.categoryChipSelected,
+                                { borderColor: category?.color || colors.border },
+                              ]}
+                              onPress={() => applyTemplate(template)}
+                              onLongPress={() => addFromTemplate(template)}
+                              disabled={loading}
+                              accessibilityLabel={`Use favorite ${template.note || category?.name || "expense"}`}
+                            >
+                              <AppText style={styles.categoryIcon}>{category?.icon || "📦"}</AppText>
+                              <AppText variant="small" color={isSelected ? colors.primaryForeground : colors.text}>
+                                {template.note || category?.name} ·{" "}
+                                {formatCurrency(template.amountCents, undefined, currency, hideCents)}
+                              </AppText>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </ScrollView>
+                    </>
+                  )}
+
                   <Input
                     label="Amount"
                     placeholder="0.00"
                     keyboardType="numeric"
                     value={amount}
                     onChangeText={setAmount}
-                    leftIcon={<AppText color={colors.textMuted}>{getCurrencySymbol(currency)}</AppText>}
+                    leftIcon={
+                      <AppText color={colors.textMuted}>
+                        {getCurrencySymbol(isForeign ? expenseCurrency : currency)}
+                      </AppText>
+                    }
                     autoFocus={!isEditing}
                   />
 
+                  {!isRecurring && !isInstallment && currencyOptions.length > 1 && (
+                    <>
+                      <View style={[styles.tagRow, styles.currencyRow]}>
+                        {currencyOptions.map((code) => (
+                          <TouchableOpacity
+                            key={code}
+                            style={[styles.tagChip, expenseCurrency === code && styles.categoryChipSelected]}
+                            onPress={() => selectCurrency(code)}
+                          >
+                            <AppText
+                              variant="small"
+                              color={expenseCurrency === code ? colors.primaryForeground : colors.text}
+                            >
+                              {code}
+                            </AppText>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      {isForeign && (
+                        <AppText
+                          variant="caption"
+                          color={foreignRate === null ? colors.danger : colors.textMuted}
+                          style={styles.conversionHint}
+                        >
+                          {foreignRate === null
+                            ? `Add a ${expenseCurrency} rate under Settings > Exchange Rates`
+                            : `≈ ${formatCurrency(CalculationService.convertToBaseCents(amountCentsValue, foreignRate), undefined, currency, hideCents)} at 1 ${expenseCurrency} = ${foreignRate} ${currency}`}
+                        </AppText>
+                      )}
+                    </>
+                  )}
+
+                  {!isRecurring && !isInstallment && (
+                    <>
+                      <Input
+                        label="Merchant (Optional)"
+                        placeholder="Where did you spend it?"
+                        value={merchantInput}
+                        onChangeText={setMerchantInput}
+                        onEndEditing={() => selectMerchant(merchantInput)}
+                        autoCorrect={false}
+                      />
+                      {merchantSuggestions.length > 0 && (
+                        <View style={[styles.tagRow, styles.tagSuggestions]}>
+                          {merchantSuggestions.map((merchant) => (
+                            <TouchableOpacity
+                              key={merchant.id}
+                              style={styles.tagChip}
+                              onPress={() => selectMerchant(merchant.name)}
+                            >
+                              <Ionicons name="storefront-outline" size={14} color={colors.textMuted} />
+                              <AppText variant="small">{merchant.name}</AppText>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                    </>
+                  )}
+
                   <Input
                     label="Note (Optional)"
                     placeholder="Dinner, Groceries..."
@@ -154,6 +644,65 @@ export const AddExpenseModal = () => {
                     onChangeText={setNote}
                   />
 
+                  {!isRecurring && !isInstallment && (
+                    <>
+                      <DatePicker
+                        label="Date"
+                        value={expenseDate}
+                        onChange={setExpenseDate}
+                        containerStyle={dateMonth ? styles.dateField : undefined}
+                      />
+                      {dateMonth && (
+                        <AppText variant="caption" color={colors.warning} style={styles.dateHint}>
+                          Will be moved to {getMonthName(dateMonth.month)} {dateMonth.year}
+                        </AppText>
+                      )}
+                    </>
+                  )}
+
+                  {!isRecurring && !isInstallment && (
+                    <>
+                      {tagNames.length > 0 && (
+                        <View style={styles.tagRow}>
+                          {tagNames.map((name) => (
+                            <TouchableOpacity
+                              key={name}
+                              style={[styles.tagChip, styles.categoryChipSelected]}
+                              onPress={() => setTagNames(tagNames.filter((t) => t !== name))}
+                              accessibilityLabel={`Remove tag ${name}`}
+                            >
+                              <AppText variant="small" color={colors.primaryForeground}>
+                                #{name}
+                              </AppText>
+                              <Ionicons name="close" size={14} color={colors.primaryForeground} />
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                      <Input
+                        label="Tags (Optional)"
+                        placeholder="vacation-2026, work..."
+                        value={tagInput}
+                        onChangeText={handleTagInputChange}
+                        onSubmitEditing={() => addTag(tagInput)}
+                        submitBehavior="submit"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        rightIcon={tagQuery ? <Ionicons name="add" size={20} color={colors.primary} /> : undefined}
+                        onRightIconPress={() => addTag(tagInput)}
+                      />
+                      {tagSuggestions.length > 0 && (
+                        <View style={[styles.tagRow, styles.tagSuggestions]}>
+                          {tagSuggestions.map((tag) => (
+                            <TouchableOpacity key={tag.id} style={styles.tagChip} onPress={() => addTag(tag.name)}>
+                              <AppText variant="small">#{tag.name}</AppText>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                    </>
+                  )}
+
                   <AppText variant="caption" color={colors.textMuted} style={styles.categoryLabel}>
                     Category
                   </AppText>
@@ -176,6 +725,317 @@ export const AddExpenseModal = () => {
                     ))}
                   </ScrollView>
 
+                  {!isRecurring && !isInstallment && accounts.length > 0 && (
+                    <>
+                      <AppText variant="caption" color={colors.textMuted} style={styles.categoryLabel}>
+                        Paid From (Optional)
+                      </AppText>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryList}>
+                        {accounts.map((account) => (
+                          <TouchableOpacity
+                            key={account.id}
+                            style={[
+                              styles.categoryChip,
+                              { borderColor: colors.border },
+                              accountId === account.id && styles.categoryChipSelected,
+                            ]}
+                            onPress={() => setAccountId(accountId === account.id ? null : account.id)}
+                          >
+                            <Ionicons
+                              name={ACCOUNT_KIND_ICONS[account.kind]}
+                              size={14}
+                              color={accountId === account.id ? colors.primaryForeground : colors.textMuted}
+                              style={styles.categoryIcon}
+                            />
+                            <AppText
+                              variant="small"
+                              color={accountId === account.id ? colors.primaryForeground : colors.text}
+                            >
+                              {account.name}
+                            </AppText>
+                          </TouchableOpacity>
+                        ))}
+                      </ScrollView>
+                    </>
+                  )}
+
+                  {!isRecurring && !isInstallment && (
+                    <View style={styles.recurringSection}>
+                      <View style={styles.recurringRow}>
+                        <View>
+                          <AppText variant="body">Refund or credit</AppText>
+                          <AppText variant="caption" color={colors.textMuted}>
+                            Money back that lowers spending this month
+                          </AppText>
+                        </View>
+                        <Switch
+                          value={isRefund}
+                          onValueChange={(value) => {
+                            setIsRefund(value);
+                            if (!value) setRefundOfExpenseId(null);
+                          }}
+                          trackColor={{ false: colors.border, true: colors.primary }}
+                          thumbColor={colors.card}
+                          accessibilityLabel="Refund or credit"
+                        />
+                      </View>
+
+                      {isRefund && (refundableExpenses.length > 0 || isLinkedElsewhere) && (
+                        <>
+                          <AppText variant="caption" color={colors.textMuted} style={styles.categoryLabel}>
+                            Refund Of (Optional)
+                          </AppText>
+                          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryList}>
+                            {isLinkedElsewhere && (
+                              <TouchableOpacity
+                                style={[styles.categoryChip, styles.categoryChipSelected]}
+                                onPress={() => selectRefundOf(refundOfExpenseId!)}
+                              >
+                                <AppText variant="small" color={colors.primaryForeground}>
+                                  Expense in another month
+                                </AppText>
+                              </TouchableOpacity>
+                            )}
+                            {refundableExpenses.map((expense) => (
+                              <TouchableOpacity
+                                key={expense.id}
+                                style={[
+                                  styles.categoryChip,
+                                  { borderColor: colors.border },
+                                  refundOfExpenseId === expense.id && styles.categoryChipSelected,
+                                ]}
+                                onPress={() => selectRefundOf(expense.id)}
+                              >
+                                <AppText
+                                  variant="small"
+                                  color={refundOfExpenseId === expense.id ? colors.primaryForeground : colors.text}
+                                >
+                                  {`${expense.note || categories.find((c) => c.id === expense.categoryId)?.name || "Expense"} · ${formatCurrency(expense.amountCents, undefined, currency, hideCents)}`}
+                                </AppText>
+                              </TouchableOpacity>
+                            ))}
+                          </ScrollView>
+                        </>
+                      )}
+                    </View>
+                  )}
+
+                  {!isRecurring && !isInstallment && !isForeign && (
+                    <View style={styles.recurringSection}>
+                      <View style={styles.recurringRow}>
+                        <View>
+                          <AppText variant="body">Split across categories</AppText>
+                          <AppText variant="caption" color={colors.textMuted}>
+                            Assign parts of the amount to other categories
+                          </AppText>
+                        </View>
+                        <Switch
+                          value={isSplit}
+                          onValueChange={(value) => {
+                            setIsSplit(value);
+                            if (value && splitParts.length === 0) handleAddSplitPart();
+                          }}
+                          trackColor={{ false: colors.border, true: colors.primary }}
+                          thumbColor={colors.card}
+                          accessibilityLabel="Split across categories"
+                        />
+                      </View>
+
+                      {isSplit && (
+                        <>
+                          {splitParts.map((part) => (
+                            <View key={part.key} style={styles.splitPart}>
+                              <ScrollView
+                                horizontal
+                                showsHorizontalScrollIndicator={false}
+                                style={styles.splitCategoryList}
+                                keyboardShouldPersistTaps="handled"
+                              >
+                                {categories.map((cat) => (
+                                  <TouchableOpacity
+                                    key={cat.id}
+                                    style={[
+                                      styles.splitCategoryChip,
+                                      part.categoryId === cat.id && styles.categoryChipSelected,
+                                      { borderColor: cat.color || colors.border },
+                                    ]}
+                                    onPress={() => updateSplitPart(part.key, { categoryId: cat.id })}
+                                  >
+                                    <AppText style={styles.categoryIcon}>{cat.icon || "📦"}</AppText>
+                                    <AppText
+                                      variant="small"
+                                      color={part.categoryId === cat.id ? colors.primaryForeground : colors.text}
+                                    >
+                                      {cat.name}
+                                    </AppText>
+                                  </TouchableOpacity>
+                                ))}
+                              </ScrollView>
+                              <View style={styles.splitAmountRow}>
+                                <Input
+                                  placeholder="0.00"
+                                  keyboardType="numeric"
+                                  value={part.amount}
+                                  onChangeText={(text) => updateSplitPart(part.key, { amount: text })}
+                                  leftIcon={<AppText color={colors.textMuted}>{getCurrencySymbol(currency)}</AppText>}
+                                  containerStyle={styles.splitAmountInput}
+                                />
+                                <TouchableOpacity
+                                  onPress={() => setSplitParts(splitParts.filter((p) => p.key !== part.key))}
+                                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                                  accessibilityLabel="Remove part"
+                                >
+                                  <Ionicons name="remove-circle-outline" size={22} color={colors.danger} />
+                                </TouchableOpacity>
+                              </View>
+                            </View>
+                          ))}
+
+                          <View style={styles.recurringRow}>
+                            <AppText
+                              variant="caption"
+                              color={splitRemainderCents < 0 ? colors.danger : colors.textMuted}
+                            >
+                              {splitRemainderCents < 0
+                                ? "Parts add up to more than the amount"
+                                : `${categories.find((c) => c.id === categoryId)?.name ?? "Main category"}: ${formatCurrency(
+                                    splitRemainderCents,
+                                    undefined,
+                                    currency,
+                                    hideCents
+                                  )}`}
+                            </AppText>
+                            <Button
+                              title="Add part"
+                              variant="ghost"
+                              size="s"
+                              onPress={handleAddSplitPart}
+                              icon={<Ionicons name="add" size={18} color={colors.primary} />}
+                            />
+                          </View>
+                        </>
+                      )}
+                    </View>
+                  )}
+
+                  {!isEditing && !isRefund && (
+                    <View style={styles.recurringSection}>
+                      <View style={styles.recurringRow}>
+                        <View>
+                          <AppText variant="body">Repeat</AppText>
+                          <AppText variant="caption" color={colors.textMuted}>
+                            Add this expense to future months automatically
+                          </AppText>
+                        </View>
+                        <Switch
+                          value={isRecurring}
+                          onValueChange={(value) => {
+                            setIsRecurring(value);
+                            if (value) {
+                              setIsInstallment(false);
+                              setIsSplit(false);
+                            }
+                          }}
+                          trackColor={{ false: colors.border, true: colors.primary }}
+                          thumbColor={colors.card}
+                          accessibilityLabel="Repeat this expense"
+                        />
+                      </View>
+
+                      {isRecurring && (
+                        <>
+                          <View style={styles.frequencyRow}>
+                            {FREQUENCIES.map((f) => (
+                              <TouchableOpacity
+                                key={f}
+                                style={[styles.frequencyChip, frequency === f && styles.categoryChipSelected]}
+                                onPress={() => setFrequency(f)}
+                                accessibilityLabel={RECURRING_FREQUENCY_LABELS[f]}
+                              >
+                                <AppText
+                                  variant="small"
+                                  color={frequency === f ? colors.primaryForeground : colors.text}
+                                >
+                                  {RECURRING_FREQUENCY_LABELS[f]}
+                                </AppText>
+                              </TouchableOpacity>
+                            ))}
+                          </View>
+                          <Input
+                            label="Day of month"
+                            placeholder="1"
+                            keyboardType="number-pad"
+                            value={dayOfMonth}
+                            onChangeText={setDayOfMonth}
+                            maxLength={2}
+                          />
+                        </>
+                      )}
+
+                      <View style={styles.recurringRow}>
+                        <View>
+                          <AppText variant="body">Pay in installments</AppText>
+                          <AppText variant="caption" color={colors.textMuted}>
+                            Split the amount across consecutive months
+                          </AppText>
+                        </View>
+                        <Switch
+                          value={isInstallment}
+                          onValueChange={(value) => {
+                            setIsInstallment(value);
+                            if (value) {
+                              setIsRecurring(false);
+                              setIsSplit(false);
+                            }
+                          }}
+                          trackColor={{ false: colors.border, true: colors.primary }}
+                          thumbColor={colors.card}
+                          accessibilityLabel="Pay in installments"
+                        />
+                      </View>
+
+                      {isInstallment && (
+                        <Input
+                          label="Number of months"
+                          placeholder="12"
+                          keyboardType="number-pad"
+                          value={installmentCount}
+                          onChangeText={setInstallmentCount}
+                          maxLength={3}
+                        />
+                      )}
+                    </View>
+                  )}
+
+                  {isEditing && editingExpense && (
+                    <View style={styles.editLinks}>
+                      <Button
+                        title={
+                          editingExpense.attachmentCount > 0
+                            ? `Receipts (${editingExpense.attachmentCount})`
+                            : "Attach Receipt"
+                        }
+                        variant="ghost"
+                        size="s"
+                        onPress={() => {
+                          hideExpenseModal();
+                          showAttachmentsModal(editingExpense.id);
+                        }}
+                        icon={<Ionicons name="attach" size={18} color={colors.primary} />}
+                      />
+                      <Button
+                        title="History"
+                        variant="ghost"
+                        size="s"
+                        onPress={() => {
+                          hideExpenseModal();
+                          showHistoryModal(editingExpense.id);
+                        }}
+                        icon={<Ionicons name="time-outline" size={18} color={colors.primary} />}
+                      />
+                    </View>
+                  )}
+
                   <View style={styles.actions}>
                     {isEditing && (
                       <Button
@@ -191,7 +1051,7 @@ export const AddExpenseModal = () => {
                       onPress={handleSubmit}
                       loading={loading}
                       style={{ flex: 2 }}
-                      disabled={!amount || !categoryId}
+                      disabled={!amount || !categoryId || !isSplitValid || (isForeign && foreignRate === null)}
                     />
                   </View>
                 </Card>
@@ -234,11 +1094,22 @@ const styles = StyleSheet.create({
     marginLeft: layout.spacing.xs,
     marginBottom: layout.spacing.s,
   },
+  editLinks: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: layout.spacing.m,
+    marginTop: layout.spacing.m,
+  },
   categoryList: {
     flexDirection: "row",
     marginBottom: layout.spacing.xl,
     maxHeight: 50,
   },
+  favoriteList: {
+    flexDirection: "row",
+    marginBottom: layout.spacing.m,
+    maxHeight: 50,
+  },
   categoryChip: {
     flexDirection: "row",
     alignItems: "center",
@@ -256,6 +1127,87 @@ const styles = StyleSheet.create({
   categoryIcon: {
     marginRight: layout.spacing.xs,
   },
+  recurringSection: {
+    marginBottom: layout.spacing.l,
+  },
+  recurringRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.m,
+  },
+  frequencyRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.m,
+  },
+  frequencyChip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dateField: {
+    marginBottom: layout.spacing.xs,
+  },
+  dateHint: {
+    marginLeft: layout.spacing.xs,
+    marginBottom: layout.spacing.m,
+  },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.s,
+  },
+  tagSuggestions: {
+    marginTop: -layout.spacing.s,
+    marginBottom: layout.spacing.m,
+  },
+  currencyRow: {
+    marginTop: -layout.spacing.s,
+  },
+  conversionHint: {
+    marginBottom: layout.spacing.m,
+  },
+  tagChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.xs,
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.xs,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  splitPart: {
+    marginBottom: layout.spacing.s,
+  },
+  splitCategoryList: {
+    flexDirection: "row",
+    marginBottom: layout.spacing.s,
+    maxHeight: 40,
+  },
+  splitCategoryChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: layout.spacing.s,
+    paddingVertical: layout.spacing.xs,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    marginRight: layout.spacing.s,
+  },
+  splitAmountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+  splitAmountInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
   actions: {
     flexDirection: "row",
   },
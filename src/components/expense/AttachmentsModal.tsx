@@ -0,0 +1,234 @@
+import { AttachmentRepository } from "@/database";
+import { AttachmentService } from "@/services";
+import { useAppStore, useUIStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { Attachment } from "@/types";
+import { formatDateTime } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { AppText } from "../common/AppText";
+import { Button } from "../common/Button";
+
+function formatFileSize(bytes: number | null): string {
+  if (bytes === null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const AttachmentsModal = () => {
+  const { attachmentsExpenseId, hideAttachmentsModal } = useUIStore();
+  const refreshData = useAppStore((state) => state.refreshData);
+  const insets = useSafeAreaInsets();
+
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [preview, setPreview] = useState<Attachment | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAttachments = useCallback(async () => {
+    if (attachmentsExpenseId === null) return;
+    setAttachments(await AttachmentRepository.findByExpenseId(attachmentsExpenseId));
+  }, [attachmentsExpenseId]);
+
+  useEffect(() => {
+    setPreview(null);
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleAdd = async () => {
+    if (attachmentsExpenseId === null) return;
+    setIsLoading(true);
+    try {
+      const added = await AttachmentService.pickAndAttach(attachmentsExpenseId);
+      if (added) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        await loadAttachments();
+        await refreshData();
+      }
+    } catch (error) {
+      console.error("Attach file error:", error);
+      Alert.alert("Error", "Failed to attach file");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    if (AttachmentService.isImage(attachment)) {
+      setPreview(attachment);
+      return;
+    }
+    try {
+      await AttachmentService.open(attachment);
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to open file");
+    }
+  };
+
+  const handleRemove = (attachment: Attachment) => {
+    Alert.alert("Remove Attachment", "The stored file will be deleted.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          await AttachmentService.remove(attachment);
+          if (preview?.id === attachment.id) setPreview(null);
+          await loadAttachments();
+          await refreshData();
+        },
+      },
+    ]);
+  };
+
+  if (attachmentsExpenseId === null) return null;
+
+  return (
+    <Modal visible animationType="slide" transparent onRequestClose={hideAttachmentsModal}>
+      <TouchableWithoutFeedback onPress={hideAttachmentsModal}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <View
+              style={[styles.modal, { paddingBottom: Math.max(insets.bottom, layout.spacing.xl) + layout.spacing.l }]}
+            >
+              <View style={styles.header}>
+                <AppText variant="heading2">{preview ? "Receipt" : "Attachments"}</AppText>
+                <TouchableOpacity
+                  onPress={preview ? () => setPreview(null) : hideAttachmentsModal}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name={preview ? "arrow-back" : "close"} size={24} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+
+              {preview ? (
+                <Image
+                  source={{ uri: AttachmentService.getUri(preview) }}
+                  style={styles.preview}
+                  resizeMode="contain"
+                  accessibilityLabel={preview.originalName ?? "Receipt image"}
+                />
+              ) : (
+                <>
+                  <ScrollView style={styles.list}>
+                    {attachments.length === 0 && (
+                      <AppText color={colors.textMuted} align="center" style={styles.empty}>
+                        No receipts attached yet.
+                      </AppText>
+                    )}
+                    {attachments.map((attachment) => (
+                      <TouchableOpacity
+                        key={attachment.id}
+                        style={styles.row}
+                        onPress={() => handleOpen(attachment)}
+                        activeOpacity={0.7}
+                      >
+                        {AttachmentService.isImage(attachment) ? (
+                          <Image source={{ uri: AttachmentService.getUri(attachment) }} style={styles.thumbnail} />
+                        ) : (
+                          <View style={[styles.thumbnail, styles.fileIcon]}>
+                            <Ionicons name="document-text-outline" size={24} color={colors.textMuted} />
+                          </View>
+                        )}
+                        <View style={styles.info}>
+                          <AppText variant="bodyMedium" numberOfLines={1}>
+                            {attachment.originalName ?? attachment.fileName}
+                          </AppText>
+                          <AppText variant="caption" color={colors.textMuted}>
+                            {[formatFileSize(attachment.sizeBytes), formatDateTime(attachment.createdAt)]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </AppText>
+                        </View>
+                        <TouchableOpacity
+                          onPress={() => handleRemove(attachment)}
+                          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                          accessibilityLabel="Remove attachment"
+                        >
+                          <Ionicons name="trash-outline" size={20} color={colors.danger} />
+                        </TouchableOpacity>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+
+                  <Button
+                    title="Attach Receipt"
+                    onPress={handleAdd}
+                    loading={isLoading}
+                    icon={<Ionicons name="attach" size={20} color={colors.primaryForeground} />}
+                  />
+                </>
+              )}
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: "flex-end",
+  },
+  modal: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: layout.borderRadius.xl,
+    borderTopRightRadius: layout.borderRadius.xl,
+    padding: layout.spacing.l,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.l,
+  },
+  list: {
+    marginBottom: layout.spacing.m,
+  },
+  empty: {
+    paddingVertical: layout.spacing.l,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: layout.spacing.s,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: layout.borderRadius.s,
+    backgroundColor: colors.background,
+  },
+  fileIcon: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: layout.spacing.m,
+  },
+  preview: {
+    width: "100%",
+    height: 420,
+    borderRadius: layout.borderRadius.m,
+    backgroundColor: colors.background,
+  },
+});
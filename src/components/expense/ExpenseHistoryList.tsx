@@ -0,0 +1,170 @@
+import { ExpenseAuditRepository } from "@/database";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { ExpenseAuditEntry } from "@/types";
+import { formatCurrency, formatDate, formatDateTime, getMonthName } from "@/utils";
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { AppText } from "../common/AppText";
+
+interface ExpenseHistoryListProps {
+  expenseId: number;
+  refreshKey?: unknown; // Reloads the history when it changes, e.g. the expense's updatedAt
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  monthId: "Month",
+  categoryId: "Category",
+  amountCents: "Amount",
+  note: "Note",
+  expenseDate: "Date",
+  isPaid: "Paid",
+  isVerified: "Verified",
+  merchantId: "Merchant",
+  accountId: "Account",
+  originalCurrency: "Currency",
+  originalAmountCents: "Original amount",
+  exchangeRate: "Rate",
+  kind: "Type",
+  refundOfExpenseId: "Refund of",
+  lineItems: "Split",
+  tagIds: "Tags",
+};
+
+function getActionTitle(entry: ExpenseAuditEntry): string {
+  switch (entry.action) {
+    case "create":
+      return "Created";
+    case "update":
+      return "Edited";
+    case "delete":
+      return "Deleted";
+    case "restore":
+      return "Restored";
+    case "paid":
+      return entry.changes.isPaid?.new ? "Marked paid" : "Marked unpaid";
+    case "verification":
+      return entry.changes.isVerified?.new ? "Verified" : "Unverified";
+  }
+}
+
+/**
+ * Change history of an expense, newest first
+ */
+export const ExpenseHistoryList: React.FC<ExpenseHistoryListProps> = ({ expenseId, refreshKey }) => {
+  const { categories, merchants, accounts, tags, monthSummaries, currency, hideCents } = useAppStore();
+  const [entries, setEntries] = useState<ExpenseAuditEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    ExpenseAuditRepository.findByExpenseId(expenseId)
+      .then((result) => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((error) => console.error("Failed to load expense history:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId, refreshKey]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    switch (field) {
+      case "amountCents":
+        return formatCurrency(value as number, undefined, currency, hideCents);
+      case "originalAmountCents":
+        return ((value as number) / 100).toFixed(2);
+      case "categoryId":
+        return categories.find((c) => c.id === value)?.name ?? "Deleted category";
+      case "merchantId":
+        return merchants.find((m) => m.id === value)?.name ?? "Unknown merchant";
+      case "accountId":
+        return accounts.find((a) => a.id === value)?.name ?? "Deleted account";
+      case "monthId": {
+        const summary = monthSummaries.find((s) => s.monthId === value);
+        return summary ? `${getMonthName(summary.month)} ${summary.year}` : `Month #${value}`;
+      }
+      case "expenseDate":
+        return formatDate(value as string);
+      case "isPaid":
+      case "isVerified":
+        return value ? "Yes" : "No";
+      case "kind":
+        return value === "refund" ? "Refund" : "Expense";
+      case "refundOfExpenseId":
+        return `Expense #${value}`;
+      case "lineItems": {
+        const count = (value as unknown[]).length;
+        return count === 0 ? "None" : `${count} parts`;
+      }
+      case "tagIds": {
+        const names = (value as number[]).map((id) => `#${tags.find((t) => t.id === id)?.name ?? id}`);
+        return names.length === 0 ? "None" : names.join(" ");
+      }
+      default:
+        return String(value);
+    }
+  };
+
+  if (entries.length === 0) {
+    return (
+      <AppText color={colors.textMuted} align="center" style={styles.empty}>
+        No changes recorded yet.
+      </AppText>
+    );
+  }
+
+  return (
+    <View>
+      {entries.map((entry) => (
+        <View key={entry.id} style={styles.entry}>
+          <View style={styles.entryHeader}>
+            <AppText variant="bodyMedium">{getActionTitle(entry)}</AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              {formatDateTime(entry.createdAt)}
+            </AppText>
+          </View>
+          {Object.entries(entry.changes).map(([field, change]) => (
+            <View key={field} style={styles.change}>
+              <AppText variant="caption" color={colors.textMuted} style={styles.fieldLabel}>
+                {FIELD_LABELS[field] ?? field}
+              </AppText>
+              <AppText variant="caption" style={styles.fieldValue}>
+                {entry.action === "create"
+                  ? formatValue(field, change.new)
+                  : `${formatValue(field, change.old)} → ${formatValue(field, change.new)}`}
+              </AppText>
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  empty: {
+    paddingVertical: layout.spacing.l,
+  },
+  entry: {
+    paddingVertical: layout.spacing.m,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.xs,
+  },
+  change: {
+    flexDirection: "row",
+    marginTop: layout.spacing.xs,
+  },
+  fieldLabel: {
+    width: 110,
+  },
+  fieldValue: {
+    flex: 1,
+  },
+});
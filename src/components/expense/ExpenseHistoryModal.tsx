@@ -0,0 +1,61 @@
+import { useUIStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { Modal, ScrollView, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { AppText } from "../common/AppText";
+import { ExpenseHistoryList } from "./ExpenseHistoryList";
+
+export const ExpenseHistoryModal = () => {
+  const { historyExpenseId, hideHistoryModal } = useUIStore();
+  const insets = useSafeAreaInsets();
+
+  if (historyExpenseId === null) return null;
+
+  return (
+    <Modal visible animationType="slide" transparent onRequestClose={hideHistoryModal}>
+      <TouchableWithoutFeedback onPress={hideHistoryModal}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <View
+              style={[styles.modal, { paddingBottom: Math.max(insets.bottom, layout.spacing.xl) + layout.spacing.l }]}
+            >
+              <View style={styles.header}>
+                <AppText variant="heading2">History</AppText>
+                <TouchableOpacity onPress={hideHistoryModal} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                  <Ionicons name="close" size={24} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView>
+                <ExpenseHistoryList expenseId={historyExpenseId} />
+              </ScrollView>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: "flex-end",
+  },
+  modal: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: layout.borderRadius.xl,
+    borderTopRightRadius: layout.borderRadius.xl,
+    padding: layout.spacing.l,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.s,
+  },
+});
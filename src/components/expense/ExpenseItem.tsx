@@ -1,5 +1,5 @@
 import { AppText } from "@/components/common";
-import { useAppStore } from "@/stores";
+import { useAppStore, useUIStore } from "@/stores";
 import { colors, layout } from "@/theme";
 import type { ExpenseWithCategory } from "@/types";
 import { formatCurrency, formatDateTime } from "@/utils";
@@ -9,6 +9,7 @@ import { StyleSheet, TouchableOpacity, View } from "react-native";
 
 interface ExpenseItemProps {
   expense: ExpenseWithCategory;
+  partCents?: number | null; // Share of a split expense shown in `expense.category`
   onPress?: () => void;
   onLongPress?: () => void;
   isSelected?: boolean;
@@ -18,6 +19,7 @@ interface ExpenseItemProps {
 
 export const ExpenseItem: React.FC<ExpenseItemProps> = ({
   expense,
+  partCents = null,
   onPress,
   onLongPress,
   isSelected = false,
@@ -26,6 +28,48 @@ export const ExpenseItem: React.FC<ExpenseItemProps> = ({
 }) => {
   const currency = useAppStore((state) => state.currency);
   const hideCents = useAppStore((state) => state.hideCents);
+  const installmentPlans = useAppStore((state) => state.installmentPlans);
+  const tags = useAppStore((state) => state.tags);
+  const merchants = useAppStore((state) => state.merchants);
+  const selectedMonthExpenses = useAppStore((state) => state.selectedMonthExpenses);
+  const showAttachmentsModal = useUIStore((state) => state.showAttachmentsModal);
+
+  // "3 of 12" for plan installments, "Payoff" for the expense that settled the rest of a plan
+  let installmentLabel: string | null = null;
+  if (expense.installmentPlanId !== null) {
+    const plan = installmentPlans.find((p) => p.id === expense.installmentPlanId);
+    if (expense.installmentNumber === null) {
+      installmentLabel = "Payoff";
+    } else if (plan) {
+      installmentLabel = `${expense.installmentNumber} of ${plan.installmentCount}`;
+    }
+  }
+
+  const isPart = partCents !== null;
+  const isRefund = expense.kind === "refund";
+  // Refunds name the expense they give money back for, when it is in this month
+  const refundedExpense =
+    expense.refundOfExpenseId !== null
+      ? selectedMonthExpenses.find((e) => e.id === expense.refundOfExpenseId)
+      : undefined;
+  const refundText = refundedExpense
+    ? `Refund of ${refundedExpense.note || formatCurrency(refundedExpense.amountCents, undefined, currency, hideCents)}`
+    : null;
+  const tagText = expense.tagIds
+    .map((id) => tags.find((t) => t.id === id)?.name)
+    .filter(Boolean)
+    .map((name) => `#${name}`)
+    .join(" ");
+  const merchantName = merchants.find((m) => m.id === expense.merchantId)?.name;
+  const noteText = [
+    refundText,
+    merchantName,
+    expense.note,
+    tagText,
+    isPart ? `${formatCurrency(expense.amountCents, undefined, currency, hideCents)} total` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 
   return (
     <TouchableOpacity
@@ -50,10 +94,49 @@ export const ExpenseItem: React.FC<ExpenseItemProps> = ({
       {/* Content */}
       <View style={styles.content}>
         <View style={styles.topRow}>
-          <AppText variant="bodyMedium" numberOfLines={1} style={expense.isPaid && styles.textPaid}>
-            {expense.category.name}
-          </AppText>
+          <View style={styles.titleContainer}>
+            <AppText variant="bodyMedium" numberOfLines={1} style={expense.isPaid && styles.textPaid}>
+              {expense.category.name}
+            </AppText>
+            {installmentLabel && (
+              <View style={[styles.labelBadge, { borderColor: colors.info }]}>
+                <AppText variant="caption" color={colors.info}>
+                  {installmentLabel}
+                </AppText>
+              </View>
+            )}
+            {isRefund && (
+              <View style={[styles.labelBadge, { borderColor: colors.success }]}>
+                <AppText variant="caption" color={colors.success}>
+                  Refund
+                </AppText>
+              </View>
+            )}
+            {isPart && (
+              <View style={[styles.labelBadge, { borderColor: colors.textMuted }]}>
+                <AppText variant="caption" color={colors.textMuted}>
+                  Split
+                </AppText>
+              </View>
+            )}
+          </View>
           <View style={styles.amountContainer}>
+            {expense.attachmentCount > 0 && (
+              <TouchableOpacity
+                style={[styles.statusBadge, { backgroundColor: colors.textMuted }]}
+                onPress={() => showAttachmentsModal(expense.id)}
+                disabled={isSelectionMode}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel={`View ${expense.attachmentCount} attachment${expense.attachmentCount === 1 ? "" : "s"}`}
+              >
+                <Ionicons name="attach" size={10} color={colors.white} />
+              </TouchableOpacity>
+            )}
+            {expense.recurringExpenseId !== null && (
+              <View style={[styles.statusBadge, { backgroundColor: colors.info }]}>
+                <Ionicons name="repeat" size={10} color={colors.white} />
+              </View>
+            )}
             {expense.isVerified && (
               <View style={[styles.statusBadge, { backgroundColor: colors.primary }]}>
                 <Ionicons name="shield-checkmark" size={10} color={colors.white} />
@@ -64,8 +147,12 @@ export const ExpenseItem: React.FC<ExpenseItemProps> = ({
                 <Ionicons name="checkmark" size={10} color={colors.white} />
               </View>
             )}
-            <AppText variant="bodyMedium" color={expense.isPaid ? colors.textMuted : colors.text}>
-              {formatCurrency(expense.amountCents, undefined, currency, hideCents)}
+            <AppText
+              variant="bodyMedium"
+              color={isRefund ? colors.success : expense.isPaid ? colors.textMuted : colors.text}
+            >
+              {isRefund ? "−" : ""}
+              {formatCurrency(Math.abs(partCents ?? expense.amountCents), undefined, currency, hideCents)}
             </AppText>
           </View>
         </View>
@@ -77,8 +164,13 @@ export const ExpenseItem: React.FC<ExpenseItemProps> = ({
             numberOfLines={1}
             style={[styles.note, expense.isPaid && styles.textPaid]}
           >
-            {expense.note || ""}
+            {noteText}
           </AppText>
+          {expense.originalCurrency !== null && expense.originalAmountCents !== null && (
+            <AppText variant="caption" color={colors.textMuted} style={styles.originalAmount}>
+              {formatCurrency(expense.originalAmountCents, undefined, expense.originalCurrency, hideCents)}
+            </AppText>
+          )}
           <AppText variant="caption" color={colors.textMuted}>
             {formatDateTime(expense.createdAt)}
           </AppText>
@@ -140,6 +232,17 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     marginBottom: 0, // Reduced from 2
   },
+  titleContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexShrink: 1,
+    gap: layout.spacing.xs,
+  },
+  labelBadge: {
+    paddingHorizontal: layout.spacing.xs,
+    borderRadius: layout.borderRadius.s,
+    borderWidth: 1,
+  },
   amountContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -160,6 +263,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     justifyContent: "space-between",
   },
+  originalAmount: {
+    marginRight: layout.spacing.s,
+  },
   note: {
     flex: 1,
     marginRight: layout.spacing.s,
@@ -0,0 +1,183 @@
+import { AppText, Button, Card, Input } from "@/components/common";
+import { DuplicateRepository } from "@/database";
+import { QuickAddService } from "@/services";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { formatCurrency, formatDate, getCurrentDateString, getMonthName, parseDateString } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import React, { useState } from "react";
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { confirmDuplicate } from "./confirmDuplicate";
+
+/**
+ * One-line expense entry ("coffee 4.50 food yesterday") with a preview of what will be saved
+ */
+export const QuickAddInput: React.FC = () => {
+  const { selectedMonthId, monthSummaries, categories, currency, hideCents, currentProfileId, addExpense } =
+    useAppStore();
+  const [text, setText] = useState("");
+  // Category picked in the preview when the line names none
+  const [pickedCategoryId, setPickedCategoryId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const selectedSummary = monthSummaries.find((m) => m.monthId === selectedMonthId);
+  // Date words resolve within the month being viewed
+  const referenceDate = selectedSummary
+    ? QuickAddService.getReferenceDate(selectedSummary.year, selectedSummary.month, getCurrentDateString())
+    : getCurrentDateString();
+  const parsed = QuickAddService.parse(text, categories, referenceDate);
+  const draft = { ...parsed, categoryId: parsed.categoryId ?? pickedCategoryId };
+  const dto = selectedMonthId ? QuickAddService.toCreateDTO(draft, selectedMonthId) : null;
+  const category = categories.find((c) => c.id === draft.categoryId);
+
+  const date = parseDateString(draft.expenseDate);
+  const isOtherMonth =
+    !!selectedSummary && !!date && (date.year !== selectedSummary.year || date.month !== selectedSummary.month);
+
+  const handleChangeText = (value: string) => {
+    setText(value);
+    if (!value.trim()) setPickedCategoryId(null);
+  };
+
+  const handleAdd = async () => {
+    if (!dto || loading) return;
+
+    setLoading(true);
+    try {
+      const matches = await DuplicateRepository.findMatches(
+        {
+          categoryId: dto.categoryId,
+          amountCents: dto.amountCents,
+          note: dto.note ?? null,
+          expenseDate: draft.expenseDate,
+          kind: "expense",
+        },
+        currentProfileId,
+      );
+      const match = matches[0];
+      if (
+        match &&
+        !(await confirmDuplicate(
+          match,
+          categories.find((c) => c.id === match.categoryId)?.name ?? "Unknown",
+          formatCurrency(match.amountCents, undefined, currency, hideCents),
+        ))
+      ) {
+        return;
+      }
+
+      await addExpense(dto);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setText("");
+      setPickedCategoryId(null);
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to add expense");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Input
+        value={text}
+        onChangeText={handleChangeText}
+        placeholder="coffee 4.50 food yesterday"
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        onSubmitEditing={handleAdd}
+        leftIcon={<Ionicons name="flash-outline" size={18} color={colors.textMuted} />}
+        containerStyle={styles.input}
+        accessibilityLabel="Quick add expense"
+      />
+
+      {text.trim().length > 0 && (
+        <Card style={styles.preview}>
+          <View style={styles.previewRow}>
+            <AppText variant="heading3" color={draft.amountCents ? colors.text : colors.textMuted}>
+              {draft.amountCents ? formatCurrency(draft.amountCents, undefined, currency, hideCents) : "No amount"}
+            </AppText>
+            <AppText variant="caption" color={draft.isPaid ? colors.success : colors.textMuted}>
+              {draft.isPaid ? "Paid" : "Unpaid"}
+            </AppText>
+          </View>
+
+          {category ? (
+            <AppText>
+              {category.icon || "📦"} {category.name}
+            </AppText>
+          ) : (
+            <>
+              <AppText variant="caption" color={colors.warning}>
+                No category matched, pick one
+              </AppText>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.chips}
+                keyboardShouldPersistTaps="handled"
+              >
+                {categories.map((cat) => (
+                  <TouchableOpacity
+                    key={cat.id}
+                    style={[styles.chip, { borderColor: cat.color || colors.border }]}
+                    onPress={() => setPickedCategoryId(cat.id)}
+                  >
+                    <AppText variant="small">
+                      {cat.icon || "📦"} {cat.name}
+                    </AppText>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          <AppText variant="caption" color={colors.textMuted}>
+            {formatDate(draft.expenseDate)}
+            {draft.note ? ` · ${draft.note}` : ""}
+          </AppText>
+          {isOtherMonth && date && (
+            <AppText variant="caption" color={colors.warning}>
+              Will be added to {getMonthName(date.month)} {date.year}
+            </AppText>
+          )}
+
+          <Button title="Add" size="s" onPress={handleAdd} disabled={!dto} loading={loading} style={styles.add} />
+        </Card>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: layout.spacing.m,
+  },
+  input: {
+    marginBottom: 0,
+  },
+  preview: {
+    marginTop: layout.spacing.s,
+    gap: layout.spacing.xs,
+  },
+  previewRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  chips: {
+    gap: layout.spacing.s,
+    paddingVertical: layout.spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+  },
+  add: {
+    marginTop: layout.spacing.s,
+  },
+});
@@ -0,0 +1,22 @@
+import type { Expense } from "@/types";
+import { formatDate } from "@/utils";
+import { Alert } from "react-native";
+
+/**
+ * Ask whether to save an expense that looks like one already saved
+ * @param categoryName - Name of the category of `match`
+ * @param amountText - Formatted amount of `match`
+ * @returns Whether to save it anyway
+ */
+export const confirmDuplicate = (match: Expense, categoryName: string, amountText: string) =>
+  new Promise<boolean>((resolve) => {
+    Alert.alert(
+      "Possible Duplicate",
+      `This looks like the ${amountText} ${categoryName}${match.note ? ` (${match.note})` : ""} expense of ${formatDate(match.expenseDate)}. Save it anyway?`,
+      [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+        { text: "Save Anyway", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) },
+    );
+  });
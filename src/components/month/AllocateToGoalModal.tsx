@@ -0,0 +1,206 @@
+import { AppText, Button, Card, Input } from "@/components/common";
+import { SavingsGoalService } from "@/services";
+import { useAppStore, useUIStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { formatCurrency, formatForInput, getMonthName, parseToCents } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import { Alert, Modal, ScrollView, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, View } from "react-native";
+
+/**
+ * Set part of the selected month's remaining balance aside for a savings goal
+ */
+export const AllocateToGoalModal = () => {
+  const router = useRouter();
+  const { isAllocateToGoalModalVisible, hideAllocateToGoalModal } = useUIStore();
+  const { savingsGoals, goalContributions, monthSummaries, selectedMonthId, contributeToGoal, currency, hideCents } =
+    useAppStore();
+
+  const [selectedGoalId, setSelectedGoalId] = useState<number | null>(null);
+  const [amount, setAmount] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const summary = monthSummaries.find((m) => m.monthId === selectedMonthId);
+  if (!isAllocateToGoalModalVisible || !summary || summary.monthId === null) return null;
+
+  const { year, month, monthId } = summary;
+  const availableCents = Math.max(0, summary.remainingCents);
+
+  const handleSelect = (goalId: number) => {
+    const goal = savingsGoals.find((g) => g.id === goalId);
+    if (!goal) return;
+    // Suggest what the goal still needs, up to what the month has left
+    const remainingCents = Math.max(
+      0,
+      goal.targetCents - SavingsGoalService.calculateSavedCents(goal.id, goalContributions),
+    );
+    setSelectedGoalId(goalId);
+    setAmount(formatForInput(Math.min(remainingCents, availableCents)));
+  };
+
+  const handleClose = () => {
+    setSelectedGoalId(null);
+    setAmount("");
+    hideAllocateToGoalModal();
+  };
+
+  const handleManageGoals = () => {
+    handleClose();
+    router.push("/goals" as any);
+  };
+
+  const handleSave = async () => {
+    if (selectedGoalId === null) return;
+    const amountCents = parseToCents(amount);
+    if (amountCents === null || amountCents <= 0) {
+      Alert.alert("Invalid Amount", "Please enter an amount greater than zero");
+      return;
+    }
+    if (amountCents > availableCents) {
+      Alert.alert(
+        "Not Enough Left",
+        `Only ${formatCurrency(availableCents, undefined, currency, hideCents)} is left in ${getMonthName(month)}`,
+      );
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await contributeToGoal(selectedGoalId, monthId, amountCents);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      handleClose();
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to set money aside");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={true} onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <TouchableWithoutFeedback onPress={handleClose}>
+          <View style={StyleSheet.absoluteFill} />
+        </TouchableWithoutFeedback>
+        <Card style={styles.modalContent}>
+          <View style={styles.header}>
+            <AppText variant="heading3">
+              Set Aside · {getMonthName(month)} {year}
+            </AppText>
+            <TouchableOpacity onPress={handleClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Ionicons name="close" size={24} color={colors.danger} />
+            </TouchableOpacity>
+          </View>
+
+          <AppText variant="caption" color={colors.textMuted} style={styles.hint}>
+            {formatCurrency(availableCents, undefined, currency, hideCents)} left this month. What you set aside is
+            taken out of the remaining balance.
+          </AppText>
+
+          <ScrollView
+            style={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {savingsGoals.length === 0 ? (
+              <View style={styles.empty}>
+                <AppText variant="body" color={colors.textMuted} align="center">
+                  No savings goals yet
+                </AppText>
+                <Button title="Add a Goal" size="s" variant="secondary" onPress={handleManageGoals} />
+              </View>
+            ) : (
+              savingsGoals.map((goal) => {
+                const progress = SavingsGoalService.getProgress(goal, goalContributions, year, month);
+                const isSelected = goal.id === selectedGoalId;
+                return (
+                  <TouchableOpacity key={goal.id} onPress={() => handleSelect(goal.id)} activeOpacity={0.7}>
+                    <View style={styles.itemContainer}>
+                      <Ionicons
+                        name={isSelected ? "radio-button-on" : "radio-button-off"}
+                        size={20}
+                        color={isSelected ? colors.primary : colors.textMuted}
+                      />
+                      <View style={styles.itemInfo}>
+                        <AppText variant="bodyMedium">{goal.name}</AppText>
+                        <AppText variant="caption" color={colors.textMuted}>
+                          {formatCurrency(progress.savedCents, undefined, currency, hideCents)} of{" "}
+                          {formatCurrency(goal.targetCents, undefined, currency, hideCents)}
+                        </AppText>
+                      </View>
+                      {progress.isComplete && <Ionicons name="checkmark-circle" size={20} color={colors.success} />}
+                    </View>
+                    <View style={styles.separator} />
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </ScrollView>
+
+          {selectedGoalId !== null && (
+            <View style={styles.form}>
+              <Input
+                placeholder="Amount"
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="numeric"
+                containerStyle={{ marginBottom: layout.spacing.s }}
+              />
+              <Button title="Set Aside" onPress={handleSave} loading={loading} disabled={!amount} />
+            </View>
+          )}
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: layout.borderRadius.xl,
+    borderTopRightRadius: layout.borderRadius.xl,
+    padding: layout.spacing.l,
+    height: "70%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.m,
+  },
+  hint: {
+    marginBottom: layout.spacing.s,
+  },
+  scrollContent: {
+    flex: 1,
+  },
+  empty: {
+    gap: layout.spacing.m,
+    paddingVertical: layout.spacing.l,
+  },
+  itemContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.m,
+    paddingVertical: layout.spacing.m,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  separator: {
+    height: 1,
+    backgroundColor: colors.separator,
+  },
+  form: {
+    marginTop: layout.spacing.m,
+  },
+});
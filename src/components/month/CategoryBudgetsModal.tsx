@@ -0,0 +1,269 @@
+import { AppText, Button, Card, Input } from "@/components/common";
+import { CalculationService } from "@/services";
+import { useAppStore, useUIStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { Category } from "@/types";
+import { formatCurrency, formatForInput, getMonthName, parseToCents } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import React, { useState } from "react";
+import { Alert, Modal, ScrollView, StyleSheet, TouchableOpacity, TouchableWithoutFeedback, View } from "react-native";
+
+/**
+ * Budgets of the selected month: set a category's budget for the whole year or for this month only
+ */
+export const CategoryBudgetsModal = () => {
+  const { isCategoryBudgetsModalVisible, hideCategoryBudgetsModal } = useUIStore();
+  const {
+    categories,
+    categoryBudgets,
+    monthSummaries,
+    selectedMonthId,
+    selectedMonthExpenses,
+    setCategoryBudget,
+    currency,
+    hideCents,
+  } = useAppStore();
+
+  const [editingCategoryId, setEditingCategoryId] = useState<number | null>(null);
+  const [amount, setAmount] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const summary = monthSummaries.find((m) => m.monthId === selectedMonthId);
+  if (!isCategoryBudgetsModalVisible || !summary) return null;
+
+  const { year, month } = summary;
+  const monthName = getMonthName(month);
+  const budgets = CalculationService.getCategoryBudgets(categoryBudgets, month);
+  const spentByCategory = new Map(
+    CalculationService.calculateCategoryBreakdown(selectedMonthExpenses).map((c) => [c.categoryId, c.totalCents]),
+  );
+  const findBudget = (categoryId: number, budgetMonth: number | null) =>
+    categoryBudgets.find((b) => b.categoryId === categoryId && b.month === budgetMonth);
+
+  const editingCategory = categories.find((c) => c.id === editingCategoryId);
+  const yearlyBudget = editingCategory ? findBudget(editingCategory.id, null) : undefined;
+  const monthBudget = editingCategory ? findBudget(editingCategory.id, month) : undefined;
+
+  const handleEdit = (category: Category) => {
+    const current = budgets.get(category.id);
+    setEditingCategoryId(category.id);
+    setAmount(current !== undefined ? formatForInput(current) : "");
+  };
+
+  const handleReset = () => {
+    setEditingCategoryId(null);
+    setAmount("");
+  };
+
+  const handleClose = () => {
+    handleReset();
+    hideCategoryBudgetsModal();
+  };
+
+  const save = async (budgetMonth: number | null, amountCents: number | null) => {
+    if (!editingCategory) return;
+    setLoading(true);
+    try {
+      await setCategoryBudget(editingCategory.id, year, budgetMonth, amountCents);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      handleReset();
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save budget");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = (budgetMonth: number | null) => {
+    const amountCents = parseToCents(amount);
+    if (amountCents === null || amountCents < 0) {
+      Alert.alert("Invalid Amount", "Please enter a valid budget");
+      return;
+    }
+    save(budgetMonth, amountCents);
+  };
+
+  const renderItem = (category: Category) => {
+    const budgetCents = budgets.get(category.id);
+    const spentCents = spentByCategory.get(category.id) ?? 0;
+    const progress =
+      budgetCents !== undefined ? CalculationService.calculateBudgetProgress(budgetCents, spentCents) : null;
+    const isMonthOverride = !!findBudget(category.id, month);
+
+    return (
+      <TouchableOpacity key={category.id} onPress={() => handleEdit(category)} activeOpacity={0.7}>
+        <View style={styles.itemContainer}>
+          <AppText style={styles.icon}>{category.icon || "📦"}</AppText>
+          <View style={styles.itemInfo}>
+            <AppText variant="bodyMedium">{category.name}</AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              {progress
+                ? `${formatCurrency(spentCents, undefined, currency, hideCents)} of ${formatCurrency(
+                    progress.budgetCents,
+                    undefined,
+                    currency,
+                    hideCents,
+                  )}${isMonthOverride ? ` · ${monthName} only` : ""}`
+                : "No budget"}
+            </AppText>
+          </View>
+          {progress && (
+            <AppText variant="caption" color={progress.isOver ? colors.danger : colors.success}>
+              {progress.isOver
+                ? `${formatCurrency(-progress.remainingCents, undefined, currency, hideCents)} over`
+                : `${formatCurrency(progress.remainingCents, undefined, currency, hideCents)} left`}
+            </AppText>
+          )}
+        </View>
+        <View style={styles.separator} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={true} onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <TouchableWithoutFeedback onPress={handleClose}>
+          <View style={StyleSheet.absoluteFill} />
+        </TouchableWithoutFeedback>
+        <Card style={styles.modalContent}>
+          <View style={styles.header}>
+            <AppText variant="heading3">
+              Budgets · {monthName} {year}
+            </AppText>
+            <TouchableOpacity onPress={handleClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Ionicons name="close" size={24} color={colors.danger} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            {editingCategory ? (
+              <View style={styles.form}>
+                <AppText variant="bodyMedium" style={{ marginBottom: layout.spacing.s }}>
+                  {editingCategory.icon || "📦"} {editingCategory.name}
+                </AppText>
+                <Input
+                  placeholder="Budget"
+                  value={amount}
+                  onChangeText={setAmount}
+                  keyboardType="numeric"
+                  autoFocus
+                  containerStyle={{ marginBottom: 0 }}
+                />
+                <View style={styles.buttonRow}>
+                  <Button
+                    title={`Every month of ${year}`}
+                    size="s"
+                    onPress={() => handleSave(null)}
+                    loading={loading}
+                    disabled={!amount}
+                    style={{ flex: 1 }}
+                  />
+                  <Button
+                    title={`${monthName} only`}
+                    size="s"
+                    variant="secondary"
+                    onPress={() => handleSave(month)}
+                    disabled={loading || !amount}
+                    style={{ flex: 1 }}
+                  />
+                </View>
+                {monthBudget && (
+                  <Button
+                    title={yearlyBudget ? `Use the ${year} budget in ${monthName}` : `Remove the ${monthName} budget`}
+                    size="s"
+                    variant="ghost"
+                    onPress={() => save(month, null)}
+                    disabled={loading}
+                    style={styles.removeButton}
+                  />
+                )}
+                {yearlyBudget && (
+                  <Button
+                    title={`Remove the ${year} budget`}
+                    size="s"
+                    variant="danger"
+                    onPress={() => save(null, null)}
+                    disabled={loading}
+                    style={styles.removeButton}
+                  />
+                )}
+                <TouchableOpacity onPress={handleReset}>
+                  <AppText variant="caption" color={colors.textMuted} align="right" style={{ marginTop: 4 }}>
+                    Cancel
+                  </AppText>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <AppText variant="caption" color={colors.textMuted} style={styles.hint}>
+                Tap a category to set its budget. Paid and unpaid expenses both count.
+              </AppText>
+            )}
+
+            {categories.map(renderItem)}
+          </ScrollView>
+        </Card>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: layout.borderRadius.xl,
+    borderTopRightRadius: layout.borderRadius.xl,
+    padding: layout.spacing.l,
+    height: "75%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.l,
+  },
+  scrollContent: {
+    flex: 1,
+  },
+  form: {
+    marginBottom: layout.spacing.l,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.s,
+  },
+  removeButton: {
+    marginTop: layout.spacing.s,
+  },
+  hint: {
+    marginBottom: layout.spacing.s,
+  },
+  itemContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.m,
+    paddingVertical: layout.spacing.m,
+  },
+  icon: {
+    fontSize: 20,
+  },
+  itemInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  separator: {
+    height: 1,
+    backgroundColor: colors.separator,
+  },
+});
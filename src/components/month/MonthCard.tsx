@@ -1,4 +1,5 @@
 import { AppText, Card } from "@/components/common";
+import { CalculationService } from "@/services";
 import { useAppStore } from "@/stores";
 import { colors, layout } from "@/theme";
 import type { MonthSummary } from "@/types";
@@ -31,11 +32,17 @@ export const MonthCard: React.FC<MonthCardProps> = ({ summary, onPress, dimmed =
   if (isNegative) statusColor = colors.danger;
 
   // Calculate progress for visual indicator
-  // Cap at 100% for bar width
-  const spentRatio = summary.allowanceCents > 0 ? Math.min(summary.spentCents / summary.allowanceCents, 1) : 0;
+  // Cap at 100% for bar width; a balance carried in adds to what can be spent
+  const availableCents = summary.allowanceCents + (summary.carryInCents ?? 0);
+  const spentRatio = availableCents > 0 ? Math.min(summary.spentCents / availableCents, 1) : 0;
 
   const progressBarColor: string = isNegative ? colors.danger : colors.primary;
 
+  const budget = summary.budget;
+  const budgetProgress = budget
+    ? CalculationService.calculateBudgetProgress(budget.budgetedCents, budget.spentCents)
+    : null;
+
   return (
     <TouchableOpacity onPress={onPress} activeOpacity={0.8}>
       <Card style={[styles.container, dimmed && { opacity: 0.4 }]}>
@@ -89,6 +96,31 @@ export const MonthCard: React.FC<MonthCardProps> = ({ summary, onPress, dimmed =
             style={[styles.progressBar, { width: `${spentRatio * 100}%` as any, backgroundColor: progressBarColor }]}
           />
         </View>
+
+        {summary.carryInCents !== null && (summary.carryInCents !== 0 || summary.carryOutCents !== 0) && (
+          <View style={styles.carryRow}>
+            <AppText variant="caption" color={colors.textMuted}>
+              Carried in: {formatWithSign(summary.carryInCents, undefined, currency, hideCents).text}
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              Carries over: {formatWithSign(summary.carryOutCents ?? 0, undefined, currency, hideCents).text}
+            </AppText>
+          </View>
+        )}
+
+        {budget && budgetProgress && (
+          <View style={styles.budgetRow}>
+            <AppText variant="caption" color={colors.textMuted}>
+              Budgets: {formatCurrency(budget.spentCents, undefined, currency, hideCents)} of{" "}
+              {formatCurrency(budget.budgetedCents, undefined, currency, hideCents)}
+            </AppText>
+            <AppText variant="caption" color={budget.overBudgetCount > 0 ? colors.danger : colors.success}>
+              {budget.overBudgetCount > 0
+                ? `${budget.overBudgetCount} over budget`
+                : `${Math.round(budgetProgress.ratio * 100)}% used`}
+            </AppText>
+          </View>
+        )}
       </Card>
     </TouchableOpacity>
   );
@@ -126,6 +158,16 @@ const styles = StyleSheet.create({
     height: "100%",
     borderRadius: 2,
   },
+  carryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: layout.spacing.s,
+  },
+  budgetRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: layout.spacing.s,
+  },
   customBadge: {
     marginLeft: 4,
     backgroundColor: colors.card,
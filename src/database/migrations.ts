@@ -1,5 +1,6 @@
 // Database migrations - forward-only schema changes
 import type * as SQLite from "expo-sqlite";
+import { RECORD_GENERATED_PERIODS } from "./schema";
 
 /**
  * Run all pending migrations based on current schema version
@@ -22,6 +23,362 @@ export async function runMigrations(db: SQLite.SQLiteDatabase, fromVersion: numb
 
   // Add is_verified column to expenses
   await migrateAddIsVerifiedToExpenses(db);
+
+  // Link generated expenses back to their recurring template
+  await migrateAddRecurringExpenseIdToExpenses(db);
+
+  // Link expenses to the installment plan that generated them
+  await migrateAddInstallmentColumnsToExpenses(db);
+
+  // Link expenses to a merchant
+  await migrateAddMerchantIdToExpenses(db);
+
+  // Link expenses to the account they are paid from
+  await migrateAddAccountIdToExpenses(db);
+
+  // Keep the original amount of expenses entered in a foreign currency
+  await migrateAddForeignCurrencyToExpenses(db);
+
+  // Record refunds and credits as their own kind of expense
+  await migrateAddKindToExpenses(db);
+
+  // Fill the search index with expenses recorded before it existed
+  await migrateBuildExpenseSearchIndex(db);
+
+  // Let profiles carry each month's remaining balance into the next
+  await migrateAddRolloverToProfiles(db);
+
+  // Pay allowance sources weekly, biweekly, quarterly... over part of a year
+  await migrateAddFrequencyToAllowanceSources(db);
+
+  // Remember the months recurring expenses and installments were generated for
+  await migrateRecordGeneratedPeriods(db);
+}
+
+/**
+ * Migration: Fill generated_periods from the recurring expenses and installments already generated
+ * The table is created by CREATE_TABLES; afterwards generation records its own periods
+ */
+async function migrateRecordGeneratedPeriods(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Recording generated periods ===");
+
+  try {
+    const existing = await db.getFirstAsync<{ count: number }>("SELECT COUNT(*) as count FROM generated_periods");
+    if (existing?.count === 0) {
+      await db.execAsync(RECORD_GENERATED_PERIODS);
+      console.log("SUCCESS: Recorded the periods of generated expenses");
+    } else {
+      console.log("Generated periods already recorded, skipping");
+    }
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (generated periods):", error);
+    throw error;
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add frequency, start_month, end_month and first_pay_day columns to allowance_sources
+ * Existing sources stay monthly for the whole year
+ */
+async function migrateAddFrequencyToAllowanceSources(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding frequency columns to allowance_sources ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(allowance_sources)");
+    const columns: [string, string][] = [
+      [
+        "frequency",
+        "TEXT NOT NULL DEFAULT 'monthly' CHECK(frequency IN ('weekly', 'biweekly', 'semimonthly', 'monthly', 'quarterly', 'once'))",
+      ],
+      ["start_month", "INTEGER NOT NULL DEFAULT 1 CHECK(start_month BETWEEN 1 AND 12)"],
+      ["end_month", "INTEGER NOT NULL DEFAULT 12 CHECK(end_month BETWEEN 1 AND 12)"],
+      ["first_pay_day", "INTEGER NOT NULL DEFAULT 1 CHECK(first_pay_day BETWEEN 1 AND 31)"],
+    ];
+
+    for (const [name, type] of columns) {
+      if (!tableInfo.some((col) => col.name === name)) {
+        await db.runAsync(`ALTER TABLE allowance_sources ADD COLUMN ${name} ${type}`);
+        console.log(`SUCCESS: Added ${name} column to allowance_sources`);
+      } else {
+        console.log(`${name} column already exists, skipping`);
+      }
+    }
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (allowance frequency columns):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add rollover_enabled column to profiles
+ * Existing profiles keep starting every month fresh
+ */
+async function migrateAddRolloverToProfiles(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding rollover_enabled to profiles ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(profiles)");
+
+    if (!tableInfo.some((col) => col.name === "rollover_enabled")) {
+      await db.runAsync("ALTER TABLE profiles ADD COLUMN rollover_enabled INTEGER NOT NULL DEFAULT 0");
+      console.log("SUCCESS: Added rollover_enabled column to profiles");
+    } else {
+      console.log("rollover_enabled column already exists, skipping");
+    }
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (rollover_enabled):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Rebuild the expenses_fts search index when it is out of step with expenses
+ * The index and its triggers are created by CREATE_TABLES; afterwards the triggers keep it current
+ */
+async function migrateBuildExpenseSearchIndex(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Building expense search index ===");
+
+  try {
+    const counts = await db.getFirstAsync<{ expenses: number; indexed: number }>(
+      "SELECT (SELECT COUNT(*) FROM expenses) as expenses, (SELECT COUNT(*) FROM expenses_fts) as indexed",
+    );
+
+    if (counts && counts.expenses !== counts.indexed) {
+      await db.execAsync("DELETE FROM expenses_fts");
+      await db.execAsync(
+        `INSERT INTO expenses_fts (rowid, note, category, amount)
+         SELECT e.id, COALESCE(e.note, ''), c.name, printf('%d.%02d', e.amount_cents / 100, e.amount_cents % 100)
+         FROM expenses e
+         LEFT JOIN categories c ON c.id = e.category_id`,
+      );
+      console.log(`SUCCESS: Indexed ${counts.expenses} expenses for search`);
+    } else {
+      console.log("Search index is up to date, skipping");
+    }
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (expense search index):", error);
+    throw error;
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add kind and refund_of_expense_id columns to expenses
+ * Existing rows become regular expenses
+ */
+async function migrateAddKindToExpenses(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding kind columns to expenses ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(expenses)");
+
+    if (!tableInfo.some((col) => col.name === "kind")) {
+      await db.runAsync(
+        "ALTER TABLE expenses ADD COLUMN kind TEXT NOT NULL DEFAULT 'expense' CHECK(kind IN ('expense', 'refund'))",
+      );
+      console.log("SUCCESS: Added kind column to expenses");
+    } else {
+      console.log("kind column already exists, skipping");
+    }
+
+    if (!tableInfo.some((col) => col.name === "refund_of_expense_id")) {
+      await db.runAsync(
+        "ALTER TABLE expenses ADD COLUMN refund_of_expense_id INTEGER REFERENCES expenses(id) ON DELETE SET NULL",
+      );
+      console.log("SUCCESS: Added refund_of_expense_id column to expenses");
+    } else {
+      console.log("refund_of_expense_id column already exists, skipping");
+    }
+
+    await db.runAsync("CREATE INDEX IF NOT EXISTS idx_expenses_refund_of ON expenses(refund_of_expense_id)");
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (expense kind):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add original_currency, original_amount_cents and exchange_rate columns to expenses
+ * The exchange_rates table itself is created by CREATE_TABLES
+ */
+async function migrateAddForeignCurrencyToExpenses(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding foreign currency columns to expenses ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(expenses)");
+    const columns: [string, string][] = [
+      ["original_currency", "TEXT"],
+      ["original_amount_cents", "INTEGER"],
+      ["exchange_rate", "REAL"],
+    ];
+
+    for (const [name, type] of columns) {
+      if (!tableInfo.some((col) => col.name === name)) {
+        await db.runAsync(`ALTER TABLE expenses ADD COLUMN ${name} ${type}`);
+        console.log(`SUCCESS: Added ${name} column to expenses`);
+      } else {
+        console.log(`${name} column already exists, skipping`);
+      }
+    }
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (foreign currency columns):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add account_id column to expenses
+ * The accounts and account_transactions tables are created by CREATE_TABLES
+ */
+async function migrateAddAccountIdToExpenses(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding account_id column to expenses ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(expenses)");
+
+    if (!tableInfo.some((col) => col.name === "account_id")) {
+      await db.runAsync(
+        "ALTER TABLE expenses ADD COLUMN account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL",
+      );
+      console.log("SUCCESS: Added account_id column to expenses");
+    } else {
+      console.log("account_id column already exists, skipping");
+    }
+
+    await db.runAsync("CREATE INDEX IF NOT EXISTS idx_expenses_account ON expenses(account_id)");
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (account_id):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add merchant_id column to expenses
+ * The merchants table itself is created by CREATE_TABLES
+ */
+async function migrateAddMerchantIdToExpenses(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding merchant_id column to expenses ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(expenses)");
+
+    if (!tableInfo.some((col) => col.name === "merchant_id")) {
+      await db.runAsync(
+        "ALTER TABLE expenses ADD COLUMN merchant_id INTEGER REFERENCES merchants(id) ON DELETE SET NULL",
+      );
+      console.log("SUCCESS: Added merchant_id column to expenses");
+    } else {
+      console.log("merchant_id column already exists, skipping");
+    }
+
+    await db.runAsync("CREATE INDEX IF NOT EXISTS idx_expenses_merchant ON expenses(merchant_id)");
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (merchant_id):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add installment_plan_id and installment_number columns to expenses
+ * The installment_plans table itself is created by CREATE_TABLES
+ */
+async function migrateAddInstallmentColumnsToExpenses(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding installment columns to expenses ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(expenses)");
+
+    if (!tableInfo.some((col) => col.name === "installment_plan_id")) {
+      await db.runAsync(
+        "ALTER TABLE expenses ADD COLUMN installment_plan_id INTEGER REFERENCES installment_plans(id) ON DELETE SET NULL",
+      );
+      console.log("SUCCESS: Added installment_plan_id column to expenses");
+    } else {
+      console.log("installment_plan_id column already exists, skipping");
+    }
+
+    if (!tableInfo.some((col) => col.name === "installment_number")) {
+      await db.runAsync("ALTER TABLE expenses ADD COLUMN installment_number INTEGER");
+      console.log("SUCCESS: Added installment_number column to expenses");
+    } else {
+      console.log("installment_number column already exists, skipping");
+    }
+
+    await db.runAsync("CREATE INDEX IF NOT EXISTS idx_expenses_installment_plan ON expenses(installment_plan_id)");
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (installment columns):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
+}
+
+/**
+ * Migration: Add recurring_expense_id column to expenses
+ * The recurring_expenses table itself is created by CREATE_TABLES
+ */
+async function migrateAddRecurringExpenseIdToExpenses(db: SQLite.SQLiteDatabase): Promise<void> {
+  console.log("=== MIGRATION START: Adding recurring_expense_id column to expenses ===");
+
+  try {
+    const tableInfo = await db.getAllAsync<{ name: string }>("PRAGMA table_info(expenses)");
+    const hasRecurringId = tableInfo.some((col) => col.name === "recurring_expense_id");
+
+    if (!hasRecurringId) {
+      await db.runAsync(
+        "ALTER TABLE expenses ADD COLUMN recurring_expense_id INTEGER REFERENCES recurring_expenses(id) ON DELETE SET NULL",
+      );
+      console.log("SUCCESS: Added recurring_expense_id column to expenses");
+    } else {
+      console.log("recurring_expense_id column already exists, skipping");
+    }
+
+    await db.runAsync("CREATE INDEX IF NOT EXISTS idx_expenses_recurring ON expenses(recurring_expense_id)");
+  } catch (error: unknown) {
+    console.error("MIGRATION ERROR (recurring_expense_id):", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!errorMessage.includes("duplicate column")) {
+      throw error;
+    }
+  }
+
+  console.log("=== MIGRATION END ===");
 }
 
 /**
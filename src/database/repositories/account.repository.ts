@@ -0,0 +1,199 @@
+import type {
+  Account,
+  AccountEntity,
+  AccountKind,
+  AccountTransaction,
+  AccountTransactionEntity,
+  CreateAccountDTO,
+  Expense,
+  UpdateAccountDTO,
+} from "@/types";
+import { getDatabase } from "../connection";
+
+type AccountRow = AccountEntity & { ledger_cents: number | null };
+
+type AccountTransactionRow = AccountTransactionEntity & {
+  category_id: number;
+  note: string | null;
+  expense_date: string;
+};
+
+// Sum of the ledger; debits of deleted expenses don't count (they come back if the expense is restored)
+const LEDGER_SELECT = `(SELECT SUM(t.amount_cents) FROM account_transactions t
+   JOIN expenses e ON e.id = t.expense_id AND e.deleted_at IS NULL
+   WHERE t.account_id = a.id) as ledger_cents`;
+
+/**
+ * Map database entity to UI model
+ */
+function mapToAccount(entity: AccountRow): Account {
+  return {
+    id: entity.id,
+    name: entity.name,
+    kind: entity.kind as AccountKind,
+    startingBalanceCents: entity.starting_balance_cents,
+    balanceCents: entity.starting_balance_cents + (entity.ledger_cents ?? 0),
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+    deletedAt: entity.deleted_at,
+  };
+}
+
+function mapToTransaction(entity: AccountTransactionRow): AccountTransaction {
+  return {
+    id: entity.id,
+    accountId: entity.account_id,
+    expenseId: entity.expense_id,
+    amountCents: entity.amount_cents,
+    categoryId: entity.category_id,
+    note: entity.note,
+    expenseDate: entity.expense_date,
+    createdAt: entity.created_at,
+  };
+}
+
+export const AccountRepository = {
+  /**
+   * Find account by ID
+   */
+  async findById(id: number): Promise<Account | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<AccountRow>(
+      `SELECT a.*, ${LEDGER_SELECT} FROM accounts a WHERE a.id = ? AND a.deleted_at IS NULL`,
+      [id],
+    );
+    return result ? mapToAccount(result) : null;
+  },
+
+  /**
+   * Get all accounts for a profile with their current balance
+   */
+  async findAll(profileId: number = 1): Promise<Account[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<AccountRow>(
+      `SELECT a.*, ${LEDGER_SELECT} FROM accounts a
+       WHERE a.profile_id = ? AND a.deleted_at IS NULL
+       ORDER BY a.created_at ASC`,
+      [profileId],
+    );
+    return results.map(mapToAccount);
+  },
+
+  /**
+   * Get all accounts including deleted (for export)
+   */
+  async findAllIncludingDeleted(): Promise<(Account & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<AccountRow>(`SELECT a.*, ${LEDGER_SELECT} FROM accounts a ORDER BY a.id ASC`);
+    return results.map((r) => ({ ...mapToAccount(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Create a new account for a profile
+   */
+  async create(dto: CreateAccountDTO, profileId: number = 1): Promise<Account> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      "INSERT INTO accounts (profile_id, name, kind, starting_balance_cents) VALUES (?, ?, ?, ?)",
+      [profileId, dto.name, dto.kind, dto.startingBalanceCents ?? 0],
+    );
+
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create account");
+    }
+    return created;
+  },
+
+  /**
+   * Update an existing account
+   */
+  async update(id: number, dto: UpdateAccountDTO): Promise<Account> {
+    const db = await getDatabase();
+    const updates: string[] = [];
+    const values: (string | number)[] = [];
+
+    if (dto.name !== undefined) {
+      updates.push("name = ?");
+      values.push(dto.name);
+    }
+    if (dto.kind !== undefined) {
+      updates.push("kind = ?");
+      values.push(dto.kind);
+    }
+    if (dto.startingBalanceCents !== undefined) {
+      updates.push("starting_balance_cents = ?");
+      values.push(dto.startingBalanceCents);
+    }
+
+    if (updates.length > 0) {
+      updates.push("updated_at = datetime('now')");
+      values.push(id);
+      await db.runAsync(`UPDATE accounts SET ${updates.join(", ")} WHERE id = ?`, values);
+    }
+
+    const updated = await this.findById(id);
+    if (!updated) throw new Error("Account not found");
+    return updated;
+  },
+
+  /**
+   * Soft delete an account
+   * Expenses paid from it keep their ledger entries but are no longer shown under an account
+   */
+  async softDelete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("UPDATE accounts SET deleted_at = datetime('now'), updated_at = datetime('now') WHERE id = ?", [
+      id,
+    ]);
+  },
+
+  /**
+   * Get the ledger of an account, newest first
+   */
+  async findTransactions(accountId: number): Promise<AccountTransaction[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<AccountTransactionRow>(
+      `SELECT t.*, e.category_id, e.note, e.expense_date
+       FROM account_transactions t
+       JOIN expenses e ON e.id = t.expense_id AND e.deleted_at IS NULL
+       WHERE t.account_id = ?
+       ORDER BY t.created_at DESC, t.id DESC`,
+      [accountId],
+    );
+    return results.map(mapToTransaction);
+  },
+
+  /**
+   * Get every ledger entry (for export)
+   */
+  async findAllTransactions(): Promise<AccountTransactionEntity[]> {
+    const db = await getDatabase();
+    return db.getAllAsync<AccountTransactionEntity>("SELECT * FROM account_transactions ORDER BY id ASC");
+  },
+
+  /**
+   * Bring the ledger entry of an expense in line with the expense
+   * A paid expense with an account is debited from it and a paid refund is credited to it; anything else has no entry.
+   * An existing entry keeps its timestamp, so it still records when the expense was paid.
+   */
+  async syncExpenseDebit(
+    expense: Pick<Expense, "id" | "amountCents" | "isPaid" | "accountId" | "kind">,
+  ): Promise<void> {
+    const db = await getDatabase();
+    if (!expense.isPaid || expense.accountId === null) {
+      await db.runAsync("DELETE FROM account_transactions WHERE expense_id = ?", [expense.id]);
+      return;
+    }
+
+    await db.runAsync(
+      `INSERT INTO account_transactions (account_id, expense_id, amount_cents) VALUES (?, ?, ?)
+       ON CONFLICT(expense_id) DO UPDATE SET
+         account_id = excluded.account_id,
+         amount_cents = excluded.amount_cents,
+         updated_at = datetime('now')
+       WHERE account_id != excluded.account_id OR amount_cents != excluded.amount_cents`,
+      [expense.accountId, expense.id, expense.kind === "refund" ? expense.amountCents : -expense.amountCents],
+    );
+  },
+};
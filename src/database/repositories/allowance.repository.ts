@@ -1,4 +1,5 @@
 import type {
+  AllowanceFrequency,
   AllowanceSource,
   AllowanceSourceEntity,
   CreateAllowanceSourceDTO,
@@ -16,12 +17,31 @@ function mapToAllowanceSource(entity: AllowanceSourceEntity): AllowanceSource {
     name: entity.name,
     amountCents: entity.amount_cents,
     isActive: entity.is_active === 1,
+    frequency: entity.frequency as AllowanceFrequency,
+    startMonth: entity.start_month,
+    endMonth: entity.end_month,
+    firstPayDay: entity.first_pay_day,
     createdAt: entity.created_at,
     updatedAt: entity.updated_at,
     deletedAt: entity.deleted_at,
   };
 }
 
+/**
+ * Reject a pay period that does not fit in one year
+ */
+function assertPayPeriod(startMonth: number, endMonth: number, firstPayDay: number): void {
+  if (startMonth < 1 || startMonth > 12 || endMonth < 1 || endMonth > 12) {
+    throw new Error("Months must be between 1 and 12");
+  }
+  if (startMonth > endMonth) {
+    throw new Error("End month cannot be before start month");
+  }
+  if (firstPayDay < 1 || firstPayDay > 31) {
+    throw new Error("Pay day must be between 1 and 31");
+  }
+}
+
 export const AllowanceRepository = {
   /**
    * Find allowance source by ID
@@ -87,10 +107,27 @@ export const AllowanceRepository = {
    * Create a new allowance source for a profile
    */
   async create(dto: CreateAllowanceSourceDTO, profileId: number = 1): Promise<AllowanceSource> {
+    const startMonth = dto.startMonth ?? 1;
+    const endMonth = dto.endMonth ?? 12;
+    const firstPayDay = dto.firstPayDay ?? 1;
+    assertPayPeriod(startMonth, endMonth, firstPayDay);
+
     const db = await getDatabase();
     const result = await db.runAsync(
-      "INSERT INTO allowance_sources (profile_id, year, name, amount_cents, is_active) VALUES (?, ?, ?, ?, ?)",
-      [profileId, dto.year, dto.name, dto.amountCents, dto.isActive !== false ? 1 : 0]
+      `INSERT INTO allowance_sources
+       (profile_id, year, name, amount_cents, is_active, frequency, start_month, end_month, first_pay_day)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        profileId,
+        dto.year,
+        dto.name,
+        dto.amountCents,
+        dto.isActive !== false ? 1 : 0,
+        dto.frequency ?? "monthly",
+        startMonth,
+        endMonth,
+        firstPayDay,
+      ]
     );
 
     const created = await this.findById(result.lastInsertRowId);
@@ -120,6 +157,20 @@ export const AllowanceRepository = {
       updates.push("is_active = ?");
       values.push(dto.isActive ? 1 : 0);
     }
+    if (dto.frequency !== undefined) {
+      updates.push("frequency = ?");
+      values.push(dto.frequency);
+    }
+    if (dto.startMonth !== undefined || dto.endMonth !== undefined || dto.firstPayDay !== undefined) {
+      const existing = await this.findById(id);
+      if (!existing) throw new Error("Allowance source not found");
+      const startMonth = dto.startMonth ?? existing.startMonth;
+      const endMonth = dto.endMonth ?? existing.endMonth;
+      const firstPayDay = dto.firstPayDay ?? existing.firstPayDay;
+      assertPayPeriod(startMonth, endMonth, firstPayDay);
+      updates.push("start_month = ?", "end_month = ?", "first_pay_day = ?");
+      values.push(startMonth, endMonth, firstPayDay);
+    }
 
     if (updates.length === 0) {
       const existing = await this.findById(id);
@@ -151,7 +202,8 @@ export const AllowanceRepository = {
   },
 
   /**
-   * Calculate total monthly allowance from all active sources for a profile/year
+   * Calculate the total of one payment of every active source for a profile/year
+   * See CalculationService.calculateMonthAllowance for what a given month receives
    */
   async calculateTotalAllowance(year: number, profileId: number = 1): Promise<number> {
     const db = await getDatabase();
@@ -161,4 +213,47 @@ export const AllowanceRepository = {
     );
     return result?.total ?? 0;
   },
+
+  /**
+   * Get a profile's deleted allowance sources, most recently deleted first
+   */
+  async findDeleted(profileId: number = 1): Promise<AllowanceSource[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<AllowanceSourceEntity>(
+      "SELECT * FROM allowance_sources WHERE profile_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC",
+      [profileId]
+    );
+    return results.map(mapToAllowanceSource);
+  },
+
+  /**
+   * Restore a soft-deleted allowance source
+   */
+  async restore(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("UPDATE allowance_sources SET deleted_at = NULL, updated_at = datetime('now') WHERE id = ?", [
+      id,
+    ]);
+  },
+
+  /**
+   * Permanently delete a soft-deleted allowance source
+   */
+  async hardDelete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM allowance_sources WHERE id = ? AND deleted_at IS NOT NULL", [id]);
+  },
+
+  /**
+   * Permanently delete allowance sources that have been deleted for more than `days` days
+   * @returns The number of sources purged
+   */
+  async purgeDeletedOlderThan(days: number): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      "DELETE FROM allowance_sources WHERE deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)",
+      [`-${days} days`]
+    );
+    return result.changes;
+  },
 };
@@ -0,0 +1,74 @@
+import type { Attachment, AttachmentEntity, CreateAttachmentDTO } from "@/types";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToAttachment(entity: AttachmentEntity): Attachment {
+  return {
+    id: entity.id,
+    expenseId: entity.expense_id,
+    fileName: entity.file_name,
+    originalName: entity.original_name,
+    mimeType: entity.mime_type,
+    sizeBytes: entity.size_bytes,
+    createdAt: entity.created_at,
+  };
+}
+
+export const AttachmentRepository = {
+  /**
+   * Find attachment by ID
+   */
+  async findById(id: number): Promise<Attachment | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<AttachmentEntity>("SELECT * FROM attachments WHERE id = ?", [id]);
+    return result ? mapToAttachment(result) : null;
+  },
+
+  /**
+   * Get all attachments of an expense, oldest first
+   */
+  async findByExpenseId(expenseId: number): Promise<Attachment[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<AttachmentEntity>(
+      "SELECT * FROM attachments WHERE expense_id = ? ORDER BY created_at ASC, id ASC",
+      [expenseId],
+    );
+    return results.map(mapToAttachment);
+  },
+
+  /**
+   * Get all attachments (for export and file cleanup)
+   */
+  async findAll(): Promise<Attachment[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<AttachmentEntity>("SELECT * FROM attachments ORDER BY id ASC");
+    return results.map(mapToAttachment);
+  },
+
+  /**
+   * Record a stored file as an attachment of an expense
+   */
+  async create(dto: CreateAttachmentDTO): Promise<Attachment> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      "INSERT INTO attachments (expense_id, file_name, original_name, mime_type, size_bytes) VALUES (?, ?, ?, ?, ?)",
+      [dto.expenseId, dto.fileName, dto.originalName ?? null, dto.mimeType ?? null, dto.sizeBytes ?? null],
+    );
+
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create attachment");
+    }
+    return created;
+  },
+
+  /**
+   * Delete an attachment record (the stored file is removed by AttachmentService)
+   */
+  async delete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM attachments WHERE id = ?", [id]);
+  },
+};
@@ -0,0 +1,93 @@
+import type { CategoryBudget, CategoryBudgetEntity } from "@/types";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToCategoryBudget(entity: CategoryBudgetEntity): CategoryBudget {
+  return {
+    id: entity.id,
+    categoryId: entity.category_id,
+    year: entity.year,
+    month: entity.month === 0 ? null : entity.month,
+    amountCents: entity.amount_cents,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+  };
+}
+
+export const CategoryBudgetRepository = {
+  /**
+   * Get the budgets of a profile for a year, yearly budgets first
+   * Budgets of deleted categories are left out (they come back if the category is restored)
+   */
+  async findByYear(year: number, profileId: number = 1): Promise<CategoryBudget[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<CategoryBudgetEntity>(
+      `SELECT b.* FROM category_budgets b
+       JOIN categories c ON c.id = b.category_id AND c.deleted_at IS NULL
+       WHERE b.profile_id = ? AND b.year = ?
+       ORDER BY b.month ASC, b.category_id ASC`,
+      [profileId, year],
+    );
+    return results.map(mapToCategoryBudget);
+  },
+
+  /**
+   * Get all budgets of every profile (for export)
+   */
+  async findAllForExport(): Promise<(CategoryBudget & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<CategoryBudgetEntity>("SELECT * FROM category_budgets ORDER BY id ASC");
+    return results.map((r) => ({ ...mapToCategoryBudget(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Get the amount budgeted for a category in a year (month null) or for one month of it
+   * @returns Amount in cents, null if no budget is set at that level
+   */
+  async getAmount(
+    categoryId: number,
+    year: number,
+    month: number | null,
+    profileId: number = 1,
+  ): Promise<number | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<{ amount_cents: number }>(
+      "SELECT amount_cents FROM category_budgets WHERE profile_id = ? AND category_id = ? AND year = ? AND month = ?",
+      [profileId, categoryId, year, month ?? 0],
+    );
+    return result ? result.amount_cents : null;
+  },
+
+  /**
+   * Set the budget of a category for a year (month null) or for one month of it
+   * @param amountCents - New budget in cents; null removes the budget at that level
+   */
+  async set(
+    categoryId: number,
+    year: number,
+    month: number | null,
+    amountCents: number | null,
+    profileId: number = 1,
+  ): Promise<void> {
+    const db = await getDatabase();
+    if (amountCents === null) {
+      await db.runAsync(
+        "DELETE FROM category_budgets WHERE profile_id = ? AND category_id = ? AND year = ? AND month = ?",
+        [profileId, categoryId, year, month ?? 0],
+      );
+      return;
+    }
+    if (amountCents < 0) {
+      throw new Error("Budget cannot be negative");
+    }
+    await db.runAsync(
+      `INSERT INTO category_budgets (profile_id, category_id, year, month, amount_cents)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(profile_id, category_id, year, month) DO UPDATE SET
+         amount_cents = excluded.amount_cents, updated_at = datetime('now')`,
+      [profileId, categoryId, year, month ?? 0, amountCents],
+    );
+  },
+};
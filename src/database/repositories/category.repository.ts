@@ -11,9 +11,17 @@ function mapToCategory(entity: CategoryEntity): Category {
     icon: entity.icon,
     color: entity.color,
     sortOrder: entity.sort_order,
+    updatedAt: entity.updated_at,
   };
 }
 
+// Number of rows that reference a category, given an SQL expression for its id
+const categoryUsage = (categoryId: string) => `
+  (SELECT COUNT(*) FROM expenses WHERE category_id = ${categoryId}) +
+  (SELECT COUNT(*) FROM expense_line_items WHERE category_id = ${categoryId}) +
+  (SELECT COUNT(*) FROM recurring_expenses WHERE category_id = ${categoryId}) +
+  (SELECT COUNT(*) FROM installment_plans WHERE category_id = ${categoryId})`;
+
 export const CategoryRepository = {
   /**
    * Find category by ID
@@ -47,6 +55,17 @@ export const CategoryRepository = {
     return results.map(mapToCategory);
   },
 
+  /**
+   * Get deleted categories, most recently deleted first
+   */
+  async findDeleted(): Promise<(Category & { deletedAt: string })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<CategoryEntity & { deleted_at: string }>(
+      "SELECT * FROM categories WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC"
+    );
+    return results.map((r) => ({ ...mapToCategory(r), deletedAt: r.deleted_at }));
+  },
+
   /**
    * Create a new category
    */
@@ -119,6 +138,17 @@ export const CategoryRepository = {
     return updated;
   },
 
+  /**
+   * Write back a snapshot of a category exactly as it was (for undo/redo)
+   */
+  async overwrite(snapshot: Category): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "UPDATE categories SET name = ?, icon = ?, color = ?, sort_order = ?, updated_at = ? WHERE id = ?",
+      [snapshot.name, snapshot.icon, snapshot.color, snapshot.sortOrder, snapshot.updatedAt, snapshot.id]
+    );
+  },
+
   /**
    * Soft delete a category
    */
@@ -128,4 +158,40 @@ export const CategoryRepository = {
       id,
     ]);
   },
+
+  /**
+   * Restore a soft-deleted category
+   */
+  async restore(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("UPDATE categories SET deleted_at = NULL, updated_at = datetime('now') WHERE id = ?", [id]);
+  },
+
+  /**
+   * Permanently delete a soft-deleted category
+   * Refused while any expense, split, recurring expense or installment plan (deleted or not) still uses it
+   */
+  async hardDelete(id: number): Promise<void> {
+    const db = await getDatabase();
+    const usage = await db.getFirstAsync<{ count: number }>(`SELECT ${categoryUsage("?")} as count`, [id, id, id, id]);
+    if ((usage?.count ?? 0) > 0) {
+      throw new Error("Category is still used by expenses");
+    }
+    await db.runAsync("DELETE FROM categories WHERE id = ? AND deleted_at IS NOT NULL", [id]);
+  },
+
+  /**
+   * Permanently delete categories that have been deleted for more than `days` days and are no longer used
+   * @returns The number of categories purged
+   */
+  async purgeDeletedOlderThan(days: number): Promise<number> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      `DELETE FROM categories
+       WHERE deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)
+         AND ${categoryUsage("categories.id")} = 0`,
+      [`-${days} days`]
+    );
+    return result.changes;
+  },
 };
@@ -0,0 +1,123 @@
+import type {
+  DismissedDuplicate,
+  DismissedDuplicateEntity,
+  DuplicatePair,
+  ExpenseQueryDTO,
+  ExpenseSearchResult,
+} from "@/types";
+import type { DuplicateCandidate } from "@/utils";
+import {
+  addDays,
+  DUPLICATE_WINDOW_DAYS,
+  findDuplicateMatches,
+  findDuplicatePairs,
+  getDaysInMonth,
+  getDuplicatePairKey,
+  toDateString,
+} from "@/utils";
+import { getDatabase } from "../connection";
+import { ExpenseRepository } from "./expense.repository";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToDismissedDuplicate(entity: DismissedDuplicateEntity): DismissedDuplicate {
+  return {
+    expenseId: entity.expense_id,
+    otherExpenseId: entity.other_expense_id,
+    createdAt: entity.created_at,
+  };
+}
+
+/**
+ * Get the likely duplicate pairs of a profile's expenses in a date range, skipping dismissed pairs
+ */
+async function findPairs(
+  filters: ExpenseQueryDTO,
+  profileId: number,
+): Promise<[ExpenseSearchResult, ExpenseSearchResult][]> {
+  const expenses = await ExpenseRepository.query(filters, profileId);
+  const dismissed = await DuplicateRepository.findAllDismissed();
+  const dismissedKeys = new Set(dismissed.map((d) => getDuplicatePairKey(d.expenseId, d.otherExpenseId)));
+  return findDuplicatePairs(expenses, dismissedKeys);
+}
+
+export const DuplicateRepository = {
+  /**
+   * Get the saved expenses of a profile a new or edited expense looks like a duplicate of
+   * Dismissed pairs are not consulted: a new entry is always worth a second look.
+   * @param excludeId - Id of the expense itself when it is already saved
+   */
+  async findMatches(
+    candidate: DuplicateCandidate,
+    profileId: number = 1,
+    excludeId?: number,
+  ): Promise<ExpenseSearchResult[]> {
+    const nearby = await ExpenseRepository.query(
+      {
+        startDate: addDays(candidate.expenseDate, -DUPLICATE_WINDOW_DAYS),
+        endDate: addDays(candidate.expenseDate, DUPLICATE_WINDOW_DAYS),
+      },
+      profileId,
+    );
+    return findDuplicateMatches(candidate, nearby, excludeId);
+  },
+
+  /**
+   * Get the likely duplicate pairs with at least one expense in a month, skipping dismissed pairs
+   * Expenses a few days into the neighbouring months are compared too.
+   */
+  async findPairsInMonth(year: number, month: number, profileId: number = 1): Promise<DuplicatePair[]> {
+    const pairs = await findPairs(
+      {
+        startDate: addDays(toDateString(year, month, 1), -DUPLICATE_WINDOW_DAYS),
+        endDate: addDays(toDateString(year, month, getDaysInMonth(year, month)), DUPLICATE_WINDOW_DAYS),
+      },
+      profileId,
+    );
+    const inMonth = (e: ExpenseSearchResult) => e.year === year && e.month === month;
+    return pairs
+      .filter(([first, second]) => inMonth(first) || inMonth(second))
+      .map(([first, second]) => ({ first, second }));
+  },
+
+  /**
+   * Count the likely duplicate pairs among all of a profile's expenses, skipping dismissed pairs
+   */
+  async countPairs(profileId: number = 1): Promise<number> {
+    return (await findPairs({}, profileId)).length;
+  },
+
+  /**
+   * Get every pair marked as not being duplicates
+   */
+  async findAllDismissed(): Promise<DismissedDuplicate[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<DismissedDuplicateEntity>(
+      "SELECT * FROM dismissed_duplicates ORDER BY expense_id ASC, other_expense_id ASC",
+    );
+    return results.map(mapToDismissedDuplicate);
+  },
+
+  /**
+   * Mark a pair as not being duplicates, so the review list no longer shows it
+   */
+  async dismiss(expenseId: number, otherExpenseId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("INSERT OR IGNORE INTO dismissed_duplicates (expense_id, other_expense_id) VALUES (?, ?)", [
+      Math.min(expenseId, otherExpenseId),
+      Math.max(expenseId, otherExpenseId),
+    ]);
+  },
+
+  /**
+   * Show a dismissed pair in the review list again
+   */
+  async undismiss(expenseId: number, otherExpenseId: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM dismissed_duplicates WHERE expense_id = ? AND other_expense_id = ?", [
+      Math.min(expenseId, otherExpenseId),
+      Math.max(expenseId, otherExpenseId),
+    ]);
+  },
+};
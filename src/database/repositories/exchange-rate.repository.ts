@@ -0,0 +1,77 @@
+import type { ExchangeRate, ExchangeRateEntity } from "@/types";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToExchangeRate(entity: ExchangeRateEntity): ExchangeRate {
+  return {
+    id: entity.id,
+    baseCurrency: entity.base_currency,
+    currency: entity.currency,
+    rate: entity.rate,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+  };
+}
+
+export const ExchangeRateRepository = {
+  /**
+   * Get the rates into a base (home) currency
+   */
+  async findAll(baseCurrency: string): Promise<ExchangeRate[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExchangeRateEntity>(
+      "SELECT * FROM exchange_rates WHERE base_currency = ? ORDER BY currency ASC",
+      [baseCurrency],
+    );
+    return results.map(mapToExchangeRate);
+  },
+
+  /**
+   * Get all rates for every base currency (for export)
+   */
+  async findAllForExport(): Promise<ExchangeRate[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExchangeRateEntity>("SELECT * FROM exchange_rates ORDER BY id ASC");
+    return results.map(mapToExchangeRate);
+  },
+
+  /**
+   * Set the rate of a currency into a base currency, adding it if missing
+   * @param rate - Units of baseCurrency per unit of currency
+   */
+  async upsert(baseCurrency: string, currency: string, rate: number): Promise<ExchangeRate> {
+    if (!(rate > 0) || !isFinite(rate)) {
+      throw new Error("Exchange rate must be a positive number");
+    }
+    if (currency === baseCurrency) {
+      throw new Error("Exchange rate currency must differ from the home currency");
+    }
+
+    const db = await getDatabase();
+    await db.runAsync(
+      `INSERT INTO exchange_rates (base_currency, currency, rate) VALUES (?, ?, ?)
+       ON CONFLICT(base_currency, currency) DO UPDATE SET rate = excluded.rate, updated_at = datetime('now')`,
+      [baseCurrency, currency, rate],
+    );
+
+    const saved = await db.getFirstAsync<ExchangeRateEntity>(
+      "SELECT * FROM exchange_rates WHERE base_currency = ? AND currency = ?",
+      [baseCurrency, currency],
+    );
+    if (!saved) {
+      throw new Error("Failed to save exchange rate");
+    }
+    return mapToExchangeRate(saved);
+  },
+
+  /**
+   * Delete a rate
+   * Expenses already converted with it keep the rate they were saved with
+   */
+  async delete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM exchange_rates WHERE id = ?", [id]);
+  },
+};
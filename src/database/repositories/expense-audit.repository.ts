@@ -0,0 +1,54 @@
+import type { Expense, ExpenseAuditAction, ExpenseAuditEntry, ExpenseAuditEntryEntity } from "@/types";
+import { buildAuditEntry } from "@/utils";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToAuditEntry(entity: ExpenseAuditEntryEntity): ExpenseAuditEntry {
+  return {
+    id: entity.id,
+    expenseId: entity.expense_id,
+    action: entity.action as ExpenseAuditAction,
+    changes: JSON.parse(entity.changes),
+    createdAt: entity.created_at,
+  };
+}
+
+export const ExpenseAuditRepository = {
+  /**
+   * Get the history of an expense, newest first
+   */
+  async findByExpenseId(expenseId: number): Promise<ExpenseAuditEntry[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExpenseAuditEntryEntity>(
+      "SELECT * FROM expense_audit_log WHERE expense_id = ? ORDER BY created_at DESC, id DESC",
+      [expenseId],
+    );
+    return results.map(mapToAuditEntry);
+  },
+
+  /**
+   * Get every audit entry (for export)
+   */
+  async findAll(): Promise<ExpenseAuditEntry[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExpenseAuditEntryEntity>("SELECT * FROM expense_audit_log ORDER BY id ASC");
+    return results.map(mapToAuditEntry);
+  },
+
+  /**
+   * Record the change between two snapshots of an expense, if anything worth recording changed
+   * @param before - Snapshot before the change, null when the expense was just created
+   */
+  async recordChange(before: Expense | null, after: Expense): Promise<void> {
+    const entry = buildAuditEntry(before, after);
+    if (!entry) return;
+    const db = await getDatabase();
+    await db.runAsync("INSERT INTO expense_audit_log (expense_id, action, changes) VALUES (?, ?, ?)", [
+      after.id,
+      entry.action,
+      JSON.stringify(entry.changes),
+    ]);
+  },
+};
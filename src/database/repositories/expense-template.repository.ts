@@ -0,0 +1,105 @@
+import type { CreateExpenseTemplateDTO, ExpenseTemplate, ExpenseTemplateEntity } from "@/types";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToExpenseTemplate(entity: ExpenseTemplateEntity): ExpenseTemplate {
+  return {
+    id: entity.id,
+    categoryId: entity.category_id,
+    amountCents: entity.amount_cents,
+    note: entity.note,
+    useCount: entity.use_count,
+    lastUsedAt: entity.last_used_at,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+  };
+}
+
+export const ExpenseTemplateRepository = {
+  /**
+   * Find template by ID
+   */
+  async findById(id: number): Promise<ExpenseTemplate | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<ExpenseTemplateEntity>("SELECT * FROM expense_templates WHERE id = ?", [id]);
+    return result ? mapToExpenseTemplate(result) : null;
+  },
+
+  /**
+   * Get the templates of a profile, most used first
+   * Templates of deleted categories are left out (they come back if the category is restored)
+   */
+  async findAll(profileId: number = 1): Promise<ExpenseTemplate[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExpenseTemplateEntity>(
+      `SELECT t.* FROM expense_templates t
+       JOIN categories c ON c.id = t.category_id AND c.deleted_at IS NULL
+       WHERE t.profile_id = ?
+       ORDER BY t.use_count DESC, t.last_used_at DESC, t.id ASC`,
+      [profileId],
+    );
+    return results.map(mapToExpenseTemplate);
+  },
+
+  /**
+   * Get all templates of every profile (for export)
+   */
+  async findAllForExport(): Promise<(ExpenseTemplate & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExpenseTemplateEntity>("SELECT * FROM expense_templates ORDER BY id ASC");
+    return results.map((r) => ({ ...mapToExpenseTemplate(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Save a template for a profile
+   * Saving the same category, amount and note again returns the template already saved.
+   */
+  async create(dto: CreateExpenseTemplateDTO, profileId: number = 1): Promise<ExpenseTemplate> {
+    if (dto.amountCents <= 0) {
+      throw new Error("Template amount must be positive");
+    }
+    const db = await getDatabase();
+    const note = dto.note?.trim() || null;
+    const existing = await db.getFirstAsync<ExpenseTemplateEntity>(
+      `SELECT * FROM expense_templates
+       WHERE profile_id = ? AND category_id = ? AND amount_cents = ? AND note IS ?`,
+      [profileId, dto.categoryId, dto.amountCents, note],
+    );
+    if (existing) {
+      return mapToExpenseTemplate(existing);
+    }
+
+    const result = await db.runAsync(
+      "INSERT INTO expense_templates (profile_id, category_id, amount_cents, note) VALUES (?, ?, ?, ?)",
+      [profileId, dto.categoryId, dto.amountCents, note],
+    );
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create template");
+    }
+    return created;
+  },
+
+  /**
+   * Count a use of a template, which moves it up the favorites
+   */
+  async recordUse(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `UPDATE expense_templates
+       SET use_count = use_count + 1, last_used_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ?`,
+      [id],
+    );
+  },
+
+  /**
+   * Delete a template; expenses added from it are kept
+   */
+  async delete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM expense_templates WHERE id = ?", [id]);
+  },
+};
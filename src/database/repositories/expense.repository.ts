@@ -1,10 +1,44 @@
-import type { CreateExpenseDTO, Expense, ExpenseEntity, UpdateExpenseDTO } from "@/types";
+import type {
+  CreateExpenseDTO,
+  Expense,
+  ExpenseEntity,
+  ExpenseKind,
+  ExpenseLineItem,
+  ExpenseLineItemDTO,
+  ExpenseLineItemEntity,
+  ExpenseQueryDTO,
+  ExpenseSearchResult,
+  ExpenseSortOrder,
+  ExpenseTagEntity,
+  UpdateExpenseDTO,
+} from "@/types";
+import { getCurrentDateString } from "@/utils";
 import { getDatabase } from "../connection";
+import { AccountRepository } from "./account.repository";
+import { ExpenseAuditRepository } from "./expense-audit.repository";
+
+// Keeps IN (...) lists well under SQLite's bound parameter limit
+const DETAIL_QUERY_CHUNK = 500;
+
+// Refunds are stored with a positive amount and count against totals
+const SIGNED_AMOUNT = "CASE WHEN e.kind = 'refund' THEN -e.amount_cents ELSE e.amount_cents END";
+
+const QUERY_ORDER: Record<ExpenseSortOrder, string> = {
+  date_desc: "e.expense_date DESC, e.id DESC",
+  date_asc: "e.expense_date ASC, e.id ASC",
+  amount_desc: `${SIGNED_AMOUNT} DESC, e.expense_date DESC`,
+  amount_asc: `${SIGNED_AMOUNT} ASC, e.expense_date DESC`,
+};
 
 /**
  * Map database entity to UI model
  */
-function mapToExpense(entity: ExpenseEntity): Expense {
+function mapToExpense(
+  entity: ExpenseEntity,
+  lineItems: ExpenseLineItem[] = [],
+  tagIds: number[] = [],
+  attachmentCount: number = 0,
+): Expense {
   return {
     id: entity.id,
     monthId: entity.month_id,
@@ -14,12 +48,154 @@ function mapToExpense(entity: ExpenseEntity): Expense {
     expenseDate: entity.expense_date,
     isPaid: entity.is_paid === 1,
     isVerified: entity.is_verified === 1,
+    recurringExpenseId: entity.recurring_expense_id,
+    installmentPlanId: entity.installment_plan_id,
+    installmentNumber: entity.installment_number,
+    merchantId: entity.merchant_id,
+    accountId: entity.account_id,
+    originalCurrency: entity.original_currency,
+    originalAmountCents: entity.original_amount_cents,
+    exchangeRate: entity.exchange_rate,
+    kind: entity.kind as ExpenseKind,
+    refundOfExpenseId: entity.refund_of_expense_id,
+    lineItems,
+    tagIds,
+    attachmentCount,
     createdAt: entity.created_at,
     updatedAt: entity.updated_at,
     deletedAt: entity.deleted_at,
   };
 }
 
+function mapToLineItem(entity: ExpenseLineItemEntity): ExpenseLineItem {
+  return {
+    id: entity.id,
+    expenseId: entity.expense_id,
+    categoryId: entity.category_id,
+    amountCents: entity.amount_cents,
+    note: entity.note,
+  };
+}
+
+/**
+ * Make sure a refund links to an existing regular expense
+ */
+async function assertRefundLink(kind: ExpenseKind, refundOfExpenseId: number | null): Promise<void> {
+  if (refundOfExpenseId === null) return;
+  if (kind !== "refund") {
+    throw new Error("Only refunds can link to an original expense");
+  }
+
+  const db = await getDatabase();
+  const original = await db.getFirstAsync<Pick<ExpenseEntity, "kind">>(
+    "SELECT kind FROM expenses WHERE id = ? AND deleted_at IS NULL",
+    [refundOfExpenseId],
+  );
+  if (!original || original.kind === "refund") {
+    throw new Error("Original expense not found");
+  }
+}
+
+/**
+ * Map expense rows to UI models together with their line items, tags and attachment counts
+ */
+async function mapWithDetails(entities: ExpenseEntity[]): Promise<Expense[]> {
+  if (entities.length === 0) return [];
+  const db = await getDatabase();
+  const lineItemsByExpense = new Map<number, ExpenseLineItem[]>();
+  const tagIdsByExpense = new Map<number, number[]>();
+  const attachmentCounts = new Map<number, number>();
+
+  for (let i = 0; i < entities.length; i += DETAIL_QUERY_CHUNK) {
+    const ids = entities.slice(i, i + DETAIL_QUERY_CHUNK).map((e) => e.id);
+    const placeholders = ids.map(() => "?").join(",");
+
+    const lineItems = await db.getAllAsync<ExpenseLineItemEntity>(
+      `SELECT * FROM expense_line_items WHERE expense_id IN (${placeholders}) ORDER BY sort_order, id`,
+      ids,
+    );
+    for (const row of lineItems) {
+      const items = lineItemsByExpense.get(row.expense_id) ?? [];
+      items.push(mapToLineItem(row));
+      lineItemsByExpense.set(row.expense_id, items);
+    }
+
+    const tags = await db.getAllAsync<ExpenseTagEntity>(
+      `SELECT * FROM expense_tags WHERE expense_id IN (${placeholders})`,
+      ids,
+    );
+    for (const row of tags) {
+      const tagIds = tagIdsByExpense.get(row.expense_id) ?? [];
+      tagIds.push(row.tag_id);
+      tagIdsByExpense.set(row.expense_id, tagIds);
+    }
+
+    const attachments = await db.getAllAsync<{ expense_id: number; count: number }>(
+      `SELECT expense_id, COUNT(*) as count FROM attachments WHERE expense_id IN (${placeholders}) GROUP BY expense_id`,
+      ids,
+    );
+    for (const row of attachments) {
+      attachmentCounts.set(row.expense_id, row.count);
+    }
+  }
+
+  return entities.map((e) =>
+    mapToExpense(e, lineItemsByExpense.get(e.id), tagIdsByExpense.get(e.id), attachmentCounts.get(e.id)),
+  );
+}
+
+/**
+ * Get expenses by id whatever their deleted state (snapshots for the audit log)
+ */
+async function findSnapshots(ids: number[]): Promise<Expense[]> {
+  if (ids.length === 0) return [];
+  const db = await getDatabase();
+  const results = await db.getAllAsync<ExpenseEntity>(
+    `SELECT * FROM expenses WHERE id IN (${ids.map(() => "?").join(",")})`,
+    ids,
+  );
+  return mapWithDetails(results);
+}
+
+/**
+ * Record the audit entries of a change made to several expenses at once
+ */
+async function recordChanges(before: Expense[], after: Expense[]): Promise<void> {
+  for (const snapshot of after) {
+    const previous = before.find((e) => e.id === snapshot.id);
+    if (previous) await ExpenseAuditRepository.recordChange(previous, snapshot);
+  }
+}
+
+/**
+ * Ensure the parts of a split add up to the expense amount
+ */
+function assertLineItemsMatch(amountCents: number, lineItems: ExpenseLineItemDTO[]): void {
+  if (lineItems.length === 0) return;
+  if (lineItems.some((item) => item.amountCents <= 0)) {
+    throw new Error("Line item amounts must be positive");
+  }
+  const total = lineItems.reduce((sum, item) => sum + item.amountCents, 0);
+  if (total !== amountCents) {
+    throw new Error("Line items must add up to the expense amount");
+  }
+}
+
+/**
+ * Whether a new split is identical to the current one
+ */
+function sameLineItems(current: ExpenseLineItem[], next: ExpenseLineItemDTO[]): boolean {
+  return (
+    current.length === next.length &&
+    current.every(
+      (item, i) =>
+        item.categoryId === next[i]!.categoryId &&
+        item.amountCents === next[i]!.amountCents &&
+        item.note === (next[i]!.note ?? null),
+    )
+  );
+}
+
 export const ExpenseRepository = {
   /**
    * Find expense by ID
@@ -29,7 +205,9 @@ export const ExpenseRepository = {
     const result = await db.getFirstAsync<ExpenseEntity>("SELECT * FROM expenses WHERE id = ? AND deleted_at IS NULL", [
       id,
     ]);
-    return result ? mapToExpense(result) : null;
+    if (!result) return null;
+    const [expense] = await mapWithDetails([result]);
+    return expense ?? null;
   },
 
   /**
@@ -43,7 +221,91 @@ export const ExpenseRepository = {
        ORDER BY expense_date DESC, created_at DESC`,
       [monthId],
     );
-    return results.map(mapToExpense);
+    return mapWithDetails(results);
+  },
+
+  /**
+   * Full-text search over the notes, category names and amounts of a profile's expenses
+   * @param matchQuery - FTS5 MATCH expression, see buildSearchQuery
+   * @returns Newest first, with the year and month each expense belongs to
+   */
+  async search(matchQuery: string, profileId: number = 1, limit: number = 200): Promise<ExpenseSearchResult[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExpenseEntity & { year: number; month: number }>(
+      `SELECT e.*, m.year, m.month
+       FROM expenses_fts
+       JOIN expenses e ON e.id = expenses_fts.rowid
+       JOIN months m ON m.id = e.month_id
+       WHERE expenses_fts MATCH ? AND m.profile_id = ? AND e.deleted_at IS NULL
+       ORDER BY e.expense_date DESC, e.id DESC
+       LIMIT ?`,
+      [matchQuery, profileId, limit],
+    );
+    const expenses = await mapWithDetails(results);
+    return expenses.map((expense, index) => ({ ...expense, year: results[index]!.year, month: results[index]!.month }));
+  },
+
+  /**
+   * Find a profile's expenses across all months matching a set of filters
+   * Amount bounds apply to the amount as entered, so a refund of 150.00 is "over 100".
+   * @returns Every match (no limit) so totals over the result cover the whole filtered set
+   */
+  async query(filters: ExpenseQueryDTO, profileId: number = 1): Promise<ExpenseSearchResult[]> {
+    const db = await getDatabase();
+    const conditions = ["m.profile_id = ?", "e.deleted_at IS NULL"];
+    const values: (string | number)[] = [profileId];
+
+    if (filters.startDate) {
+      conditions.push("date(e.expense_date) >= ?");
+      values.push(filters.startDate);
+    }
+    if (filters.endDate) {
+      conditions.push("date(e.expense_date) <= ?");
+      values.push(filters.endDate);
+    }
+    if (filters.categoryIds && filters.categoryIds.length > 0) {
+      // A split expense matches when any of its line items is in one of the categories
+      const placeholders = filters.categoryIds.map(() => "?").join(", ");
+      conditions.push(
+        `(e.category_id IN (${placeholders}) OR EXISTS (
+           SELECT 1 FROM expense_line_items li WHERE li.expense_id = e.id AND li.category_id IN (${placeholders})
+         ))`,
+      );
+      values.push(...filters.categoryIds, ...filters.categoryIds);
+    }
+    if (filters.isPaid !== undefined) {
+      conditions.push("e.is_paid = ?");
+      values.push(filters.isPaid ? 1 : 0);
+    }
+    if (filters.isVerified !== undefined) {
+      conditions.push("e.is_verified = ?");
+      values.push(filters.isVerified ? 1 : 0);
+    }
+    if (filters.minAmountCents !== undefined) {
+      conditions.push("e.amount_cents >= ?");
+      values.push(filters.minAmountCents);
+    }
+    if (filters.maxAmountCents !== undefined) {
+      conditions.push("e.amount_cents <= ?");
+      values.push(filters.maxAmountCents);
+    }
+    const noteContains = filters.noteContains?.trim();
+    if (noteContains) {
+      // Match the text literally; LIKE is case-insensitive for ASCII
+      conditions.push("e.note LIKE ? ESCAPE '\\'");
+      values.push(`%${noteContains.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+    }
+
+    const results = await db.getAllAsync<ExpenseEntity & { year: number; month: number }>(
+      `SELECT e.*, m.year, m.month
+       FROM expenses e
+       JOIN months m ON m.id = e.month_id
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY ${QUERY_ORDER[filters.sort ?? "date_desc"]}`,
+      values,
+    );
+    const expenses = await mapWithDetails(results);
+    return expenses.map((expense, index) => ({ ...expense, year: results[index]!.year, month: results[index]!.month }));
   },
 
   /**
@@ -57,7 +319,7 @@ export const ExpenseRepository = {
        ORDER BY expense_date DESC, created_at DESC`,
       [monthId, categoryId],
     );
-    return results.map(mapToExpense);
+    return mapWithDetails(results);
   },
 
   /**
@@ -68,28 +330,28 @@ export const ExpenseRepository = {
     const results = await db.getAllAsync<ExpenseEntity>(
       "SELECT * FROM expenses ORDER BY expense_date DESC, created_at DESC",
     );
-    return results.map(mapToExpense);
+    return mapWithDetails(results);
   },
 
   /**
-   * Get total spent for a month (PAID expenses only)
+   * Get total spent for a month (PAID expenses only, net of refunds)
    */
   async getTotalForMonth(monthId: number): Promise<number> {
     const db = await getDatabase();
     const result = await db.getFirstAsync<{ total: number | null }>(
-      "SELECT SUM(amount_cents) as total FROM expenses WHERE month_id = ? AND deleted_at IS NULL AND is_paid = 1",
+      `SELECT SUM(${SIGNED_AMOUNT}) as total FROM expenses e WHERE e.month_id = ? AND e.deleted_at IS NULL AND e.is_paid = 1`,
       [monthId],
     );
     return result?.total ?? 0;
   },
 
   /**
-   * Get total balance for a month (UNPAID expenses only)
+   * Get total balance for a month (UNPAID expenses only, net of refunds)
    */
   async getBalanceForMonth(monthId: number): Promise<number> {
     const db = await getDatabase();
     const result = await db.getFirstAsync<{ total: number | null }>(
-      "SELECT SUM(amount_cents) as total FROM expenses WHERE month_id = ? AND deleted_at IS NULL AND is_paid = 0",
+      `SELECT SUM(${SIGNED_AMOUNT}) as total FROM expenses e WHERE e.month_id = ? AND e.deleted_at IS NULL AND e.is_paid = 0`,
       [monthId],
     );
     return result?.total ?? 0;
@@ -97,16 +359,26 @@ export const ExpenseRepository = {
 
   /**
    * Get spending breakdown by category for a month
+   * Split expenses count each line item towards its own category; refunds are subtracted
    */
   async getCategoryBreakdown(monthId: number): Promise<{ categoryId: number; total: number }[]> {
     const db = await getDatabase();
     const results = await db.getAllAsync<{ category_id: number; total: number }>(
-      `SELECT category_id, SUM(amount_cents) as total 
-       FROM expenses 
-       WHERE month_id = ? AND deleted_at IS NULL 
-       GROUP BY category_id 
+      `SELECT category_id, SUM(amount_cents) as total
+       FROM (
+         SELECT e.category_id, ${SIGNED_AMOUNT} as amount_cents
+         FROM expenses e
+         WHERE e.month_id = ? AND e.deleted_at IS NULL
+           AND NOT EXISTS (SELECT 1 FROM expense_line_items li WHERE li.expense_id = e.id)
+         UNION ALL
+         SELECT li.category_id, CASE WHEN e.kind = 'refund' THEN -li.amount_cents ELSE li.amount_cents END
+         FROM expense_line_items li
+         JOIN expenses e ON e.id = li.expense_id
+         WHERE e.month_id = ? AND e.deleted_at IS NULL
+       )
+       GROUP BY category_id
        ORDER BY total DESC`,
-      [monthId],
+      [monthId, monthId],
     );
     return results.map((r) => ({ categoryId: r.category_id, total: r.total }));
   },
@@ -116,23 +388,49 @@ export const ExpenseRepository = {
    */
   async create(dto: CreateExpenseDTO): Promise<Expense> {
     const db = await getDatabase();
-    const expenseDate = dto.expenseDate ?? new Date().toISOString().split("T")[0];
+    assertLineItemsMatch(dto.amountCents, dto.lineItems ?? []);
+    await assertRefundLink(dto.kind ?? "expense", dto.refundOfExpenseId ?? null);
+    const expenseDate = dto.expenseDate ?? getCurrentDateString();
 
     const result = await db.runAsync(
-      "INSERT INTO expenses (month_id, category_id, amount_cents, note, expense_date) VALUES (?, ?, ?, ?, ?)",
+      `INSERT INTO expenses
+       (month_id, category_id, amount_cents, note, expense_date, is_paid, recurring_expense_id, installment_plan_id, installment_number, merchant_id, account_id, original_currency, original_amount_cents, exchange_rate, kind, refund_of_expense_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         dto.monthId,
         dto.categoryId,
         dto.amountCents,
         dto.note ?? null,
-        expenseDate ?? new Date().toISOString().split("T")[0] ?? "",
+        expenseDate,
+        dto.isPaid ? 1 : 0,
+        dto.recurringExpenseId ?? null,
+        dto.installmentPlanId ?? null,
+        dto.installmentNumber ?? null,
+        dto.merchantId ?? null,
+        dto.accountId ?? null,
+        dto.foreignAmount?.currency ?? null,
+        dto.foreignAmount?.amountCents ?? null,
+        dto.foreignAmount?.rate ?? null,
+        dto.kind ?? "expense",
+        dto.refundOfExpenseId ?? null,
       ],
     );
 
+    if (dto.lineItems && dto.lineItems.length > 0) {
+      await this.replaceLineItems(result.lastInsertRowId, dto.lineItems);
+    }
+    if (dto.tagIds && dto.tagIds.length > 0) {
+      await this.replaceTags(result.lastInsertRowId, dto.tagIds);
+    }
+
     const created = await this.findById(result.lastInsertRowId);
     if (!created) {
       throw new Error("Failed to create expense");
     }
+    if (created.isPaid) {
+      await AccountRepository.syncExpenseDebit(created);
+    }
+    await ExpenseAuditRepository.recordChange(null, created);
     return created;
   },
 
@@ -148,6 +446,10 @@ export const ExpenseRepository = {
     const values: (string | number | null)[] = [];
     let shouldResetVerification = false;
 
+    if (dto.monthId !== undefined) {
+      updates.push("month_id = ?");
+      values.push(dto.monthId);
+    }
     if (dto.categoryId !== undefined) {
       if (dto.categoryId !== existing.categoryId) {
         shouldResetVerification = true;
@@ -176,6 +478,43 @@ export const ExpenseRepository = {
       updates.push("expense_date = ?");
       values.push(dto.expenseDate);
     }
+    if (dto.merchantId !== undefined) {
+      updates.push("merchant_id = ?");
+      values.push(dto.merchantId);
+    }
+    if (dto.accountId !== undefined) {
+      updates.push("account_id = ?");
+      values.push(dto.accountId);
+    }
+    if (dto.foreignAmount !== undefined) {
+      updates.push("original_currency = ?", "original_amount_cents = ?", "exchange_rate = ?");
+      values.push(
+        dto.foreignAmount?.currency ?? null,
+        dto.foreignAmount?.amountCents ?? null,
+        dto.foreignAmount?.rate ?? null,
+      );
+    }
+    if (dto.kind !== undefined || dto.refundOfExpenseId !== undefined) {
+      const kind = dto.kind ?? existing.kind;
+      // A regular expense can't stay linked to an original
+      const refundOfExpenseId =
+        kind === "refund"
+          ? dto.refundOfExpenseId !== undefined
+            ? dto.refundOfExpenseId
+            : existing.refundOfExpenseId
+          : null;
+      if (refundOfExpenseId === id) {
+        throw new Error("An expense can't refund itself");
+      }
+      if (refundOfExpenseId !== existing.refundOfExpenseId) {
+        await assertRefundLink(kind, refundOfExpenseId);
+      }
+      if (kind !== existing.kind) {
+        shouldResetVerification = true;
+      }
+      updates.push("kind = ?", "refund_of_expense_id = ?");
+      values.push(kind, refundOfExpenseId);
+    }
     if (dto.isPaid !== undefined) {
       // "Only from paid to unpaid will it be removed"
       if (existing.isPaid && !dto.isPaid) {
@@ -193,7 +532,19 @@ export const ExpenseRepository = {
       updates.push("is_verified = 0");
     }
 
-    if (updates.length === 0) {
+    // A new amount without new parts no longer matches the old split, so it is dropped
+    let lineItems = dto.lineItems;
+    if (lineItems === undefined && dto.amountCents !== undefined && dto.amountCents !== existing.amountCents) {
+      lineItems = existing.lineItems.length > 0 ? [] : undefined;
+    }
+    if (lineItems !== undefined) {
+      assertLineItemsMatch(dto.amountCents ?? existing.amountCents, lineItems);
+      if (!shouldResetVerification && dto.isVerified === undefined && !sameLineItems(existing.lineItems, lineItems)) {
+        updates.push("is_verified = 0");
+      }
+    }
+
+    if (updates.length === 0 && lineItems === undefined && dto.tagIds === undefined) {
       return existing;
     }
 
@@ -201,32 +552,165 @@ export const ExpenseRepository = {
     values.push(id);
 
     await db.runAsync(`UPDATE expenses SET ${updates.join(", ")} WHERE id = ?`, values);
+    if (lineItems !== undefined) {
+      await this.replaceLineItems(id, lineItems);
+    }
+    if (dto.tagIds !== undefined) {
+      await this.replaceTags(id, dto.tagIds);
+    }
 
     const updated = await this.findById(id);
     if (!updated) {
       throw new Error("Expense not found");
     }
+    // Paying (or un-paying) an expense debits (or refunds) its account
+    await AccountRepository.syncExpenseDebit(updated);
+    await ExpenseAuditRepository.recordChange(existing, updated);
     return updated;
   },
 
+  /**
+   * Write back a snapshot of an expense exactly as it was, including its paid, verified and deleted state
+   * Used by undo/redo; unlike update it applies no verification rules.
+   */
+  async overwrite(snapshot: Expense): Promise<void> {
+    const db = await getDatabase();
+    const before = await findSnapshots([snapshot.id]);
+    await db.runAsync(
+      `UPDATE expenses SET
+         month_id = ?, category_id = ?, amount_cents = ?, note = ?, expense_date = ?, is_paid = ?, is_verified = ?,
+         merchant_id = ?, account_id = ?, original_currency = ?, original_amount_cents = ?, exchange_rate = ?,
+         kind = ?, refund_of_expense_id = ?, updated_at = ?, deleted_at = ?
+       WHERE id = ?`,
+      [
+        snapshot.monthId,
+        snapshot.categoryId,
+        snapshot.amountCents,
+        snapshot.note,
+        snapshot.expenseDate,
+        snapshot.isPaid ? 1 : 0,
+        snapshot.isVerified ? 1 : 0,
+        snapshot.merchantId,
+        snapshot.accountId,
+        snapshot.originalCurrency,
+        snapshot.originalAmountCents,
+        snapshot.exchangeRate,
+        snapshot.kind,
+        snapshot.refundOfExpenseId,
+        snapshot.updatedAt,
+        snapshot.deletedAt,
+        snapshot.id,
+      ],
+    );
+    await this.replaceLineItems(
+      snapshot.id,
+      snapshot.lineItems.map((item) => ({
+        categoryId: item.categoryId,
+        amountCents: item.amountCents,
+        note: item.note ?? undefined,
+      })),
+    );
+    await this.replaceTags(snapshot.id, snapshot.tagIds);
+    await AccountRepository.syncExpenseDebit(snapshot);
+    await recordChanges(before, await findSnapshots([snapshot.id]));
+  },
+
+  /**
+   * Replace the line items of an expense ([] removes the split)
+   * Callers are responsible for the parts adding up to the expense amount
+   */
+  async replaceLineItems(expenseId: number, lineItems: ExpenseLineItemDTO[]): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM expense_line_items WHERE expense_id = ?", [expenseId]);
+    for (const [index, item] of lineItems.entries()) {
+      await db.runAsync(
+        "INSERT INTO expense_line_items (expense_id, category_id, amount_cents, note, sort_order) VALUES (?, ?, ?, ?, ?)",
+        [expenseId, item.categoryId, item.amountCents, item.note ?? null, index],
+      );
+    }
+  },
+
+  /**
+   * Replace the tags of an expense ([] removes them)
+   */
+  async replaceTags(expenseId: number, tagIds: number[]): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM expense_tags WHERE expense_id = ?", [expenseId]);
+    for (const tagId of new Set(tagIds)) {
+      await db.runAsync("INSERT INTO expense_tags (expense_id, tag_id) VALUES (?, ?)", [expenseId, tagId]);
+    }
+  },
+
   /**
    * Soft delete an expense
    */
   async softDelete(id: number): Promise<void> {
     const db = await getDatabase();
+    const before = await findSnapshots([id]);
     await db.runAsync("UPDATE expenses SET deleted_at = datetime('now'), updated_at = datetime('now') WHERE id = ?", [
       id,
     ]);
+    await recordChanges(before, await findSnapshots([id]));
   },
 
   /**
    * Hard delete an expense (use with caution)
+   * Its attachment rows go with it; their stored files are left to the caller
    */
   async hardDelete(id: number): Promise<void> {
     const db = await getDatabase();
     await db.runAsync("DELETE FROM expenses WHERE id = ?", [id]);
   },
 
+  /**
+   * Get a profile's deleted expenses, most recently deleted first
+   */
+  async findDeleted(profileId: number = 1): Promise<ExpenseSearchResult[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<ExpenseEntity & { year: number; month: number }>(
+      `SELECT e.*, m.year, m.month
+       FROM expenses e
+       JOIN months m ON m.id = e.month_id
+       WHERE m.profile_id = ? AND e.deleted_at IS NOT NULL
+       ORDER BY e.deleted_at DESC, e.id DESC`,
+      [profileId],
+    );
+    const expenses = await mapWithDetails(results);
+    return expenses.map((expense, index) => ({ ...expense, year: results[index]!.year, month: results[index]!.month }));
+  },
+
+  /**
+   * Restore a soft-deleted expense
+   * A deleted category comes back with it, so the expense isn't shown under "Unknown"
+   */
+  async restore(id: number): Promise<void> {
+    const db = await getDatabase();
+    const before = await findSnapshots([id]);
+    await db.runAsync("UPDATE expenses SET deleted_at = NULL, updated_at = datetime('now') WHERE id = ?", [id]);
+    await recordChanges(before, await findSnapshots([id]));
+    await db.runAsync(
+      `UPDATE categories SET deleted_at = NULL, updated_at = datetime('now')
+       WHERE id = (SELECT category_id FROM expenses WHERE id = ?) AND deleted_at IS NOT NULL`,
+      [id],
+    );
+  },
+
+  /**
+   * Permanently delete expenses that have been deleted for more than `days` days
+   * @returns IDs of the purged expenses
+   */
+  async purgeDeletedOlderThan(days: number): Promise<number[]> {
+    const db = await getDatabase();
+    const expired = await db.getAllAsync<{ id: number }>(
+      "SELECT id FROM expenses WHERE deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)",
+      [`-${days} days`],
+    );
+    for (const { id } of expired) {
+      await this.hardDelete(id);
+    }
+    return expired.map((e) => e.id);
+  },
+
   /**
    * Get expense count for a month
    */
@@ -241,11 +725,13 @@ export const ExpenseRepository = {
 
   /**
    * Bulk update paid status for multiple expenses
+   * Each expense with an account is debited from (or refunded to) it
    */
   async bulkUpdatePaidStatus(ids: number[], isPaid: boolean): Promise<void> {
     if (ids.length === 0) return;
     const db = await getDatabase();
     const placeholders = ids.map(() => "?").join(",");
+    const before = await findSnapshots(ids);
 
     // Handle verification loss: "Only from paid to unpaid will it be removed"
     if (!isPaid) {
@@ -259,6 +745,21 @@ export const ExpenseRepository = {
         ids,
       );
     }
+
+    const rows = await db.getAllAsync<Pick<ExpenseEntity, "id" | "amount_cents" | "is_paid" | "account_id" | "kind">>(
+      `SELECT id, amount_cents, is_paid, account_id, kind FROM expenses WHERE id IN (${placeholders})`,
+      ids,
+    );
+    for (const row of rows) {
+      await AccountRepository.syncExpenseDebit({
+        id: row.id,
+        amountCents: row.amount_cents,
+        isPaid: row.is_paid === 1,
+        accountId: row.account_id,
+        kind: row.kind as ExpenseKind,
+      });
+    }
+    await recordChanges(before, await findSnapshots(ids));
   },
 
   /**
@@ -268,10 +769,12 @@ export const ExpenseRepository = {
     if (ids.length === 0) return;
     const db = await getDatabase();
     const placeholders = ids.map(() => "?").join(",");
+    const before = await findSnapshots(ids);
     await db.runAsync(
       `UPDATE expenses SET is_verified = ?, updated_at = datetime('now') WHERE id IN (${placeholders})`,
       [isVerified ? 1 : 0, ...ids],
     );
+    await recordChanges(before, await findSnapshots(ids));
   },
 
   /**
@@ -281,9 +784,11 @@ export const ExpenseRepository = {
     if (ids.length === 0) return;
     const db = await getDatabase();
     const placeholders = ids.map(() => "?").join(",");
+    const before = await findSnapshots(ids);
     await db.runAsync(
       `UPDATE expenses SET deleted_at = datetime('now'), updated_at = datetime('now') WHERE id IN (${placeholders})`,
       ids,
     );
+    await recordChanges(before, await findSnapshots(ids));
   },
 };
@@ -0,0 +1,104 @@
+import type { GeneratedPeriod, GeneratedPeriodEntity } from "@/types";
+import { getDatabase } from "../connection";
+import { RECORD_GENERATED_PERIODS } from "../schema";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToGeneratedPeriod(entity: GeneratedPeriodEntity): GeneratedPeriod {
+  return {
+    recurringExpenseId: entity.recurring_expense_id,
+    installmentPlanId: entity.installment_plan_id,
+    year: entity.year,
+    month: entity.month,
+    createdAt: entity.created_at,
+  };
+}
+
+/**
+ * Months recurring templates and installment plans have generated their expense for
+ * Kept apart from the expenses, so moving, re-dating or purging one doesn't get it generated again.
+ */
+export const GeneratedPeriodRepository = {
+  /**
+   * Get every generated period (for export)
+   */
+  async findAll(): Promise<GeneratedPeriod[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<GeneratedPeriodEntity>(
+      "SELECT * FROM generated_periods ORDER BY year ASC, month ASC",
+    );
+    return results.map(mapToGeneratedPeriod);
+  },
+
+  /**
+   * Get the ids of the recurring templates that have generated their expense for a month
+   */
+  async findRecurringIds(year: number, month: number): Promise<Set<number>> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ recurring_expense_id: number }>(
+      "SELECT recurring_expense_id FROM generated_periods WHERE recurring_expense_id IS NOT NULL AND year = ? AND month = ?",
+      [year, month],
+    );
+    return new Set(rows.map((r) => r.recurring_expense_id));
+  },
+
+  /**
+   * Get the ids of the installment plans that have generated their installment for a month
+   */
+  async findInstallmentPlanIds(year: number, month: number): Promise<Set<number>> {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ installment_plan_id: number }>(
+      "SELECT installment_plan_id FROM generated_periods WHERE installment_plan_id IS NOT NULL AND year = ? AND month = ?",
+      [year, month],
+    );
+    return new Set(rows.map((r) => r.installment_plan_id));
+  },
+
+  /**
+   * Record that a recurring template generated its expense for a month
+   */
+  async recordRecurring(recurringExpenseId: number, year: number, month: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("INSERT OR IGNORE INTO generated_periods (recurring_expense_id, year, month) VALUES (?, ?, ?)", [
+      recurringExpenseId,
+      year,
+      month,
+    ]);
+  },
+
+  /**
+   * Record that an installment plan generated its installment for a month
+   */
+  async recordInstallment(installmentPlanId: number, year: number, month: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("INSERT OR IGNORE INTO generated_periods (installment_plan_id, year, month) VALUES (?, ?, ?)", [
+      installmentPlanId,
+      year,
+      month,
+    ]);
+  },
+
+  /**
+   * Hand the periods of a recurring template from a month onward over to the template continuing it
+   * @param fromIndex - Sequential month index (year * 12 + month - 1) of the first period handed over
+   */
+  async moveRecurring(fromId: number, toId: number, fromIndex: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      `UPDATE OR IGNORE generated_periods SET recurring_expense_id = ?
+       WHERE recurring_expense_id = ? AND (year * 12 + month - 1) >= ?`,
+      [toId, fromId, fromIndex],
+    );
+  },
+
+  /**
+   * Record the periods of the generated expenses that have none yet
+   * For data from before periods were kept (or backups without them): a recurring expense counts
+   * for the month it is in, an installment for the month its number falls in.
+   */
+  async recordFromExpenses(): Promise<void> {
+    const db = await getDatabase();
+    await db.execAsync(RECORD_GENERATED_PERIODS);
+  },
+};
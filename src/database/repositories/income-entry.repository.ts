@@ -0,0 +1,116 @@
+import type { CreateIncomeEntryDTO, IncomeEntry, IncomeEntryEntity, UpdateIncomeEntryDTO } from "@/types";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToIncomeEntry(entity: IncomeEntryEntity): IncomeEntry {
+  return {
+    id: entity.id,
+    monthId: entity.month_id,
+    name: entity.name,
+    amountCents: entity.amount_cents,
+    entryDate: entity.entry_date,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+    deletedAt: entity.deleted_at,
+  };
+}
+
+export const IncomeEntryRepository = {
+  /**
+   * Find income entry by ID
+   */
+  async findById(id: number): Promise<IncomeEntry | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<IncomeEntryEntity>(
+      "SELECT * FROM income_entries WHERE id = ? AND deleted_at IS NULL",
+      [id],
+    );
+    return result ? mapToIncomeEntry(result) : null;
+  },
+
+  /**
+   * Get the income entries of every month of a year for a profile
+   */
+  async findByYear(year: number, profileId: number = 1): Promise<IncomeEntry[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<IncomeEntryEntity>(
+      `SELECT i.* FROM income_entries i
+       JOIN months m ON m.id = i.month_id
+       WHERE m.year = ? AND m.profile_id = ? AND i.deleted_at IS NULL
+       ORDER BY i.entry_date ASC, i.id ASC`,
+      [year, profileId],
+    );
+    return results.map(mapToIncomeEntry);
+  },
+
+  /**
+   * Get all income entries including deleted (for export)
+   */
+  async findAllIncludingDeleted(): Promise<IncomeEntry[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<IncomeEntryEntity>("SELECT * FROM income_entries ORDER BY id ASC");
+    return results.map(mapToIncomeEntry);
+  },
+
+  /**
+   * Create a new income entry in a month
+   */
+  async create(dto: CreateIncomeEntryDTO): Promise<IncomeEntry> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      "INSERT INTO income_entries (month_id, name, amount_cents, entry_date) VALUES (?, ?, ?, ?)",
+      [dto.monthId, dto.name.trim(), dto.amountCents, dto.entryDate],
+    );
+
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create income entry");
+    }
+    return created;
+  },
+
+  /**
+   * Update an existing income entry
+   */
+  async update(id: number, dto: UpdateIncomeEntryDTO): Promise<IncomeEntry> {
+    const db = await getDatabase();
+    const updates: string[] = [];
+    const values: (string | number)[] = [];
+
+    if (dto.name !== undefined) {
+      updates.push("name = ?");
+      values.push(dto.name.trim());
+    }
+    if (dto.amountCents !== undefined) {
+      updates.push("amount_cents = ?");
+      values.push(dto.amountCents);
+    }
+    if (dto.entryDate !== undefined) {
+      updates.push("entry_date = ?");
+      values.push(dto.entryDate);
+    }
+
+    if (updates.length > 0) {
+      updates.push("updated_at = datetime('now')");
+      values.push(id);
+      await db.runAsync(`UPDATE income_entries SET ${updates.join(", ")} WHERE id = ?`, values);
+    }
+
+    const updated = await this.findById(id);
+    if (!updated) throw new Error("Income entry not found");
+    return updated;
+  },
+
+  /**
+   * Soft delete an income entry
+   */
+  async softDelete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "UPDATE income_entries SET deleted_at = datetime('now'), updated_at = datetime('now') WHERE id = ?",
+      [id],
+    );
+  },
+};
@@ -1,7 +1,21 @@
 // Re-export all repositories
+export { AccountRepository } from "./account.repository";
 export { AllowanceRepository } from "./allowance.repository";
+export { AttachmentRepository } from "./attachment.repository";
+export { CategoryBudgetRepository } from "./category-budget.repository";
 export { CategoryRepository } from "./category.repository";
+export { DuplicateRepository } from "./duplicate.repository";
+export { ExchangeRateRepository } from "./exchange-rate.repository";
+export { ExpenseAuditRepository } from "./expense-audit.repository";
 export { ExpenseRepository } from "./expense.repository";
+export { ExpenseTemplateRepository } from "./expense-template.repository";
+export { GeneratedPeriodRepository } from "./generated-period.repository";
+export { IncomeEntryRepository } from "./income-entry.repository";
+export { InstallmentPlanRepository } from "./installment-plan.repository";
+export { MerchantRepository } from "./merchant.repository";
 export { MonthRepository } from "./month.repository";
 export { ProfileRepository } from "./profile.repository";
+export { RecurringExpenseRepository } from "./recurring-expense.repository";
+export { SavingsGoalRepository } from "./savings-goal.repository";
 export { SettingsRepository } from "./settings.repository";
+export { TagRepository } from "./tag.repository";
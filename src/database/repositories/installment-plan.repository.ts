@@ -0,0 +1,235 @@
+import type {
+  CreateInstallmentPlanDTO,
+  InstallmentPlan,
+  InstallmentPlanEntity,
+  InstallmentPlanStatus,
+  Month,
+} from "@/types";
+import { getInstallmentAmount, getInstallmentDueDate, getInstallmentMonth, getInstallmentNumber } from "@/utils";
+import { getDatabase } from "../connection";
+import { ExpenseRepository } from "./expense.repository";
+import { GeneratedPeriodRepository } from "./generated-period.repository";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToInstallmentPlan(entity: InstallmentPlanEntity): InstallmentPlan {
+  return {
+    id: entity.id,
+    categoryId: entity.category_id,
+    note: entity.note,
+    totalCents: entity.total_cents,
+    installmentCount: entity.installment_count,
+    dayOfMonth: entity.day_of_month,
+    startYear: entity.start_year,
+    startMonth: entity.start_month,
+    status: entity.status as InstallmentPlanStatus,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+    deletedAt: entity.deleted_at,
+  };
+}
+
+interface InstallmentRow {
+  id: number;
+  amount_cents: number;
+  installment_number: number | null;
+  is_paid: number;
+  month_index: number;
+}
+
+export const InstallmentPlanRepository = {
+  /**
+   * Find installment plan by ID
+   */
+  async findById(id: number): Promise<InstallmentPlan | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<InstallmentPlanEntity>(
+      "SELECT * FROM installment_plans WHERE id = ? AND deleted_at IS NULL",
+      [id],
+    );
+    return result ? mapToInstallmentPlan(result) : null;
+  },
+
+  /**
+   * Get all plans for a profile (any status, excluding deleted)
+   */
+  async findAll(profileId: number = 1): Promise<InstallmentPlan[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<InstallmentPlanEntity>(
+      "SELECT * FROM installment_plans WHERE profile_id = ? AND deleted_at IS NULL ORDER BY start_year DESC, start_month DESC, created_at DESC",
+      [profileId],
+    );
+    return results.map(mapToInstallmentPlan);
+  },
+
+  /**
+   * Get all plans including deleted (for export)
+   */
+  async findAllIncludingDeleted(): Promise<(InstallmentPlan & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<InstallmentPlanEntity>(
+      "SELECT * FROM installment_plans ORDER BY created_at ASC",
+    );
+    return results.map((r) => ({ ...mapToInstallmentPlan(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Create a new installment plan for a profile
+   */
+  async create(dto: CreateInstallmentPlanDTO, profileId: number = 1): Promise<InstallmentPlan> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      `INSERT INTO installment_plans
+       (profile_id, category_id, note, total_cents, installment_count, day_of_month, start_year, start_month)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        profileId,
+        dto.categoryId,
+        dto.note ?? null,
+        dto.totalCents,
+        dto.installmentCount,
+        dto.dayOfMonth,
+        dto.startYear,
+        dto.startMonth,
+      ],
+    );
+
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create installment plan");
+    }
+    return created;
+  },
+
+  /**
+   * Set the status of a plan
+   */
+  async setStatus(id: number, status: InstallmentPlanStatus): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("UPDATE installment_plans SET status = ?, updated_at = datetime('now') WHERE id = ?", [
+      status,
+      id,
+    ]);
+  },
+
+  /**
+   * Get the installment expenses of a plan with the month they belong to
+   */
+  async findInstallments(id: number): Promise<InstallmentRow[]> {
+    const db = await getDatabase();
+    return db.getAllAsync<InstallmentRow>(
+      `SELECT e.id, e.amount_cents, e.installment_number, e.is_paid, (m.year * 12 + m.month - 1) as month_index
+       FROM expenses e
+       JOIN months m ON m.id = e.month_id
+       WHERE e.installment_plan_id = ? AND e.deleted_at IS NULL`,
+      [id],
+    );
+  },
+
+  /**
+   * Pay off the rest of a plan in `monthRecord`
+   * Unpaid installments from that month onward (generated or not) are replaced by a single
+   * paid expense for the outstanding amount, and the plan stops generating installments.
+   */
+  async payOff(id: number, monthRecord: Month): Promise<void> {
+    const plan = await this.findById(id);
+    if (!plan) throw new Error("Installment plan not found");
+    if (plan.status !== "active") throw new Error("Installment plan is no longer active");
+
+    const fromIndex = monthRecord.year * 12 + (monthRecord.month - 1);
+    const installments = await this.findInstallments(id);
+    const paidNumbers = new Set(
+      installments.filter((i) => i.is_paid === 1 && i.installment_number !== null).map((i) => i.installment_number),
+    );
+
+    let outstandingCents = 0;
+    for (let n = 1; n <= plan.installmentCount; n++) {
+      const { year, month } = getInstallmentMonth(plan, n);
+      if (year * 12 + (month - 1) < fromIndex || paidNumbers.has(n)) continue;
+      outstandingCents += getInstallmentAmount(plan.totalCents, plan.installmentCount, n);
+    }
+
+    const replaced = installments.filter((i) => i.is_paid === 0 && i.month_index >= fromIndex).map((i) => i.id);
+    await ExpenseRepository.bulkDelete(replaced);
+
+    if (outstandingCents > 0) {
+      const payoff = await ExpenseRepository.create({
+        monthId: monthRecord.id,
+        categoryId: plan.categoryId,
+        amountCents: outstandingCents,
+        note: plan.note ? `${plan.note} (payoff)` : "Installment payoff",
+        expenseDate: getInstallmentDueDate(plan, monthRecord.year, monthRecord.month),
+        installmentPlanId: plan.id,
+      });
+      await ExpenseRepository.update(payoff.id, { isPaid: true });
+    }
+
+    await this.setStatus(id, "paid_off");
+  },
+
+  /**
+   * Cancel the rest of a plan after `monthRecord`
+   * Unpaid installments in later months are removed; this month and earlier are kept.
+   */
+  async cancel(id: number, monthRecord: Month): Promise<void> {
+    const plan = await this.findById(id);
+    if (!plan) throw new Error("Installment plan not found");
+
+    const fromIndex = monthRecord.year * 12 + (monthRecord.month - 1);
+    const installments = await this.findInstallments(id);
+    await ExpenseRepository.bulkDelete(
+      installments.filter((i) => i.is_paid === 0 && i.month_index > fromIndex).map((i) => i.id),
+    );
+
+    await this.setStatus(id, "cancelled");
+  },
+
+  /**
+   * Soft delete a plan
+   * Expenses it already generated are kept
+   */
+  async softDelete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "UPDATE installment_plans SET deleted_at = datetime('now'), updated_at = datetime('now') WHERE id = ?",
+      [id],
+    );
+  },
+
+  /**
+   * Generate the unpaid installment due in a month for every active plan
+   * Each installment is generated at most once: its month is recorded as generated, so moving,
+   * re-dating, deleting or purging it does not bring it back.
+   * @returns Number of expenses created
+   */
+  async materializeForMonth(monthRecord: Month, profileId: number = 1): Promise<number> {
+    const plans = (await this.findAll(profileId)).filter((p) => p.status === "active");
+    if (plans.length === 0) return 0;
+
+    const alreadyGenerated = await GeneratedPeriodRepository.findInstallmentPlanIds(
+      monthRecord.year,
+      monthRecord.month,
+    );
+
+    let created = 0;
+    for (const plan of plans) {
+      if (alreadyGenerated.has(plan.id)) continue;
+      const number = getInstallmentNumber(plan, monthRecord.year, monthRecord.month);
+      if (number === null) continue;
+
+      await ExpenseRepository.create({
+        monthId: monthRecord.id,
+        categoryId: plan.categoryId,
+        amountCents: getInstallmentAmount(plan.totalCents, plan.installmentCount, number),
+        note: plan.note ?? undefined,
+        expenseDate: getInstallmentDueDate(plan, monthRecord.year, monthRecord.month),
+        installmentPlanId: plan.id,
+        installmentNumber: number,
+      });
+      await GeneratedPeriodRepository.recordInstallment(plan.id, monthRecord.year, monthRecord.month);
+      created++;
+    }
+    return created;
+  },
+};
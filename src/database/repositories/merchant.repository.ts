@@ -0,0 +1,105 @@
+import type { Merchant, MerchantEntity, MerchantTotal } from "@/types";
+import { getDatabase } from "../connection";
+
+type MerchantRow = MerchantEntity & { last_category_id: number | null };
+
+// Category of the merchant's most recent (non-deleted) expense
+const LAST_CATEGORY_SELECT = `(SELECT e.category_id FROM expenses e
+   WHERE e.merchant_id = mr.id AND e.deleted_at IS NULL
+   ORDER BY e.expense_date DESC, e.id DESC LIMIT 1) as last_category_id`;
+
+/**
+ * Map database entity to UI model
+ */
+function mapToMerchant(entity: MerchantRow): Merchant {
+  return {
+    id: entity.id,
+    name: entity.name,
+    lastCategoryId: entity.last_category_id,
+    createdAt: entity.created_at,
+  };
+}
+
+export const MerchantRepository = {
+  /**
+   * Find merchant by ID
+   */
+  async findById(id: number): Promise<Merchant | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<MerchantRow>(
+      `SELECT mr.*, ${LAST_CATEGORY_SELECT} FROM merchants mr WHERE mr.id = ?`,
+      [id],
+    );
+    return result ? mapToMerchant(result) : null;
+  },
+
+  /**
+   * Get all merchants for a profile
+   */
+  async findAll(profileId: number = 1): Promise<Merchant[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<MerchantRow>(
+      `SELECT mr.*, ${LAST_CATEGORY_SELECT} FROM merchants mr WHERE mr.profile_id = ? ORDER BY mr.name ASC`,
+      [profileId],
+    );
+    return results.map(mapToMerchant);
+  },
+
+  /**
+   * Get all merchants of every profile (for export)
+   */
+  async findAllForExport(): Promise<(Merchant & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<MerchantRow>(
+      `SELECT mr.*, NULL as last_category_id FROM merchants mr ORDER BY mr.id ASC`,
+    );
+    return results.map((r) => ({ ...mapToMerchant(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Find a merchant by name (case-insensitive), creating it if missing
+   */
+  async findOrCreate(name: string, profileId: number = 1): Promise<Merchant> {
+    const trimmed = name.trim().replace(/\s+/g, " ");
+    if (trimmed.length === 0) {
+      throw new Error("Merchant name is required");
+    }
+
+    const db = await getDatabase();
+    await db.runAsync("INSERT OR IGNORE INTO merchants (profile_id, name) VALUES (?, ?)", [profileId, trimmed]);
+    const merchant = await db.getFirstAsync<MerchantRow>(
+      `SELECT mr.*, ${LAST_CATEGORY_SELECT} FROM merchants mr WHERE mr.profile_id = ? AND mr.name = ?`,
+      [profileId, trimmed],
+    );
+    if (!merchant) {
+      throw new Error("Failed to create merchant");
+    }
+    return mapToMerchant(merchant);
+  },
+
+  /**
+   * Rank the merchants of a profile by what was spent there in a year
+   * Every expense counts as one visit; refunds are subtracted from the total and are not visits
+   * @returns Array sorted by total descending
+   */
+  async getYearRanking(year: number, profileId: number = 1): Promise<MerchantTotal[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<{ merchant_id: number; name: string; total: number; visits: number }>(
+      `SELECT mr.id as merchant_id, mr.name, SUM(CASE WHEN e.kind = 'refund' THEN -e.amount_cents ELSE e.amount_cents END) as total,
+         COUNT(CASE WHEN e.kind != 'refund' THEN 1 END) as visits
+       FROM merchants mr
+       JOIN expenses e ON e.merchant_id = mr.id AND e.deleted_at IS NULL
+       JOIN months m ON m.id = e.month_id
+       WHERE mr.profile_id = ? AND m.profile_id = ? AND m.year = ?
+       GROUP BY mr.id
+       ORDER BY total DESC, visits DESC`,
+      [profileId, profileId, year],
+    );
+    return results.map((r) => ({
+      merchantId: r.merchant_id,
+      name: r.name,
+      totalCents: r.total,
+      visitCount: r.visits,
+    }));
+  },
+};
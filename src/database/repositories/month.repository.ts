@@ -1,5 +1,7 @@
 import type { Month, MonthEntity, UpdateMonthDTO } from "@/types";
 import { getDatabase } from "../connection";
+import { InstallmentPlanRepository } from "./installment-plan.repository";
+import { RecurringExpenseRepository } from "./recurring-expense.repository";
 
 /**
  * Map database entity to UI model
@@ -15,6 +17,16 @@ function mapToMonth(entity: MonthEntity): Month {
   };
 }
 
+/**
+ * Generate the recurring expenses and installments due in a month
+ * @returns Number of expenses created
+ */
+async function materializeScheduledExpenses(monthRecord: Month, profileId: number): Promise<number> {
+  const recurring = await RecurringExpenseRepository.materializeForMonth(monthRecord, profileId);
+  const installments = await InstallmentPlanRepository.materializeForMonth(monthRecord, profileId);
+  return recurring + installments;
+}
+
 export const MonthRepository = {
   /**
    * Find month by ID
@@ -77,13 +89,36 @@ export const MonthRepository = {
     return results.map((r) => r.year);
   },
 
+  /**
+   * Get the earliest month of a profile that has a month record or an allowance
+   * Rollover balances are carried from this month on
+   */
+  async findFirstTracked(profileId: number = 1): Promise<{ year: number; month: number } | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<{ year: number; month: number }>(
+      `SELECT year, month FROM (
+         SELECT year, month FROM months WHERE profile_id = ?
+         UNION ALL
+         SELECT year, start_month AS month FROM allowance_sources
+         WHERE profile_id = ? AND is_active = 1 AND deleted_at IS NULL
+       )
+       ORDER BY year ASC, month ASC
+       LIMIT 1`,
+      [profileId, profileId]
+    );
+    return result ?? null;
+  },
+
   /**
    * Create or get a month record for a profile
+   * Also materializes any recurring expenses and installments due in that month
+   * @returns The month, with the number of expenses just generated in it
    */
-  async getOrCreate(year: number, month: number, profileId: number = 1): Promise<Month> {
+  async getOrCreate(year: number, month: number, profileId: number = 1): Promise<Month & { generatedCount: number }> {
     const existing = await this.findByYearMonth(year, month, profileId);
     if (existing) {
-      return existing;
+      const generatedCount = await materializeScheduledExpenses(existing, profileId);
+      return { ...existing, generatedCount };
     }
 
     const db = await getDatabase();
@@ -97,7 +132,8 @@ export const MonthRepository = {
     if (!created) {
       throw new Error("Failed to create month");
     }
-    return created;
+    const generatedCount = await materializeScheduledExpenses(created, profileId);
+    return { ...created, generatedCount };
   },
 
   /**
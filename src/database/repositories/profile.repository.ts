@@ -4,6 +4,7 @@ export interface Profile {
   id: number;
   name: string;
   passwordHash: string | null;
+  rolloverEnabled: boolean; // Each month's remaining balance carries into the next
   createdAt: string;
 }
 
@@ -11,6 +12,7 @@ interface ProfileRow {
   id: number;
   name: string;
   password_hash: string | null;
+  rollover_enabled: number;
   created_at: string;
 }
 
@@ -75,7 +77,7 @@ export const ProfileRepository = {
       return mapRowToProfile(existing);
     }
     await db.runAsync("INSERT INTO profiles (id, name) VALUES (1, 'Default')");
-    return { id: 1, name: "Default", passwordHash: null, createdAt: new Date().toISOString() };
+    return { id: 1, name: "Default", passwordHash: null, rolloverEnabled: false, createdAt: new Date().toISOString() };
   },
 
   // --- Security Methods ---
@@ -107,6 +109,16 @@ export const ProfileRepository = {
     );
     return row?.password_hash !== null && row?.password_hash !== undefined;
   },
+
+  // --- Rollover ---
+
+  /**
+   * Turn carrying remaining balances from month to month on or off for a profile
+   */
+  async setRolloverEnabled(id: number, enabled: boolean): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("UPDATE profiles SET rollover_enabled = ? WHERE id = ?", [enabled ? 1 : 0, id]);
+  },
 };
 
 function mapRowToProfile(row: ProfileRow): Profile {
@@ -114,6 +126,7 @@ function mapRowToProfile(row: ProfileRow): Profile {
     id: row.id,
     name: row.name,
     passwordHash: row.password_hash,
+    rolloverEnabled: row.rollover_enabled === 1,
     createdAt: row.created_at,
   };
 }
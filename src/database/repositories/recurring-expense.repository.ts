@@ -0,0 +1,317 @@
+import type {
+  CreateRecurringExpenseDTO,
+  Month,
+  RecurringExpense,
+  RecurringExpenseEntity,
+  RecurringFrequency,
+  UpdateRecurringExpenseDTO,
+} from "@/types";
+import { getDueRecurringExpenses, getRecurringDueDate, isRecurringDueInMonth, toMonthIndex } from "@/utils";
+import { getDatabase } from "../connection";
+import { ExpenseRepository } from "./expense.repository";
+import { GeneratedPeriodRepository } from "./generated-period.repository";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToRecurringExpense(entity: RecurringExpenseEntity): RecurringExpense {
+  return {
+    id: entity.id,
+    categoryId: entity.category_id,
+    amountCents: entity.amount_cents,
+    note: entity.note,
+    dayOfMonth: entity.day_of_month,
+    frequency: entity.frequency as RecurringFrequency,
+    startYear: entity.start_year,
+    startMonth: entity.start_month,
+    endYear: entity.end_year,
+    endMonth: entity.end_month,
+    isActive: entity.is_active === 1,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+    deletedAt: entity.deleted_at,
+  };
+}
+
+export const RecurringExpenseRepository = {
+  /**
+   * Find recurring expense template by ID
+   */
+  async findById(id: number): Promise<RecurringExpense | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<RecurringExpenseEntity>(
+      "SELECT * FROM recurring_expenses WHERE id = ? AND deleted_at IS NULL",
+      [id],
+    );
+    return result ? mapToRecurringExpense(result) : null;
+  },
+
+  /**
+   * Get all templates for a profile (including paused, excluding deleted)
+   */
+  async findAll(profileId: number = 1): Promise<RecurringExpense[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<RecurringExpenseEntity>(
+      "SELECT * FROM recurring_expenses WHERE profile_id = ? AND deleted_at IS NULL ORDER BY day_of_month ASC, created_at ASC",
+      [profileId],
+    );
+    return results.map(mapToRecurringExpense);
+  },
+
+  /**
+   * Get active templates for a profile
+   */
+  async findAllActive(profileId: number = 1): Promise<RecurringExpense[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<RecurringExpenseEntity>(
+      "SELECT * FROM recurring_expenses WHERE profile_id = ? AND deleted_at IS NULL AND is_active = 1 ORDER BY day_of_month ASC, created_at ASC",
+      [profileId],
+    );
+    return results.map(mapToRecurringExpense);
+  },
+
+  /**
+   * Get all templates including deleted (for export)
+   */
+  async findAllIncludingDeleted(): Promise<(RecurringExpense & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<RecurringExpenseEntity>(
+      "SELECT * FROM recurring_expenses ORDER BY created_at ASC",
+    );
+    return results.map((r) => ({ ...mapToRecurringExpense(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Create a new recurring expense template for a profile
+   */
+  async create(dto: CreateRecurringExpenseDTO, profileId: number = 1): Promise<RecurringExpense> {
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      `INSERT INTO recurring_expenses
+       (profile_id, category_id, amount_cents, note, day_of_month, frequency, start_year, start_month, end_year, end_month)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        profileId,
+        dto.categoryId,
+        dto.amountCents,
+        dto.note ?? null,
+        dto.dayOfMonth,
+        dto.frequency,
+        dto.startYear,
+        dto.startMonth,
+        dto.endYear ?? null,
+        dto.endMonth ?? null,
+      ],
+    );
+
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create recurring expense");
+    }
+    return created;
+  },
+
+  /**
+   * Update a template in place (affects every month not yet generated)
+   */
+  async update(id: number, dto: UpdateRecurringExpenseDTO): Promise<RecurringExpense> {
+    const db = await getDatabase();
+    const updates: string[] = [];
+    const values: (string | number | null)[] = [];
+
+    if (dto.categoryId !== undefined) {
+      updates.push("category_id = ?");
+      values.push(dto.categoryId);
+    }
+    if (dto.amountCents !== undefined) {
+      updates.push("amount_cents = ?");
+      values.push(dto.amountCents);
+    }
+    if (dto.note !== undefined) {
+      updates.push("note = ?");
+      values.push(dto.note);
+    }
+    if (dto.dayOfMonth !== undefined) {
+      updates.push("day_of_month = ?");
+      values.push(dto.dayOfMonth);
+    }
+    if (dto.frequency !== undefined) {
+      updates.push("frequency = ?");
+      values.push(dto.frequency);
+    }
+    if (dto.endYear !== undefined) {
+      updates.push("end_year = ?");
+      values.push(dto.endYear);
+    }
+    if (dto.endMonth !== undefined) {
+      updates.push("end_month = ?");
+      values.push(dto.endMonth);
+    }
+    if (dto.isActive !== undefined) {
+      updates.push("is_active = ?");
+      values.push(dto.isActive ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      const existing = await this.findById(id);
+      if (!existing) throw new Error("Recurring expense not found");
+      return existing;
+    }
+
+    updates.push("updated_at = datetime('now')");
+    values.push(id);
+
+    await db.runAsync(`UPDATE recurring_expenses SET ${updates.join(", ")} WHERE id = ?`, values);
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error("Recurring expense not found");
+    }
+    return updated;
+  },
+
+  /**
+   * Apply a change to "this and future months"
+   * Months before `year/month` keep the old values: the template is ended the month before
+   * and continued by a new template. Unpaid expenses already generated from `year/month`
+   * onward are updated and re-linked to the template that now covers them; those in months
+   * the new schedule no longer covers are deleted.
+   * @param keepExpenseId - Expense whose own values were just saved and must not be overwritten
+   */
+  async updateFromMonth(
+    id: number,
+    dto: UpdateRecurringExpenseDTO,
+    year: number,
+    month: number,
+    keepExpenseId?: number,
+  ): Promise<RecurringExpense> {
+    const db = await getDatabase();
+    const entity = await db.getFirstAsync<RecurringExpenseEntity>(
+      "SELECT * FROM recurring_expenses WHERE id = ? AND deleted_at IS NULL",
+      [id],
+    );
+    if (!entity) throw new Error("Recurring expense not found");
+    const existing = mapToRecurringExpense(entity);
+
+    const fromIndex = toMonthIndex(year, month);
+    const startIndex = toMonthIndex(existing.startYear, existing.startMonth);
+
+    let target: RecurringExpense;
+    if (fromIndex <= startIndex) {
+      target = await this.update(id, dto);
+    } else {
+      target = await this.create(
+        {
+          categoryId: dto.categoryId ?? existing.categoryId,
+          amountCents: dto.amountCents ?? existing.amountCents,
+          note: (dto.note !== undefined ? dto.note : existing.note) ?? undefined,
+          dayOfMonth: dto.dayOfMonth ?? existing.dayOfMonth,
+          frequency: dto.frequency ?? existing.frequency,
+          startYear: year,
+          startMonth: month,
+          endYear: dto.endYear !== undefined ? dto.endYear : existing.endYear,
+          endMonth: dto.endMonth !== undefined ? dto.endMonth : existing.endMonth,
+        },
+        entity.profile_id,
+      );
+      if (dto.isActive === false) {
+        target = await this.update(target.id, { isActive: false });
+      }
+      await this.update(id, {
+        endYear: month === 1 ? year - 1 : year,
+        endMonth: month === 1 ? 12 : month - 1,
+      });
+    }
+
+    const instances = await db.getAllAsync<{ id: number; year: number; month: number; is_paid: number }>(
+      `SELECT e.id, m.year, m.month, e.is_paid
+       FROM expenses e
+       JOIN months m ON m.id = e.month_id
+       WHERE e.recurring_expense_id = ? AND e.deleted_at IS NULL AND (m.year * 12 + m.month - 1) >= ?`,
+      [id, fromIndex],
+    );
+
+    if (target.id !== id) {
+      await db.runAsync(
+        `UPDATE expenses SET recurring_expense_id = ?
+         WHERE recurring_expense_id = ? AND month_id IN (SELECT id FROM months WHERE (year * 12 + month - 1) >= ?)`,
+        [target.id, id, fromIndex],
+      );
+      await GeneratedPeriodRepository.moveRecurring(id, target.id, fromIndex);
+    }
+
+    const valuesChanged =
+      dto.categoryId !== undefined ||
+      dto.amountCents !== undefined ||
+      dto.note !== undefined ||
+      dto.dayOfMonth !== undefined;
+    const scheduleChanged =
+      dto.frequency !== undefined ||
+      dto.dayOfMonth !== undefined ||
+      dto.endYear !== undefined ||
+      dto.endMonth !== undefined;
+    if (!valuesChanged && !scheduleChanged) return target;
+
+    const noLongerDue: number[] = [];
+    for (const instance of instances) {
+      // Paid expenses are history and keep the values they were paid with
+      if (instance.is_paid === 1 || instance.id === keepExpenseId) continue;
+      if (!isRecurringDueInMonth(target, instance.year, instance.month)) {
+        noLongerDue.push(instance.id);
+        continue;
+      }
+      if (!valuesChanged) continue;
+      await ExpenseRepository.update(instance.id, {
+        categoryId: target.categoryId,
+        amountCents: target.amountCents,
+        note: target.note,
+        expenseDate: getRecurringDueDate(target, instance.year, instance.month),
+      });
+    }
+    await ExpenseRepository.bulkDelete(noLongerDue);
+
+    return target;
+  },
+
+  /**
+   * Soft delete a template
+   * Expenses it already generated are kept
+   */
+  async softDelete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync(
+      "UPDATE recurring_expenses SET deleted_at = datetime('now'), updated_at = datetime('now') WHERE id = ?",
+      [id],
+    );
+  },
+
+  /**
+   * Generate unpaid expenses for every template due in a month
+   * A template is generated at most once per month: the month is recorded as generated, so
+   * moving, re-dating, deleting or purging the expense does not bring it back.
+   * @returns Number of expenses created
+   */
+  async materializeForMonth(monthRecord: Month, profileId: number = 1): Promise<number> {
+    const templates = await this.findAllActive(profileId);
+    const due = getDueRecurringExpenses(templates, monthRecord.year, monthRecord.month);
+    if (due.length === 0) return 0;
+
+    const alreadyGenerated = await GeneratedPeriodRepository.findRecurringIds(monthRecord.year, monthRecord.month);
+
+    let created = 0;
+    for (const template of due) {
+      if (alreadyGenerated.has(template.id)) continue;
+      await ExpenseRepository.create({
+        monthId: monthRecord.id,
+        categoryId: template.categoryId,
+        amountCents: template.amountCents,
+        note: template.note ?? undefined,
+        expenseDate: getRecurringDueDate(template, monthRecord.year, monthRecord.month),
+        recurringExpenseId: template.id,
+      });
+      await GeneratedPeriodRepository.recordRecurring(template.id, monthRecord.year, monthRecord.month);
+      created++;
+    }
+    return created;
+  },
+};
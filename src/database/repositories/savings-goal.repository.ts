@@ -0,0 +1,202 @@
+import type {
+  CreateSavingsGoalDTO,
+  GoalContribution,
+  GoalContributionEntity,
+  SavingsGoal,
+  SavingsGoalEntity,
+  UpdateSavingsGoalDTO,
+} from "@/types";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToSavingsGoal(entity: SavingsGoalEntity): SavingsGoal {
+  return {
+    id: entity.id,
+    name: entity.name,
+    targetCents: entity.target_cents,
+    targetDate: entity.target_date,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+  };
+}
+
+/**
+ * Map a contribution joined with its month to UI model
+ */
+function mapToGoalContribution(entity: GoalContributionEntity & { year: number; month: number }): GoalContribution {
+  return {
+    id: entity.id,
+    goalId: entity.goal_id,
+    monthId: entity.month_id,
+    year: entity.year,
+    month: entity.month,
+    amountCents: entity.amount_cents,
+    createdAt: entity.created_at,
+  };
+}
+
+export const SavingsGoalRepository = {
+  /**
+   * Find savings goal by ID
+   */
+  async findById(id: number): Promise<SavingsGoal | null> {
+    const db = await getDatabase();
+    const result = await db.getFirstAsync<SavingsGoalEntity>("SELECT * FROM savings_goals WHERE id = ?", [id]);
+    return result ? mapToSavingsGoal(result) : null;
+  },
+
+  /**
+   * Get the savings goals of a profile, nearest target date first
+   */
+  async findAll(profileId: number = 1): Promise<SavingsGoal[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<SavingsGoalEntity>(
+      "SELECT * FROM savings_goals WHERE profile_id = ? ORDER BY target_date ASC, id ASC",
+      [profileId],
+    );
+    return results.map(mapToSavingsGoal);
+  },
+
+  /**
+   * Get all savings goals of every profile (for export)
+   */
+  async findAllForExport(): Promise<(SavingsGoal & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<SavingsGoalEntity>("SELECT * FROM savings_goals ORDER BY id ASC");
+    return results.map((r) => ({ ...mapToSavingsGoal(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Create a new savings goal for a profile
+   */
+  async create(dto: CreateSavingsGoalDTO, profileId: number = 1): Promise<SavingsGoal> {
+    if (dto.targetCents <= 0) {
+      throw new Error("Target must be greater than zero");
+    }
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      "INSERT INTO savings_goals (profile_id, name, target_cents, target_date) VALUES (?, ?, ?, ?)",
+      [profileId, dto.name.trim(), dto.targetCents, dto.targetDate],
+    );
+
+    const created = await this.findById(result.lastInsertRowId);
+    if (!created) {
+      throw new Error("Failed to create savings goal");
+    }
+    return created;
+  },
+
+  /**
+   * Update an existing savings goal
+   */
+  async update(id: number, dto: UpdateSavingsGoalDTO): Promise<SavingsGoal> {
+    const db = await getDatabase();
+    const updates: string[] = [];
+    const values: (string | number)[] = [];
+
+    if (dto.name !== undefined) {
+      updates.push("name = ?");
+      values.push(dto.name.trim());
+    }
+    if (dto.targetCents !== undefined) {
+      if (dto.targetCents <= 0) {
+        throw new Error("Target must be greater than zero");
+      }
+      updates.push("target_cents = ?");
+      values.push(dto.targetCents);
+    }
+    if (dto.targetDate !== undefined) {
+      updates.push("target_date = ?");
+      values.push(dto.targetDate);
+    }
+
+    if (updates.length > 0) {
+      updates.push("updated_at = datetime('now')");
+      values.push(id);
+      await db.runAsync(`UPDATE savings_goals SET ${updates.join(", ")} WHERE id = ?`, values);
+    }
+
+    const updated = await this.findById(id);
+    if (!updated) throw new Error("Savings goal not found");
+    return updated;
+  },
+
+  /**
+   * Delete a savings goal; its contributions go with it and return to their months
+   */
+  async delete(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM savings_goals WHERE id = ?", [id]);
+  },
+
+  /**
+   * Get the contributions to every goal of a profile, oldest month first
+   */
+  async findContributions(profileId: number = 1): Promise<GoalContribution[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<GoalContributionEntity & { year: number; month: number }>(
+      `SELECT c.*, m.year, m.month FROM goal_contributions c
+       JOIN savings_goals g ON g.id = c.goal_id
+       JOIN months m ON m.id = c.month_id
+       WHERE g.profile_id = ?
+       ORDER BY m.year ASC, m.month ASC, c.id ASC`,
+      [profileId],
+    );
+    return results.map(mapToGoalContribution);
+  },
+
+  /**
+   * Get all contributions of every profile (for export)
+   */
+  async findAllContributionsForExport(): Promise<GoalContribution[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<GoalContributionEntity & { year: number; month: number }>(
+      `SELECT c.*, m.year, m.month FROM goal_contributions c
+       JOIN months m ON m.id = c.month_id
+       ORDER BY c.id ASC`,
+    );
+    return results.map(mapToGoalContribution);
+  },
+
+  /**
+   * Get the amounts set aside for goals in each month of a year
+   * @returns Map of month number (1-12) to cents; months without contributions are left out
+   */
+  async getAllocatedByMonth(year: number, profileId: number = 1): Promise<Map<number, number>> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<{ month: number; total: number }>(
+      `SELECT m.month, SUM(c.amount_cents) as total FROM goal_contributions c
+       JOIN months m ON m.id = c.month_id
+       WHERE m.year = ? AND m.profile_id = ?
+       GROUP BY m.month`,
+      [year, profileId],
+    );
+    return new Map(results.map((r) => [r.month, r.total]));
+  },
+
+  /**
+   * Set part of a month's remaining balance aside for a goal
+   * @returns ID of the new contribution
+   */
+  async addContribution(goalId: number, monthId: number, amountCents: number): Promise<number> {
+    if (amountCents <= 0) {
+      throw new Error("Amount must be greater than zero");
+    }
+    const db = await getDatabase();
+    const result = await db.runAsync(
+      "INSERT INTO goal_contributions (goal_id, month_id, amount_cents) VALUES (?, ?, ?)",
+      [goalId, monthId, amountCents],
+    );
+    return result.lastInsertRowId;
+  },
+
+  /**
+   * Remove a contribution, returning its amount to the month
+   */
+  async deleteContribution(id: number): Promise<void> {
+    const db = await getDatabase();
+    await db.runAsync("DELETE FROM goal_contributions WHERE id = ?", [id]);
+  },
+};
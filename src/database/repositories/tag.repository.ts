@@ -0,0 +1,80 @@
+import type { Tag, TagEntity, TagTotal } from "@/types";
+import { normalizeTagName } from "@/utils/tags";
+import { getDatabase } from "../connection";
+
+/**
+ * Map database entity to UI model
+ */
+function mapToTag(entity: TagEntity): Tag {
+  return {
+    id: entity.id,
+    name: entity.name,
+    createdAt: entity.created_at,
+  };
+}
+
+export const TagRepository = {
+  /**
+   * Get all tags for a profile
+   */
+  async findAll(profileId: number = 1): Promise<Tag[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<TagEntity>("SELECT * FROM tags WHERE profile_id = ? ORDER BY name ASC", [
+      profileId,
+    ]);
+    return results.map(mapToTag);
+  },
+
+  /**
+   * Get all tags of every profile (for export)
+   */
+  async findAllForExport(): Promise<(Tag & { profileId: number })[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<TagEntity>("SELECT * FROM tags ORDER BY id ASC");
+    return results.map((r) => ({ ...mapToTag(r), profileId: r.profile_id }));
+  },
+
+  /**
+   * Find tags by name, creating the missing ones
+   * Names are normalized first; blank names are skipped
+   * @returns Tag IDs in the order given, without duplicates
+   */
+  async findOrCreateMany(names: string[], profileId: number = 1): Promise<number[]> {
+    const normalized = Array.from(new Set(names.map(normalizeTagName).filter((n) => n.length > 0)));
+    if (normalized.length === 0) return [];
+
+    const db = await getDatabase();
+    const ids: number[] = [];
+    for (const name of normalized) {
+      await db.runAsync("INSERT OR IGNORE INTO tags (profile_id, name) VALUES (?, ?)", [profileId, name]);
+      const tag = await db.getFirstAsync<TagEntity>("SELECT * FROM tags WHERE profile_id = ? AND name = ?", [
+        profileId,
+        name,
+      ]);
+      if (!tag) throw new Error("Failed to create tag");
+      ids.push(tag.id);
+    }
+    return ids;
+  },
+
+  /**
+   * Get the total spent per tag for a year and profile
+   * Every expense counts fully towards each of its tags; refunds are subtracted
+   * @returns Array sorted by total descending
+   */
+  async getYearTotals(year: number, profileId: number = 1): Promise<TagTotal[]> {
+    const db = await getDatabase();
+    const results = await db.getAllAsync<{ tag_id: number; name: string; total: number; count: number }>(
+      `SELECT t.id as tag_id, t.name, SUM(CASE WHEN e.kind = 'refund' THEN -e.amount_cents ELSE e.amount_cents END) as total, COUNT(e.id) as count
+       FROM tags t
+       JOIN expense_tags et ON et.tag_id = t.id
+       JOIN expenses e ON e.id = et.expense_id AND e.deleted_at IS NULL
+       JOIN months m ON m.id = e.month_id
+       WHERE t.profile_id = ? AND m.profile_id = ? AND m.year = ?
+       GROUP BY t.id
+       ORDER BY total DESC`,
+      [profileId, profileId, year],
+    );
+    return results.map((r) => ({ tagId: r.tag_id, name: r.name, totalCents: r.total, count: r.count }));
+  },
+};
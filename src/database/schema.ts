@@ -1,5 +1,5 @@
 // Database schema version and table definitions
-export const SCHEMA_VERSION = 4;
+export const SCHEMA_VERSION = 23;
 
 export const CREATE_TABLES = `
   -- User profiles for data isolation
@@ -17,6 +17,10 @@ export const CREATE_TABLES = `
     name TEXT NOT NULL,
     amount_cents INTEGER NOT NULL DEFAULT 0,
     is_active INTEGER NOT NULL DEFAULT 1,
+    frequency TEXT NOT NULL DEFAULT 'monthly' CHECK(frequency IN ('weekly', 'biweekly', 'semimonthly', 'monthly', 'quarterly', 'once')),
+    start_month INTEGER NOT NULL DEFAULT 1 CHECK(start_month BETWEEN 1 AND 12),
+    end_month INTEGER NOT NULL DEFAULT 12 CHECK(end_month BETWEEN 1 AND 12),
+    first_pay_day INTEGER NOT NULL DEFAULT 1 CHECK(first_pay_day BETWEEN 1 AND 31),
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     deleted_at TEXT,
@@ -35,6 +39,21 @@ export const CREATE_TABLES = `
     deleted_at TEXT
   );
 
+  -- Spending budgets per category, profile and year; month 0 applies to every month, 1-12 overrides one month
+  CREATE TABLE IF NOT EXISTS category_budgets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    category_id INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    month INTEGER NOT NULL DEFAULT 0 CHECK(month >= 0 AND month <= 12),
+    amount_cents INTEGER NOT NULL CHECK(amount_cents >= 0),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(profile_id, category_id, year, month),
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+  );
+
   -- Months with optional allowance override per profile
   CREATE TABLE IF NOT EXISTS months (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -58,13 +77,283 @@ export const CREATE_TABLES = `
     expense_date TEXT NOT NULL DEFAULT (date('now')),
     is_paid INTEGER NOT NULL DEFAULT 0,
     is_verified INTEGER NOT NULL DEFAULT 0,
+    recurring_expense_id INTEGER,
+    installment_plan_id INTEGER,
+    installment_number INTEGER,
+    merchant_id INTEGER,
+    account_id INTEGER,
+    original_currency TEXT,
+    original_amount_cents INTEGER,
+    exchange_rate REAL,
+    kind TEXT NOT NULL DEFAULT 'expense' CHECK(kind IN ('expense', 'refund')),
+    refund_of_expense_id INTEGER,
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     updated_at TEXT NOT NULL DEFAULT (datetime('now')),
     deleted_at TEXT,
     FOREIGN KEY (month_id) REFERENCES months(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id),
+    FOREIGN KEY (recurring_expense_id) REFERENCES recurring_expenses(id) ON DELETE SET NULL,
+    FOREIGN KEY (installment_plan_id) REFERENCES installment_plans(id) ON DELETE SET NULL,
+    FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE SET NULL,
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL,
+    FOREIGN KEY (refund_of_expense_id) REFERENCES expenses(id) ON DELETE SET NULL
+  );
+
+  -- Parts of an expense split across categories (amounts add up to the parent expense)
+  CREATE TABLE IF NOT EXISTS expense_line_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    expense_id INTEGER NOT NULL,
+    category_id INTEGER NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK(amount_cents > 0),
+    note TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id)
+  );
+
+  -- Receipt images and PDFs kept in the app's document directory
+  CREATE TABLE IF NOT EXISTS attachments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    expense_id INTEGER NOT NULL,
+    file_name TEXT NOT NULL UNIQUE,
+    original_name TEXT,
+    mime_type TEXT,
+    size_bytes INTEGER,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE
+  );
+
+  -- Payees / merchants per profile (where the money went)
+  CREATE TABLE IF NOT EXISTS merchants (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    name TEXT NOT NULL COLLATE NOCASE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(profile_id, name),
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+  );
+
+  -- Payment accounts per profile (cash, debit, credit cards)
+  CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'cash',
+    starting_balance_cents INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    deleted_at TEXT,
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+  );
+
+  -- Account ledger: one debit per paid expense that names an account
+  CREATE TABLE IF NOT EXISTS account_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    account_id INTEGER NOT NULL,
+    expense_id INTEGER NOT NULL UNIQUE,
+    amount_cents INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE
+  );
+
+  -- Free-form labels per profile that cut across categories
+  CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(profile_id, name),
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+  );
+
+  -- Tags attached to expenses
+  CREATE TABLE IF NOT EXISTS expense_tags (
+    expense_id INTEGER NOT NULL,
+    tag_id INTEGER NOT NULL,
+    PRIMARY KEY (expense_id, tag_id),
+    FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+  );
+
+  -- Change history of expenses; changes holds JSON of { field: { old, new } }
+  CREATE TABLE IF NOT EXISTS expense_audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    expense_id INTEGER NOT NULL,
+    action TEXT NOT NULL CHECK(action IN ('create', 'update', 'delete', 'restore', 'paid', 'verification')),
+    changes TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE
+  );
+
+  -- Pairs of expenses marked as not being duplicates; expense_id is always the lower id
+  CREATE TABLE IF NOT EXISTS dismissed_duplicates (
+    expense_id INTEGER NOT NULL,
+    other_expense_id INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (expense_id, other_expense_id),
+    CHECK(expense_id < other_expense_id),
+    FOREIGN KEY (expense_id) REFERENCES expenses(id) ON DELETE CASCADE,
+    FOREIGN KEY (other_expense_id) REFERENCES expenses(id) ON DELETE CASCADE
+  );
+
+  -- Saved expenses per profile for one-tap entry, ranked by how often they are used
+  CREATE TABLE IF NOT EXISTS expense_templates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    category_id INTEGER NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK(amount_cents > 0),
+    note TEXT,
+    use_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE CASCADE
+  );
+
+  -- Recurring expense templates materialized into months per profile
+  CREATE TABLE IF NOT EXISTS recurring_expenses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    category_id INTEGER NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK(amount_cents > 0),
+    note TEXT,
+    day_of_month INTEGER NOT NULL DEFAULT 1 CHECK(day_of_month >= 1 AND day_of_month <= 31),
+    frequency TEXT NOT NULL DEFAULT 'monthly',
+    start_year INTEGER NOT NULL,
+    start_month INTEGER NOT NULL CHECK(start_month >= 1 AND start_month <= 12),
+    end_year INTEGER,
+    end_month INTEGER,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    deleted_at TEXT,
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE,
     FOREIGN KEY (category_id) REFERENCES categories(id)
   );
 
+  -- Installment plans that spread one purchase across consecutive months per profile
+  CREATE TABLE IF NOT EXISTS installment_plans (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    category_id INTEGER NOT NULL,
+    note TEXT,
+    total_cents INTEGER NOT NULL CHECK(total_cents > 0),
+    installment_count INTEGER NOT NULL CHECK(installment_count >= 1),
+    day_of_month INTEGER NOT NULL DEFAULT 1 CHECK(day_of_month >= 1 AND day_of_month <= 31),
+    start_year INTEGER NOT NULL,
+    start_month INTEGER NOT NULL CHECK(start_month >= 1 AND start_month <= 12),
+    status TEXT NOT NULL DEFAULT 'active',
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    deleted_at TEXT,
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE,
+    FOREIGN KEY (category_id) REFERENCES categories(id)
+  );
+
+  -- Months each recurring template or installment plan has generated its expense for;
+  -- kept apart from expenses so moving, re-dating or purging one doesn't generate it again
+  CREATE TABLE IF NOT EXISTS generated_periods (
+    recurring_expense_id INTEGER,
+    installment_plan_id INTEGER,
+    year INTEGER NOT NULL,
+    month INTEGER NOT NULL CHECK(month >= 1 AND month <= 12),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(recurring_expense_id, year, month),
+    UNIQUE(installment_plan_id, year, month),
+    CHECK((recurring_expense_id IS NULL) <> (installment_plan_id IS NULL)),
+    FOREIGN KEY (recurring_expense_id) REFERENCES recurring_expenses(id) ON DELETE CASCADE,
+    FOREIGN KEY (installment_plan_id) REFERENCES installment_plans(id) ON DELETE CASCADE
+  );
+
+  -- One-off income received in a month, added on top of its allowance
+  CREATE TABLE IF NOT EXISTS income_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    month_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK(amount_cents > 0),
+    entry_date TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    deleted_at TEXT,
+    FOREIGN KEY (month_id) REFERENCES months(id) ON DELETE CASCADE
+  );
+
+  -- Savings goals per profile, funded from what is left of a month's allowance
+  CREATE TABLE IF NOT EXISTS savings_goals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id INTEGER NOT NULL DEFAULT 1,
+    name TEXT NOT NULL,
+    target_cents INTEGER NOT NULL CHECK(target_cents > 0),
+    target_date TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (profile_id) REFERENCES profiles(id) ON DELETE CASCADE
+  );
+
+  -- Money set aside for a savings goal out of a month's remaining allowance
+  CREATE TABLE IF NOT EXISTS goal_contributions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    goal_id INTEGER NOT NULL,
+    month_id INTEGER NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK(amount_cents > 0),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (goal_id) REFERENCES savings_goals(id) ON DELETE CASCADE,
+    FOREIGN KEY (month_id) REFERENCES months(id) ON DELETE CASCADE
+  );
+
+  -- User-maintained exchange rates: 1 unit of currency is worth rate units of base_currency
+  CREATE TABLE IF NOT EXISTS exchange_rates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    base_currency TEXT NOT NULL,
+    currency TEXT NOT NULL,
+    rate REAL NOT NULL CHECK(rate > 0),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(base_currency, currency)
+  );
+
+  -- Full-text index of expenses for search; rowid is the expense id, kept in sync by the triggers below
+  CREATE VIRTUAL TABLE IF NOT EXISTS expenses_fts USING fts5(
+    note,
+    category,
+    amount,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS expenses_fts_insert AFTER INSERT ON expenses BEGIN
+    INSERT INTO expenses_fts (rowid, note, category, amount)
+    VALUES (
+      new.id,
+      COALESCE(new.note, ''),
+      (SELECT name FROM categories WHERE id = new.category_id),
+      printf('%d.%02d', new.amount_cents / 100, new.amount_cents % 100)
+    );
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS expenses_fts_update AFTER UPDATE OF note, category_id, amount_cents ON expenses BEGIN
+    DELETE FROM expenses_fts WHERE rowid = old.id;
+    INSERT INTO expenses_fts (rowid, note, category, amount)
+    VALUES (
+      new.id,
+      COALESCE(new.note, ''),
+      (SELECT name FROM categories WHERE id = new.category_id),
+      printf('%d.%02d', new.amount_cents / 100, new.amount_cents % 100)
+    );
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS expenses_fts_delete AFTER DELETE ON expenses BEGIN
+    DELETE FROM expenses_fts WHERE rowid = old.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS categories_fts_rename AFTER UPDATE OF name ON categories BEGIN
+    UPDATE expenses_fts SET category = new.name WHERE rowid IN (SELECT id FROM expenses WHERE category_id = new.id);
+  END;
+
   -- App settings and metadata (global)
   CREATE TABLE IF NOT EXISTS app_settings (
     key TEXT PRIMARY KEY,
@@ -79,4 +368,37 @@ export const CREATE_TABLES = `
   CREATE INDEX IF NOT EXISTS idx_expenses_category_id ON expenses(category_id);
   CREATE INDEX IF NOT EXISTS idx_months_year ON months(year);
   CREATE INDEX IF NOT EXISTS idx_months_profile ON months(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_expense_line_items_expense ON expense_line_items(expense_id);
+  CREATE INDEX IF NOT EXISTS idx_attachments_expense ON attachments(expense_id);
+  CREATE INDEX IF NOT EXISTS idx_expense_tags_tag ON expense_tags(tag_id);
+  CREATE INDEX IF NOT EXISTS idx_expense_audit_log_expense ON expense_audit_log(expense_id);
+  CREATE INDEX IF NOT EXISTS idx_merchants_profile ON merchants(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_accounts_profile ON accounts(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_account_transactions_account ON account_transactions(account_id);
+  CREATE INDEX IF NOT EXISTS idx_recurring_expenses_profile ON recurring_expenses(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_installment_plans_profile ON installment_plans(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_expense_templates_profile ON expense_templates(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_category_budgets_profile_year ON category_budgets(profile_id, year);
+  CREATE INDEX IF NOT EXISTS idx_income_entries_month ON income_entries(month_id);
+  CREATE INDEX IF NOT EXISTS idx_savings_goals_profile ON savings_goals(profile_id);
+  CREATE INDEX IF NOT EXISTS idx_goal_contributions_goal ON goal_contributions(goal_id);
+  CREATE INDEX IF NOT EXISTS idx_goal_contributions_month ON goal_contributions(month_id);
+`;
+
+// Record the periods of generated expenses from the months they are in (data from before periods were kept)
+// Installments count for the month their number falls in
+export const RECORD_GENERATED_PERIODS = `
+  INSERT OR IGNORE INTO generated_periods (recurring_expense_id, year, month)
+    SELECT DISTINCT e.recurring_expense_id, m.year, m.month
+    FROM expenses e
+    JOIN months m ON m.id = e.month_id
+    JOIN recurring_expenses r ON r.id = e.recurring_expense_id;
+
+  INSERT OR IGNORE INTO generated_periods (installment_plan_id, year, month)
+    SELECT DISTINCT e.installment_plan_id,
+      (p.start_year * 12 + p.start_month + e.installment_number - 2) / 12,
+      (p.start_year * 12 + p.start_month + e.installment_number - 2) % 12 + 1
+    FROM expenses e
+    JOIN installment_plans p ON p.id = e.installment_plan_id
+    WHERE e.installment_number IS NOT NULL;
 `;
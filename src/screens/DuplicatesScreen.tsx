@@ -0,0 +1,169 @@
+import { AppText, Button, Card } from "@/components/common";
+import { ExpenseItem } from "@/components/expense/ExpenseItem";
+import { DuplicateRepository } from "@/database";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { Category, DuplicatePair, ExpenseSearchResult } from "@/types";
+import { formatDate, getMonthName } from "@/utils";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { Alert, FlatList, StyleSheet, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+export const DuplicatesScreen = () => {
+  const insets = useSafeAreaInsets();
+  const {
+    selectedMonthId,
+    selectedMonthExpenses,
+    monthSummaries,
+    categories,
+    currentProfileId,
+    mergeDuplicateExpenses,
+    dismissDuplicate,
+  } = useAppStore();
+
+  const currentSummary = monthSummaries.find((m) => m.monthId === selectedMonthId);
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Reloaded after every change, which refreshes the month's expenses
+  useEffect(() => {
+    if (!currentSummary) return;
+    let cancelled = false;
+    DuplicateRepository.findPairsInMonth(currentSummary.year, currentSummary.month, currentProfileId)
+      .then((found) => {
+        if (cancelled) return;
+        setPairs(found);
+        setIsLoaded(true);
+      })
+      .catch((error) => console.error("Failed to find duplicates:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSummary?.year, currentSummary?.month, currentProfileId, selectedMonthExpenses]);
+
+  const findCategory = (id: number): Category =>
+    categories.find((c) => c.id === id) ?? {
+      id: 0,
+      name: "Unknown",
+      icon: "❓",
+      color: colors.textMuted,
+      sortOrder: 999,
+      updatedAt: "",
+    };
+
+  const handleKeep = (keep: ExpenseSearchResult, remove: ExpenseSearchResult) => {
+    Alert.alert(
+      "Merge Duplicates",
+      `Keep the expense of ${formatDate(keep.expenseDate)} and delete the other? Its tags and any details this one is missing are copied over.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Merge",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await mergeDuplicateExpenses(keep.id, remove.id);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            } catch (error) {
+              Alert.alert("Error", error instanceof Error ? error.message : "Failed to merge expenses");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    Haptics.selectionAsync();
+    try {
+      await dismissDuplicate(pair.first.id, pair.second.id);
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to dismiss");
+    }
+  };
+
+  const renderExpense = (expense: ExpenseSearchResult, other: ExpenseSearchResult) => (
+    <View>
+      <View style={styles.expenseHeader}>
+        <AppText variant="caption" color={colors.textMuted}>
+          {formatDate(expense.expenseDate)}
+          {expense.monthId !== selectedMonthId ? ` · ${getMonthName(expense.month)} ${expense.year}` : ""}
+        </AppText>
+        <Button title="Keep this" variant="ghost" size="s" onPress={() => handleKeep(expense, other)} />
+      </View>
+      <ExpenseItem expense={{ ...expense, category: findCategory(expense.categoryId) }} />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Possible Duplicates", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={pairs}
+        keyExtractor={(pair) => `${pair.first.id}-${pair.second.id}`}
+        renderItem={({ item }) => (
+          <Card style={styles.pair}>
+            {renderExpense(item.first, item.second)}
+            {renderExpense(item.second, item.first)}
+            <Button
+              title="Not Duplicates"
+              variant="secondary"
+              size="s"
+              onPress={() => handleDismiss(item)}
+              style={styles.dismiss}
+            />
+          </Card>
+        )}
+        ListHeaderComponent={
+          currentSummary ? (
+            <AppText variant="caption" color={colors.textMuted} style={styles.intro}>
+              Expenses in {getMonthName(currentSummary.month)} {currentSummary.year} with the same amount and category,
+              or a similar note, dated within a few days of each other.
+            </AppText>
+          ) : null
+        }
+        ListEmptyComponent={
+          isLoaded ? (
+            <View style={styles.emptyState}>
+              <AppText color={colors.textMuted} align="center">
+                No possible duplicates this month.
+              </AppText>
+            </View>
+          ) : null
+        }
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  intro: {
+    marginBottom: layout.spacing.m,
+  },
+  pair: {
+    marginBottom: layout.spacing.m,
+    gap: layout.spacing.s,
+  },
+  expenseHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  dismiss: {
+    marginTop: layout.spacing.xs,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+  },
+});
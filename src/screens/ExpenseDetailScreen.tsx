@@ -0,0 +1,441 @@
+import { AppText, Button, Card, DatePicker } from "@/components/common";
+import { ExpenseHistoryList } from "@/components/expense/ExpenseHistoryList";
+import { ExpenseRepository, MonthRepository } from "@/database";
+import { CalculationService } from "@/services";
+import { useAppStore, useUIStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { Expense, Month } from "@/types";
+import { formatCurrency, formatDate, formatDateTime, getMonthName, getShortMonthName } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { Alert, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+export const ExpenseDetailScreen = () => {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const expenseId = Number(id);
+  const {
+    categories,
+    merchants,
+    accounts,
+    tags,
+    recurringExpenses,
+    installmentPlans,
+    monthSummaries,
+    selectedYear,
+    selectedMonthId,
+    loadYearData,
+    selectMonth,
+    updateExpense,
+    duplicateExpense,
+    moveExpense,
+    expenseTemplates,
+    addExpenseTemplate,
+    currency,
+    hideCents,
+  } = useAppStore();
+  const { showEditExpenseModal } = useUIStore();
+
+  const [expense, setExpense] = useState<Expense | null>(null);
+  const [month, setMonth] = useState<Month | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // State for moving to another month
+  const [isMoving, setIsMoving] = useState(false);
+  const [targetYear, setTargetYear] = useState(selectedYear);
+  const [targetMonth, setTargetMonth] = useState<number | null>(null);
+
+  // Every store refresh replaces the summaries, so the expense is reloaded after each change
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const found = await ExpenseRepository.findById(expenseId);
+      const foundMonth = found ? await MonthRepository.findById(found.monthId) : null;
+      if (cancelled) return;
+      setExpense(found);
+      setMonth(foundMonth);
+      setIsLoaded(true);
+    })().catch((error) => console.error("Failed to load expense:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId, monthSummaries]);
+
+  if (!expense) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: "Expense", headerTitleAlign: "center" }} />
+        {isLoaded && (
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              This expense no longer exists.
+            </AppText>
+          </View>
+        )}
+      </View>
+    );
+  }
+
+  const category = categories.find((c) => c.id === expense.categoryId);
+  const merchant = merchants.find((m) => m.id === expense.merchantId);
+  const account = accounts.find((a) => a.id === expense.accountId);
+  const recurring = recurringExpenses.find((r) => r.id === expense.recurringExpenseId);
+  const plan = installmentPlans.find((p) => p.id === expense.installmentPlanId);
+  const expenseTags = tags.filter((t) => expense.tagIds.includes(t.id));
+  const signedCents = CalculationService.getSignedAmount(expense);
+  const isFavorite = expenseTemplates.some(
+    (t) => t.categoryId === expense.categoryId && t.amountCents === expense.amountCents && t.note === expense.note,
+  );
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePaid = (isPaid: boolean) => {
+    Haptics.selectionAsync();
+    run(() => updateExpense(expense.id, { isPaid }).then(() => undefined), "Failed to update expense");
+  };
+
+  const handleToggleVerified = (isVerified: boolean) => {
+    Haptics.selectionAsync();
+    run(() => updateExpense(expense.id, { isVerified }).then(() => undefined), "Failed to update expense");
+  };
+
+  // A date in another month moves the expense there
+  const handleChangeDate = (expenseDate: string) => {
+    if (expenseDate === expense.expenseDate) return;
+    run(() => updateExpense(expense.id, { expenseDate }).then(() => undefined), "Failed to update date");
+  };
+
+  const handleMove = () => {
+    if (targetMonth === null) return;
+    run(async () => {
+      await moveExpense(expense.id, targetYear, targetMonth);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setIsMoving(false);
+      setTargetMonth(null);
+    }, "Failed to move expense");
+  };
+
+  const handleDuplicate = () => {
+    run(async () => {
+      const copy = await duplicateExpense(expense.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.replace(`/expense/${copy.id}` as any);
+    }, "Failed to duplicate expense");
+  };
+
+  const handleSaveTemplate = () => {
+    run(async () => {
+      await addExpenseTemplate({
+        categoryId: expense.categoryId,
+        amountCents: expense.amountCents,
+        note: expense.note,
+      });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }, "Failed to save favorite");
+  };
+
+  const handleEdit = async () => {
+    if (!month) return;
+    // The edit modal lives on the month detail screen and edits the selected month's expenses
+    if (expense.monthId !== selectedMonthId) {
+      if (month.year !== selectedYear) {
+        await loadYearData(month.year);
+      }
+      await selectMonth(month.year, month.month);
+    }
+    router.back();
+    showEditExpenseModal(expense.id);
+  };
+
+  const renderRow = (label: string, value: string, key: string = label) => (
+    <View key={key} style={styles.row}>
+      <AppText variant="caption" color={colors.textMuted} style={styles.rowLabel}>
+        {label}
+      </AppText>
+      <AppText variant="body" style={styles.rowValue}>
+        {value}
+      </AppText>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Expense", headerTitleAlign: "center" }} />
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card style={styles.card}>
+          <View style={styles.summary}>
+            <AppText variant="heading1">{category?.icon || "📦"}</AppText>
+            <View style={styles.summaryText}>
+              <AppText variant="bodyMedium">{category?.name ?? "Unknown"}</AppText>
+              {!!expense.note && (
+                <AppText variant="caption" color={colors.textSecondary}>
+                  {expense.note}
+                </AppText>
+              )}
+            </View>
+            <AppText variant="heading2" color={signedCents < 0 ? colors.success : colors.text}>
+              {formatCurrency(signedCents, undefined, currency, hideCents)}
+            </AppText>
+          </View>
+        </Card>
+
+        <Card style={styles.card}>
+          <View style={styles.switchRow}>
+            <AppText variant="body">Paid</AppText>
+            <Switch
+              value={expense.isPaid}
+              onValueChange={handleTogglePaid}
+              disabled={isSaving}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor={colors.card}
+              accessibilityLabel="Paid"
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <AppText variant="body">Verified</AppText>
+            <Switch
+              value={expense.isVerified}
+              onValueChange={handleToggleVerified}
+              disabled={isSaving}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor={colors.card}
+              accessibilityLabel="Verified"
+            />
+          </View>
+
+          <DatePicker
+            label="Date"
+            value={expense.expenseDate}
+            onChange={handleChangeDate}
+            containerStyle={styles.dateField}
+          />
+        </Card>
+
+        <Card style={styles.card}>
+          {renderRow("Month", month ? `${getMonthName(month.month)} ${month.year}` : "—")}
+          {renderRow("Date", formatDate(expense.expenseDate))}
+          {renderRow("Type", expense.kind === "refund" ? "Refund" : "Expense")}
+          {expense.refundOfExpenseId !== null && renderRow("Refund of", `Expense #${expense.refundOfExpenseId}`)}
+          {renderRow("Merchant", merchant?.name ?? "—")}
+          {renderRow("Account", account?.name ?? "—")}
+          {expense.originalCurrency !== null &&
+            expense.originalAmountCents !== null &&
+            renderRow(
+              "Original amount",
+              `${formatCurrency(expense.originalAmountCents, undefined, expense.originalCurrency, hideCents)} @ ${expense.exchangeRate}`,
+            )}
+          {expense.lineItems.map((item, index) =>
+            renderRow(
+              index === 0 ? "Split" : "",
+              `${categories.find((c) => c.id === item.categoryId)?.name ?? "Unknown"} · ${formatCurrency(item.amountCents, undefined, currency, hideCents)}${item.note ? ` · ${item.note}` : ""}`,
+              `split-${item.id}`,
+            ),
+          )}
+          {renderRow("Tags", expenseTags.length > 0 ? expenseTags.map((t) => `#${t.name}`).join(" ") : "—")}
+          {renderRow("Receipts", String(expense.attachmentCount))}
+          {expense.recurringExpenseId !== null && renderRow("Recurring", recurring?.note || "Recurring expense")}
+          {expense.installmentPlanId !== null &&
+            renderRow(
+              "Installment",
+              `${plan?.note || "Plan"} · ${expense.installmentNumber !== null ? `${expense.installmentNumber} of ${plan?.installmentCount ?? "?"}` : "Payoff"}`,
+            )}
+          {renderRow("Created", formatDateTime(expense.createdAt))}
+          {renderRow("Updated", formatDateTime(expense.updatedAt))}
+        </Card>
+
+        {isMoving && (
+          <Card style={styles.card}>
+            <View style={styles.yearRow}>
+              <TouchableOpacity onPress={() => setTargetYear(targetYear - 1)} hitSlop={layout.hitSlop}>
+                <Ionicons name="chevron-back" size={20} color={colors.text} />
+              </TouchableOpacity>
+              <AppText variant="bodyMedium">{targetYear}</AppText>
+              <TouchableOpacity onPress={() => setTargetYear(targetYear + 1)} hitSlop={layout.hitSlop}>
+                <Ionicons name="chevron-forward" size={20} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.chipRow}>
+              {MONTHS.map((m) => {
+                const isCurrent = month?.year === targetYear && month.month === m;
+                const selected = targetMonth === m;
+                return (
+                  <TouchableOpacity
+                    key={m}
+                    style={[styles.chip, selected && styles.chipSelected, isCurrent && styles.chipDisabled]}
+                    onPress={() => setTargetMonth(m)}
+                    disabled={isCurrent}
+                  >
+                    <AppText variant="small" color={selected ? colors.primaryForeground : colors.text}>
+                      {getShortMonthName(m)}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Button
+              title={targetMonth !== null ? `Move to ${getMonthName(targetMonth)} ${targetYear}` : "Pick a month"}
+              onPress={handleMove}
+              disabled={targetMonth === null}
+              loading={isSaving}
+            />
+          </Card>
+        )}
+
+        <View style={styles.actions}>
+          <Button
+            title="Edit"
+            variant="secondary"
+            size="s"
+            icon={<Ionicons name="create-outline" size={16} color={colors.text} />}
+            onPress={handleEdit}
+            style={styles.action}
+          />
+          <Button
+            title="Duplicate"
+            variant="secondary"
+            size="s"
+            icon={<Ionicons name="copy-outline" size={16} color={colors.text} />}
+            onPress={handleDuplicate}
+            disabled={isSaving}
+            style={styles.action}
+          />
+          <Button
+            title={isMoving ? "Cancel Move" : "Move"}
+            variant="secondary"
+            size="s"
+            icon={<Ionicons name="swap-horizontal-outline" size={16} color={colors.text} />}
+            onPress={() => {
+              setIsMoving(!isMoving);
+              setTargetYear(month?.year ?? selectedYear);
+              setTargetMonth(null);
+            }}
+            style={styles.action}
+          />
+        </View>
+
+        {expense.kind === "expense" && (
+          <Button
+            title={isFavorite ? "Saved to Favorites" : "Save to Favorites"}
+            variant="ghost"
+            size="s"
+            icon={<Ionicons name={isFavorite ? "star" : "star-outline"} size={16} color={colors.primary} />}
+            onPress={handleSaveTemplate}
+            disabled={isSaving || isFavorite}
+            style={styles.favorite}
+          />
+        )}
+
+        <AppText variant="heading3" style={styles.historyTitle}>
+          History
+        </AppText>
+        <ExpenseHistoryList expenseId={expense.id} refreshKey={expense.updatedAt} />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: layout.spacing.m,
+  },
+  card: {
+    marginBottom: layout.spacing.m,
+  },
+  summary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.m,
+  },
+  summaryText: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: layout.spacing.xs,
+  },
+  dateField: {
+    marginTop: layout.spacing.s,
+    marginBottom: 0,
+  },
+  row: {
+    flexDirection: "row",
+    paddingVertical: layout.spacing.xs,
+  },
+  rowLabel: {
+    width: 110,
+  },
+  rowValue: {
+    flex: 1,
+  },
+  yearRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: layout.spacing.l,
+    marginBottom: layout.spacing.m,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.m,
+  },
+  chip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.l,
+  },
+  action: {
+    flex: 1,
+  },
+  favorite: {
+    marginTop: -layout.spacing.s,
+    marginBottom: layout.spacing.l,
+  },
+  historyTitle: {
+    marginBottom: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+  },
+});
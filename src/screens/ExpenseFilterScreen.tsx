@@ -0,0 +1,358 @@
+import { AppText, Card, Input } from "@/components/common";
+import { ExpenseItem } from "@/components/expense/ExpenseItem";
+import { ExpenseRepository } from "@/database";
+import { CalculationService } from "@/services";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { Category, Expense, ExpenseQueryDTO, ExpenseSearchResult, ExpenseSortOrder } from "@/types";
+import { formatCurrency, formatDate, getMonthName, parseToCents } from "@/utils";
+import * as Haptics from "expo-haptics";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { FlatList, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+// Wait for a pause in typing before querying
+const QUERY_DELAY_MS = 250;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type StatusFilter = "all" | "yes" | "no";
+
+const SORT_OPTIONS: { value: ExpenseSortOrder; label: string }[] = [
+  { value: "date_desc", label: "Newest" },
+  { value: "date_asc", label: "Oldest" },
+  { value: "amount_desc", label: "Largest" },
+  { value: "amount_asc", label: "Smallest" },
+];
+
+const toStatus = (filter: StatusFilter): boolean | undefined => (filter === "all" ? undefined : filter === "yes");
+
+export const ExpenseFilterScreen = () => {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { currentProfileId, categories, selectedYear, loadYearData, selectMonth, currency, hideCents } = useAppStore();
+
+  const [startDate, setStartDate] = useState(`${selectedYear}-01-01`);
+  const [endDate, setEndDate] = useState(`${selectedYear}-12-31`);
+  const [categoryIds, setCategoryIds] = useState<number[]>([]);
+  const [paid, setPaid] = useState<StatusFilter>("all");
+  const [verified, setVerified] = useState<StatusFilter>("all");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [noteContains, setNoteContains] = useState("");
+  const [sort, setSort] = useState<ExpenseSortOrder>("date_desc");
+  const [results, setResults] = useState<ExpenseSearchResult[]>([]);
+
+  // Invalid fields are flagged and left out of the query rather than blocking it
+  const startDateError = startDate && !DATE_PATTERN.test(startDate) ? "Use YYYY-MM-DD" : "";
+  const endDateError = endDate && !DATE_PATTERN.test(endDate) ? "Use YYYY-MM-DD" : "";
+  const minCents = minAmount.trim() ? parseToCents(minAmount) : null;
+  const maxCents = maxAmount.trim() ? parseToCents(maxAmount) : null;
+  const minAmountError = minAmount.trim() && minCents === null ? "Invalid amount" : "";
+  const maxAmountError = maxAmount.trim() && maxCents === null ? "Invalid amount" : "";
+
+  const filters: ExpenseQueryDTO = {
+    startDate: startDate && !startDateError ? startDate : undefined,
+    endDate: endDate && !endDateError ? endDate : undefined,
+    categoryIds,
+    isPaid: toStatus(paid),
+    isVerified: toStatus(verified),
+    minAmountCents: minCents ?? undefined,
+    maxAmountCents: maxCents ?? undefined,
+    noteContains,
+    sort,
+  };
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ExpenseRepository.query(JSON.parse(filtersKey) as ExpenseQueryDTO, currentProfileId)
+        .then((found) => {
+          if (!cancelled) setResults(found);
+        })
+        .catch((error) => console.error("Failed to query expenses:", error));
+    }, QUERY_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filtersKey, currentProfileId]);
+
+  // With categories selected, a split expense only counts its line items in those categories
+  const getFilteredAmount = (expense: Expense): number =>
+    categoryIds.length === 0
+      ? CalculationService.getSignedAmount(expense)
+      : CalculationService.getCategoryParts(expense)
+          .filter((part) => categoryIds.includes(part.categoryId))
+          .reduce((sum, part) => sum + part.amountCents, 0);
+  const totalCents = results.filter((e) => e.isPaid).reduce((sum, e) => sum + getFilteredAmount(e), 0);
+  const unpaidCents = results.filter((e) => !e.isPaid).reduce((sum, e) => sum + getFilteredAmount(e), 0);
+
+  const findCategory = (id: number): Category =>
+    categories.find((c) => c.id === id) ?? {
+      id: 0,
+      name: "Unknown",
+      icon: "❓",
+      color: colors.textMuted,
+      sortOrder: 999,
+      updatedAt: "",
+    };
+
+  const toggleCategory = (id: number) => {
+    Haptics.selectionAsync();
+    setCategoryIds((current) => (current.includes(id) ? current.filter((c) => c !== id) : [...current, id]));
+  };
+
+  const handleResultPress = async (expense: ExpenseSearchResult) => {
+    Haptics.selectionAsync();
+    // Month detail reads the summaries of the loaded year
+    if (expense.year !== selectedYear) {
+      await loadYearData(expense.year);
+    }
+    await selectMonth(expense.year, expense.month);
+    router.push("/month-detail" as any);
+  };
+
+  const renderStatusChips = (
+    value: StatusFilter,
+    onChange: (value: StatusFilter) => void,
+    labels: [string, string],
+  ) => (
+    <View style={styles.chipRow}>
+      {(["all", "yes", "no"] as StatusFilter[]).map((option) => {
+        const selected = value === option;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onChange(option)}
+          >
+            <AppText variant="small" color={selected ? colors.primaryForeground : colors.text}>
+              {option === "all" ? "All" : option === "yes" ? labels[0] : labels[1]}
+            </AppText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.header}>
+      <View style={styles.fieldRow}>
+        <Input
+          label="From"
+          value={startDate}
+          onChangeText={setStartDate}
+          placeholder="YYYY-MM-DD"
+          autoCorrect={false}
+          error={startDateError}
+          containerStyle={styles.field}
+        />
+        <Input
+          label="To"
+          value={endDate}
+          onChangeText={setEndDate}
+          placeholder="YYYY-MM-DD"
+          autoCorrect={false}
+          error={endDateError}
+          containerStyle={styles.field}
+        />
+      </View>
+
+      <AppText variant="caption" color={colors.textMuted} style={styles.label}>
+        Categories {categoryIds.length === 0 ? "(all)" : `(${categoryIds.length})`}
+      </AppText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoryRow}>
+        {categories.map((cat) => {
+          const selected = categoryIds.includes(cat.id);
+          return (
+            <TouchableOpacity
+              key={cat.id}
+              style={[styles.chip, { borderColor: cat.color || colors.border }, selected && styles.chipSelected]}
+              onPress={() => toggleCategory(cat.id)}
+            >
+              <AppText variant="small" color={selected ? colors.primaryForeground : colors.text}>
+                {cat.icon || "📦"} {cat.name}
+              </AppText>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <AppText variant="caption" color={colors.textMuted} style={styles.label}>
+        Paid
+      </AppText>
+      {renderStatusChips(paid, setPaid, ["Paid", "Unpaid"])}
+
+      <AppText variant="caption" color={colors.textMuted} style={styles.label}>
+        Verified
+      </AppText>
+      {renderStatusChips(verified, setVerified, ["Verified", "Unverified"])}
+
+      <View style={[styles.fieldRow, styles.amountRow]}>
+        <Input
+          label="Min Amount"
+          value={minAmount}
+          onChangeText={setMinAmount}
+          placeholder="0.00"
+          keyboardType="decimal-pad"
+          error={minAmountError}
+          containerStyle={styles.field}
+        />
+        <Input
+          label="Max Amount"
+          value={maxAmount}
+          onChangeText={setMaxAmount}
+          placeholder="Any"
+          keyboardType="decimal-pad"
+          error={maxAmountError}
+          containerStyle={styles.field}
+        />
+      </View>
+
+      <Input label="Note Contains" value={noteContains} onChangeText={setNoteContains} placeholder="Any note" />
+
+      <AppText variant="caption" color={colors.textMuted} style={styles.label}>
+        Sort
+      </AppText>
+      <View style={styles.chipRow}>
+        {SORT_OPTIONS.map((option) => {
+          const selected = sort === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => setSort(option.value)}
+            >
+              <AppText variant="small" color={selected ? colors.primaryForeground : colors.text}>
+                {option.label}
+              </AppText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Card style={styles.totalsCard}>
+        <View style={styles.totalsItem}>
+          <AppText variant="caption" color={colors.textMuted}>
+            Expenses
+          </AppText>
+          <AppText variant="bodyMedium">{results.length}</AppText>
+        </View>
+        <View style={styles.totalsItem}>
+          <AppText variant="caption" color={colors.textMuted}>
+            Total
+          </AppText>
+          <AppText variant="bodyMedium">{formatCurrency(totalCents, undefined, currency, hideCents)}</AppText>
+        </View>
+        <View style={styles.totalsItem}>
+          <AppText variant="caption" color={colors.textMuted}>
+            Unpaid
+          </AppText>
+          <AppText variant="bodyMedium" color={unpaidCents > 0 ? colors.warning : colors.text}>
+            {formatCurrency(unpaidCents, undefined, currency, hideCents)}
+          </AppText>
+        </View>
+      </Card>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Filter Expenses", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={({ item }) => (
+          <View>
+            <AppText variant="caption" color={colors.textMuted} style={styles.resultDate}>
+              {formatDate(item.expenseDate)} · {getMonthName(item.month)} {item.year}
+            </AppText>
+            <ExpenseItem
+              expense={{ ...item, category: findCategory(item.categoryId) }}
+              onPress={() => handleResultPress(item)}
+            />
+          </View>
+        )}
+        ListHeaderComponent={renderFilters()}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No expenses match these filters.
+            </AppText>
+          </View>
+        }
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  header: {
+    marginBottom: layout.spacing.m,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    gap: layout.spacing.m,
+  },
+  field: {
+    flex: 1,
+  },
+  amountRow: {
+    marginTop: layout.spacing.m,
+  },
+  label: {
+    marginBottom: layout.spacing.s,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.m,
+  },
+  categoryRow: {
+    gap: layout.spacing.s,
+    paddingBottom: layout.spacing.m,
+  },
+  chip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  totalsCard: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: layout.spacing.s,
+  },
+  totalsItem: {
+    alignItems: "center",
+    flex: 1,
+  },
+  resultDate: {
+    marginTop: layout.spacing.xs,
+    marginBottom: layout.spacing.xs,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
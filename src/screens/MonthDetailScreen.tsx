@@ -1,16 +1,36 @@
 import { AppText, Button, Card, FAB, Input } from "@/components/common";
 import { AddExpenseModal } from "@/components/expense/AddExpenseModal";
+import { AttachmentsModal } from "@/components/expense/AttachmentsModal";
+import { ExpenseHistoryModal } from "@/components/expense/ExpenseHistoryModal";
 import { ExpenseItem } from "@/components/expense/ExpenseItem";
+import { QuickAddInput } from "@/components/expense/QuickAddInput";
 import { VerifyExpensesModal } from "@/components/expense/VerifyExpensesModal";
+import { AllocateToGoalModal } from "@/components/month/AllocateToGoalModal";
+import { CategoryBudgetsModal } from "@/components/month/CategoryBudgetsModal";
+import { DuplicateRepository } from "@/database";
 import { useAppStore, useUIStore } from "@/stores";
 import { colors, layout } from "@/theme";
-import { ExpenseWithCategory } from "@/types";
-import { formatCurrency, formatForInput, formatWithSign, getMonthName, parseToCents } from "@/utils";
+import { CalculationService } from "@/services";
+import { Category, ExpenseWithCategory, IncomeEntry } from "@/types";
+import {
+  formatCurrency,
+  formatForInput,
+  formatWithSign,
+  getCurrentDay,
+  getMonthName,
+  getShortMonthName,
+  isCurrentMonth,
+  parseToCents,
+  toDateString,
+} from "@/utils";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { Stack, useRouter } from "expo-router";
-import React, { useState } from "react";
-import { Alert, SectionList, StyleSheet, TouchableOpacity, View } from "react-native";
+import React, { useEffect, useState } from "react";
+import { Alert, ScrollView, SectionList, StyleSheet, TouchableOpacity, View } from "react-native";
+
+// partCents is the share of a split expense that belongs to `category`, null when not split
+type SectionExpense = ExpenseWithCategory & { partCents: number | null };
 
 export const MonthDetailScreen = () => {
   const router = useRouter();
@@ -19,41 +39,115 @@ export const MonthDetailScreen = () => {
     selectedMonthExpenses,
     monthSummaries,
     categories,
+    categoryBudgets,
     clearSelectedMonth,
     currency,
     hideCents,
     setMonthAllowanceOverride,
-    defaultAllowanceCents,
+    allowanceSources,
     bulkUpdateExpensePaidStatus,
     bulkDeleteExpenses,
     profiles,
     currentProfileId,
+    tags,
+    incomeEntries,
+    addIncomeEntry,
+    updateIncomeEntry,
+    deleteIncomeEntry,
   } = useAppStore();
 
-  const { showAddExpenseModal, showEditExpenseModal, showVerifyExpensesModal } = useUIStore();
+  const { showAddExpenseModal, showVerifyExpensesModal, showCategoryBudgetsModal, showAllocateToGoalModal } =
+    useUIStore();
 
   const currentSummary = monthSummaries.find((m) => m.monthId === selectedMonthId);
   const monthName = currentSummary ? getMonthName(currentSummary.month) : "Month Detail";
 
+  // Category budgets of the month, compared with everything spent in the category (tag filters aside)
+  const budgets = currentSummary
+    ? CalculationService.getCategoryBudgets(categoryBudgets, currentSummary.month)
+    : new Map<number, number>();
+  const spentByCategory = new Map(
+    CalculationService.calculateCategoryBreakdown(selectedMonthExpenses).map((c) => [c.categoryId, c.totalCents]),
+  );
+
   // State for allowance editing
   const [isEditingAllowance, setIsEditingAllowance] = useState(false);
   const [allowanceInput, setAllowanceInput] = useState("");
   const [isSaving, setIsSaving] = useState(false);
 
+  // State for one-off income editing
+  const monthIncome = incomeEntries.filter((e) => e.monthId === selectedMonthId);
+  const [incomeName, setIncomeName] = useState("");
+  const [incomeAmount, setIncomeAmount] = useState("");
+  const [incomeDay, setIncomeDay] = useState("");
+  const [editingIncomeId, setEditingIncomeId] = useState<number | null>(null);
+
+  // Likely duplicate pairs of this month, listed on the duplicates screen
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  useEffect(() => {
+    if (!currentSummary) return;
+    let cancelled = false;
+    DuplicateRepository.findPairsInMonth(currentSummary.year, currentSummary.month, currentProfileId)
+      .then((pairs) => {
+        if (!cancelled) setDuplicateCount(pairs.length);
+      })
+      .catch((error) => console.error("Failed to find duplicates:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSummary?.year, currentSummary?.month, currentProfileId, selectedMonthExpenses]);
+
   // State for selection mode
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
 
-  // Join expenses with categories
-  const expensesWithCategories: ExpenseWithCategory[] = selectedMonthExpenses.map((expense) => {
-    const category = categories.find((c) => c.id === expense.categoryId) || {
+  const findCategory = (categoryId: number): Category =>
+    categories.find((c) => c.id === categoryId) || {
       id: 0,
       name: "Unknown",
       icon: "❓",
       color: colors.textMuted,
       sortOrder: 999,
+      updatedAt: "",
     };
-    return { ...expense, category };
+
+  // Tag filter: only expenses carrying any of the selected tags are listed
+  const [selectedTagIds, setSelectedTagIds] = useState<Set<number>>(new Set());
+  const monthTags = tags.filter((t) => selectedMonthExpenses.some((e) => e.tagIds.includes(t.id)));
+  // Tags no longer used this month are ignored so the filter can't hide everything
+  const activeTagIds = monthTags.filter((t) => selectedTagIds.has(t.id)).map((t) => t.id);
+  const filteredExpenses =
+    activeTagIds.length === 0
+      ? selectedMonthExpenses
+      : selectedMonthExpenses.filter((e) => e.tagIds.some((id) => activeTagIds.includes(id)));
+  const filteredTotalCents = filteredExpenses.reduce((sum, e) => sum + CalculationService.getSignedAmount(e), 0);
+
+  const toggleTagFilter = (tagId: number) => {
+    Haptics.selectionAsync();
+    const next = new Set(selectedTagIds);
+    if (next.has(tagId)) {
+      next.delete(tagId);
+    } else {
+      next.add(tagId);
+    }
+    setSelectedTagIds(next);
+  };
+
+  // Join expenses with categories
+  // A split expense appears once in every category it has a part in, with partCents set to that share
+  const expensesWithCategories = filteredExpenses.flatMap<SectionExpense>((expense) => {
+    if (expense.lineItems.length === 0) {
+      return [{ ...expense, category: findCategory(expense.categoryId), partCents: null }];
+    }
+    const shares = new Map<number, number>();
+    for (const part of CalculationService.getCategoryParts(expense)) {
+      shares.set(part.categoryId, (shares.get(part.categoryId) ?? 0) + part.amountCents);
+    }
+    return Array.from(shares.entries()).map(([categoryId, partCents]) => ({
+      ...expense,
+      category: findCategory(categoryId),
+      partCents,
+    }));
   });
 
   // Group expenses by category
@@ -63,6 +157,8 @@ export const MonthDetailScreen = () => {
   const expensesByCategory = expensesWithCategories.reduce(
     (acc, expense) => {
       const catId = expense.category.id;
+      // Refunds count against their category
+      const amountCents = expense.partCents ?? CalculationService.getSignedAmount(expense);
       if (!acc[catId]) {
         acc[catId] = {
           category: expense.category,
@@ -74,11 +170,11 @@ export const MonthDetailScreen = () => {
         };
       }
       acc[catId].data.push(expense);
-      acc[catId].totalCents += expense.amountCents;
+      acc[catId].totalCents += amountCents;
       if (expense.isPaid) {
-        acc[catId].paidCents += expense.amountCents;
+        acc[catId].paidCents += amountCents;
       } else {
-        acc[catId].unpaidCents += expense.amountCents;
+        acc[catId].unpaidCents += amountCents;
       }
       return acc;
     },
@@ -86,7 +182,7 @@ export const MonthDetailScreen = () => {
       number,
       {
         category: any;
-        data: ExpenseWithCategory[];
+        data: SectionExpense[];
         totalCents: number;
         paidCents: number;
         unpaidCents: number;
@@ -142,10 +238,70 @@ export const MonthDetailScreen = () => {
   const handleAllowancePress = () => {
     if (!currentSummary) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setAllowanceInput(formatForInput(currentSummary.allowanceCents));
+    // The override replaces the default only; income entries stay on top of it
+    setAllowanceInput(formatForInput(currentSummary.allowanceCents - currentSummary.incomeCents));
+    resetIncomeForm();
     setIsEditingAllowance(!isEditingAllowance);
   };
 
+  const resetIncomeForm = () => {
+    if (!currentSummary) return;
+    setIncomeName("");
+    setIncomeAmount("");
+    setIncomeDay(String(isCurrentMonth(currentSummary.year, currentSummary.month) ? getCurrentDay() : 1));
+    setEditingIncomeId(null);
+  };
+
+  const handleIncomePress = (entry: IncomeEntry) => {
+    Haptics.selectionAsync();
+    setIncomeName(entry.name);
+    setIncomeAmount(formatForInput(entry.amountCents));
+    setIncomeDay(String(Number(entry.entryDate.split("-")[2])));
+    setEditingIncomeId(entry.id);
+    setIsEditingAllowance(true);
+  };
+
+  const handleSaveIncome = async () => {
+    if (!currentSummary || !selectedMonthId || !incomeName.trim()) return;
+    const cents = parseToCents(incomeAmount);
+    if (cents === null || cents <= 0) return;
+
+    const daysInMonth = CalculationService.getDaysInMonth(currentSummary.year, currentSummary.month);
+    const day = Math.min(Math.max(parseInt(incomeDay, 10) || 1, 1), daysInMonth);
+    const entryDate = toDateString(currentSummary.year, currentSummary.month, day);
+
+    setIsSaving(true);
+    try {
+      if (editingIncomeId) {
+        await updateIncomeEntry(editingIncomeId, { name: incomeName, amountCents: cents, entryDate });
+      } else {
+        await addIncomeEntry({ monthId: selectedMonthId, name: incomeName, amountCents: cents, entryDate });
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      resetIncomeForm();
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteIncome = () => {
+    const entry = monthIncome.find((e) => e.id === editingIncomeId);
+    if (!entry) return;
+    Alert.alert("Delete Income", `Remove "${entry.name}" from this month?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          await deleteIncomeEntry(entry.id);
+          resetIncomeForm();
+        },
+      },
+    ]);
+  };
+
   const handleSaveAllowance = async () => {
     if (!currentSummary) return;
     const cents = parseToCents(allowanceInput);
@@ -283,17 +439,18 @@ export const MonthDetailScreen = () => {
 
       <SectionList
         sections={sections}
-        keyExtractor={(item) => item.id.toString()}
+        keyExtractor={(item) => `${item.id}-${item.category.id}`}
         renderItem={({ item }) => (
           <ExpenseItem
             expense={item}
+            partCents={item.partCents}
             isSelectionMode={isSelectionMode}
             isSelected={selectedIds.has(item.id)}
             onPress={() => {
               if (isSelectionMode) {
                 toggleSelection(item.id);
               } else {
-                showEditExpenseModal(item.id);
+                router.push(`/expense/${item.id}` as any);
               }
             }}
             onLongPress={() => {
@@ -306,73 +463,103 @@ export const MonthDetailScreen = () => {
         )}
         renderSectionHeader={({
           section: { category, totalCents, paidCents, unpaidCents, originalDataCount, isFullyPaid, isFullyVerified },
-        }) => (
-          <TouchableOpacity
-            style={[
-              styles.sectionHeader,
-              isFullyPaid && styles.sectionHeaderPaid,
-              isFullyVerified && styles.sectionHeaderVerified,
-            ]}
-            onPress={() => toggleCategoryCollapse(category.id)}
-            activeOpacity={0.7}
-          >
-            <View style={styles.sectionHeaderLeft}>
-              <View style={[styles.categoryIcon, { backgroundColor: (category.color || colors.textMuted) + "20" }]}>
-                {isFullyPaid ? (
-                  <Ionicons name="checkmark-circle" size={24} color={colors.success} />
-                ) : isFullyVerified ? (
-                  <Ionicons name="shield-checkmark" size={24} color={colors.primary} />
-                ) : (
-                  <AppText style={{ fontSize: 18 }}>{category.icon || "❓"}</AppText>
-                )}
-              </View>
-              <View>
-                <AppText variant="heading3" style={[{ fontSize: 18 }, isFullyPaid && styles.textPaid]}>
-                  {category.name}
-                </AppText>
-                <AppText variant="caption" color={colors.textMuted}>
-                  {originalDataCount} items
-                </AppText>
-              </View>
-            </View>
-            <View style={styles.sectionHeaderRight}>
-              <View style={styles.sectionAmounts}>
-                {paidCents > 0 && unpaidCents > 0 && (
-                  <View style={{ flexDirection: "row", alignItems: "center" }}>
-                    <AppText variant="small" color={colors.success}>
-                      {formatCurrency(paidCents, undefined, currency, hideCents)}
+        }) => {
+          const budgetCents = budgets.get(category.id);
+          const budget =
+            budgetCents !== undefined
+              ? CalculationService.calculateBudgetProgress(budgetCents, spentByCategory.get(category.id) ?? 0)
+              : null;
+
+          return (
+            <TouchableOpacity
+              style={[
+                styles.sectionHeader,
+                isFullyPaid && styles.sectionHeaderPaid,
+                isFullyVerified && styles.sectionHeaderVerified,
+              ]}
+              onPress={() => toggleCategoryCollapse(category.id)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.sectionHeaderRow}>
+                <View style={styles.sectionHeaderLeft}>
+                  <View style={[styles.categoryIcon, { backgroundColor: (category.color || colors.textMuted) + "20" }]}>
+                    {isFullyPaid ? (
+                      <Ionicons name="checkmark-circle" size={24} color={colors.success} />
+                    ) : isFullyVerified ? (
+                      <Ionicons name="shield-checkmark" size={24} color={colors.primary} />
+                    ) : (
+                      <AppText style={{ fontSize: 18 }}>{category.icon || "❓"}</AppText>
+                    )}
+                  </View>
+                  <View>
+                    <AppText variant="heading3" style={[{ fontSize: 18 }, isFullyPaid && styles.textPaid]}>
+                      {category.name}
                     </AppText>
-                    <AppText variant="small" color={colors.textMuted}>
-                      {" / "}
+                    <AppText variant="caption" color={colors.textMuted}>
+                      {originalDataCount} items
                     </AppText>
-                    <AppText variant="small" color={colors.warning}>
-                      {formatCurrency(unpaidCents, undefined, currency, hideCents)}
+                  </View>
+                </View>
+                <View style={styles.sectionHeaderRight}>
+                  <View style={styles.sectionAmounts}>
+                    {paidCents > 0 && unpaidCents > 0 && (
+                      <View style={{ flexDirection: "row", alignItems: "center" }}>
+                        <AppText variant="small" color={colors.success}>
+                          {formatCurrency(paidCents, undefined, currency, hideCents)}
+                        </AppText>
+                        <AppText variant="small" color={colors.textMuted}>
+                          {" / "}
+                        </AppText>
+                        <AppText variant="small" color={colors.warning}>
+                          {formatCurrency(unpaidCents, undefined, currency, hideCents)}
+                        </AppText>
+                      </View>
+                    )}
+                    {paidCents > 0 && unpaidCents === 0 && (
+                      <AppText variant="small" color={colors.success}>
+                        Fully Paid
+                      </AppText>
+                    )}
+                    {paidCents === 0 && (
+                      <AppText variant="small" color={colors.warning}>
+                        Total Unpaid
+                      </AppText>
+                    )}
+                    <AppText variant="bodyMedium" style={isFullyPaid && styles.textPaid}>
+                      {formatCurrency(totalCents, undefined, currency, hideCents)}
                     </AppText>
                   </View>
-                )}
-                {paidCents > 0 && unpaidCents === 0 && (
-                  <AppText variant="small" color={colors.success}>
-                    Fully Paid
-                  </AppText>
-                )}
-                {paidCents === 0 && (
-                  <AppText variant="small" color={colors.warning}>
-                    Total Unpaid
-                  </AppText>
-                )}
-                <AppText variant="bodyMedium" style={isFullyPaid && styles.textPaid}>
-                  {formatCurrency(totalCents, undefined, currency, hideCents)}
-                </AppText>
+                  <Ionicons
+                    name={collapsedCategories.has(category.id) ? "chevron-down" : "chevron-up"}
+                    size={18}
+                    color={colors.textMuted}
+                    style={{ marginLeft: 6 }}
+                  />
+                </View>
               </View>
-              <Ionicons
-                name={collapsedCategories.has(category.id) ? "chevron-down" : "chevron-up"}
-                size={18}
-                color={colors.textMuted}
-                style={{ marginLeft: 6 }}
-              />
-            </View>
-          </TouchableOpacity>
-        )}
+
+              {budget && (
+                <View style={styles.budget}>
+                  <View style={styles.budgetTrack}>
+                    <View
+                      style={[
+                        styles.budgetBar,
+                        {
+                          width: `${Math.min(budget.ratio, 1) * 100}%` as any,
+                          backgroundColor: budget.isOver ? colors.danger : category.color || colors.primary,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <AppText variant="small" color={budget.isOver ? colors.danger : colors.textMuted}>
+                    {formatCurrency(budget.spentCents, undefined, currency, hideCents)} of{" "}
+                    {formatCurrency(budget.budgetCents, undefined, currency, hideCents)}
+                  </AppText>
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        }}
         ListHeaderComponent={
           currentSummary ? (
             <View style={styles.header}>
@@ -451,9 +638,102 @@ export const MonthDetailScreen = () => {
                       </View>
                       {currentSummary.allowanceOverrideCents !== null && (
                         <AppText variant="caption" color={colors.textMuted} style={{ marginTop: layout.spacing.xs }}>
-                          Default: {formatCurrency(defaultAllowanceCents, undefined, currency, hideCents)}
+                          Default:{" "}
+                          {formatCurrency(
+                            CalculationService.calculateMonthAllowance(allowanceSources, currentSummary.month),
+                            undefined,
+                            currency,
+                            hideCents,
+                          )}
                         </AppText>
                       )}
+
+                      <AppText variant="caption" color={colors.textMuted} style={styles.incomeFormLabel}>
+                        {editingIncomeId ? "Edit One-off Income" : "Add One-off Income"}
+                      </AppText>
+                      <Input
+                        placeholder="Name (e.g. Bonus)"
+                        value={incomeName}
+                        onChangeText={setIncomeName}
+                        containerStyle={{ marginBottom: layout.spacing.s }}
+                      />
+                      <View style={styles.editorButtons}>
+                        <Input
+                          placeholder="Amount"
+                          value={incomeAmount}
+                          onChangeText={setIncomeAmount}
+                          keyboardType="numeric"
+                          containerStyle={{ marginBottom: layout.spacing.s, flex: 2 }}
+                        />
+                        <Input
+                          placeholder="Day"
+                          value={incomeDay}
+                          onChangeText={setIncomeDay}
+                          keyboardType="number-pad"
+                          maxLength={2}
+                          containerStyle={{ marginBottom: layout.spacing.s, flex: 1 }}
+                        />
+                      </View>
+                      <View style={styles.editorButtons}>
+                        <Button
+                          title={editingIncomeId ? "Update Income" : "Add Income"}
+                          size="s"
+                          onPress={handleSaveIncome}
+                          loading={isSaving}
+                          disabled={!incomeName.trim() || !incomeAmount}
+                          style={{ flex: 1 }}
+                        />
+                        {editingIncomeId && (
+                          <Button
+                            title="Delete"
+                            size="s"
+                            variant="danger"
+                            onPress={handleDeleteIncome}
+                            loading={isSaving}
+                            style={{ flex: 1 }}
+                          />
+                        )}
+                      </View>
+                    </View>
+                  )}
+
+                  {/* One-off income, already included in the allowance */}
+                  {monthIncome.map((entry) => (
+                    <TouchableOpacity
+                      key={entry.id}
+                      style={styles.statRow}
+                      onPress={() => handleIncomePress(entry)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.statLabel}>
+                        <Ionicons name="add-circle-outline" size={14} color={colors.success} />
+                        <AppText variant="caption" color={colors.textMuted}>
+                          {entry.name} · {getShortMonthName(currentSummary.month)}{" "}
+                          {Number(entry.entryDate.split("-")[2])}
+                        </AppText>
+                      </View>
+                      <AppText variant="caption" color={colors.success}>
+                        +{formatCurrency(entry.amountCents, undefined, currency, hideCents)}
+                      </AppText>
+                    </TouchableOpacity>
+                  ))}
+
+                  {/* Rollover: what the previous month left (or overspent), already in the remaining */}
+                  {currentSummary.carryInCents !== null && (
+                    <View style={styles.statRow}>
+                      <View style={styles.statLabel}>
+                        <Ionicons name="arrow-down-circle-outline" size={14} color={colors.textMuted} />
+                        <AppText variant="caption" color={colors.textMuted}>
+                          Carried in from{" "}
+                          {getShortMonthName(currentSummary.month === 1 ? 12 : currentSummary.month - 1)}
+                        </AppText>
+                      </View>
+                      <AppText
+                        variant="caption"
+                        color={currentSummary.carryInCents < 0 ? colors.danger : colors.success}
+                      >
+                        {formatWithSign(currentSummary.carryInCents, undefined, currency, hideCents).text}
+                      </AppText>
                     </View>
                   )}
 
@@ -486,6 +766,53 @@ export const MonthDetailScreen = () => {
                       {formatCurrency(currentSummary.balanceCents, undefined, currency, hideCents)}
                     </AppText>
                   </View>
+
+                  {/* Savings goals: already taken out of the remaining */}
+                  {currentSummary.allocatedCents > 0 && (
+                    <TouchableOpacity
+                      style={styles.statRow}
+                      onPress={() => router.push("/goals" as any)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.statLabel}>
+                        <Ionicons name="flag-outline" size={14} color={colors.textMuted} />
+                        <AppText variant="caption" color={colors.textMuted}>
+                          Set aside for goals
+                        </AppText>
+                      </View>
+                      <AppText variant="caption" color={colors.primary}>
+                        {formatCurrency(currentSummary.allocatedCents, undefined, currency, hideCents)}
+                      </AppText>
+                    </TouchableOpacity>
+                  )}
+
+                  {currentSummary.carryOutCents !== null && (
+                    <View style={styles.statRow}>
+                      <View style={styles.statLabel}>
+                        <Ionicons name="arrow-forward-circle-outline" size={14} color={colors.textMuted} />
+                        <AppText variant="caption" color={colors.textMuted}>
+                          Carries into {getShortMonthName(currentSummary.month === 12 ? 1 : currentSummary.month + 1)}
+                        </AppText>
+                      </View>
+                      <AppText
+                        variant="caption"
+                        color={currentSummary.carryOutCents < 0 ? colors.danger : colors.success}
+                      >
+                        {formatWithSign(currentSummary.carryOutCents, undefined, currency, hideCents).text}
+                      </AppText>
+                    </View>
+                  )}
+
+                  {currentSummary.remainingCents > 0 && (
+                    <Button
+                      title="Set Aside for a Goal"
+                      size="s"
+                      variant="secondary"
+                      icon={<Ionicons name="flag-outline" size={16} color={colors.text} />}
+                      onPress={showAllocateToGoalModal}
+                      style={styles.allocateButton}
+                    />
+                  )}
                 </View>
               </Card>
 
@@ -502,11 +829,64 @@ export const MonthDetailScreen = () => {
                       color={isSelectionMode ? colors.textMuted : colors.primary}
                     />
                   </TouchableOpacity>
+                  {!isSelectionMode && (
+                    <TouchableOpacity
+                      onPress={showCategoryBudgetsModal}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                      accessibilityLabel="Category budgets"
+                    >
+                      <Ionicons name="pie-chart-outline" size={20} color={colors.primary} />
+                    </TouchableOpacity>
+                  )}
                 </View>
                 <AppText variant="caption" color={colors.textMuted}>
-                  {selectedMonthExpenses.length} transactions
+                  {activeTagIds.length > 0
+                    ? `${filteredExpenses.length} of ${selectedMonthExpenses.length} · ${formatCurrency(
+                        filteredTotalCents,
+                        undefined,
+                        currency,
+                        hideCents,
+                      )}`
+                    : `${selectedMonthExpenses.length} transactions`}
                 </AppText>
               </View>
+
+              {!isSelectionMode && <QuickAddInput />}
+
+              {duplicateCount > 0 && !isSelectionMode && (
+                <TouchableOpacity style={styles.duplicatesBanner} onPress={() => router.push("/duplicates" as any)}>
+                  <Ionicons name="copy-outline" size={18} color={colors.warning} />
+                  <AppText variant="caption" color={colors.warning} style={styles.duplicatesText}>
+                    {duplicateCount} possible {duplicateCount === 1 ? "duplicate" : "duplicates"} to review
+                  </AppText>
+                  <Ionicons name="chevron-forward" size={18} color={colors.warning} />
+                </TouchableOpacity>
+              )}
+
+              {monthTags.length > 0 && (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.tagFilters}
+                  keyboardShouldPersistTaps="handled"
+                >
+                  {monthTags.map((tag) => {
+                    const isActive = selectedTagIds.has(tag.id);
+                    return (
+                      <TouchableOpacity
+                        key={tag.id}
+                        style={[styles.tagChip, isActive && styles.tagChipActive]}
+                        onPress={() => toggleTagFilter(tag.id)}
+                        accessibilityLabel={`Filter by tag ${tag.name}`}
+                      >
+                        <AppText variant="small" color={isActive ? colors.primaryForeground : colors.text}>
+                          #{tag.name}
+                        </AppText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
             </View>
           ) : null
         }
@@ -557,6 +937,10 @@ export const MonthDetailScreen = () => {
 
       <AddExpenseModal />
       <VerifyExpensesModal />
+      <CategoryBudgetsModal />
+      <AllocateToGoalModal />
+      <AttachmentsModal />
+      <ExpenseHistoryModal />
     </View>
   );
 };
@@ -585,6 +969,9 @@ const styles = StyleSheet.create({
   secondaryStats: {
     gap: layout.spacing.s,
   },
+  allocateButton: {
+    marginTop: layout.spacing.s,
+  },
   statRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -621,6 +1008,12 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: layout.spacing.s,
   },
+  incomeFormLabel: {
+    marginTop: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
   listHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -628,6 +1021,36 @@ const styles = StyleSheet.create({
     marginBottom: layout.spacing.xs,
     paddingHorizontal: layout.spacing.m,
   },
+  tagFilters: {
+    gap: layout.spacing.s,
+    paddingHorizontal: layout.spacing.m,
+    paddingTop: layout.spacing.s,
+  },
+  tagChip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.xs,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  tagChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  duplicatesBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.s,
+    marginHorizontal: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    padding: layout.spacing.s,
+    borderRadius: layout.borderRadius.m,
+    borderWidth: 1,
+    borderColor: colors.warning,
+  },
+  duplicatesText: {
+    flex: 1,
+  },
   titleRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -664,9 +1087,6 @@ const styles = StyleSheet.create({
     paddingHorizontal: layout.spacing.s,
   },
   sectionHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
     paddingVertical: layout.spacing.s,
     paddingHorizontal: layout.spacing.m,
     backgroundColor: colors.card,
@@ -674,6 +1094,11 @@ const styles = StyleSheet.create({
     borderBottomColor: colors.border,
     marginTop: layout.spacing.s,
   },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
   sectionHeaderLeft: {
     flexDirection: "row",
     alignItems: "center",
@@ -686,6 +1111,23 @@ const styles = StyleSheet.create({
   sectionAmounts: {
     alignItems: "flex-end",
   },
+  budget: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.s,
+  },
+  budgetTrack: {
+    flex: 1,
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    overflow: "hidden",
+  },
+  budgetBar: {
+    height: "100%",
+    borderRadius: 2,
+  },
   categoryIcon: {
     width: 32,
     height: 32,
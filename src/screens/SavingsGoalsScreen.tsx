@@ -0,0 +1,350 @@
+import { AppText, Button, Card, DatePicker, Input } from "@/components/common";
+import { SavingsGoalService } from "@/services";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { GoalContribution, SavingsGoal } from "@/types";
+import {
+  formatCurrency,
+  formatDate,
+  formatForInput,
+  getCurrentMonth,
+  getCurrentYear,
+  getShortMonthName,
+  parseToCents,
+  toDateString,
+} from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+// New goals default to the end of the year
+const defaultTargetDate = () => toDateString(getCurrentYear(), 12, 31);
+
+export const SavingsGoalsScreen = () => {
+  const insets = useSafeAreaInsets();
+  const {
+    savingsGoals,
+    goalContributions,
+    addSavingsGoal,
+    updateSavingsGoal,
+    deleteSavingsGoal,
+    deleteGoalContribution,
+    currency,
+    hideCents,
+  } = useAppStore();
+
+  const [isFormVisible, setIsFormVisible] = useState(false);
+  const [editingGoalId, setEditingGoalId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+  const [targetDate, setTargetDate] = useState(defaultTargetDate());
+  const [expandedGoalId, setExpandedGoalId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Progress is measured from the current calendar month
+  const year = getCurrentYear();
+  const month = getCurrentMonth();
+
+  const money = (cents: number) => formatCurrency(cents, undefined, currency, hideCents);
+  const monthLabel = (m: { year: number; month: number }) => `${getShortMonthName(m.month)} ${m.year}`;
+
+  const resetForm = () => {
+    setIsFormVisible(false);
+    setEditingGoalId(null);
+    setName("");
+    setTarget("");
+    setTargetDate(defaultTargetDate());
+  };
+
+  const handleAdd = () => {
+    resetForm();
+    setIsFormVisible(true);
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditingGoalId(goal.id);
+    setName(goal.name);
+    setTarget(formatForInput(goal.targetCents));
+    setTargetDate(goal.targetDate);
+    setIsFormVisible(true);
+  };
+
+  const handleSave = async () => {
+    const targetCents = parseToCents(target);
+    if (!name.trim()) {
+      Alert.alert("Missing Name", "Please give the goal a name");
+      return;
+    }
+    if (targetCents === null || targetCents <= 0) {
+      Alert.alert("Invalid Target", "Please enter a target greater than zero");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const dto = { name: name.trim(), targetCents, targetDate };
+      if (editingGoalId !== null) {
+        await updateSavingsGoal(editingGoalId, dto);
+      } else {
+        await addSavingsGoal(dto);
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      resetForm();
+    } catch (error) {
+      Alert.alert("Error", error instanceof Error ? error.message : "Failed to save goal");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = (goal: SavingsGoal) => {
+    Alert.alert(
+      "Delete Goal",
+      `Delete "${goal.name}"? Everything set aside for it goes back to the remaining balance of its month.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await deleteSavingsGoal(goal.id);
+            if (editingGoalId === goal.id) resetForm();
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDeleteContribution = (contribution: GoalContribution) => {
+    Alert.alert("Remove Contribution", `Return ${money(contribution.amountCents)} to ${monthLabel(contribution)}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => deleteGoalContribution(contribution.id),
+      },
+    ]);
+  };
+
+  const renderGoal = (goal: SavingsGoal) => {
+    const progress = SavingsGoalService.getProgress(goal, goalContributions, year, month);
+    const contributions = goalContributions.filter((c) => c.goalId === goal.id);
+    const isExpanded = expandedGoalId === goal.id;
+
+    let paceText = "Set money aside from a month's remaining balance to start.";
+    if (progress.isComplete) {
+      paceText = "Goal reached";
+    } else if (progress.projected) {
+      paceText = `At this pace: ${monthLabel(progress.projected)}`;
+    }
+
+    return (
+      <Card key={goal.id} style={styles.goalCard}>
+        <View style={styles.goalHeader}>
+          <View style={styles.goalTitle}>
+            <AppText variant="bodyMedium">{goal.name}</AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              By {formatDate(goal.targetDate)}
+            </AppText>
+          </View>
+          <TouchableOpacity onPress={() => handleEdit(goal)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="pencil" size={18} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(goal)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="trash-outline" size={18} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.barTrack}>
+          <View
+            style={[
+              styles.bar,
+              {
+                width: `${Math.min(progress.ratio, 1) * 100}%` as any,
+                backgroundColor: progress.isComplete ? colors.success : colors.primary,
+              },
+            ]}
+          />
+        </View>
+
+        <View style={styles.statRow}>
+          <AppText variant="body">
+            {money(progress.savedCents)} of {money(goal.targetCents)}
+          </AppText>
+          <AppText variant="caption" color={colors.textMuted}>
+            {Math.floor(progress.ratio * 100)}%
+          </AppText>
+        </View>
+
+        {!progress.isComplete && (
+          <View style={styles.statRow}>
+            <AppText variant="caption" color={colors.textMuted}>
+              Needed per month
+            </AppText>
+            <AppText variant="caption" color={progress.requiredMonthlyCents === null ? colors.danger : colors.text}>
+              {progress.requiredMonthlyCents === null
+                ? "Target date passed"
+                : `${money(progress.requiredMonthlyCents)} × ${progress.monthsLeft}`}
+            </AppText>
+          </View>
+        )}
+
+        <View style={styles.statRow}>
+          <AppText
+            variant="caption"
+            color={
+              progress.isOnTrack === null ? colors.textMuted : progress.isOnTrack ? colors.success : colors.warning
+            }
+          >
+            {paceText}
+          </AppText>
+          {contributions.length > 0 && (
+            <TouchableOpacity onPress={() => setExpandedGoalId(isExpanded ? null : goal.id)}>
+              <AppText variant="caption" color={colors.primary}>
+                {contributions.length} {contributions.length === 1 ? "contribution" : "contributions"}
+              </AppText>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isExpanded &&
+          contributions.map((c) => (
+            <View key={c.id} style={styles.contributionRow}>
+              <AppText variant="caption" color={colors.textMuted}>
+                {monthLabel(c)}
+              </AppText>
+              <View style={styles.contributionValue}>
+                <AppText variant="caption">{money(c.amountCents)}</AppText>
+                <TouchableOpacity
+                  onPress={() => handleDeleteContribution(c)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="close-circle-outline" size={16} color={colors.danger} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+      </Card>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Savings Goals", headerTitleAlign: "center" }} />
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {isFormVisible ? (
+          <Card style={styles.form}>
+            <AppText variant="heading3" style={{ marginBottom: layout.spacing.m }}>
+              {editingGoalId !== null ? "Edit Goal" : "New Goal"}
+            </AppText>
+            <Input placeholder="Name (e.g. Holiday)" value={name} onChangeText={setName} />
+            <Input placeholder="Target amount" value={target} onChangeText={setTarget} keyboardType="numeric" />
+            <DatePicker label="Target date" value={targetDate} onChange={setTargetDate} />
+            <View style={styles.buttonRow}>
+              <Button
+                title={editingGoalId !== null ? "Update" : "Add Goal"}
+                onPress={handleSave}
+                loading={loading}
+                disabled={!name.trim() || !target}
+                style={{ flex: 1 }}
+              />
+              <Button title="Cancel" variant="secondary" onPress={resetForm} disabled={loading} style={{ flex: 1 }} />
+            </View>
+          </Card>
+        ) : (
+          <Button
+            title="New Goal"
+            variant="secondary"
+            icon={<Ionicons name="add" size={18} color={colors.text} />}
+            onPress={handleAdd}
+            style={styles.addButton}
+          />
+        )}
+
+        {savingsGoals.length === 0 && !isFormVisible ? (
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No savings goals yet.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Add a goal, then set money aside for it from a month with a positive remaining balance.
+            </AppText>
+          </View>
+        ) : (
+          savingsGoals.map(renderGoal)
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: layout.spacing.m,
+  },
+  form: {
+    marginBottom: layout.spacing.m,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.m,
+  },
+  addButton: {
+    marginBottom: layout.spacing.m,
+  },
+  goalCard: {
+    marginBottom: layout.spacing.m,
+    gap: layout.spacing.s,
+  },
+  goalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.m,
+  },
+  goalTitle: {
+    flex: 1,
+  },
+  barTrack: {
+    height: 6,
+    backgroundColor: colors.border,
+    borderRadius: 3,
+    overflow: "hidden",
+  },
+  bar: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  statRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  contributionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingLeft: layout.spacing.m,
+  },
+  contributionValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
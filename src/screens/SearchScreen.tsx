@@ -0,0 +1,174 @@
+import { AppText, Input } from "@/components/common";
+import { ExpenseItem } from "@/components/expense/ExpenseItem";
+import { ExpenseRepository } from "@/database";
+import { CalculationService } from "@/services";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { Category, ExpenseSearchResult } from "@/types";
+import { buildSearchQuery, formatCurrency, getMonthName } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { SectionList, StyleSheet, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 250;
+
+interface ResultSection {
+  key: string;
+  year: number;
+  month: number;
+  totalCents: number;
+  data: ExpenseSearchResult[];
+}
+
+export const SearchScreen = () => {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { currentProfileId, categories, selectedYear, loadYearData, selectMonth, currency, hideCents } = useAppStore();
+
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ExpenseSearchResult[]>([]);
+  const [hasSearched, setHasSearched] = useState(false);
+
+  useEffect(() => {
+    const matchQuery = buildSearchQuery(query);
+    if (!matchQuery) {
+      setResults([]);
+      setHasSearched(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ExpenseRepository.search(matchQuery, currentProfileId)
+        .then((found) => {
+          if (cancelled) return;
+          setResults(found);
+          setHasSearched(true);
+        })
+        .catch((error) => console.error("Search failed:", error));
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, currentProfileId]);
+
+  const findCategory = (id: number): Category =>
+    categories.find((c) => c.id === id) ?? {
+      id: 0,
+      name: "Unknown",
+      icon: "❓",
+      color: colors.textMuted,
+      sortOrder: 999,
+      updatedAt: "",
+    };
+
+  // Results are newest first, so months come out in order
+  const sections = results.reduce<ResultSection[]>((acc, expense) => {
+    const key = `${expense.year}-${expense.month}`;
+    let section = acc.find((s) => s.key === key);
+    if (!section) {
+      section = { key, year: expense.year, month: expense.month, totalCents: 0, data: [] };
+      acc.push(section);
+    }
+    section.data.push(expense);
+    section.totalCents += CalculationService.getSignedAmount(expense);
+    return acc;
+  }, []);
+
+  const handleResultPress = async (expense: ExpenseSearchResult) => {
+    Haptics.selectionAsync();
+    // Month detail reads the summaries of the loaded year
+    if (expense.year !== selectedYear) {
+      await loadYearData(expense.year);
+    }
+    await selectMonth(expense.year, expense.month);
+    router.push("/month-detail" as any);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Search", headerTitleAlign: "center" }} />
+
+      <View style={styles.searchBar}>
+        <Input
+          placeholder="Notes, categories or amounts"
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          leftIcon={<Ionicons name="search" size={18} color={colors.textMuted} />}
+          containerStyle={{ marginBottom: 0 }}
+        />
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={({ item }) => (
+          <ExpenseItem
+            expense={{ ...item, category: findCategory(item.categoryId) }}
+            onPress={() => handleResultPress(item)}
+          />
+        )}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <AppText variant="bodyMedium">
+              {getMonthName(section.month)} {section.year}
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              {section.data.length} · {formatCurrency(section.totalCents, undefined, currency, hideCents)}
+            </AppText>
+          </View>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              {hasSearched ? "No matching expenses." : "Search every month of this profile."}
+            </AppText>
+            {!hasSearched && (
+              <AppText color={colors.textMuted} align="center" variant="caption">
+                Try a word from a note, a category name, or an amount like 12.50.
+              </AppText>
+            )}
+          </View>
+        }
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        keyboardShouldPersistTaps="handled"
+        stickySectionHeadersEnabled={false}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  searchBar: {
+    padding: layout.spacing.m,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  listContent: {
+    paddingHorizontal: layout.spacing.m,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: layout.spacing.l,
+    paddingBottom: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
@@ -10,19 +10,25 @@ import { Alert, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from "r
 
 export const SettingsScreen = () => {
   const [exporting, setExporting] = useState(false);
+  const [includeAttachments, setIncludeAttachments] = useState(false);
   const [importing, setImporting] = useState(false);
   const [checkingUpdate, setCheckingUpdate] = useState(false);
   const refreshData = useAppStore((state) => state.refreshData);
+  const clearHistory = useAppStore((state) => state.clearHistory);
   const currency = useAppStore((state) => state.currency);
   const setCurrency = useAppStore((state) => state.setCurrency);
   const hideCents = useAppStore((state) => state.hideCents);
   const setHideCents = useAppStore((state) => state.setHideCents);
+  const rolloverEnabled = useAppStore(
+    (state) => state.profiles.find((p) => p.id === state.currentProfileId)?.rolloverEnabled ?? false,
+  );
+  const setRolloverEnabled = useAppStore((state) => state.setRolloverEnabled);
   const router = useRouter();
 
   const handleExport = async () => {
     setExporting(true);
     try {
-      await exportAndShare();
+      await exportAndShare({ includeAttachments });
     } catch (error) {
       Alert.alert("Export Failed", error instanceof Error ? error.message : "Unknown error");
     } finally {
@@ -42,6 +48,8 @@ export const SettingsScreen = () => {
           try {
             const result = await pickAndImport();
             if (result) {
+              // The imported records replace everything the undo history points at
+              clearHistory();
               await refreshData();
               Alert.alert("Import Successful", result.message);
             }
@@ -90,6 +98,23 @@ export const SettingsScreen = () => {
           Save all your data as a JSON file that you can backup or transfer.
         </AppText>
 
+        <View style={styles.exportOption}>
+          <View style={{ flex: 1 }}>
+            <AppText variant="body" color={colors.textMuted}>
+              Include Attachments
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              Embed receipt files in the backup (larger file)
+            </AppText>
+          </View>
+          <Switch
+            value={includeAttachments}
+            onValueChange={setIncludeAttachments}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={colors.card}
+          />
+        </View>
+
         <Button
           title="Import Data"
           variant="secondary"
@@ -141,6 +166,23 @@ export const SettingsScreen = () => {
           />
         </View>
 
+        <View style={styles.toggleRow}>
+          <View style={{ flex: 1 }}>
+            <AppText variant="body" color={colors.textMuted}>
+              Roll Over Balances
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              Carry what is left (or overspent) into the next month, for this profile
+            </AppText>
+          </View>
+          <Switch
+            value={rolloverEnabled}
+            onValueChange={setRolloverEnabled}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={colors.card}
+          />
+        </View>
+
         <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/categories")}>
           <View style={styles.menuItemLeft}>
             <Ionicons name="pricetags" size={20} color={colors.primary} />
@@ -150,6 +192,66 @@ export const SettingsScreen = () => {
           </View>
           <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
         </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/recurring")}>
+          <View style={styles.menuItemLeft}>
+            <Ionicons name="repeat" size={20} color={colors.primary} />
+            <AppText variant="bodyMedium" style={{ marginLeft: layout.spacing.m }}>
+              Recurring Expenses
+            </AppText>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/templates")}>
+          <View style={styles.menuItemLeft}>
+            <Ionicons name="star-outline" size={20} color={colors.primary} />
+            <AppText variant="bodyMedium" style={{ marginLeft: layout.spacing.m }}>
+              Favorites
+            </AppText>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/installments")}>
+          <View style={styles.menuItemLeft}>
+            <Ionicons name="card-outline" size={20} color={colors.primary} />
+            <AppText variant="bodyMedium" style={{ marginLeft: layout.spacing.m }}>
+              Installment Plans
+            </AppText>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/accounts")}>
+          <View style={styles.menuItemLeft}>
+            <Ionicons name="wallet-outline" size={20} color={colors.primary} />
+            <AppText variant="bodyMedium" style={{ marginLeft: layout.spacing.m }}>
+              Accounts
+            </AppText>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/exchange-rates")}>
+          <View style={styles.menuItemLeft}>
+            <Ionicons name="swap-horizontal" size={20} color={colors.primary} />
+            <AppText variant="bodyMedium" style={{ marginLeft: layout.spacing.m }}>
+              Exchange Rates
+            </AppText>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.menuItem} onPress={() => router.push("/settings/trash")}>
+          <View style={styles.menuItemLeft}>
+            <Ionicons name="trash-bin-outline" size={20} color={colors.primary} />
+            <AppText variant="bodyMedium" style={{ marginLeft: layout.spacing.m }}>
+              Trash
+            </AppText>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+        </TouchableOpacity>
       </Card>
 
       <Card style={styles.section}>
@@ -211,6 +313,13 @@ const styles = StyleSheet.create({
     marginBottom: layout.spacing.l,
     paddingLeft: layout.spacing.xs,
   },
+  exportOption: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: layout.spacing.l,
+    paddingLeft: layout.spacing.xs,
+  },
   aboutRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -0,0 +1,181 @@
+import { AppText } from "@/components/common";
+import { TagRepository } from "@/database";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { TagTotal } from "@/types";
+import { formatCurrency } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React, { useEffect, useState } from "react";
+import { FlatList, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+export const TagReportScreen = () => {
+  const { selectedYear, currentProfileId, profiles, currency, hideCents } = useAppStore();
+  const insets = useSafeAreaInsets();
+
+  const [year, setYear] = useState(selectedYear);
+  const [profileId, setProfileId] = useState(currentProfileId);
+  const [totals, setTotals] = useState<TagTotal[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    TagRepository.getYearTotals(year, profileId)
+      .then((result) => {
+        if (!cancelled) setTotals(result);
+      })
+      .catch((error) => console.error("Failed to load tag totals:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [year, profileId]);
+
+  const maxCents = totals.reduce((max, t) => Math.max(max, t.totalCents), 0);
+
+  const handleYearChange = (increment: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setYear(year + increment);
+  };
+
+  const renderItem = ({ item }: { item: TagTotal }) => (
+    <View style={styles.row}>
+      <View style={styles.rowTop}>
+        <View style={styles.rowLabel}>
+          <AppText variant="bodyMedium">#{item.name}</AppText>
+          <AppText variant="caption" color={colors.textMuted}>
+            {item.count} {item.count === 1 ? "expense" : "expenses"}
+          </AppText>
+        </View>
+        <AppText variant="bodyMedium">{formatCurrency(item.totalCents, undefined, currency, hideCents)}</AppText>
+      </View>
+      <View style={styles.barTrack}>
+        <View style={[styles.bar, { width: `${maxCents > 0 ? (item.totalCents / maxCents) * 100 : 0}%` as any }]} />
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Tag Report", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={totals}
+        keyExtractor={(item) => item.tagId.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <View style={styles.yearSelector}>
+              <TouchableOpacity onPress={() => handleYearChange(-1)} style={styles.yearButton}>
+                <Ionicons name="chevron-back" size={24} color={colors.primary} />
+              </TouchableOpacity>
+              <AppText variant="heading2" color={colors.primary}>
+                {year}
+              </AppText>
+              <TouchableOpacity onPress={() => handleYearChange(1)} style={styles.yearButton}>
+                <Ionicons name="chevron-forward" size={24} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+
+            {profiles.length > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.profileList}>
+                {profiles.map((profile) => (
+                  <TouchableOpacity
+                    key={profile.id}
+                    style={[styles.profileChip, profileId === profile.id && styles.profileChipSelected]}
+                    onPress={() => setProfileId(profile.id)}
+                  >
+                    <AppText variant="small" color={profileId === profile.id ? colors.primaryForeground : colors.text}>
+                      {profile.name}
+                    </AppText>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No tagged expenses in {year}.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Add tags to expenses to see totals per tag.
+            </AppText>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  header: {
+    marginBottom: layout.spacing.m,
+  },
+  yearSelector: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: layout.spacing.l,
+    marginBottom: layout.spacing.m,
+  },
+  yearButton: {
+    padding: layout.spacing.s,
+  },
+  profileList: {
+    gap: layout.spacing.s,
+  },
+  profileChip: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  profileChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  row: {
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rowTop: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  rowLabel: {
+    flexShrink: 1,
+  },
+  barTrack: {
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    overflow: "hidden",
+    marginTop: layout.spacing.s,
+  },
+  bar: {
+    height: "100%",
+    borderRadius: 2,
+    backgroundColor: colors.primary,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
@@ -1,13 +1,19 @@
 import { AllowanceSourcesModal } from "@/components/allowance/AllowanceSourcesModal";
-import { AppText, Card } from "@/components/common";
+import { AppText, Button, Card } from "@/components/common";
 import { MonthCard } from "@/components/month/MonthCard";
 import { useAppStore, useUIStore } from "@/stores";
 import { colors, layout } from "@/theme";
-import { formatCurrency, formatWithSign } from "@/utils";
+import {
+  calculateInstallmentCommitment,
+  formatCurrency,
+  formatWithSign,
+  getCurrentMonth,
+  getCurrentYear,
+} from "@/utils";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { useRouter } from "expo-router";
-import React, { useEffect } from "react";
+import React, { useEffect, useMemo } from "react";
 import { FlatList, StyleSheet, TouchableOpacity, View } from "react-native";
 
 export const YearOverviewScreen = () => {
@@ -19,19 +25,25 @@ export const YearOverviewScreen = () => {
     setSelectedYear,
     selectMonth,
     totalExcessCents,
-    defaultAllowanceCents,
     avgAllowanceCents,
     currency,
     hideCents,
     totalSpentCents,
     currentProfileId,
     profiles,
+    installmentPlans,
   } = useAppStore();
 
   const currentProfile = profiles.find((p) => p.id === currentProfileId);
 
   const { showAllowanceSourcesModal } = useUIStore();
 
+  // Installments of active plans still to come after the current month
+  const futureCommitmentCents = useMemo(
+    () => calculateInstallmentCommitment(installmentPlans, getCurrentYear(), getCurrentMonth()),
+    [installmentPlans],
+  );
+
   useEffect(() => {
     loadYearData(selectedYear);
   }, [selectedYear]);
@@ -103,6 +115,65 @@ export const YearOverviewScreen = () => {
             </AppText>
           </View>
         </Card>
+
+        {futureCommitmentCents > 0 && (
+          <TouchableOpacity
+            onPress={() => router.push("/settings/installments" as any)}
+            activeOpacity={0.7}
+            accessibilityLabel="View installment plans"
+          >
+            <Card style={styles.commitmentCard}>
+              <View style={styles.commitmentLabel}>
+                <Ionicons name="card-outline" size={18} color={colors.info} />
+                <AppText variant="body" color={colors.textMuted}>
+                  Committed in future months
+                </AppText>
+              </View>
+              <AppText variant="bodyMedium" color={colors.info}>
+                {formatCurrency(futureCommitmentCents, undefined, currency, hideCents)}
+              </AppText>
+            </Card>
+          </TouchableOpacity>
+        )}
+
+        {/* Reports */}
+        <View style={styles.shortcuts}>
+          <Button
+            title="Search"
+            variant="secondary"
+            size="s"
+            onPress={() => router.push("/search" as any)}
+            icon={<Ionicons name="search-outline" size={16} color={colors.text} />}
+          />
+          <Button
+            title="Filter"
+            variant="secondary"
+            size="s"
+            onPress={() => router.push("/expense-filter" as any)}
+            icon={<Ionicons name="funnel-outline" size={16} color={colors.text} />}
+          />
+          <Button
+            title="Tag Report"
+            variant="secondary"
+            size="s"
+            onPress={() => router.push("/tag-report" as any)}
+            icon={<Ionicons name="pricetag-outline" size={16} color={colors.text} />}
+          />
+          <Button
+            title="Merchants"
+            variant="secondary"
+            size="s"
+            onPress={() => router.push("/merchant-ranking" as any)}
+            icon={<Ionicons name="storefront-outline" size={16} color={colors.text} />}
+          />
+          <Button
+            title="Goals"
+            variant="secondary"
+            size="s"
+            onPress={() => router.push("/goals" as any)}
+            icon={<Ionicons name="flag-outline" size={16} color={colors.text} />}
+          />
+        </View>
       </View>
     );
   };
@@ -113,9 +184,8 @@ export const YearOverviewScreen = () => {
         data={monthSummaries}
         keyExtractor={(item) => item.month.toString()}
         renderItem={({ item }) => {
-          const now = new Date();
-          const currentYear = now.getFullYear();
-          const currentMonth = now.getMonth() + 1;
+          const currentYear = getCurrentYear();
+          const currentMonth = getCurrentMonth();
 
           // Calculate distance in months
           const monthDiff = (selectedYear - currentYear) * 12 + (item.month - currentMonth);
@@ -175,6 +245,23 @@ const styles = StyleSheet.create({
   statItem: {
     alignItems: "center",
   },
+  commitmentCard: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: layout.spacing.m,
+  },
+  commitmentLabel: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+  shortcuts: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.m,
+  },
   divider: {
     width: 1,
     height: "60%",
@@ -1,3 +1,10 @@
+export * from "./DuplicatesScreen";
+export * from "./ExpenseDetailScreen";
+export * from "./ExpenseFilterScreen";
+export * from "./MerchantRankingScreen";
 export * from "./MonthDetailScreen";
+export * from "./SavingsGoalsScreen";
+export * from "./SearchScreen";
 export * from "./SettingsScreen";
+export * from "./TagReportScreen";
 export * from "./YearOverviewScreen";
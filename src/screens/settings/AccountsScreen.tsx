@@ -0,0 +1,453 @@
+import { AppText, Button, FAB, Input } from "@/components/common";
+import { AccountRepository } from "@/database";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { Account, AccountKind, AccountTransaction } from "@/types";
+import { formatCurrency, formatDateTime, formatForInput, getCurrencySymbol, parseToCents } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import { Alert, FlatList, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const ACCOUNT_KINDS: { kind: AccountKind; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { kind: "cash", label: "Cash", icon: "cash-outline" },
+  { kind: "debit", label: "Debit", icon: "wallet-outline" },
+  { kind: "credit", label: "Credit Card", icon: "card-outline" },
+];
+
+const getKind = (kind: AccountKind) => ACCOUNT_KINDS.find((k) => k.kind === kind) ?? ACCOUNT_KINDS[0]!;
+
+interface AccountEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  account?: Account;
+}
+
+const AccountEditor = ({ visible, onClose, account }: AccountEditorProps) => {
+  const { addAccount, updateAccount, currency } = useAppStore();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<AccountKind>("cash");
+  const [startingBalance, setStartingBalance] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const insets = useSafeAreaInsets();
+
+  // Reset state when modal opens
+  React.useEffect(() => {
+    if (visible) {
+      setName(account?.name ?? "");
+      setKind(account?.kind ?? "cash");
+      setStartingBalance(account ? formatForInput(account.startingBalanceCents) : "");
+      setError("");
+    }
+  }, [visible, account]);
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError("Name is required");
+      return;
+    }
+    const startingBalanceCents = startingBalance.trim() ? parseToCents(startingBalance) : 0;
+    if (startingBalanceCents === null) {
+      setError("Starting balance is not a valid amount");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (account) {
+        await updateAccount(account.id, { name: trimmedName, kind, startingBalanceCents });
+      } else {
+        await addAccount({ name: trimmedName, kind, startingBalanceCents });
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      setError("Failed to save account");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <AppText variant="heading3">{account ? "Edit Account" : "New Account"}</AppText>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close-circle" size={30} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.modalContent} showsVerticalScrollIndicator={false}>
+          <Input
+            label="Name"
+            value={name}
+            onChangeText={(t) => {
+              setName(t);
+              setError("");
+            }}
+            placeholder="e.g., Wallet, Visa"
+            error={error}
+          />
+
+          <AppText variant="bodyMedium" style={styles.sectionTitle}>
+            Type
+          </AppText>
+          <View style={styles.kindRow}>
+            {ACCOUNT_KINDS.map((k) => (
+              <TouchableOpacity
+                key={k.kind}
+                style={[styles.kindChip, kind === k.kind && styles.kindChipSelected]}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  setKind(k.kind);
+                }}
+              >
+                <Ionicons name={k.icon} size={16} color={kind === k.kind ? colors.primaryForeground : colors.text} />
+                <AppText variant="small" color={kind === k.kind ? colors.primaryForeground : colors.text}>
+                  {k.label}
+                </AppText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Input
+            label="Starting Balance"
+            placeholder="0.00"
+            keyboardType="numbers-and-punctuation"
+            value={startingBalance}
+            onChangeText={(t) => {
+              setStartingBalance(t);
+              setError("");
+            }}
+            leftIcon={<AppText color={colors.textMuted}>{getCurrencySymbol(currency)}</AppText>}
+          />
+          <AppText variant="caption" color={colors.textMuted}>
+            {kind === "credit"
+              ? "Enter what you already owe on the card as a negative amount."
+              : "Paid expenses from this account are deducted from this amount."}
+          </AppText>
+        </ScrollView>
+
+        <View style={[styles.footer, { paddingBottom: insets.bottom + layout.spacing.l }]}>
+          <Button title="Save Account" onPress={handleSave} loading={isSaving} />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+interface AccountTransactionsProps {
+  account?: Account;
+  onClose: () => void;
+}
+
+const AccountTransactions = ({ account, onClose }: AccountTransactionsProps) => {
+  const { categories, currency, hideCents } = useAppStore();
+  const [transactions, setTransactions] = useState<AccountTransaction[]>([]);
+  const insets = useSafeAreaInsets();
+
+  React.useEffect(() => {
+    if (!account) return;
+    let cancelled = false;
+    AccountRepository.findTransactions(account.id)
+      .then((result) => {
+        if (!cancelled) setTransactions(result);
+      })
+      .catch((error) => console.error("Failed to load account transactions:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [account]);
+
+  const format = (cents: number) => formatCurrency(cents, undefined, currency, hideCents);
+
+  const renderItem = ({ item }: { item: AccountTransaction }) => {
+    const category = categories.find((c) => c.id === item.categoryId);
+    return (
+      <View style={styles.transactionRow}>
+        <View style={[styles.iconContainer, { backgroundColor: (category?.color || colors.textMuted) + "20" }]}>
+          <AppText style={{ fontSize: 18 }}>{category?.icon || "❓"}</AppText>
+        </View>
+        <View style={styles.info}>
+          <AppText variant="bodyMedium" numberOfLines={1}>
+            {item.note || category?.name || "Unknown"}
+          </AppText>
+          <AppText variant="caption" color={colors.textMuted}>
+            Paid {formatDateTime(item.createdAt)}
+          </AppText>
+        </View>
+        <AppText variant="bodyMedium" color={item.amountCents < 0 ? colors.danger : colors.success}>
+          {format(item.amountCents)}
+        </AppText>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={!!account} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <View>
+            <AppText variant="heading3">{account?.name}</AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              Starting balance {format(account?.startingBalanceCents ?? 0)}
+            </AppText>
+          </View>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close-circle" size={30} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={transactions}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderItem}
+          contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+          ListHeaderComponent={
+            <View style={styles.balanceHeader}>
+              <AppText variant="caption" color={colors.textMuted}>
+                Current Balance
+              </AppText>
+              <AppText variant="heading1" color={(account?.balanceCents ?? 0) < 0 ? colors.danger : colors.text}>
+                {format(account?.balanceCents ?? 0)}
+              </AppText>
+            </View>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <AppText color={colors.textMuted} align="center">
+                No transactions yet.
+              </AppText>
+              <AppText color={colors.textMuted} align="center" variant="caption">
+                Expenses paid from this account show up here.
+              </AppText>
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+export default function AccountsScreen() {
+  const { accounts, currency, hideCents, loadAccounts, deleteAccount } = useAppStore();
+  const [editingAccount, setEditingAccount] = useState<Account | undefined>(undefined);
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+  const [viewingAccount, setViewingAccount] = useState<Account | undefined>(undefined);
+  const insets = useSafeAreaInsets();
+
+  React.useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const totalCents = accounts.reduce((sum, a) => sum + a.balanceCents, 0);
+
+  const handleEdit = (account: Account) => {
+    setEditingAccount(account);
+    setIsEditorVisible(true);
+  };
+
+  const handleAdd = () => {
+    setEditingAccount(undefined);
+    setIsEditorVisible(true);
+  };
+
+  const handleDelete = (account: Account) => {
+    Alert.alert(
+      "Delete Account",
+      `Are you sure you want to delete "${account.name}"? Expenses paid from it are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await deleteAccount(account.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Accounts", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={accounts}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 100 }]}
+        ListHeaderComponent={
+          accounts.length > 0 ? (
+            <View style={styles.balanceHeader}>
+              <AppText variant="caption" color={colors.textMuted}>
+                Total Balance
+              </AppText>
+              <AppText variant="heading1" color={totalCents < 0 ? colors.danger : colors.text}>
+                {formatCurrency(totalCents, undefined, currency, hideCents)}
+              </AppText>
+            </View>
+          ) : null
+        }
+        renderItem={({ item }) => {
+          const kind = getKind(item.kind);
+          return (
+            <TouchableOpacity style={styles.card} onPress={() => setViewingAccount(item)} activeOpacity={0.7}>
+              <View style={styles.cardContent}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.primary + "20" }]}>
+                  <Ionicons name={kind.icon} size={20} color={colors.primary} />
+                </View>
+                <View style={styles.info}>
+                  <AppText variant="bodyMedium" numberOfLines={1}>
+                    {item.name}
+                  </AppText>
+                  <AppText variant="caption" color={colors.textMuted}>
+                    {kind.label}
+                  </AppText>
+                </View>
+                <AppText variant="bodyMedium" color={item.balanceCents < 0 ? colors.danger : colors.text}>
+                  {formatCurrency(item.balanceCents, undefined, currency, hideCents)}
+                </AppText>
+              </View>
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleEdit(item)}>
+                  <Ionicons name="pencil" size={20} color={colors.primary} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+                  <Ionicons name="trash-outline" size={20} color={colors.danger} />
+                </TouchableOpacity>
+              </View>
+            </TouchableOpacity>
+          );
+        }}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No accounts yet.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Tap + to add your cash, debit or credit card accounts.
+            </AppText>
+          </View>
+        }
+      />
+
+      <FAB onPress={handleAdd} />
+
+      <AccountEditor visible={isEditorVisible} onClose={() => setIsEditorVisible(false)} account={editingAccount} />
+      <AccountTransactions account={viewingAccount} onClose={() => setViewingAccount(undefined)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  balanceHeader: {
+    alignItems: "center",
+    paddingVertical: layout.spacing.l,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardContent: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: layout.spacing.m,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.s,
+  },
+  actionButton: {
+    padding: layout.spacing.s,
+  },
+  transactionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: layout.spacing.m,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.separator,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+  // Modal Styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: layout.spacing.l,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalContent: {
+    padding: layout.spacing.l,
+  },
+  sectionTitle: {
+    marginTop: layout.spacing.s,
+    marginBottom: layout.spacing.s,
+    color: colors.textMuted,
+  },
+  kindRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.l,
+  },
+  kindChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: layout.spacing.xs,
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  kindChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  footer: {
+    padding: layout.spacing.l,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.background,
+  },
+});
@@ -0,0 +1,256 @@
+import { AppText, Button, FAB, Input } from "@/components/common";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { ExchangeRate } from "@/types";
+import { formatDateTime } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import { Alert, FlatList, Modal, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+interface ExchangeRateEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  exchangeRate?: ExchangeRate;
+}
+
+const ExchangeRateEditor = ({ visible, onClose, exchangeRate }: ExchangeRateEditorProps) => {
+  const { setExchangeRate, currency: homeCurrency } = useAppStore();
+  const [currency, setCurrency] = useState("");
+  const [rate, setRate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const insets = useSafeAreaInsets();
+
+  // Reset state when modal opens
+  React.useEffect(() => {
+    if (visible) {
+      setCurrency(exchangeRate?.currency ?? "");
+      setRate(exchangeRate ? String(exchangeRate.rate) : "");
+      setError("");
+    }
+  }, [visible, exchangeRate]);
+
+  const code = currency.trim().toUpperCase();
+
+  const handleSave = async () => {
+    if (!/^[A-Z]{3}$/.test(code)) {
+      setError("Enter a 3-letter currency code, e.g. EUR");
+      return;
+    }
+    if (code === homeCurrency) {
+      setError(`${homeCurrency} is your home currency`);
+      return;
+    }
+    const parsedRate = parseFloat(rate.replace(",", "."));
+    if (!(parsedRate > 0)) {
+      setError("Rate must be a positive number");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setExchangeRate(code, parsedRate);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      setError("Failed to save exchange rate");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <AppText variant="heading3">{exchangeRate ? "Edit Rate" : "New Rate"}</AppText>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close-circle" size={30} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.modalContent} showsVerticalScrollIndicator={false}>
+          <Input
+            label="Currency"
+            value={currency}
+            onChangeText={(t) => {
+              setCurrency(t);
+              setError("");
+            }}
+            placeholder="EUR"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={3}
+            editable={!exchangeRate}
+          />
+          <Input
+            label={`${homeCurrency} per 1 ${code || "unit"}`}
+            value={rate}
+            onChangeText={(t) => {
+              setRate(t);
+              setError("");
+            }}
+            placeholder="1.00"
+            keyboardType="decimal-pad"
+            error={error}
+          />
+          <AppText variant="caption" color={colors.textMuted}>
+            New expenses in {code || "this currency"} are converted with this rate. Expenses you already saved keep the
+            rate they were entered with.
+          </AppText>
+        </ScrollView>
+
+        <View style={[styles.footer, { paddingBottom: insets.bottom + layout.spacing.l }]}>
+          <Button title="Save Rate" onPress={handleSave} loading={isSaving} />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default function ExchangeRatesScreen() {
+  const { exchangeRates, currency, loadExchangeRates, deleteExchangeRate } = useAppStore();
+  const [editingRate, setEditingRate] = useState<ExchangeRate | undefined>(undefined);
+  const [isEditorVisible, setIsEditorVisible] = useState(false);
+  const insets = useSafeAreaInsets();
+
+  React.useEffect(() => {
+    loadExchangeRates();
+  }, [loadExchangeRates]);
+
+  const handleEdit = (exchangeRate: ExchangeRate) => {
+    setEditingRate(exchangeRate);
+    setIsEditorVisible(true);
+  };
+
+  const handleAdd = () => {
+    setEditingRate(undefined);
+    setIsEditorVisible(true);
+  };
+
+  const handleDelete = (exchangeRate: ExchangeRate) => {
+    Alert.alert("Delete Rate", `Remove the ${exchangeRate.currency} rate? Saved expenses are not affected.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          await deleteExchangeRate(exchangeRate.id);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Exchange Rates", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={exchangeRates}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 100 }]}
+        renderItem={({ item }) => (
+          <View style={styles.card}>
+            <View style={styles.info}>
+              <AppText variant="bodyMedium">
+                1 {item.currency} = {item.rate} {currency}
+              </AppText>
+              <AppText variant="caption" color={colors.textMuted}>
+                Updated {formatDateTime(item.updatedAt)}
+              </AppText>
+            </View>
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleEdit(item)}>
+                <Ionicons name="pencil" size={20} color={colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+                <Ionicons name="trash-outline" size={20} color={colors.danger} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No exchange rates yet.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Tap + to add a rate into {currency} for expenses in other currencies.
+            </AppText>
+          </View>
+        }
+      />
+
+      <FAB onPress={handleAdd} />
+
+      <ExchangeRateEditor
+        visible={isEditorVisible}
+        onClose={() => setIsEditorVisible(false)}
+        exchangeRate={editingRate}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  info: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: layout.spacing.s,
+  },
+  actionButton: {
+    padding: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+  // Modal Styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: layout.spacing.l,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalContent: {
+    padding: layout.spacing.l,
+  },
+  footer: {
+    padding: layout.spacing.l,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.background,
+  },
+});
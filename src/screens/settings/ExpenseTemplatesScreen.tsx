@@ -0,0 +1,126 @@
+import { AppText } from "@/components/common";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { ExpenseTemplate } from "@/types";
+import { formatCurrency } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React from "react";
+import { Alert, FlatList, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+export default function ExpenseTemplatesScreen() {
+  const { expenseTemplates, categories, currency, hideCents, loadExpenseTemplates, deleteExpenseTemplate } =
+    useAppStore();
+  const insets = useSafeAreaInsets();
+
+  React.useEffect(() => {
+    loadExpenseTemplates();
+  }, [loadExpenseTemplates]);
+
+  const handleDelete = (item: ExpenseTemplate) => {
+    Alert.alert("Remove Favorite", "Expenses already added from it are kept.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          await deleteExpenseTemplate(item.id);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: ExpenseTemplate }) => {
+    const category = categories.find((c) => c.id === item.categoryId);
+
+    return (
+      <View style={styles.card}>
+        <View style={[styles.iconContainer, { backgroundColor: (category?.color || colors.textMuted) + "20" }]}>
+          <AppText style={{ fontSize: 20 }}>{category?.icon || "❓"}</AppText>
+        </View>
+        <View style={styles.info}>
+          <AppText variant="bodyMedium" numberOfLines={1}>
+            {item.note || category?.name || "Unknown"}
+          </AppText>
+          <AppText variant="caption" color={colors.textMuted}>
+            {item.useCount === 0 ? "Not used yet" : `Used ${item.useCount} ${item.useCount === 1 ? "time" : "times"}`}
+          </AppText>
+        </View>
+        <AppText variant="bodyMedium">{formatCurrency(item.amountCents, undefined, currency, hideCents)}</AppText>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleDelete(item)}
+          accessibilityLabel="Remove favorite"
+        >
+          <Ionicons name="trash-outline" size={20} color={colors.danger} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Favorites", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={expenseTemplates}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No favorites yet.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Open an expense and tap "Save to Favorites" to add it here.
+            </AppText>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: layout.spacing.m,
+  },
+  actionButton: {
+    padding: layout.spacing.s,
+    marginLeft: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
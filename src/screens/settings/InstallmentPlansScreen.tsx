@@ -0,0 +1,223 @@
+import { AppText, Button } from "@/components/common";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { InstallmentPlan, InstallmentPlanStatus } from "@/types";
+import {
+  calculateInstallmentCommitment,
+  formatCurrency,
+  getCurrentMonth,
+  getCurrentYear,
+  getInstallmentAmount,
+  getInstallmentMonth,
+  getInstallmentNumber,
+  getShortMonthName,
+} from "@/utils";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React from "react";
+import { Alert, FlatList, StyleSheet, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const STATUS_LABELS: Record<InstallmentPlanStatus, string> = {
+  active: "Active",
+  paid_off: "Paid off",
+  cancelled: "Cancelled",
+};
+
+export default function InstallmentPlansScreen() {
+  const {
+    installmentPlans,
+    categories,
+    currency,
+    hideCents,
+    loadInstallmentPlans,
+    payOffInstallmentPlan,
+    cancelInstallmentPlan,
+  } = useAppStore();
+  const insets = useSafeAreaInsets();
+
+  React.useEffect(() => {
+    loadInstallmentPlans();
+  }, [loadInstallmentPlans]);
+
+  const format = (cents: number) => formatCurrency(cents, undefined, currency, hideCents);
+
+  const handlePayOff = (plan: InstallmentPlan) => {
+    const outstanding = calculateInstallmentCommitment([plan], getCurrentYear(), getCurrentMonth());
+    Alert.alert(
+      "Pay Off Plan",
+      `The remaining installments will be replaced by one paid expense this month${
+        outstanding > 0 ? ` (at least ${format(outstanding)})` : ""
+      }.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Pay Off",
+          onPress: async () => {
+            await payOffInstallmentPlan(plan.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ],
+    );
+  };
+
+  const handleCancel = (plan: InstallmentPlan) => {
+    Alert.alert("Cancel Plan", "Unpaid installments after this month will be removed.", [
+      { text: "Keep Plan", style: "cancel" },
+      {
+        text: "Cancel Plan",
+        style: "destructive",
+        onPress: async () => {
+          await cancelInstallmentPlan(plan.id);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: InstallmentPlan }) => {
+    const category = categories.find((c) => c.id === item.categoryId);
+    const perMonth = getInstallmentAmount(item.totalCents, item.installmentCount, 1);
+    const last = getInstallmentMonth(item, item.installmentCount);
+
+    // Installment falling in the current month; 0 before the plan starts
+    const currentNumber =
+      getInstallmentNumber(item, getCurrentYear(), getCurrentMonth()) ??
+      (getCurrentYear() * 12 + getCurrentMonth() < item.startYear * 12 + item.startMonth ? 0 : item.installmentCount);
+    const progress = item.installmentCount > 0 ? currentNumber / item.installmentCount : 0;
+
+    return (
+      <View style={[styles.card, item.status !== "active" && styles.cardInactive]}>
+        <View style={styles.cardContent}>
+          <View style={[styles.iconContainer, { backgroundColor: (category?.color || colors.textMuted) + "20" }]}>
+            <AppText style={{ fontSize: 20 }}>{category?.icon || "❓"}</AppText>
+          </View>
+          <View style={styles.info}>
+            <AppText variant="bodyMedium" numberOfLines={1}>
+              {item.note || category?.name || "Unknown"}
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              {format(perMonth)} × {item.installmentCount} · {getShortMonthName(item.startMonth)} {item.startYear} –{" "}
+              {getShortMonthName(last.month)} {last.year}
+            </AppText>
+          </View>
+          <View style={styles.amount}>
+            <AppText variant="bodyMedium">{format(item.totalCents)}</AppText>
+            <AppText variant="caption" color={item.status === "active" ? colors.info : colors.textMuted}>
+              {item.status === "active" ? `${currentNumber} of ${item.installmentCount}` : STATUS_LABELS[item.status]}
+            </AppText>
+          </View>
+        </View>
+
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressBar, { width: `${Math.min(progress, 1) * 100}%` as any }]} />
+        </View>
+
+        {item.status === "active" && (
+          <View style={styles.actions}>
+            <Button
+              title="Pay Off"
+              size="s"
+              onPress={() => handlePayOff(item)}
+              style={{ flex: 1 }}
+              accessibilityLabel="Pay off the rest of the plan"
+            />
+            <Button
+              title="Cancel Plan"
+              size="s"
+              variant="secondary"
+              onPress={() => handleCancel(item)}
+              style={{ flex: 1 }}
+              accessibilityLabel="Cancel the rest of the plan"
+            />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Installment Plans", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={installmentPlans}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No installment plans yet.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Turn on "Pay in installments" when adding an expense to create one.
+            </AppText>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardInactive: {
+    opacity: 0.5,
+  },
+  cardContent: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: layout.spacing.m,
+  },
+  amount: {
+    alignItems: "flex-end",
+  },
+  progressTrack: {
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    overflow: "hidden",
+    marginTop: layout.spacing.m,
+  },
+  progressBar: {
+    height: "100%",
+    borderRadius: 2,
+    backgroundColor: colors.info,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.m,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
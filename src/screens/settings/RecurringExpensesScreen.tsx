@@ -0,0 +1,173 @@
+import { AppText } from "@/components/common";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import { RecurringExpense } from "@/types";
+import { formatCurrency, getShortMonthName, RECURRING_FREQUENCY_LABELS } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React from "react";
+import { Alert, FlatList, StyleSheet, Switch, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+export default function RecurringExpensesScreen() {
+  const {
+    recurringExpenses,
+    categories,
+    currency,
+    hideCents,
+    loadRecurringExpenses,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+  } = useAppStore();
+  const insets = useSafeAreaInsets();
+
+  React.useEffect(() => {
+    loadRecurringExpenses();
+  }, [loadRecurringExpenses]);
+
+  const handleToggleActive = async (item: RecurringExpense) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Pausing applies to the whole template, so edit it from its first month
+    await updateRecurringExpense(item.id, { isActive: !item.isActive }, item.startYear, item.startMonth);
+  };
+
+  const handleDelete = (item: RecurringExpense) => {
+    Alert.alert(
+      "Stop Recurring Expense",
+      "No new expenses will be generated. Expenses already added to months are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await deleteRecurringExpense(item.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ],
+    );
+  };
+
+  const renderItem = ({ item }: { item: RecurringExpense }) => {
+    const category = categories.find((c) => c.id === item.categoryId);
+    const schedule = `${RECURRING_FREQUENCY_LABELS[item.frequency]} · Day ${item.dayOfMonth}`;
+    const range =
+      item.endYear !== null && item.endMonth !== null
+        ? `${getShortMonthName(item.startMonth)} ${item.startYear} – ${getShortMonthName(item.endMonth)} ${item.endYear}`
+        : `Since ${getShortMonthName(item.startMonth)} ${item.startYear}`;
+
+    return (
+      <View style={[styles.card, !item.isActive && styles.cardInactive]}>
+        <View style={styles.cardContent}>
+          <View style={[styles.iconContainer, { backgroundColor: (category?.color || colors.textMuted) + "20" }]}>
+            <AppText style={{ fontSize: 20 }}>{category?.icon || "❓"}</AppText>
+          </View>
+          <View style={styles.info}>
+            <AppText variant="bodyMedium" numberOfLines={1}>
+              {item.note || category?.name || "Unknown"}
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              {schedule}
+            </AppText>
+            <AppText variant="caption" color={colors.textMuted}>
+              {range}
+            </AppText>
+          </View>
+          <AppText variant="bodyMedium">{formatCurrency(item.amountCents, undefined, currency, hideCents)}</AppText>
+        </View>
+        <View style={styles.actions}>
+          <Switch
+            value={item.isActive}
+            onValueChange={() => handleToggleActive(item)}
+            trackColor={{ false: colors.border, true: colors.primary }}
+            thumbColor={colors.card}
+            accessibilityLabel={item.isActive ? "Pause recurring expense" : "Resume recurring expense"}
+          />
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDelete(item)}
+            accessibilityLabel="Delete recurring expense"
+          >
+            <Ionicons name="trash-outline" size={20} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Recurring Expenses", headerTitleAlign: "center" }} />
+
+      <FlatList
+        data={recurringExpenses}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              No recurring expenses yet.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Turn on "Repeat" when adding an expense to create one.
+            </AppText>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardInactive: {
+    opacity: 0.5,
+  },
+  cardContent: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  info: {
+    flex: 1,
+    marginHorizontal: layout.spacing.m,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: layout.spacing.s,
+    marginTop: layout.spacing.s,
+  },
+  actionButton: {
+    padding: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
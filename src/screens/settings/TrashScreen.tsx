@@ -0,0 +1,292 @@
+import { AppText } from "@/components/common";
+import { AllowanceRepository, CategoryRepository, ExpenseRepository } from "@/database";
+import { useAppStore } from "@/stores";
+import { colors, layout } from "@/theme";
+import type { AllowanceSource, Category, ExpenseSearchResult } from "@/types";
+import { formatCurrency, formatDateTime, getMonthName } from "@/utils";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { Stack } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import { Alert, SectionList, StyleSheet, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const AUTO_PURGE_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: "Never" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+type TrashRow =
+  | { type: "expense"; key: string; expense: ExpenseSearchResult }
+  | { type: "category"; key: string; category: Category & { deletedAt: string } }
+  | { type: "allowanceSource"; key: string; source: AllowanceSource };
+
+export default function TrashScreen() {
+  const {
+    currentProfileId,
+    categories,
+    currency,
+    hideCents,
+    trashAutoPurgeDays,
+    setTrashAutoPurgeDays,
+    restoreExpense,
+    restoreCategory,
+    restoreAllowanceSource,
+    purgeExpense,
+    purgeCategory,
+    purgeAllowanceSource,
+  } = useAppStore();
+  const insets = useSafeAreaInsets();
+
+  const [expenses, setExpenses] = useState<ExpenseSearchResult[]>([]);
+  const [deletedCategories, setDeletedCategories] = useState<(Category & { deletedAt: string })[]>([]);
+  const [sources, setSources] = useState<AllowanceSource[]>([]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const [deletedExpenses, categoryList, sourceList] = await Promise.all([
+        ExpenseRepository.findDeleted(currentProfileId),
+        CategoryRepository.findDeleted(),
+        AllowanceRepository.findDeleted(currentProfileId),
+      ]);
+      setExpenses(deletedExpenses);
+      setDeletedCategories(categoryList);
+      setSources(sourceList);
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+    }
+  }, [currentProfileId]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const findCategoryName = (id: number) =>
+    categories.find((c) => c.id === id)?.name ?? deletedCategories.find((c) => c.id === id)?.name ?? "Unknown";
+
+  const handleAutoPurgeChange = async (days: number) => {
+    Haptics.selectionAsync();
+    await setTrashAutoPurgeDays(days);
+    await loadTrash();
+  };
+
+  const handleRestore = async (row: TrashRow) => {
+    try {
+      if (row.type === "expense") await restoreExpense(row.expense.id);
+      if (row.type === "category") await restoreCategory(row.category.id);
+      if (row.type === "allowanceSource") await restoreAllowanceSource(row.source.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadTrash();
+    } catch (error) {
+      console.error(error);
+      Alert.alert("Error", "Failed to restore");
+    }
+  };
+
+  const handlePurge = (row: TrashRow) => {
+    Alert.alert("Delete Permanently", "This cannot be undone.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            if (row.type === "expense") await purgeExpense(row.expense.id);
+            if (row.type === "category") await purgeCategory(row.category.id);
+            if (row.type === "allowanceSource") await purgeAllowanceSource(row.source.id);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            await loadTrash();
+          } catch (error) {
+            const message = error instanceof Error ? error.message : "Failed to delete";
+            Alert.alert("Cannot Delete", `${message}. Restore it instead, or purge those expenses first.`);
+          }
+        },
+      },
+    ]);
+  };
+
+  const sections = [
+    {
+      title: "Expenses",
+      data: expenses.map((expense): TrashRow => ({ type: "expense", key: `e${expense.id}`, expense })),
+    },
+    {
+      title: "Categories",
+      data: deletedCategories.map((category): TrashRow => ({ type: "category", key: `c${category.id}`, category })),
+    },
+    {
+      title: "Allowance Sources",
+      data: sources.map((source): TrashRow => ({ type: "allowanceSource", key: `a${source.id}`, source })),
+    },
+  ].filter((section) => section.data.length > 0);
+
+  const renderRow = ({ item }: { item: TrashRow }) => {
+    let title: string;
+    let detail: string;
+    let deletedAt: string | null;
+    if (item.type === "expense") {
+      title = `${formatCurrency(item.expense.amountCents, undefined, currency, hideCents)} · ${findCategoryName(item.expense.categoryId)}`;
+      detail = [`${getMonthName(item.expense.month)} ${item.expense.year}`, item.expense.note]
+        .filter(Boolean)
+        .join(" · ");
+      deletedAt = item.expense.deletedAt;
+    } else if (item.type === "category") {
+      title = `${item.category.icon || "📦"} ${item.category.name}`;
+      detail = "Shared by all profiles";
+      deletedAt = item.category.deletedAt;
+    } else {
+      title = item.source.name;
+      detail = `${formatCurrency(item.source.amountCents, undefined, currency, hideCents)} / month in ${item.source.year}`;
+      deletedAt = item.source.deletedAt;
+    }
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.info}>
+          <AppText variant="bodyMedium" numberOfLines={1}>
+            {title}
+          </AppText>
+          <AppText variant="caption" color={colors.textMuted} numberOfLines={1}>
+            {detail}
+          </AppText>
+          {deletedAt && (
+            <AppText variant="caption" color={colors.textMuted}>
+              Deleted {formatDateTime(deletedAt)}
+            </AppText>
+          )}
+        </View>
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleRestore(item)}
+            accessibilityLabel="Restore"
+          >
+            <Ionicons name="arrow-undo-outline" size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handlePurge(item)}
+            accessibilityLabel="Delete permanently"
+          >
+            <Ionicons name="trash-outline" size={20} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: "Trash", headerTitleAlign: "center" }} />
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.key}
+        renderItem={renderRow}
+        renderSectionHeader={({ section }) => (
+          <AppText variant="caption" color={colors.textMuted} style={styles.sectionHeader}>
+            {section.title.toUpperCase()} ({section.data.length})
+          </AppText>
+        )}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <AppText variant="bodyMedium">Delete Permanently After</AppText>
+            <View style={styles.optionRow}>
+              {AUTO_PURGE_OPTIONS.map((option) => {
+                const selected = trashAutoPurgeDays === option.days;
+                return (
+                  <TouchableOpacity
+                    key={option.days}
+                    style={[styles.option, selected && styles.optionSelected]}
+                    onPress={() => handleAutoPurgeChange(option.days)}
+                  >
+                    <AppText variant="small" color={selected ? colors.primaryForeground : colors.text}>
+                      {option.label}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <AppText variant="caption" color={colors.textMuted}>
+              Checked each time the app starts. Categories still used by expenses are kept.
+            </AppText>
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <AppText color={colors.textMuted} align="center">
+              Trash is empty.
+            </AppText>
+            <AppText color={colors.textMuted} align="center" variant="caption">
+              Deleted expenses, categories and allowance sources show up here.
+            </AppText>
+          </View>
+        }
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + layout.spacing.xl }]}
+        stickySectionHeadersEnabled={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: layout.spacing.m,
+  },
+  header: {
+    gap: layout.spacing.s,
+    marginBottom: layout.spacing.m,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: layout.spacing.s,
+  },
+  option: {
+    paddingHorizontal: layout.spacing.m,
+    paddingVertical: layout.spacing.s,
+    borderRadius: layout.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  sectionHeader: {
+    marginTop: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: colors.card,
+    borderRadius: layout.borderRadius.m,
+    padding: layout.spacing.m,
+    marginBottom: layout.spacing.s,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  info: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: layout.spacing.s,
+  },
+  actionButton: {
+    padding: layout.spacing.s,
+  },
+  emptyState: {
+    padding: layout.spacing.xl,
+    alignItems: "center",
+    gap: layout.spacing.s,
+  },
+});
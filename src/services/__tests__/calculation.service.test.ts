@@ -1,4 +1,5 @@
-import type { AllowanceSource, Expense, MonthSummary } from "@/types";
+import { makeExpense } from "@/test-utils/fixtures";
+import type { AllowanceSource, CategoryBudget, Expense, IncomeEntry, MonthSummary } from "@/types";
 import { CalculationService } from "../calculation.service";
 
 describe("CalculationService", () => {
@@ -15,6 +16,10 @@ describe("CalculationService", () => {
           name: "Salary",
           amountCents: 500000,
           isActive: true,
+          frequency: "monthly",
+          startMonth: 1,
+          endMonth: 12,
+          firstPayDay: 1,
           deletedAt: null,
           createdAt: "",
           updatedAt: "",
@@ -25,6 +30,10 @@ describe("CalculationService", () => {
           name: "Side job",
           amountCents: 100000,
           isActive: true,
+          frequency: "monthly",
+          startMonth: 1,
+          endMonth: 12,
+          firstPayDay: 1,
           deletedAt: null,
           createdAt: "",
           updatedAt: "",
@@ -35,6 +44,10 @@ describe("CalculationService", () => {
           name: "Inactive",
           amountCents: 50000,
           isActive: false,
+          frequency: "monthly",
+          startMonth: 1,
+          endMonth: 12,
+          firstPayDay: 1,
           deletedAt: null,
           createdAt: "",
           updatedAt: "",
@@ -45,6 +58,10 @@ describe("CalculationService", () => {
           name: "Deleted",
           amountCents: 30000,
           isActive: true,
+          frequency: "monthly",
+          startMonth: 1,
+          endMonth: 12,
+          firstPayDay: 1,
           deletedAt: "2026-01-01",
           createdAt: "",
           updatedAt: "",
@@ -54,6 +71,85 @@ describe("CalculationService", () => {
     });
   });
 
+  describe("calculateMonthAllowance", () => {
+    const makeSource = (overrides: Partial<AllowanceSource>): AllowanceSource => ({
+      id: 1,
+      year: 2026,
+      name: "Salary",
+      amountCents: 100000,
+      isActive: true,
+      frequency: "monthly",
+      startMonth: 1,
+      endMonth: 12,
+      firstPayDay: 1,
+      createdAt: "",
+      updatedAt: "",
+      deletedAt: null,
+      ...overrides,
+    });
+
+    it("should pay monthly sources once in every month of their period", () => {
+      // A raise from July: the old salary until June, the new one after
+      const sources = [makeSource({ id: 1, endMonth: 6 }), makeSource({ id: 2, amountCents: 120000, startMonth: 7 })];
+      expect(CalculationService.calculateMonthAllowance(sources, 6)).toBe(100000);
+      expect(CalculationService.calculateMonthAllowance(sources, 7)).toBe(120000);
+    });
+
+    it("should count the biweekly paychecks that fall in each month", () => {
+      // Fridays from Jan 2, 2026: Jan 2, 16, 30 | Feb 13, 27 | ... | Jul 3, 17, 31
+      const source = makeSource({ frequency: "biweekly", firstPayDay: 2 });
+      expect(CalculationService.getSourcePaymentCount(source, 1)).toBe(3);
+      expect(CalculationService.getSourcePaymentCount(source, 2)).toBe(2);
+      expect(CalculationService.getSourcePaymentCount(source, 7)).toBe(3);
+      expect(CalculationService.calculateMonthAllowance([source], 1)).toBe(300000);
+    });
+
+    it("should count weekly paychecks from the first pay day of the start month", () => {
+      // Thursdays from Jan 1, 2026: five in January, four in February
+      const source = makeSource({ frequency: "weekly", firstPayDay: 1 });
+      expect(CalculationService.getSourcePaymentCount(source, 1)).toBe(5);
+      expect(CalculationService.getSourcePaymentCount(source, 2)).toBe(4);
+
+      // Starting mid-March leaves the first half of March unpaid
+      const later = makeSource({ frequency: "weekly", startMonth: 3, firstPayDay: 20 });
+      expect(CalculationService.getSourcePaymentCount(later, 2)).toBe(0);
+      expect(CalculationService.getSourcePaymentCount(later, 3)).toBe(2); // Mar 20, 27
+    });
+
+    it("should stop weekly paychecks after the end month", () => {
+      const source = makeSource({ frequency: "weekly", endMonth: 1 });
+      expect(CalculationService.getSourcePaymentCount(source, 2)).toBe(0);
+    });
+
+    it("should pay semi-monthly sources twice a month", () => {
+      const source = makeSource({ frequency: "semimonthly", amountCents: 50000 });
+      expect(CalculationService.calculateMonthAllowance([source], 2)).toBe(100000);
+    });
+
+    it("should pay quarterly sources every third month from the start month", () => {
+      const source = makeSource({ frequency: "quarterly", startMonth: 3 });
+      const paidMonths = Array.from({ length: 12 }, (_, i) => i + 1).filter(
+        (m) => CalculationService.getSourcePaymentCount(source, m) > 0,
+      );
+      expect(paidMonths).toEqual([3, 6, 9, 12]);
+    });
+
+    it("should pay one-off sources in their start month only", () => {
+      const source = makeSource({ frequency: "once", startMonth: 12, endMonth: 12, amountCents: 250000 });
+      expect(CalculationService.calculateMonthAllowance([source], 11)).toBe(0);
+      expect(CalculationService.calculateMonthAllowance([source], 12)).toBe(250000);
+    });
+
+    it("should skip inactive and deleted sources", () => {
+      const sources = [
+        makeSource({ id: 1 }),
+        makeSource({ id: 2, isActive: false }),
+        makeSource({ id: 3, deletedAt: "2026-01-01" }),
+      ];
+      expect(CalculationService.calculateMonthAllowance(sources, 5)).toBe(100000);
+    });
+  });
+
   describe("calculateTotalSpent", () => {
     it("should return 0 for empty array", () => {
       expect(CalculationService.calculateTotalSpent([])).toBe(0);
@@ -61,42 +157,9 @@ describe("CalculationService", () => {
 
     it("should sum non-deleted expenses", () => {
       const expenses: Expense[] = [
-        {
-          id: 1,
-          monthId: 1,
-          categoryId: 1,
-          amountCents: 1000,
-          note: null,
-          expenseDate: "2026-01-01",
-          isPaid: true,
-          createdAt: "",
-          updatedAt: "",
-          deletedAt: null,
-        },
-        {
-          id: 2,
-          monthId: 1,
-          categoryId: 2,
-          amountCents: 2500,
-          note: null,
-          expenseDate: "2026-01-02",
-          isPaid: true,
-          createdAt: "",
-          updatedAt: "",
-          deletedAt: null,
-        },
-        {
-          id: 3,
-          monthId: 1,
-          categoryId: 1,
-          amountCents: 500,
-          note: null,
-          expenseDate: "2026-01-03",
-          isPaid: true,
-          createdAt: "",
-          updatedAt: "",
-          deletedAt: "2026-01-04",
-        },
+        makeExpense({ id: 1, categoryId: 1, amountCents: 1000, expenseDate: "2026-01-01" }),
+        makeExpense({ id: 2, categoryId: 2, amountCents: 2500, expenseDate: "2026-01-02" }),
+        makeExpense({ id: 3, categoryId: 1, amountCents: 500, expenseDate: "2026-01-03", deletedAt: "2026-01-04" }),
       ];
       expect(CalculationService.calculateTotalSpent(expenses)).toBe(3500); // 1000 + 2500
     });
@@ -124,10 +187,15 @@ describe("CalculationService", () => {
         monthId: 1,
         allowanceCents: 10000,
         allowanceOverrideCents: null,
+        incomeCents: 0,
         spentCents: 8000,
         balanceCents: 0,
         remainingCents: 2000,
+        allocatedCents: 0,
         expenseCount: 5,
+        budget: null,
+        carryInCents: null,
+        carryOutCents: null,
       },
       {
         year: 2026,
@@ -135,10 +203,15 @@ describe("CalculationService", () => {
         monthId: 2,
         allowanceCents: 10000,
         allowanceOverrideCents: null,
+        incomeCents: 0,
         spentCents: 12000,
         balanceCents: 0,
         remainingCents: -2000,
+        allocatedCents: 0,
         expenseCount: 8,
+        budget: null,
+        carryInCents: null,
+        carryOutCents: null,
       },
       {
         year: 2026,
@@ -146,10 +219,15 @@ describe("CalculationService", () => {
         monthId: 3,
         allowanceCents: 10000,
         allowanceOverrideCents: null,
+        incomeCents: 0,
         spentCents: 5000,
         balanceCents: 0,
         remainingCents: 5000,
+        allocatedCents: 0,
         expenseCount: 3,
+        budget: null,
+        carryInCents: null,
+        carryOutCents: null,
       },
     ];
 
@@ -184,6 +262,364 @@ describe("CalculationService", () => {
     });
   });
 
+  describe("income entries", () => {
+    const makeIncome = (overrides: Partial<IncomeEntry>): IncomeEntry => ({
+      id: 1,
+      monthId: 1,
+      name: "Bonus",
+      amountCents: 30000,
+      entryDate: "2026-03-15",
+      createdAt: "",
+      updatedAt: "",
+      deletedAt: null,
+      ...overrides,
+    });
+
+    it("should sum only non-deleted entries", () => {
+      const entries = [
+        makeIncome({ id: 1, amountCents: 30000 }),
+        makeIncome({ id: 2, amountCents: 5000 }),
+        makeIncome({ id: 3, amountCents: 9999, deletedAt: "2026-03-20" }),
+      ];
+      expect(CalculationService.calculateTotalIncome(entries)).toBe(35000);
+    });
+
+    it("should add entries on top of the default allowance", () => {
+      const summary = CalculationService.createMonthSummary(2026, 3, null, 100000, [], [makeIncome({})]);
+      expect(summary.allowanceCents).toBe(130000);
+      expect(summary.incomeCents).toBe(30000);
+      expect(summary.remainingCents).toBe(130000);
+    });
+
+    it("should add entries on top of an override", () => {
+      const month = { id: 1, year: 2026, month: 3, allowanceOverrideCents: 80000, createdAt: "", updatedAt: "" };
+      const summary = CalculationService.createMonthSummary(
+        2026,
+        3,
+        month,
+        100000,
+        [makeExpense({ amountCents: 20000 })],
+        [makeIncome({})],
+      );
+      expect(summary.allowanceCents).toBe(110000);
+      expect(summary.allowanceOverrideCents).toBe(80000);
+      expect(summary.remainingCents).toBe(90000);
+    });
+
+    it("should take amounts set aside for goals out of the remaining balance", () => {
+      const summary = CalculationService.createMonthSummary(2026, 3, null, 100000, [], [], new Map(), 25000);
+      expect(summary.allocatedCents).toBe(25000);
+      expect(summary.remainingCents).toBe(75000);
+    });
+  });
+
+  describe("calculateCategoryBreakdown", () => {
+    it("should group expenses by category, largest first", () => {
+      const expenses = [
+        makeExpense({ id: 1, categoryId: 1, amountCents: 1000 }),
+        makeExpense({ id: 2, categoryId: 2, amountCents: 3000 }),
+        makeExpense({ id: 3, categoryId: 1, amountCents: 500 }),
+        makeExpense({ id: 4, categoryId: 2, amountCents: 9999, deletedAt: "2026-01-02" }),
+      ];
+      expect(CalculationService.calculateCategoryBreakdown(expenses)).toEqual([
+        { categoryId: 2, totalCents: 3000, count: 1 },
+        { categoryId: 1, totalCents: 1500, count: 2 },
+      ]);
+    });
+
+    it("should attribute each line item of a split expense to its own category", () => {
+      const split = makeExpense({
+        id: 1,
+        categoryId: 1,
+        amountCents: 6000,
+        lineItems: [
+          { id: 1, expenseId: 1, categoryId: 1, amountCents: 3500, note: null },
+          { id: 2, expenseId: 1, categoryId: 2, amountCents: 1500, note: null },
+          { id: 3, expenseId: 1, categoryId: 3, amountCents: 1000, note: null },
+        ],
+      });
+      expect(CalculationService.calculateCategoryBreakdown([split, makeExpense({ id: 2, categoryId: 3 })])).toEqual([
+        { categoryId: 1, totalCents: 3500, count: 1 },
+        { categoryId: 3, totalCents: 2000, count: 2 },
+        { categoryId: 2, totalCents: 1500, count: 1 },
+      ]);
+    });
+
+    it("should count a split expense once per category", () => {
+      const split = makeExpense({
+        amountCents: 2000,
+        lineItems: [
+          { id: 1, expenseId: 1, categoryId: 2, amountCents: 1200, note: "Shampoo" },
+          { id: 2, expenseId: 1, categoryId: 2, amountCents: 800, note: "Soap" },
+        ],
+      });
+      expect(CalculationService.calculateCategoryBreakdown([split])).toEqual([
+        { categoryId: 2, totalCents: 2000, count: 1 },
+      ]);
+    });
+  });
+
+  describe("refunds", () => {
+    it("should subtract refunds from spent and balance totals", () => {
+      const expenses = [
+        makeExpense({ id: 1, amountCents: 5000 }),
+        makeExpense({ id: 2, amountCents: 1500, kind: "refund", refundOfExpenseId: 1 }),
+        makeExpense({ id: 3, amountCents: 2000, isPaid: false }),
+        makeExpense({ id: 4, amountCents: 500, isPaid: false, kind: "refund" }),
+      ];
+      expect(CalculationService.calculateTotalSpent(expenses)).toBe(3500);
+      expect(CalculationService.calculateTotalBalance(expenses)).toBe(1500);
+    });
+
+    it("should net refunds in the month summary", () => {
+      const expenses = [
+        makeExpense({ id: 1, amountCents: 8000 }),
+        makeExpense({ id: 2, amountCents: 3000, kind: "refund" }),
+      ];
+      const summary = CalculationService.createMonthSummary(2026, 1, null, 10000, expenses);
+      expect(summary.spentCents).toBe(5000);
+      expect(summary.remainingCents).toBe(5000);
+      expect(summary.expenseCount).toBe(2);
+    });
+
+    it("should let a refund larger than the month's spending go negative", () => {
+      const refund = makeExpense({ amountCents: 1200, kind: "refund" });
+      expect(CalculationService.calculateTotalSpent([refund])).toBe(-1200);
+    });
+
+    it("should subtract refunds from their category", () => {
+      const expenses = [
+        makeExpense({ id: 1, categoryId: 1, amountCents: 4000 }),
+        makeExpense({ id: 2, categoryId: 1, amountCents: 1000, kind: "refund" }),
+        makeExpense({
+          id: 3,
+          categoryId: 2,
+          amountCents: 600,
+          kind: "refund",
+          lineItems: [
+            { id: 1, expenseId: 3, categoryId: 2, amountCents: 400, note: null },
+            { id: 2, expenseId: 3, categoryId: 3, amountCents: 200, note: null },
+          ],
+        }),
+      ];
+      expect(CalculationService.calculateCategoryBreakdown(expenses)).toEqual([
+        { categoryId: 1, totalCents: 3000, count: 2 },
+        { categoryId: 3, totalCents: -200, count: 1 },
+        { categoryId: 2, totalCents: -400, count: 1 },
+      ]);
+    });
+  });
+
+  describe("category budgets", () => {
+    const makeBudget = (overrides: Partial<CategoryBudget>): CategoryBudget => ({
+      id: 1,
+      categoryId: 1,
+      year: 2026,
+      month: null,
+      amountCents: 20000,
+      createdAt: "",
+      updatedAt: "",
+      ...overrides,
+    });
+
+    it("should apply yearly budgets to every month", () => {
+      const budgets = [makeBudget({ categoryId: 1 }), makeBudget({ id: 2, categoryId: 2, amountCents: 5000 })];
+      const result = CalculationService.getCategoryBudgets(budgets, 7);
+      expect(result.get(1)).toBe(20000);
+      expect(result.get(2)).toBe(5000);
+    });
+
+    it("should let a month override replace the yearly budget in that month only", () => {
+      const budgets = [
+        makeBudget({ categoryId: 1 }),
+        makeBudget({ id: 2, categoryId: 1, month: 12, amountCents: 50000 }),
+      ];
+      expect(CalculationService.getCategoryBudgets(budgets, 12).get(1)).toBe(50000);
+      expect(CalculationService.getCategoryBudgets(budgets, 11).get(1)).toBe(20000);
+    });
+
+    it("should budget a category for a single month without a yearly budget", () => {
+      const budgets = [makeBudget({ categoryId: 3, month: 2, amountCents: 8000 })];
+      expect(CalculationService.getCategoryBudgets(budgets, 2).get(3)).toBe(8000);
+      expect(CalculationService.getCategoryBudgets(budgets, 3).has(3)).toBe(false);
+    });
+
+    it("should report progress within and over budget", () => {
+      expect(CalculationService.calculateBudgetProgress(20000, 5000)).toEqual({
+        budgetCents: 20000,
+        spentCents: 5000,
+        remainingCents: 15000,
+        ratio: 0.25,
+        isOver: false,
+      });
+      const over = CalculationService.calculateBudgetProgress(20000, 25000);
+      expect(over.remainingCents).toBe(-5000);
+      expect(over.ratio).toBe(1.25);
+      expect(over.isOver).toBe(true);
+    });
+
+    it("should not count spending exactly on budget as over", () => {
+      const progress = CalculationService.calculateBudgetProgress(20000, 20000);
+      expect(progress.ratio).toBe(1);
+      expect(progress.isOver).toBe(false);
+    });
+
+    it("should treat any spending against a zero budget as over", () => {
+      expect(CalculationService.calculateBudgetProgress(0, 0)).toMatchObject({ ratio: 0, isOver: false });
+      expect(CalculationService.calculateBudgetProgress(0, 100)).toMatchObject({ ratio: 1, isOver: true });
+    });
+
+    it("should keep the ratio at 0 when refunds exceed spending", () => {
+      const progress = CalculationService.calculateBudgetProgress(10000, -500);
+      expect(progress.ratio).toBe(0);
+      expect(progress.remainingCents).toBe(10500);
+    });
+
+    it("should return no summary without budgets", () => {
+      expect(CalculationService.calculateBudgetSummary(new Map(), [makeExpense({})])).toBeNull();
+    });
+
+    it("should compare paid and unpaid spending of budgeted categories only", () => {
+      const budgets = new Map([
+        [1, 10000],
+        [2, 3000],
+        [3, 5000],
+      ]);
+      const expenses = [
+        makeExpense({ id: 1, categoryId: 1, amountCents: 4000 }),
+        makeExpense({ id: 2, categoryId: 1, amountCents: 2000, isPaid: false }),
+        makeExpense({ id: 3, categoryId: 2, amountCents: 3500 }),
+        makeExpense({ id: 4, categoryId: 4, amountCents: 9000 }),
+        makeExpense({ id: 5, categoryId: 3, amountCents: 9000, deletedAt: "2026-01-02" }),
+      ];
+      expect(CalculationService.calculateBudgetSummary(budgets, expenses)).toEqual({
+        budgetedCents: 18000,
+        spentCents: 9500,
+        overBudgetCount: 1,
+      });
+    });
+
+    it("should count split line items and refunds towards their own budgets", () => {
+      const budgets = new Map([
+        [1, 5000],
+        [2, 5000],
+      ]);
+      const expenses = [
+        makeExpense({
+          id: 1,
+          categoryId: 1,
+          amountCents: 9000,
+          lineItems: [
+            { id: 1, expenseId: 1, categoryId: 1, amountCents: 3000, note: null },
+            { id: 2, expenseId: 1, categoryId: 2, amountCents: 6000, note: null },
+          ],
+        }),
+        makeExpense({ id: 2, categoryId: 2, amountCents: 1500, kind: "refund", refundOfExpenseId: 1 }),
+      ];
+      expect(CalculationService.calculateBudgetSummary(budgets, expenses)).toEqual({
+        budgetedCents: 10000,
+        spentCents: 7500,
+        overBudgetCount: 0,
+      });
+    });
+
+    it("should include the budget summary in the month summary", () => {
+      const summary = CalculationService.createMonthSummary(
+        2026,
+        1,
+        null,
+        100000,
+        [makeExpense({ categoryId: 1, amountCents: 12000 })],
+        [],
+        new Map([[1, 10000]]),
+      );
+      expect(summary.budget).toEqual({ budgetedCents: 10000, spentCents: 12000, overBudgetCount: 1 });
+      expect(CalculationService.createMonthSummary(2026, 1, null, 100000, []).budget).toBeNull();
+    });
+  });
+
+  describe("rollover", () => {
+    const yearOf = (remainders: number[]) =>
+      remainders.map((remaining, i) => ({
+        ...CalculationService.createMonthSummary(2026, i + 1, null, 100000, []),
+        remainingCents: remaining,
+      }));
+
+    it("should leave carry amounts empty without rollover", () => {
+      const summary = CalculationService.createMonthSummary(2026, 1, null, 100000, []);
+      expect(summary.carryInCents).toBeNull();
+      expect(summary.carryOutCents).toBeNull();
+    });
+
+    it("should carry positive and negative remainders into the next month", () => {
+      const result = CalculationService.applyRollover(yearOf([2000, -5000, 1000]), 0);
+      expect(result.map((m) => m.carryInCents)).toEqual([0, 2000, -3000]);
+      expect(result.map((m) => m.remainingCents)).toEqual([2000, -3000, -2000]);
+      expect(result.map((m) => m.carryOutCents)).toEqual([2000, -3000, -2000]);
+    });
+
+    it("should start with the balance carried in from the previous year", () => {
+      const result = CalculationService.applyRollover(yearOf([1000, 1000]), -4000);
+      expect(result[0]!.carryInCents).toBe(-4000);
+      expect(result[0]!.remainingCents).toBe(-3000);
+      expect(result[1]!.carryOutCents).toBe(-2000);
+    });
+
+    it("should carry December into the next January", () => {
+      const previous = CalculationService.applyRollover(yearOf(Array(12).fill(500)), 0);
+      const december = previous[11]!;
+      expect(december.carryOutCents).toBe(6000);
+      const next = CalculationService.applyRollover(yearOf([0]), december.carryOutCents!);
+      expect(next[0]!.carryInCents).toBe(6000);
+    });
+
+    it("should not carry anything before the start month", () => {
+      const result = CalculationService.applyRollover(yearOf([7000, 3000, 1000]), 0, 2);
+      expect(result[0]).toMatchObject({ remainingCents: 7000, carryInCents: 0, carryOutCents: 0 });
+      expect(result[1]).toMatchObject({ remainingCents: 3000, carryInCents: 0, carryOutCents: 3000 });
+      expect(result[2]).toMatchObject({ remainingCents: 4000, carryInCents: 3000 });
+    });
+
+    it("should not change the summaries passed in", () => {
+      const summaries = yearOf([2000, 2000]);
+      CalculationService.applyRollover(summaries, 1000);
+      expect(summaries[1]!.remainingCents).toBe(2000);
+      expect(summaries[1]!.carryInCents).toBeNull();
+    });
+
+    it("should report the balance carried so far", () => {
+      const result = CalculationService.applyRollover(yearOf([2000, -5000, 1000]), 500);
+      expect(CalculationService.calculateRolloverBalance(result, 2)).toBe(-2500);
+      expect(CalculationService.calculateRolloverBalance(result, 12)).toBe(-1500);
+      expect(CalculationService.calculateRolloverBalance(result, 0)).toBe(500);
+    });
+  });
+
+  describe("convertToBaseCents", () => {
+    it("should convert using units of home currency per foreign unit", () => {
+      expect(CalculationService.convertToBaseCents(1000, 56.25)).toBe(56250);
+    });
+
+    it("should round to the nearest cent", () => {
+      expect(CalculationService.convertToBaseCents(999, 0.0067)).toBe(7);
+      expect(CalculationService.convertToBaseCents(1234, 1.0855)).toBe(1340);
+    });
+  });
+
+  describe("calculateTotalSpent with converted expenses", () => {
+    it("should total the converted amount, not the original one", () => {
+      const local = makeExpense({ id: 1, amountCents: 1000 });
+      const foreign = makeExpense({
+        id: 2,
+        amountCents: 5625,
+        originalCurrency: "USD",
+        originalAmountCents: 100,
+        exchangeRate: 56.25,
+      });
+      expect(CalculationService.calculateTotalSpent([local, foreign])).toBe(6625);
+    });
+  });
+
   describe("calculateSpentPercentage", () => {
     it("should calculate percentage correctly", () => {
       expect(CalculationService.calculateSpentPercentage(5000, 10000)).toBe(50);
@@ -0,0 +1,173 @@
+import type { Category } from "@/types";
+import { QuickAddService } from "../quick-add.service";
+
+function makeCategory(id: number, name: string): Category {
+  return { id, name, icon: "📦", color: "#000000", sortOrder: id, updatedAt: "" };
+}
+
+const CATEGORIES = [
+  makeCategory(1, "🍔 Food"),
+  makeCategory(2, "Housing"),
+  makeCategory(3, "Groceries"),
+  makeCategory(4, "Public Transport"),
+  makeCategory(5, "Health & Fitness"),
+  makeCategory(6, "Clothing"),
+];
+
+// A Wednesday
+const TODAY = "2026-01-14";
+
+describe("QuickAddService", () => {
+  describe("parse", () => {
+    it("should parse amount, category, note and a relative date", () => {
+      expect(QuickAddService.parse("coffee 4.50 food yesterday", CATEGORIES, TODAY)).toEqual({
+        amountCents: 450,
+        categoryId: 1,
+        note: "coffee",
+        expenseDate: "2026-01-13",
+        isPaid: false,
+      });
+    });
+
+    it("should parse an ordinal day of this month and the paid keyword", () => {
+      expect(QuickAddService.parse("rent 1200 housing 1st paid", CATEGORIES, TODAY)).toEqual({
+        amountCents: 120000,
+        categoryId: 2,
+        note: "rent",
+        expenseDate: "2026-01-01",
+        isPaid: true,
+      });
+    });
+
+    it("should default to today, unpaid and no note", () => {
+      expect(QuickAddService.parse("12 groceries", CATEGORIES, TODAY)).toEqual({
+        amountCents: 1200,
+        categoryId: 3,
+        note: null,
+        expenseDate: TODAY,
+        isPaid: false,
+      });
+    });
+
+    it("should leave unmentioned fields null", () => {
+      const draft = QuickAddService.parse("something", CATEGORIES, TODAY);
+      expect(draft.amountCents).toBeNull();
+      expect(draft.categoryId).toBeNull();
+      expect(draft.note).toBe("something");
+    });
+
+    it("should take only the first number as the amount", () => {
+      const draft = QuickAddService.parse("2 pizzas 18 food", CATEGORIES, TODAY);
+      expect(draft.amountCents).toBe(200);
+      expect(draft.note).toBe("pizzas 18");
+    });
+
+    it("should not take the number of 'days ago' as the amount", () => {
+      const draft = QuickAddService.parse("taxi 3 days ago 9.75 transport", CATEGORIES, TODAY);
+      expect(draft.amountCents).toBe(975);
+      expect(draft.expenseDate).toBe("2026-01-11");
+      expect(draft.categoryId).toBe(4);
+      expect(draft.note).toBe("taxi");
+    });
+
+    it("should match a two-word category name", () => {
+      const draft = QuickAddService.parse("bus 2 public transport", CATEGORIES, TODAY);
+      expect(draft.categoryId).toBe(4);
+      expect(draft.note).toBe("bus");
+    });
+
+    it("should tolerate typos and abbreviations", () => {
+      expect(QuickAddService.parse("5 groc", CATEGORIES, TODAY).categoryId).toBe(3);
+      expect(QuickAddService.parse("5 housng", CATEGORIES, TODAY).categoryId).toBe(2);
+    });
+  });
+
+  describe("getReferenceDate", () => {
+    it("should use today in the current month", () => {
+      expect(QuickAddService.getReferenceDate(2026, 1, TODAY)).toBe(TODAY);
+    });
+
+    it("should use the last day of any other month", () => {
+      expect(QuickAddService.getReferenceDate(2025, 11, TODAY)).toBe("2025-11-30");
+      expect(QuickAddService.getReferenceDate(2028, 2, TODAY)).toBe("2028-02-29");
+    });
+
+    it("should keep date words in a past month being viewed", () => {
+      const reference = QuickAddService.getReferenceDate(2025, 11, TODAY);
+      expect(QuickAddService.parse("coffee 4 food yesterday", CATEGORIES, reference).expenseDate).toBe("2025-11-29");
+      expect(QuickAddService.parse("coffee 4 food friday", CATEGORIES, reference).expenseDate).toBe("2025-11-28");
+      expect(QuickAddService.parse("rent 1200 housing 1st", CATEGORIES, reference).expenseDate).toBe("2025-11-01");
+      expect(QuickAddService.parse("12 groceries", CATEGORIES, reference).expenseDate).toBe("2025-11-30");
+    });
+  });
+
+  describe("resolveDate", () => {
+    it("should resolve today, yesterday and tomorrow across month ends", () => {
+      expect(QuickAddService.resolveDate("today", TODAY)).toBe(TODAY);
+      expect(QuickAddService.resolveDate("Yesterday", "2026-03-01")).toBe("2026-02-28");
+      expect(QuickAddService.resolveDate("tomorrow", "2026-12-31")).toBe("2027-01-01");
+    });
+
+    it("should resolve a weekday to its most recent day", () => {
+      expect(QuickAddService.resolveDate("monday", TODAY)).toBe("2026-01-12");
+      expect(QuickAddService.resolveDate("fri", TODAY)).toBe("2026-01-09");
+      expect(QuickAddService.resolveDate("wednesday", TODAY)).toBe(TODAY);
+      expect(QuickAddService.resolveDate("wednesday", TODAY, true)).toBe("2026-01-07");
+    });
+
+    it("should resolve 'last' with the weekday in a line", () => {
+      const draft = QuickAddService.parse("lunch 8 food last wed", CATEGORIES, TODAY);
+      expect(draft.expenseDate).toBe("2026-01-07");
+      expect(draft.note).toBe("lunch");
+    });
+
+    it("should leave a weekday abbreviation in the note when another word names the date", () => {
+      const draft = QuickAddService.parse("sun hat 20 clothing yesterday", CATEGORIES, TODAY);
+      expect(draft.expenseDate).toBe("2026-01-13");
+      expect(draft.categoryId).toBe(6);
+      expect(draft.note).toBe("sun hat");
+      expect(QuickAddService.parse("sun hat 20 clothing", CATEGORIES, TODAY).expenseDate).toBe("2026-01-11");
+    });
+
+    it("should resolve ordinals within this month only", () => {
+      expect(QuickAddService.resolveDate("15th", "2026-02-03")).toBe("2026-02-15");
+      expect(QuickAddService.resolveDate("30th", "2026-02-03")).toBeNull();
+    });
+
+    it("should accept ISO dates and reject other words", () => {
+      expect(QuickAddService.resolveDate("2025-12-24", TODAY)).toBe("2025-12-24");
+      expect(QuickAddService.resolveDate("coffee", TODAY)).toBeNull();
+      expect(QuickAddService.resolveDate("mo", TODAY)).toBeNull();
+      expect(QuickAddService.resolveDate("satur", TODAY)).toBeNull();
+      expect(QuickAddService.resolveDate("frid", TODAY)).toBeNull();
+    });
+  });
+
+  describe("matchCategory", () => {
+    it("should ignore emoji and punctuation in names", () => {
+      expect(QuickAddService.matchCategory("FOOD", CATEGORIES)?.category.id).toBe(1);
+      expect(QuickAddService.matchCategory("fitness", CATEGORIES)?.category.id).toBe(5);
+    });
+
+    it("should not match unrelated words or numbers", () => {
+      expect(QuickAddService.matchCategory("coffee", CATEGORIES)).toBeNull();
+      expect(QuickAddService.matchCategory("12", CATEGORIES)).toBeNull();
+    });
+  });
+
+  describe("toCreateDTO", () => {
+    it("should need a positive amount and a category", () => {
+      const draft = QuickAddService.parse("coffee 4.50 food", CATEGORIES, TODAY);
+      expect(QuickAddService.toCreateDTO(draft, 7)).toEqual({
+        monthId: 7,
+        categoryId: 1,
+        amountCents: 450,
+        note: "coffee",
+        expenseDate: TODAY,
+        isPaid: false,
+      });
+      expect(QuickAddService.toCreateDTO({ ...draft, categoryId: null }, 7)).toBeNull();
+      expect(QuickAddService.toCreateDTO({ ...draft, amountCents: 0 }, 7)).toBeNull();
+    });
+  });
+});
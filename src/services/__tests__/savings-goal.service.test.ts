@@ -0,0 +1,145 @@
+import type { GoalContribution, SavingsGoal } from "@/types";
+import { SavingsGoalService } from "../savings-goal.service";
+
+function makeGoal(overrides: Partial<SavingsGoal> = {}): SavingsGoal {
+  return {
+    id: 1,
+    name: "Holiday",
+    targetCents: 120000,
+    targetDate: "2026-12-15",
+    createdAt: "",
+    updatedAt: "",
+    ...overrides,
+  };
+}
+
+function makeContribution(overrides: Partial<GoalContribution> = {}): GoalContribution {
+  return {
+    id: 1,
+    goalId: 1,
+    monthId: 1,
+    year: 2026,
+    month: 1,
+    amountCents: 10000,
+    createdAt: "",
+    ...overrides,
+  };
+}
+
+describe("SavingsGoalService", () => {
+  describe("calculateSavedCents", () => {
+    it("should sum only the contributions of the goal", () => {
+      const contributions = [
+        makeContribution({ id: 1, amountCents: 10000 }),
+        makeContribution({ id: 2, amountCents: 2500 }),
+        makeContribution({ id: 3, goalId: 2, amountCents: 99999 }),
+      ];
+      expect(SavingsGoalService.calculateSavedCents(1, contributions)).toBe(12500);
+    });
+  });
+
+  describe("getMonthsLeft", () => {
+    it("should count the current month and the target month", () => {
+      expect(SavingsGoalService.getMonthsLeft("2026-05-31", 2026, 3)).toBe(3);
+      expect(SavingsGoalService.getMonthsLeft("2026-03-01", 2026, 3)).toBe(1);
+    });
+
+    it("should count across years", () => {
+      expect(SavingsGoalService.getMonthsLeft("2027-02-01", 2026, 11)).toBe(4);
+    });
+
+    it("should return 0 once the target month has passed", () => {
+      expect(SavingsGoalService.getMonthsLeft("2026-02-28", 2026, 3)).toBe(0);
+    });
+  });
+
+  describe("calculateRequiredMonthly", () => {
+    it("should spread what is left over the months left, rounding up", () => {
+      expect(SavingsGoalService.calculateRequiredMonthly(90000, 3)).toBe(30000);
+      expect(SavingsGoalService.calculateRequiredMonthly(10000, 3)).toBe(3334);
+    });
+
+    it("should return 0 when nothing is left to save", () => {
+      expect(SavingsGoalService.calculateRequiredMonthly(0, 0)).toBe(0);
+    });
+
+    it("should return null when the target date has passed", () => {
+      expect(SavingsGoalService.calculateRequiredMonthly(5000, 0)).toBeNull();
+    });
+  });
+
+  describe("projectCompletion", () => {
+    it("should return null without contributions", () => {
+      expect(SavingsGoalService.projectCompletion(makeGoal(), [], 2026, 3)).toBeNull();
+    });
+
+    it("should project at the average pace since the first contribution", () => {
+      // 30000 saved over Jan-Mar → 10000 a month; 90000 left → 9 more months after March
+      const contributions = [
+        makeContribution({ id: 1, month: 1, amountCents: 20000 }),
+        makeContribution({ id: 2, month: 3, amountCents: 10000 }),
+      ];
+      expect(SavingsGoalService.projectCompletion(makeGoal(), contributions, 2026, 3)).toEqual({
+        year: 2026,
+        month: 12,
+      });
+    });
+
+    it("should roll the projection into the next year", () => {
+      // 20000 a month, 100000 left → 5 more months
+      const contributions = [makeContribution({ month: 3, amountCents: 20000 })];
+      expect(SavingsGoalService.projectCompletion(makeGoal(), contributions, 2026, 3)).toEqual({
+        year: 2026,
+        month: 8,
+      });
+      const late = [makeContribution({ month: 11, amountCents: 20000 })];
+      expect(SavingsGoalService.projectCompletion(makeGoal(), late, 2026, 11)).toEqual({ year: 2027, month: 4 });
+    });
+
+    it("should return null once the goal is reached", () => {
+      const contributions = [makeContribution({ amountCents: 120000 })];
+      expect(SavingsGoalService.projectCompletion(makeGoal(), contributions, 2026, 3)).toBeNull();
+    });
+  });
+
+  describe("getProgress", () => {
+    it("should report a goal on track", () => {
+      const contributions = [makeContribution({ month: 1, amountCents: 30000 })];
+      const progress = SavingsGoalService.getProgress(makeGoal(), contributions, 2026, 3);
+      expect(progress).toEqual({
+        savedCents: 30000,
+        remainingCents: 90000,
+        ratio: 0.25,
+        isComplete: false,
+        monthsLeft: 10,
+        requiredMonthlyCents: 9000,
+        projected: { year: 2026, month: 12 },
+        isOnTrack: true,
+      });
+    });
+
+    it("should report a goal behind schedule", () => {
+      const contributions = [makeContribution({ month: 1, amountCents: 10000 })];
+      const progress = SavingsGoalService.getProgress(makeGoal(), contributions, 2026, 3);
+      expect(progress.isOnTrack).toBe(false);
+      expect(progress.projected).toEqual({ year: 2028, month: 12 });
+    });
+
+    it("should report a reached goal as complete", () => {
+      const contributions = [makeContribution({ amountCents: 150000 })];
+      const progress = SavingsGoalService.getProgress(makeGoal(), contributions, 2026, 3);
+      expect(progress.isComplete).toBe(true);
+      expect(progress.remainingCents).toBe(0);
+      expect(progress.ratio).toBe(1.25);
+      expect(progress.requiredMonthlyCents).toBe(0);
+      expect(progress.isOnTrack).toBe(true);
+    });
+
+    it("should have no required amount once the target date has passed", () => {
+      const progress = SavingsGoalService.getProgress(makeGoal({ targetDate: "2026-01-31" }), [], 2026, 3);
+      expect(progress.monthsLeft).toBe(0);
+      expect(progress.requiredMonthlyCents).toBeNull();
+      expect(progress.isOnTrack).toBeNull();
+    });
+  });
+});
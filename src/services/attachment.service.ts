@@ -0,0 +1,161 @@
+import { AttachmentRepository } from "@/database/repositories/attachment.repository";
+import type { Attachment } from "@/types";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+
+// Receipts can be photos or PDFs
+const ATTACHMENT_TYPES = ["image/*", "application/pdf"];
+
+/**
+ * Directory holding the stored copies of attachments
+ */
+function getAttachmentDirectory(): string {
+  const documentDir = FileSystem.documentDirectory;
+  if (!documentDir) {
+    throw new Error("Document directory not available");
+  }
+  return `${documentDir}attachments/`;
+}
+
+async function ensureAttachmentDirectory(): Promise<string> {
+  const dir = getAttachmentDirectory();
+  const info = await FileSystem.getInfoAsync(dir);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+  return dir;
+}
+
+/**
+ * Build a unique file name for a stored copy, keeping the original extension
+ */
+function buildFileName(expenseId: number, originalName: string | null): string {
+  const match = originalName?.match(/\.([a-zA-Z0-9]+)$/);
+  const extension = match ? `.${match[1]!.toLowerCase()}` : "";
+  const suffix = Math.random().toString(36).slice(2, 8);
+  return `${expenseId}-${Date.now()}-${suffix}${extension}`;
+}
+
+/**
+ * Receipt attachments
+ * Files are copied into the app's document directory; the database keeps only their names
+ */
+export const AttachmentService = {
+  /**
+   * Get the local URI of an attachment's stored file
+   */
+  getUri(attachment: Attachment): string {
+    return `${getAttachmentDirectory()}${attachment.fileName}`;
+  },
+
+  isImage(attachment: Attachment): boolean {
+    return attachment.mimeType?.startsWith("image/") ?? /\.(jpe?g|png|gif|webp|heic)$/i.test(attachment.fileName);
+  },
+
+  /**
+   * Let the user pick an image or PDF and attach a copy of it to an expense
+   * @returns The new attachment, or null when the picker was cancelled
+   */
+  async pickAndAttach(expenseId: number): Promise<Attachment | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ATTACHMENT_TYPES,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return null;
+
+    const file = result.assets[0];
+    if (!file) return null;
+
+    const dir = await ensureAttachmentDirectory();
+    const fileName = buildFileName(expenseId, file.name);
+    await FileSystem.copyAsync({ from: file.uri, to: `${dir}${fileName}` });
+
+    return AttachmentRepository.create({
+      expenseId,
+      fileName,
+      originalName: file.name,
+      mimeType: file.mimeType,
+      sizeBytes: file.size,
+    });
+  },
+
+  /**
+   * Open an attachment with whatever the system offers (PDF viewer, photos, ...)
+   */
+  async open(attachment: Attachment): Promise<void> {
+    const isAvailable = await Sharing.isAvailableAsync();
+    if (!isAvailable) {
+      throw new Error("Sharing is not available on this device");
+    }
+    await Sharing.shareAsync(this.getUri(attachment), {
+      mimeType: attachment.mimeType ?? undefined,
+      dialogTitle: attachment.originalName ?? "Attachment",
+    });
+  },
+
+  /**
+   * Delete an attachment and its stored file
+   */
+  async remove(attachment: Attachment): Promise<void> {
+    await AttachmentRepository.delete(attachment.id);
+    await FileSystem.deleteAsync(this.getUri(attachment), { idempotent: true });
+  },
+
+  /**
+   * Delete every attachment of an expense (used when the expense is purged)
+   */
+  async removeForExpense(expenseId: number): Promise<void> {
+    const attachments = await AttachmentRepository.findByExpenseId(expenseId);
+    for (const attachment of attachments) {
+      await this.remove(attachment);
+    }
+  },
+
+  /**
+   * Delete stored files no attachment refers to anymore
+   * Rows disappear without their files when a profile is deleted or data is imported
+   */
+  async cleanupOrphanedFiles(): Promise<number> {
+    const dir = getAttachmentDirectory();
+    const info = await FileSystem.getInfoAsync(dir);
+    if (!info.exists) return 0;
+
+    const known = new Set((await AttachmentRepository.findAll()).map((a) => a.fileName));
+    const files = await FileSystem.readDirectoryAsync(dir);
+    let removed = 0;
+    for (const file of files) {
+      if (known.has(file)) continue;
+      await FileSystem.deleteAsync(`${dir}${file}`, { idempotent: true });
+      removed++;
+    }
+    return removed;
+  },
+
+  /**
+   * Read a stored file as base64 for backups
+   * @returns null when the file is missing
+   */
+  async readAsBase64(attachment: Attachment): Promise<string | null> {
+    const uri = this.getUri(attachment);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return null;
+    return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  },
+
+  /**
+   * Restore a stored file from a backup
+   */
+  async writeFromBase64(fileName: string, data: string): Promise<void> {
+    const dir = await ensureAttachmentDirectory();
+    await FileSystem.writeAsStringAsync(`${dir}${fileName}`, data, { encoding: FileSystem.EncodingType.Base64 });
+  },
+
+  /**
+   * Whether the stored file of an attachment is present on this device
+   */
+  async fileExists(fileName: string): Promise<boolean> {
+    const info = await FileSystem.getInfoAsync(`${getAttachmentDirectory()}${fileName}`);
+    return info.exists;
+  },
+};
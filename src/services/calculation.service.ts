@@ -1,4 +1,36 @@
-import type { AllowanceSource, Expense, Month, MonthSummary } from "@/types";
+import type {
+  AllowanceFrequency,
+  AllowanceSource,
+  BudgetProgress,
+  BudgetSummary,
+  CategoryBudget,
+  Expense,
+  IncomeEntry,
+  Month,
+  MonthSummary,
+} from "@/types";
+import { getDaysInMonth } from "@/utils";
+
+export const ALLOWANCE_FREQUENCY_LABELS: Record<AllowanceFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  semimonthly: "Twice a month",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  once: "One-off",
+};
+
+// Days between two payments of the frequencies paid on a weekday rather than a day of the month
+const PAY_INTERVAL_DAYS: Partial<Record<AllowanceFrequency, number>> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
 
 /**
  * Calculation service for monetary operations
@@ -6,7 +38,8 @@ import type { AllowanceSource, Expense, Month, MonthSummary } from "@/types";
  */
 export const CalculationService = {
   /**
-   * Calculate total monthly allowance from active sources
+   * Calculate the total of one payment of every active source
+   * See calculateMonthAllowance for what a given month receives
    * @param sources - Array of allowance sources
    * @returns Total in cents
    */
@@ -14,6 +47,58 @@ export const CalculationService = {
     return sources.filter((s) => s.isActive && !s.deletedAt).reduce((sum, source) => sum + source.amountCents, 0);
   },
 
+  /**
+   * Count the payments of an allowance source that fall in a month of its year
+   * Weekly and biweekly payments repeat from `firstPayDay` of the start month, so some months get one more
+   * (e.g. three biweekly paychecks); quarterly sources pay every third month from the start month.
+   */
+  getSourcePaymentCount(source: AllowanceSource, month: number): number {
+    if (month < source.startMonth || month > source.endMonth) return 0;
+
+    const intervalDays = PAY_INTERVAL_DAYS[source.frequency];
+    if (intervalDays) {
+      const firstPayDay = Math.min(source.firstPayDay, getDaysInMonth(source.year, source.startMonth));
+      const anchor = toDayNumber(source.year, source.startMonth, firstPayDay);
+      const monthStart = toDayNumber(source.year, month, 1);
+      const monthEnd = toDayNumber(source.year, month, getDaysInMonth(source.year, month));
+      const first = Math.max(0, Math.ceil((monthStart - anchor) / intervalDays));
+      const last = Math.floor((monthEnd - anchor) / intervalDays);
+      return Math.max(0, last - first + 1);
+    }
+
+    switch (source.frequency) {
+      case "semimonthly":
+        return 2;
+      case "quarterly":
+        return (month - source.startMonth) % 3 === 0 ? 1 : 0;
+      case "once":
+        return month === source.startMonth ? 1 : 0;
+      default:
+        return 1;
+    }
+  },
+
+  /**
+   * Calculate the allowance a month receives from active sources
+   * @param sources - Allowance sources of the month's year
+   * @param month - Month (1-12)
+   * @returns Total in cents
+   */
+  calculateMonthAllowance(sources: AllowanceSource[], month: number): number {
+    return sources
+      .filter((s) => s.isActive && !s.deletedAt)
+      .reduce((sum, source) => sum + source.amountCents * this.getSourcePaymentCount(source, month), 0);
+  },
+
+  /**
+   * Calculate total one-off income of a month
+   * @param entries - Income entries of the month
+   * @returns Total in cents
+   */
+  calculateTotalIncome(entries: IncomeEntry[]): number {
+    return entries.filter((e) => !e.deletedAt).reduce((sum, entry) => sum + entry.amountCents, 0);
+  },
+
   /**
    * Get effective allowance for a specific month
    * Uses override if set, otherwise uses default allowance
@@ -29,21 +114,34 @@ export const CalculationService = {
   },
 
   /**
-   * Calculate total spent from PAID expenses only
+   * Get the amount an expense adds to totals
+   * Refunds are stored as positive amounts and subtract from totals
+   * @returns Signed amount in cents
+   */
+  getSignedAmount(expense: Pick<Expense, "amountCents" | "kind">): number {
+    return expense.kind === "refund" ? -expense.amountCents : expense.amountCents;
+  },
+
+  /**
+   * Calculate total spent from PAID expenses only, net of paid refunds
    * @param expenses - Array of expenses (should exclude deleted)
    * @returns Total in cents
    */
   calculateTotalSpent(expenses: Expense[]): number {
-    return expenses.filter((e) => !e.deletedAt && e.isPaid).reduce((sum, expense) => sum + expense.amountCents, 0);
+    return expenses
+      .filter((e) => !e.deletedAt && e.isPaid)
+      .reduce((sum, expense) => sum + this.getSignedAmount(expense), 0);
   },
 
   /**
-   * Calculate total balance from UNPAID expenses only
+   * Calculate total balance from UNPAID expenses only, net of unpaid refunds
    * @param expenses - Array of expenses (should exclude deleted)
    * @returns Total in cents
    */
   calculateTotalBalance(expenses: Expense[]): number {
-    return expenses.filter((e) => !e.deletedAt && !e.isPaid).reduce((sum, expense) => sum + expense.amountCents, 0);
+    return expenses
+      .filter((e) => !e.deletedAt && !e.isPaid)
+      .reduce((sum, expense) => sum + this.getSignedAmount(expense), 0);
   },
 
   /**
@@ -87,20 +185,26 @@ export const CalculationService = {
 
   /**
    * Create a month summary from raw data
+   * Income entries are added on top of the default or overridden allowance
+   * Amounts set aside for savings goals are taken out of the remaining balance
    */
   createMonthSummary(
     year: number,
     month: number,
     monthRecord: Month | null,
     defaultAllowanceCents: number,
-    expenses: Expense[]
+    expenses: Expense[],
+    incomeEntries: IncomeEntry[] = [],
+    categoryBudgets: Map<number, number> = new Map(),
+    allocatedCents: number = 0
   ): MonthSummary {
     const allowanceOverrideCents = monthRecord?.allowanceOverrideCents ?? null;
-    const allowanceCents = this.getMonthlyAllowance(monthRecord, defaultAllowanceCents);
+    const incomeCents = this.calculateTotalIncome(incomeEntries);
+    const allowanceCents = this.getMonthlyAllowance(monthRecord, defaultAllowanceCents) + incomeCents;
     const spentCents = this.calculateTotalSpent(expenses); // PAID expenses
     const balanceCents = this.calculateTotalBalance(expenses); // UNPAID expenses
     const totalExpenses = spentCents + balanceCents;
-    const remainingCents = this.calculateRemaining(allowanceCents, totalExpenses);
+    const remainingCents = this.calculateRemaining(allowanceCents, totalExpenses) - allocatedCents;
 
     return {
       year,
@@ -108,15 +212,65 @@ export const CalculationService = {
       monthId: monthRecord?.id ?? null,
       allowanceCents,
       allowanceOverrideCents,
+      incomeCents,
       spentCents,
       balanceCents,
       remainingCents,
+      allocatedCents,
       expenseCount: expenses.filter((e) => !e.deletedAt).length,
+      budget: this.calculateBudgetSummary(categoryBudgets, expenses),
+      carryInCents: null,
+      carryOutCents: null,
     };
   },
 
+  /**
+   * Carry each month's remaining balance, positive or negative, into the next month
+   * @param summaries - Summaries of one year in month order (see createMonthSummary)
+   * @param carryInCents - Balance carried into `startMonth`, e.g. the carry-out of the previous December
+   * @param startMonth - First month of the rollover; earlier months carry nothing (13 = none of the year)
+   * @returns New summaries with remainingCents including the carry-in
+   */
+  applyRollover(summaries: MonthSummary[], carryInCents: number, startMonth: number = 1): MonthSummary[] {
+    let carry = carryInCents;
+    return summaries.map((summary) => {
+      if (summary.month < startMonth) {
+        return { ...summary, carryInCents: 0, carryOutCents: 0 };
+      }
+      const remainingCents = summary.remainingCents + carry;
+      const carried = { ...summary, remainingCents, carryInCents: carry, carryOutCents: remainingCents };
+      carry = remainingCents;
+      return carried;
+    });
+  },
+
+  /**
+   * Get the balance carried out of the year so far in rollover mode
+   * @param upToMonth - Last month to include; 0 returns what was carried into the year
+   */
+  calculateRolloverBalance(summaries: MonthSummary[], upToMonth: number): number {
+    const months = summaries.filter((m) => m.month <= upToMonth);
+    const last = months[months.length - 1];
+    if (last) return last.carryOutCents ?? last.remainingCents;
+    return summaries[0]?.carryInCents ?? 0;
+  },
+
+  /**
+   * Split an expense into its per-category parts
+   * Unsplit expenses are a single part in their own category; the parts of a refund are negative
+   */
+  getCategoryParts(expense: Expense): { categoryId: number; amountCents: number }[] {
+    const sign = expense.kind === "refund" ? -1 : 1;
+    if (expense.lineItems && expense.lineItems.length > 0) {
+      return expense.lineItems.map((item) => ({ categoryId: item.categoryId, amountCents: sign * item.amountCents }));
+    }
+    return [{ categoryId: expense.categoryId, amountCents: sign * expense.amountCents }];
+  },
+
   /**
    * Calculate spending by category
+   * Split expenses count each line item towards its own category, and once per category in `count`
+   * Refunds are subtracted from their category
    * @returns Array sorted by total descending
    */
   calculateCategoryBreakdown(expenses: Expense[]): { categoryId: number; totalCents: number; count: number }[] {
@@ -125,11 +279,15 @@ export const CalculationService = {
     for (const expense of expenses) {
       if (expense.deletedAt) continue;
 
-      const existing = breakdown.get(expense.categoryId) ?? { totalCents: 0, count: 0 };
-      breakdown.set(expense.categoryId, {
-        totalCents: existing.totalCents + expense.amountCents,
-        count: existing.count + 1,
-      });
+      const counted = new Set<number>();
+      for (const part of this.getCategoryParts(expense)) {
+        const existing = breakdown.get(part.categoryId) ?? { totalCents: 0, count: 0 };
+        breakdown.set(part.categoryId, {
+          totalCents: existing.totalCents + part.amountCents,
+          count: existing.count + (counted.has(part.categoryId) ? 0 : 1),
+        });
+        counted.add(part.categoryId);
+      }
     }
 
     return Array.from(breakdown.entries())
@@ -137,6 +295,82 @@ export const CalculationService = {
       .sort((a, b) => b.totalCents - a.totalCents);
   },
 
+  /**
+   * Resolve the category budgets that apply to a month
+   * A budget set for the month replaces the category's budget for the whole year
+   * @param budgets - Budgets of one year
+   * @returns Map of category id to budget in cents
+   */
+  getCategoryBudgets(budgets: CategoryBudget[], month: number): Map<number, number> {
+    const result = new Map<number, number>();
+    for (const budget of budgets) {
+      if (budget.month === null && !result.has(budget.categoryId)) {
+        result.set(budget.categoryId, budget.amountCents);
+      }
+    }
+    for (const budget of budgets) {
+      if (budget.month === month) {
+        result.set(budget.categoryId, budget.amountCents);
+      }
+    }
+    return result;
+  },
+
+  /**
+   * Compare what was spent in a category with its budget
+   */
+  calculateBudgetProgress(budgetCents: number, spentCents: number): BudgetProgress {
+    let ratio = 0;
+    if (budgetCents > 0) {
+      ratio = Math.max(0, spentCents) / budgetCents;
+    } else if (spentCents > 0) {
+      ratio = 1;
+    }
+
+    return {
+      budgetCents,
+      spentCents,
+      remainingCents: budgetCents - spentCents,
+      ratio,
+      isOver: spentCents > budgetCents,
+    };
+  },
+
+  /**
+   * Compare a month's spending with its category budgets
+   * Paid and unpaid expenses both count; categories without a budget are left out
+   * @param categoryBudgets - Map of category id to budget in cents (see getCategoryBudgets)
+   * @returns null if no category has a budget
+   */
+  calculateBudgetSummary(categoryBudgets: Map<number, number>, expenses: Expense[]): BudgetSummary | null {
+    if (categoryBudgets.size === 0) return null;
+
+    const spentByCategory = new Map(
+      this.calculateCategoryBreakdown(expenses).map((c) => [c.categoryId, c.totalCents] as const)
+    );
+    let budgetedCents = 0;
+    let spentCents = 0;
+    let overBudgetCount = 0;
+    for (const [categoryId, budgetCents] of categoryBudgets) {
+      const spent = spentByCategory.get(categoryId) ?? 0;
+      budgetedCents += budgetCents;
+      spentCents += spent;
+      if (this.calculateBudgetProgress(budgetCents, spent).isOver) overBudgetCount++;
+    }
+
+    return { budgetedCents, spentCents, overBudgetCount };
+  },
+
+  /**
+   * Convert an amount in a foreign currency into the home currency
+   * @param amountCents - Amount in cents of the foreign currency
+   * @param rate - Units of the home currency per unit of the foreign currency
+   * @returns Converted amount in cents, rounded to the nearest cent
+   */
+  convertToBaseCents(amountCents: number, rate: number): number {
+    return Math.round(amountCents * rate);
+  },
+
   /**
    * Calculate percentage of allowance spent
    * @returns Percentage (0-100+), null if no allowance
@@ -160,6 +394,6 @@ export const CalculationService = {
    * Get number of days in a month
    */
   getDaysInMonth(year: number, month: number): number {
-    return new Date(year, month, 0).getDate();
+    return getDaysInMonth(year, month);
   },
 };
@@ -1,10 +1,52 @@
 import { getDatabase } from "@/database";
-import { AllowanceRepository, CategoryRepository, ExpenseRepository, MonthRepository } from "@/database/repositories";
-import type { AllowanceSource, Category, Expense, Month } from "@/types";
+import {
+  AccountRepository,
+  AllowanceRepository,
+  AttachmentRepository,
+  CategoryBudgetRepository,
+  CategoryRepository,
+  DuplicateRepository,
+  ExchangeRateRepository,
+  ExpenseAuditRepository,
+  ExpenseRepository,
+  ExpenseTemplateRepository,
+  GeneratedPeriodRepository,
+  IncomeEntryRepository,
+  InstallmentPlanRepository,
+  MerchantRepository,
+  MonthRepository,
+  RecurringExpenseRepository,
+  SavingsGoalRepository,
+  TagRepository,
+} from "@/database/repositories";
+import type {
+  Account,
+  AccountTransactionEntity,
+  AllowanceSource,
+  DismissedDuplicate,
+  Attachment,
+  Category,
+  CategoryBudget,
+  ExchangeRate,
+  Expense,
+  ExpenseAuditEntry,
+  ExpenseTemplate,
+  GeneratedPeriod,
+  GoalContribution,
+  IncomeEntry,
+  InstallmentPlan,
+  Merchant,
+  Month,
+  RecurringExpense,
+  SavingsGoal,
+  Tag,
+} from "@/types";
+import { getCurrentDateString, getCurrentYear } from "@/utils";
 import Constants from "expo-constants";
 import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system/legacy";
 import * as Sharing from "expo-sharing";
+import { AttachmentService } from "./attachment.service";
 
 // Current export format version
 const EXPORT_VERSION = 1;
@@ -21,9 +63,29 @@ export interface ExportData {
     categories: Category[];
     months: Month[];
     expenses: Expense[];
+    incomeEntries?: IncomeEntry[];
+    recurringExpenses?: (RecurringExpense & { profileId: number })[];
+    installmentPlans?: (InstallmentPlan & { profileId: number })[];
+    tags?: (Tag & { profileId: number })[];
+    merchants?: (Merchant & { profileId: number })[];
+    accounts?: (Account & { profileId: number })[];
+    expenseTemplates?: (ExpenseTemplate & { profileId: number })[];
+    categoryBudgets?: (CategoryBudget & { profileId: number })[];
+    savingsGoals?: (SavingsGoal & { profileId: number })[];
+    goalContributions?: GoalContribution[];
+    accountTransactions?: AccountTransactionEntity[];
+    exchangeRates?: ExchangeRate[];
+    expenseAuditLog?: ExpenseAuditEntry[];
+    dismissedDuplicates?: DismissedDuplicate[];
+    generatedPeriods?: GeneratedPeriod[];
+    attachments?: (Attachment & { data?: string })[]; // `data` is the base64 file, when included
   };
 }
 
+export interface ExportOptions {
+  includeAttachments?: boolean; // Embed attachment files; without them only the references are kept
+}
+
 export interface ImportResult {
   success: boolean;
   recordsImported: number;
@@ -40,11 +102,35 @@ export class ImportError extends Error {
 /**
  * Export all app data to JSON string
  */
-export async function exportAllData(): Promise<string> {
+export async function exportAllData(options: ExportOptions = {}): Promise<string> {
   const allowanceSources = await AllowanceRepository.findAll();
   const categories = await CategoryRepository.findAll();
   const months = await MonthRepository.findAll();
   const expenses = await ExpenseRepository.findAll();
+  const incomeEntries = await IncomeEntryRepository.findAllIncludingDeleted();
+  const recurringExpenses = await RecurringExpenseRepository.findAllIncludingDeleted();
+  const installmentPlans = await InstallmentPlanRepository.findAllIncludingDeleted();
+  const tags = await TagRepository.findAllForExport();
+  const merchants = await MerchantRepository.findAllForExport();
+  const accounts = await AccountRepository.findAllIncludingDeleted();
+  const accountTransactions = await AccountRepository.findAllTransactions();
+  const expenseTemplates = await ExpenseTemplateRepository.findAllForExport();
+  const categoryBudgets = await CategoryBudgetRepository.findAllForExport();
+  const savingsGoals = await SavingsGoalRepository.findAllForExport();
+  const goalContributions = await SavingsGoalRepository.findAllContributionsForExport();
+  const exchangeRates = await ExchangeRateRepository.findAllForExport();
+  const expenseAuditLog = await ExpenseAuditRepository.findAll();
+  const dismissedDuplicates = await DuplicateRepository.findAllDismissed();
+  const generatedPeriods = await GeneratedPeriodRepository.findAll();
+  const attachments: (Attachment & { data?: string })[] = [];
+  for (const attachment of await AttachmentRepository.findAll()) {
+    if (!options.includeAttachments) {
+      attachments.push(attachment);
+      continue;
+    }
+    const data = await AttachmentService.readAsBase64(attachment);
+    attachments.push(data === null ? attachment : { ...attachment, data });
+  }
 
   const exportData: ExportData = {
     version: EXPORT_VERSION,
@@ -55,6 +141,22 @@ export async function exportAllData(): Promise<string> {
       categories,
       months,
       expenses,
+      incomeEntries,
+      recurringExpenses,
+      installmentPlans,
+      tags,
+      merchants,
+      accounts,
+      accountTransactions,
+      expenseTemplates,
+      categoryBudgets,
+      savingsGoals,
+      goalContributions,
+      exchangeRates,
+      expenseAuditLog,
+      dismissedDuplicates,
+      generatedPeriods,
+      attachments,
     },
   };
 
@@ -64,10 +166,10 @@ export async function exportAllData(): Promise<string> {
 /**
  * Export data and trigger share sheet
  */
-export async function exportAndShare(): Promise<boolean> {
+export async function exportAndShare(options: ExportOptions = {}): Promise<boolean> {
   try {
-    const jsonData = await exportAllData();
-    const timestamp = new Date().toISOString().split("T")[0];
+    const jsonData = await exportAllData(options);
+    const timestamp = getCurrentDateString();
     const fileName = `monthwise-backup-${timestamp}.json`;
     const cacheDir = FileSystem.cacheDirectory;
     if (!cacheDir) {
@@ -114,6 +216,23 @@ function validateExportData(data: unknown): data is ExportData {
   if (!Array.isArray(dataObj.categories)) return false;
   if (!Array.isArray(dataObj.months)) return false;
   if (!Array.isArray(dataObj.expenses)) return false;
+  // Optional sections added in later versions
+  if (dataObj.incomeEntries !== undefined && !Array.isArray(dataObj.incomeEntries)) return false;
+  if (dataObj.recurringExpenses !== undefined && !Array.isArray(dataObj.recurringExpenses)) return false;
+  if (dataObj.installmentPlans !== undefined && !Array.isArray(dataObj.installmentPlans)) return false;
+  if (dataObj.tags !== undefined && !Array.isArray(dataObj.tags)) return false;
+  if (dataObj.merchants !== undefined && !Array.isArray(dataObj.merchants)) return false;
+  if (dataObj.accounts !== undefined && !Array.isArray(dataObj.accounts)) return false;
+  if (dataObj.accountTransactions !== undefined && !Array.isArray(dataObj.accountTransactions)) return false;
+  if (dataObj.expenseTemplates !== undefined && !Array.isArray(dataObj.expenseTemplates)) return false;
+  if (dataObj.categoryBudgets !== undefined && !Array.isArray(dataObj.categoryBudgets)) return false;
+  if (dataObj.savingsGoals !== undefined && !Array.isArray(dataObj.savingsGoals)) return false;
+  if (dataObj.goalContributions !== undefined && !Array.isArray(dataObj.goalContributions)) return false;
+  if (dataObj.exchangeRates !== undefined && !Array.isArray(dataObj.exchangeRates)) return false;
+  if (dataObj.expenseAuditLog !== undefined && !Array.isArray(dataObj.expenseAuditLog)) return false;
+  if (dataObj.dismissedDuplicates !== undefined && !Array.isArray(dataObj.dismissedDuplicates)) return false;
+  if (dataObj.generatedPeriods !== undefined && !Array.isArray(dataObj.generatedPeriods)) return false;
+  if (dataObj.attachments !== undefined && !Array.isArray(dataObj.attachments)) return false;
 
   return true;
 }
@@ -147,10 +266,28 @@ export async function importData(jsonString: string): Promise<ImportResult> {
 
   try {
     // Clear existing data in reverse dependency order
+    await db.execAsync("DELETE FROM attachments");
+    await db.execAsync("DELETE FROM expense_audit_log");
+    await db.execAsync("DELETE FROM dismissed_duplicates");
+    await db.execAsync("DELETE FROM account_transactions");
+    await db.execAsync("DELETE FROM expense_line_items");
+    await db.execAsync("DELETE FROM expense_tags");
     await db.execAsync("DELETE FROM expenses");
+    await db.execAsync("DELETE FROM generated_periods");
+    await db.execAsync("DELETE FROM recurring_expenses");
+    await db.execAsync("DELETE FROM installment_plans");
+    await db.execAsync("DELETE FROM expense_templates");
+    await db.execAsync("DELETE FROM category_budgets");
+    await db.execAsync("DELETE FROM goal_contributions");
+    await db.execAsync("DELETE FROM savings_goals");
+    await db.execAsync("DELETE FROM tags");
+    await db.execAsync("DELETE FROM merchants");
+    await db.execAsync("DELETE FROM accounts");
+    await db.execAsync("DELETE FROM income_entries");
     await db.execAsync("DELETE FROM months");
     await db.execAsync("DELETE FROM categories");
     await db.execAsync("DELETE FROM allowance_sources");
+    await db.execAsync("DELETE FROM exchange_rates");
     // Clear profiles but ensure default profile exists for foreign key constraints
     await db.execAsync("DELETE FROM profiles");
     await db.runAsync(`INSERT INTO profiles (id, name, created_at) VALUES (1, 'Default', datetime('now'))`);
@@ -167,12 +304,12 @@ export async function importData(jsonString: string): Promise<ImportResult> {
     // Import allowance sources
     for (const src of data.data.allowanceSources) {
       // Handle backwards compatibility: use year from export or default to current year
-      const year = (src as any).year ?? new Date().getFullYear();
+      const year = (src as any).year ?? getCurrentYear();
       // Default profileId to 1 for backwards compatibility
       const profileId = (src as any).profileId ?? 1;
       await db.runAsync(
-        `INSERT INTO allowance_sources (id, profile_id, year, name, amount_cents, is_active, created_at, updated_at, deleted_at) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO allowance_sources (id, profile_id, year, name, amount_cents, is_active, frequency, start_month, end_month, first_pay_day, created_at, updated_at, deleted_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           src.id,
           profileId,
@@ -180,6 +317,10 @@ export async function importData(jsonString: string): Promise<ImportResult> {
           src.name,
           src.amountCents,
           src.isActive ? 1 : 0,
+          src.frequency ?? "monthly",
+          src.startMonth ?? 1,
+          src.endMonth ?? 12,
+          src.firstPayDay ?? 1,
           src.createdAt,
           src.updatedAt,
           src.deletedAt ?? null,
@@ -206,11 +347,176 @@ export async function importData(jsonString: string): Promise<ImportResult> {
       );
     }
 
+    // Import one-off income (after months, which they belong to)
+    const incomeEntries = data.data.incomeEntries ?? [];
+    for (const entry of incomeEntries) {
+      await db.runAsync(
+        `INSERT INTO income_entries (id, month_id, name, amount_cents, entry_date, created_at, updated_at, deleted_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.id,
+          entry.monthId,
+          entry.name,
+          entry.amountCents,
+          entry.entryDate,
+          entry.createdAt,
+          entry.updatedAt,
+          entry.deletedAt ?? null,
+        ]
+      );
+    }
+
+    // Import recurring expense templates (before expenses, which link to them)
+    const recurringExpenses = data.data.recurringExpenses ?? [];
+    for (const rec of recurringExpenses) {
+      await db.runAsync(
+        `INSERT INTO recurring_expenses (id, profile_id, category_id, amount_cents, note, day_of_month, frequency, start_year, start_month, end_year, end_month, is_active, created_at, updated_at, deleted_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          rec.id,
+          rec.profileId ?? 1,
+          rec.categoryId,
+          rec.amountCents,
+          rec.note ?? null,
+          rec.dayOfMonth,
+          rec.frequency,
+          rec.startYear,
+          rec.startMonth,
+          rec.endYear ?? null,
+          rec.endMonth ?? null,
+          rec.isActive ? 1 : 0,
+          rec.createdAt,
+          rec.updatedAt,
+          rec.deletedAt ?? null,
+        ]
+      );
+    }
+
+    // Import installment plans (before expenses, which link to them)
+    const installmentPlans = data.data.installmentPlans ?? [];
+    for (const plan of installmentPlans) {
+      await db.runAsync(
+        `INSERT INTO installment_plans (id, profile_id, category_id, note, total_cents, installment_count, day_of_month, start_year, start_month, status, created_at, updated_at, deleted_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          plan.id,
+          plan.profileId ?? 1,
+          plan.categoryId,
+          plan.note ?? null,
+          plan.totalCents,
+          plan.installmentCount,
+          plan.dayOfMonth,
+          plan.startYear,
+          plan.startMonth,
+          plan.status,
+          plan.createdAt,
+          plan.updatedAt,
+          plan.deletedAt ?? null,
+        ]
+      );
+    }
+
+    // Import tags (before expenses, which link to them)
+    const tags = data.data.tags ?? [];
+    for (const tag of tags) {
+      await db.runAsync(
+        `INSERT INTO tags (id, profile_id, name, created_at) 
+         VALUES (?, ?, ?, ?)`,
+        [tag.id, tag.profileId ?? 1, tag.name, tag.createdAt]
+      );
+    }
+
+    // Import merchants (before expenses, which link to them)
+    const merchants = data.data.merchants ?? [];
+    for (const merchant of merchants) {
+      await db.runAsync(
+        `INSERT INTO merchants (id, profile_id, name, created_at) 
+         VALUES (?, ?, ?, ?)`,
+        [merchant.id, merchant.profileId ?? 1, merchant.name, merchant.createdAt]
+      );
+    }
+
+    // Import accounts (before expenses, which link to them)
+    const accounts = data.data.accounts ?? [];
+    for (const account of accounts) {
+      await db.runAsync(
+        `INSERT INTO accounts (id, profile_id, name, kind, starting_balance_cents, created_at, updated_at, deleted_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          account.id,
+          account.profileId ?? 1,
+          account.name,
+          account.kind,
+          account.startingBalanceCents,
+          account.createdAt,
+          account.updatedAt,
+          account.deletedAt ?? null,
+        ]
+      );
+    }
+
+    // Import expense templates (after categories, which they use)
+    const expenseTemplates = data.data.expenseTemplates ?? [];
+    for (const template of expenseTemplates) {
+      await db.runAsync(
+        `INSERT INTO expense_templates (id, profile_id, category_id, amount_cents, note, use_count, last_used_at, created_at, updated_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          template.id,
+          template.profileId ?? 1,
+          template.categoryId,
+          template.amountCents,
+          template.note ?? null,
+          template.useCount ?? 0,
+          template.lastUsedAt ?? null,
+          template.createdAt,
+          template.updatedAt,
+        ]
+      );
+    }
+
+    // Import category budgets (after categories, which they use)
+    const categoryBudgets = data.data.categoryBudgets ?? [];
+    for (const budget of categoryBudgets) {
+      await db.runAsync(
+        `INSERT INTO category_budgets (id, profile_id, category_id, year, month, amount_cents, created_at, updated_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          budget.id,
+          budget.profileId ?? 1,
+          budget.categoryId,
+          budget.year,
+          budget.month ?? 0,
+          budget.amountCents,
+          budget.createdAt,
+          budget.updatedAt,
+        ]
+      );
+    }
+
+    // Import savings goals, then what was set aside for them (after months, which contributions come out of)
+    const savingsGoals = data.data.savingsGoals ?? [];
+    for (const goal of savingsGoals) {
+      await db.runAsync(
+        `INSERT INTO savings_goals (id, profile_id, name, target_cents, target_date, created_at, updated_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [goal.id, goal.profileId ?? 1, goal.name, goal.targetCents, goal.targetDate, goal.createdAt, goal.updatedAt]
+      );
+    }
+    const goalContributions = data.data.goalContributions ?? [];
+    for (const contribution of goalContributions) {
+      await db.runAsync(
+        `INSERT INTO goal_contributions (id, goal_id, month_id, amount_cents, created_at) 
+         VALUES (?, ?, ?, ?, ?)`,
+        [contribution.id, contribution.goalId, contribution.monthId, contribution.amountCents, contribution.createdAt]
+      );
+    }
+
     // Import expenses
     for (const exp of data.data.expenses) {
       await db.runAsync(
-        `INSERT INTO expenses (id, month_id, category_id, amount_cents, note, expense_date, created_at, updated_at, deleted_at) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO expenses (id, month_id, category_id, amount_cents, note, expense_date, is_paid, is_verified, recurring_expense_id, installment_plan_id, installment_number, merchant_id, account_id, original_currency, original_amount_cents, exchange_rate, kind, created_at, updated_at, deleted_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           exp.id,
           exp.monthId,
@@ -218,28 +524,165 @@ export async function importData(jsonString: string): Promise<ImportResult> {
           exp.amountCents,
           exp.note ?? null,
           exp.expenseDate,
+          exp.isPaid ? 1 : 0,
+          exp.isVerified ? 1 : 0,
+          exp.recurringExpenseId ?? null,
+          exp.installmentPlanId ?? null,
+          exp.installmentNumber ?? null,
+          exp.merchantId ?? null,
+          exp.accountId ?? null,
+          exp.originalCurrency ?? null,
+          exp.originalAmountCents ?? null,
+          exp.exchangeRate ?? null,
+          exp.kind ?? "expense",
           exp.createdAt,
           exp.updatedAt,
           exp.deletedAt ?? null,
         ]
       );
+
+      // Line items of split expenses (absent in older exports)
+      for (const [index, item] of (exp.lineItems ?? []).entries()) {
+        await db.runAsync(
+          `INSERT INTO expense_line_items (id, expense_id, category_id, amount_cents, note, sort_order) 
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [item.id, exp.id, item.categoryId, item.amountCents, item.note ?? null, index]
+        );
+      }
+
+      for (const tagId of exp.tagIds ?? []) {
+        await db.runAsync(`INSERT INTO expense_tags (expense_id, tag_id) VALUES (?, ?)`, [exp.id, tagId]);
+      }
+    }
+
+    // Link refunds once every expense exists, since an original may come later in the file
+    for (const exp of data.data.expenses) {
+      if (exp.refundOfExpenseId) {
+        await db.runAsync(`UPDATE expenses SET refund_of_expense_id = ? WHERE id = ?`, [exp.refundOfExpenseId, exp.id]);
+      }
+    }
+
+    // Import the account ledger (after expenses, which it debits)
+    const accountTransactions = data.data.accountTransactions ?? [];
+    for (const txn of accountTransactions) {
+      await db.runAsync(
+        `INSERT INTO account_transactions (id, account_id, expense_id, amount_cents, created_at, updated_at) 
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [txn.id, txn.account_id, txn.expense_id, txn.amount_cents, txn.created_at, txn.updated_at]
+      );
+    }
+
+    // Import the expense audit log (after expenses, which it describes)
+    const expenseAuditLog = data.data.expenseAuditLog ?? [];
+    for (const entry of expenseAuditLog) {
+      await db.runAsync(
+        `INSERT INTO expense_audit_log (id, expense_id, action, changes, created_at) 
+         VALUES (?, ?, ?, ?, ?)`,
+        [entry.id, entry.expenseId, entry.action, JSON.stringify(entry.changes ?? {}), entry.createdAt]
+      );
+    }
+
+    // Import the pairs marked as not being duplicates (after expenses, which they reference)
+    const dismissedDuplicates = data.data.dismissedDuplicates ?? [];
+    for (const pair of dismissedDuplicates) {
+      await db.runAsync(
+        `INSERT INTO dismissed_duplicates (expense_id, other_expense_id, created_at) 
+         VALUES (?, ?, ?)`,
+        [pair.expenseId, pair.otherExpenseId, pair.createdAt]
+      );
+    }
+
+    // Import the months templates and plans have generated for (after expenses, to fill in older backups from them)
+    const generatedPeriods = data.data.generatedPeriods ?? [];
+    for (const period of generatedPeriods) {
+      await db.runAsync(
+        `INSERT INTO generated_periods (recurring_expense_id, installment_plan_id, year, month, created_at) 
+         VALUES (?, ?, ?, ?, ?)`,
+        [period.recurringExpenseId, period.installmentPlanId, period.year, period.month, period.createdAt]
+      );
+    }
+    if (data.data.generatedPeriods === undefined) {
+      await GeneratedPeriodRepository.recordFromExpenses();
+    }
+
+    // Import exchange rates
+    const exchangeRates = data.data.exchangeRates ?? [];
+    for (const rate of exchangeRates) {
+      await db.runAsync(
+        `INSERT INTO exchange_rates (id, base_currency, currency, rate, created_at, updated_at) 
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [rate.id, rate.baseCurrency, rate.currency, rate.rate, rate.createdAt ?? rate.updatedAt, rate.updatedAt]
+      );
+    }
+
+    // Import attachments; a reference without embedded data is only kept if its file is still on this device
+    let attachmentCount = 0;
+    for (const attachment of data.data.attachments ?? []) {
+      if (attachment.data) {
+        await AttachmentService.writeFromBase64(attachment.fileName, attachment.data);
+      } else if (!(await AttachmentService.fileExists(attachment.fileName))) {
+        continue;
+      }
+      await db.runAsync(
+        `INSERT INTO attachments (id, expense_id, file_name, original_name, mime_type, size_bytes, created_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          attachment.id,
+          attachment.expenseId,
+          attachment.fileName,
+          attachment.originalName ?? null,
+          attachment.mimeType ?? null,
+          attachment.sizeBytes ?? null,
+          attachment.createdAt,
+        ]
+      );
+      attachmentCount++;
     }
 
     await db.execAsync("COMMIT");
+    await AttachmentService.cleanupOrphanedFiles();
 
     const totalRecords =
       data.data.allowanceSources.length +
       data.data.categories.length +
       data.data.months.length +
-      data.data.expenses.length;
+      data.data.expenses.length +
+      incomeEntries.length +
+      recurringExpenses.length +
+      installmentPlans.length +
+      tags.length +
+      merchants.length +
+      accounts.length +
+      accountTransactions.length +
+      expenseTemplates.length +
+      categoryBudgets.length +
+      savingsGoals.length +
+      goalContributions.length +
+      exchangeRates.length +
+      expenseAuditLog.length +
+      dismissedDuplicates.length +
+      generatedPeriods.length +
+      attachmentCount;
+
+    // Imported data may repeat expenses already entered; point them out for review
+    let duplicateCount = 0;
+    for (const profileId of new Set(data.data.months.map((m) => (m as any).profileId ?? 1))) {
+      duplicateCount += await DuplicateRepository.countPairs(profileId).catch(() => 0);
+    }
 
     return {
       success: true,
       recordsImported: totalRecords,
-      message: `Successfully imported ${totalRecords} records`,
+      message:
+        `Successfully imported ${totalRecords} records` +
+        (duplicateCount > 0
+          ? `. Found ${duplicateCount} possible ${duplicateCount === 1 ? "duplicate" : "duplicates"} to review in the months they fall in.`
+          : ""),
     };
   } catch (error) {
     await db.execAsync("ROLLBACK");
+    // Drop files written for attachments that were rolled back
+    await AttachmentService.cleanupOrphanedFiles().catch(() => 0);
     console.error("Import failed:", error);
     throw new ImportError(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
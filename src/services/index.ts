@@ -1,5 +1,8 @@
 // Services barrel export
+export * from "./attachment.service";
 export * from "./auth.service";
 export * from "./calculation.service";
 export * from "./export-import.service";
+export * from "./quick-add.service";
+export * from "./savings-goal.service";
 export * from "./update.service";
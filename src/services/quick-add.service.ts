@@ -0,0 +1,240 @@
+import type { Category, CreateExpenseDTO } from "@/types";
+import { addDays, getDaysInMonth, parseDateString, parseToCents, toDateString } from "@/utils";
+
+// Lowest score at which a word is taken as a category
+const CATEGORY_MATCH_THRESHOLD = 0.75;
+
+const AMOUNT_PATTERN = /^[$€£¥₱]?\d+(?:[.,]\d+)*$/;
+const ORDINAL_PATTERN = /^(\d{1,2})(?:st|nd|rd|th)$/;
+// Weekday names and their usual abbreviations, by day of the week (0 = Sunday)
+const WEEKDAYS = new Map<string, number>([
+  ["sunday", 0],
+  ["sun", 0],
+  ["monday", 1],
+  ["mon", 1],
+  ["tuesday", 2],
+  ["tue", 2],
+  ["tues", 2],
+  ["wednesday", 3],
+  ["wed", 3],
+  ["thursday", 4],
+  ["thu", 4],
+  ["thur", 4],
+  ["thurs", 4],
+  ["friday", 5],
+  ["fri", 5],
+  ["saturday", 6],
+  ["sat", 6],
+]);
+
+// What a quick-add line says; fields it doesn't mention are null
+export interface QuickAddDraft {
+  amountCents: number | null;
+  categoryId: number | null;
+  note: string | null;
+  expenseDate: string; // The date parsed from (usually today) unless the line names one
+  isPaid: boolean;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * How well a typed term names a category name, from 0 to 1
+ */
+function scoreName(term: string, name: string): number {
+  if (!term || !name) return 0;
+  if (term === name) return 1;
+  // "groc" → groceries, "foods" → food
+  if ((term.length >= 3 && name.startsWith(term)) || (name.length >= 3 && term.startsWith(name))) return 0.9;
+  return 1 - levenshtein(term, name) / Math.max(term.length, name.length);
+}
+
+/**
+ * Most recent date on or before `today` that falls on a weekday
+ * @param strictlyBefore - Skip today itself ("last monday" on a Monday is a week ago)
+ */
+function lastWeekday(today: string, weekday: number, strictlyBefore: boolean): string {
+  const parts = parseDateString(today)!;
+  const todayWeekday = new Date(parts.year, parts.month - 1, parts.day).getDay();
+  let back = (todayWeekday - weekday + 7) % 7;
+  if (back === 0 && strictlyBefore) back = 7;
+  return addDays(today, -back);
+}
+
+/**
+ * Natural-language quick-add
+ * Turns a line like "coffee 4.50 food yesterday" or "rent 1200 housing 1st paid" into an expense
+ */
+export const QuickAddService = {
+  /**
+   * Get the date a line added to a month resolves its date words from
+   * Today in the current month; in any other month its last day, so "yesterday", "friday" and
+   * ordinals stay in the month being viewed.
+   * @param today - Local date (YYYY-MM-DD)
+   */
+  getReferenceDate(year: number, month: number, today: string): string {
+    const current = parseDateString(today);
+    if (current && current.year === year && current.month === month) return today;
+    return toDateString(year, month, getDaysInMonth(year, month));
+  },
+
+  /**
+   * Resolve a date word relative to today
+   * Understands today, yesterday, tomorrow, weekday names and their usual abbreviations (mon, tues,
+   * friday, ...), ordinals of this month (1st, 15th) and YYYY-MM-DD.
+   * @param isLast - The word followed "last", as in "last friday"
+   * @returns null when the word isn't a date
+   */
+  resolveDate(word: string, today: string, isLast: boolean = false): string | null {
+    const lower = word.toLowerCase();
+    if (lower === "today") return today;
+    if (lower === "yesterday") return addDays(today, -1);
+    if (lower === "tomorrow") return addDays(today, 1);
+
+    const weekday = WEEKDAYS.get(lower);
+    if (weekday !== undefined) return lastWeekday(today, weekday, isLast);
+
+    const ordinal = ORDINAL_PATTERN.exec(lower);
+    if (ordinal) {
+      const { year, month } = parseDateString(today)!;
+      const day = Number(ordinal[1]);
+      return day >= 1 && day <= getDaysInMonth(year, month) ? toDateString(year, month, day) : null;
+    }
+
+    return parseDateString(word) ? word : null;
+  },
+
+  /**
+   * Find the category a typed term names, with a score from 0 to 1
+   * Terms are compared with whole names and with each word of multi-word names ("transport" → "Public Transport").
+   */
+  matchCategory(term: string, categories: Category[]): { category: Category; score: number } | null {
+    const normalizedTerm = normalize(term);
+    if (!/\p{L}/u.test(normalizedTerm)) return null;
+    let best: { category: Category; score: number } | null = null;
+    for (const category of categories) {
+      const name = normalize(category.name);
+      const wordScore = Math.max(0, ...name.split(" ").map((word) => scoreName(normalizedTerm, word) * 0.95));
+      const score = Math.max(scoreName(normalizedTerm, name), wordScore);
+      if (!best || score > best.score) best = { category, score };
+    }
+    return best && best.score >= CATEGORY_MATCH_THRESHOLD ? best : null;
+  },
+
+  /**
+   * Parse a quick-add line
+   * The first number is the amount (via parseToCents), date words set the date, "paid" marks it paid,
+   * a weekday name sets the date only when no other word does ("sun hat ... yesterday"),
+   * the word (or pair of words) closest to a category name picks the category and the rest is the note.
+   * @param today - Local date to resolve relative dates from (YYYY-MM-DD)
+   */
+  parse(text: string, categories: Category[], today: string): QuickAddDraft {
+    const tokens = text.trim().split(/\s+/).filter(Boolean);
+    const used = tokens.map(() => false);
+    const draft: QuickAddDraft = { amountCents: null, categoryId: null, note: null, expenseDate: today, isPaid: false };
+    let hasDate = false;
+    const weekdays: { index: number; date: string; isLast: boolean }[] = [];
+
+    // "3 days ago" first, so its number isn't taken as the amount
+    for (let i = 0; i + 2 < tokens.length && !hasDate; i++) {
+      if (/^\d+$/.test(tokens[i]!) && /^days?$/i.test(tokens[i + 1]!) && /^ago$/i.test(tokens[i + 2]!)) {
+        draft.expenseDate = addDays(today, -Number(tokens[i]));
+        used[i] = used[i + 1] = used[i + 2] = true;
+        hasDate = true;
+      }
+    }
+
+    tokens.forEach((token, i) => {
+      if (used[i]) return;
+      const lower = token.toLowerCase();
+      if (lower === "paid" || lower === "unpaid") {
+        draft.isPaid = lower === "paid";
+        used[i] = true;
+        return;
+      }
+      if (!hasDate) {
+        const isLast = i > 0 && !used[i - 1] && tokens[i - 1]!.toLowerCase() === "last";
+        const date = this.resolveDate(token, today, isLast);
+        if (date && WEEKDAYS.has(lower)) {
+          // Weekday names double as words ("sun hat"), so they wait for any other date word
+          weekdays.push({ index: i, date, isLast });
+          return;
+        }
+        if (date) {
+          draft.expenseDate = date;
+          used[i] = true;
+          if (isLast) used[i - 1] = true;
+          hasDate = true;
+          return;
+        }
+      }
+      if (draft.amountCents === null && AMOUNT_PATTERN.test(token)) {
+        draft.amountCents = parseToCents(token);
+        used[i] = true;
+      }
+    });
+
+    const weekday = weekdays[0];
+    if (!hasDate && weekday) {
+      draft.expenseDate = weekday.date;
+      used[weekday.index] = true;
+      if (weekday.isLast) used[weekday.index - 1] = true;
+    }
+
+    // Single words and adjacent pairs are tried; the best score wins, later words on a tie
+    let best: { categoryId: number; score: number; indexes: number[] } | null = null;
+    for (let i = 0; i < tokens.length; i++) {
+      if (used[i]) continue;
+      const terms: number[][] = [[i]];
+      if (i + 1 < tokens.length && !used[i + 1]) terms.push([i, i + 1]);
+      for (const indexes of terms) {
+        const match = this.matchCategory(indexes.map((index) => tokens[index]).join(" "), categories);
+        if (match && (!best || match.score >= best.score)) {
+          best = { categoryId: match.category.id, score: match.score, indexes };
+        }
+      }
+    }
+    if (best) {
+      draft.categoryId = best.categoryId;
+      for (const index of best.indexes) used[index] = true;
+    }
+
+    const note = tokens.filter((_, i) => !used[i]).join(" ");
+    draft.note = note || null;
+    return draft;
+  },
+
+  /**
+   * Build the expense to create from a draft
+   * @returns null until the draft has a positive amount and a category
+   */
+  toCreateDTO(draft: QuickAddDraft, monthId: number): CreateExpenseDTO | null {
+    if (draft.amountCents === null || draft.amountCents <= 0 || draft.categoryId === null) return null;
+    return {
+      monthId,
+      categoryId: draft.categoryId,
+      amountCents: draft.amountCents,
+      note: draft.note ?? undefined,
+      expenseDate: draft.expenseDate,
+      isPaid: draft.isPaid,
+    };
+  },
+};
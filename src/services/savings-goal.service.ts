@@ -0,0 +1,88 @@
+import type { GoalContribution, SavingsGoal, SavingsGoalProgress } from "@/types";
+import { fromMonthIndex, parseDateString, toMonthIndex } from "@/utils";
+
+/**
+ * Savings goal progress and projections
+ * All amounts are integer cents; "now" is passed in as a year and month to keep the results reproducible
+ */
+export const SavingsGoalService = {
+  /**
+   * Sum the contributions made to a goal
+   */
+  calculateSavedCents(goalId: number, contributions: GoalContribution[]): number {
+    return contributions.filter((c) => c.goalId === goalId).reduce((sum, c) => sum + c.amountCents, 0);
+  },
+
+  /**
+   * Count the months left to save in, from the given month through the month of the target date
+   * e.g. March to the end of May → 3; 0 once the target month has passed
+   */
+  getMonthsLeft(targetDate: string, year: number, month: number): number {
+    const target = parseDateString(targetDate);
+    if (!target) return 0;
+    return Math.max(0, toMonthIndex(target.year, target.month) - toMonthIndex(year, month) + 1);
+  },
+
+  /**
+   * Get the amount to set aside each month to reach the target on time, rounded up to the cent
+   * @returns 0 when nothing is left to save, null when no months are left
+   */
+  calculateRequiredMonthly(remainingCents: number, monthsLeft: number): number | null {
+    if (remainingCents <= 0) return 0;
+    if (monthsLeft <= 0) return null;
+    return Math.ceil(remainingCents / monthsLeft);
+  },
+
+  /**
+   * Project the month a goal will be reached in at the average pace saved so far
+   * The pace counts every month from the first contribution through the given month, including months without any.
+   * @returns null without contributions or once the goal is reached
+   */
+  projectCompletion(
+    goal: SavingsGoal,
+    contributions: GoalContribution[],
+    year: number,
+    month: number,
+  ): { year: number; month: number } | null {
+    const own = contributions.filter((c) => c.goalId === goal.id);
+    const savedCents = own.reduce((sum, c) => sum + c.amountCents, 0);
+    if (own.length === 0 || savedCents >= goal.targetCents) return null;
+
+    const currentIndex = toMonthIndex(year, month);
+    const firstIndex = Math.min(...own.map((c) => toMonthIndex(c.year, c.month)));
+    const monthsSaving = Math.max(1, currentIndex - firstIndex + 1);
+    const perMonth = savedCents / monthsSaving;
+
+    return fromMonthIndex(currentIndex + Math.ceil((goal.targetCents - savedCents) / perMonth));
+  },
+
+  /**
+   * Summarize where a goal stands in the given month
+   */
+  getProgress(goal: SavingsGoal, contributions: GoalContribution[], year: number, month: number): SavingsGoalProgress {
+    const savedCents = this.calculateSavedCents(goal.id, contributions);
+    const remainingCents = Math.max(0, goal.targetCents - savedCents);
+    const isComplete = remainingCents === 0;
+    const monthsLeft = this.getMonthsLeft(goal.targetDate, year, month);
+    const projected = this.projectCompletion(goal, contributions, year, month);
+
+    let isOnTrack: boolean | null = null;
+    const target = parseDateString(goal.targetDate);
+    if (isComplete) {
+      isOnTrack = true;
+    } else if (projected && target) {
+      isOnTrack = toMonthIndex(projected.year, projected.month) <= toMonthIndex(target.year, target.month);
+    }
+
+    return {
+      savedCents,
+      remainingCents,
+      ratio: savedCents / goal.targetCents,
+      isComplete,
+      monthsLeft,
+      requiredMonthlyCents: this.calculateRequiredMonthly(remainingCents, monthsLeft),
+      projected,
+      isOnTrack,
+    };
+  },
+};
@@ -1,36 +1,191 @@
 import {
+  AccountRepository,
   AllowanceRepository,
+  CategoryBudgetRepository,
   CategoryRepository,
+  DuplicateRepository,
+  ExchangeRateRepository,
   ExpenseRepository,
+  ExpenseTemplateRepository,
+  IncomeEntryRepository,
+  InstallmentPlanRepository,
+  MerchantRepository,
   MonthRepository,
   ProfileRepository,
+  RecurringExpenseRepository,
+  SavingsGoalRepository,
   SettingsRepository,
+  TagRepository,
 } from "@/database";
 import type { Profile } from "@/database/repositories/profile.repository";
-import { CalculationService } from "@/services";
+import { AttachmentService, CalculationService } from "@/services";
 import type {
+  Account,
   AllowanceSource,
   Category,
+  CategoryBudget,
+  CreateAccountDTO,
   CreateAllowanceSourceDTO,
   CreateCategoryDTO,
   CreateExpenseDTO,
+  CreateExpenseTemplateDTO,
+  CreateIncomeEntryDTO,
+  CreateInstallmentPlanDTO,
+  CreateRecurringExpenseDTO,
+  CreateSavingsGoalDTO,
+  ExchangeRate,
   Expense,
+  ExpenseTemplate,
+  GoalContribution,
+  IncomeEntry,
+  InstallmentPlan,
+  Merchant,
   MonthSummary,
+  RecurringExpense,
+  SavingsGoal,
+  Tag,
+  UpdateAccountDTO,
   UpdateAllowanceSourceDTO,
   UpdateCategoryDTO,
   UpdateExpenseDTO,
+  UpdateIncomeEntryDTO,
+  UpdateRecurringExpenseDTO,
+  UpdateSavingsGoalDTO,
 } from "@/types";
-import { getCurrentYear } from "@/utils";
+import { getCurrentMonth, getCurrentYear, getDaysInMonth, parseDateString, toDateString } from "@/utils";
 import { create } from "zustand";
 
+// Undo/redo history is capped to keep the closures (and the snapshots they hold) bounded
+const MAX_HISTORY = 50;
+
+interface HistoryEntry {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// The change the snackbar offers to undo (or redo, once undone)
+interface LastChange {
+  id: number;
+  label: string;
+  undone: boolean;
+}
+
+let lastChangeId = 0;
+
+/**
+ * Current state of expenses (for undo snapshots); deleted or unknown ids are skipped
+ */
+async function snapshotExpenses(ids: number[]): Promise<Expense[]> {
+  const expenses = await Promise.all(ids.map((id) => ExpenseRepository.findById(id)));
+  return expenses.filter((e): e is Expense => e !== null);
+}
+
+async function overwriteExpenses(snapshots: Expense[]): Promise<void> {
+  for (const snapshot of snapshots) {
+    await ExpenseRepository.overwrite(snapshot);
+  }
+}
+
+/**
+ * Month record an expense dated `expenseDate` belongs to
+ * A date outside the month of `monthId` moves the expense to its own month, created if needed.
+ */
+async function monthIdForDate(monthId: number, expenseDate: string, profileId: number): Promise<number> {
+  const date = parseDateString(expenseDate);
+  const month = await MonthRepository.findById(monthId);
+  if (!date || !month || (month.year === date.year && month.month === date.month)) return monthId;
+  return (await MonthRepository.getOrCreate(date.year, date.month, profileId)).id;
+}
+
+/**
+ * Load a year of a profile and summarize its 12 months
+ */
+async function loadYearSummaries(year: number, profileId: number) {
+  // Load allowance sources for the specific year and profile
+  const sources = await AllowanceRepository.findAllActiveByYear(year, profileId);
+
+  // Load months for the year and profile
+  const monthRecords = await MonthRepository.findByYear(year, profileId);
+  const incomeEntries = await IncomeEntryRepository.findByYear(year, profileId);
+  const categoryBudgets = await CategoryBudgetRepository.findByYear(year, profileId);
+  const allocatedByMonth = await SavingsGoalRepository.getAllocatedByMonth(year, profileId);
+
+  // Build summaries for all 12 months in parallel
+  const summaryPromises = Array.from({ length: 12 }, async (_, i) => {
+    const m = i + 1;
+    const monthRecord = monthRecords.find((r) => r.month === m) ?? null;
+    let expenses: Expense[] = [];
+
+    if (monthRecord) {
+      expenses = await ExpenseRepository.findByMonthId(monthRecord.id);
+    }
+
+    const monthIncome = monthRecord ? incomeEntries.filter((e) => e.monthId === monthRecord.id) : [];
+    return CalculationService.createMonthSummary(
+      year,
+      m,
+      monthRecord,
+      CalculationService.calculateMonthAllowance(sources, m),
+      expenses,
+      monthIncome,
+      CalculationService.getCategoryBudgets(categoryBudgets, m),
+      allocatedByMonth.get(m) ?? 0,
+    );
+  });
+
+  const summaries = await Promise.all(summaryPromises);
+  return { sources, incomeEntries, categoryBudgets, summaries };
+}
+
+/**
+ * Carry remaining balances through a year in rollover mode
+ * The rollover starts at the profile's first month with a month record or an allowance; each year
+ * before `year` is summarized to find the balance carried into January.
+ */
+async function applyRolloverToYear(
+  year: number,
+  summaries: MonthSummary[],
+  profileId: number,
+): Promise<MonthSummary[]> {
+  const start = await MonthRepository.findFirstTracked(profileId);
+  if (!start || start.year > year) {
+    return CalculationService.applyRollover(summaries, 0, 13);
+  }
+
+  let carryInCents = 0;
+  for (let y = start.year; y < year; y++) {
+    const previous = await loadYearSummaries(y, profileId);
+    const carried = CalculationService.applyRollover(
+      previous.summaries,
+      carryInCents,
+      y === start.year ? start.month : 1,
+    );
+    carryInCents = carried[carried.length - 1]?.carryOutCents ?? 0;
+  }
+  return CalculationService.applyRollover(summaries, carryInCents, start.year === year ? start.month : 1);
+}
+
 interface AppState {
   // --- Data ---
   selectedYear: number;
   allowanceSources: AllowanceSource[];
+  incomeEntries: IncomeEntry[]; // One-off income of every month in `selectedYear`
   categories: Category[];
+  categoryBudgets: CategoryBudget[]; // Budgets of `selectedYear`, yearly and per month
+  recurringExpenses: RecurringExpense[];
+  installmentPlans: InstallmentPlan[];
+  savingsGoals: SavingsGoal[]; // Nearest target date first
+  goalContributions: GoalContribution[]; // Contributions to every goal, across all years
+  tags: Tag[];
+  merchants: Merchant[];
+  accounts: Account[];
+  expenseTemplates: ExpenseTemplate[]; // Most used first
+  exchangeRates: ExchangeRate[]; // Rates into the current `currency`
   monthSummaries: MonthSummary[];
   currency: string;
   hideCents: boolean;
+  trashAutoPurgeDays: number; // 0 keeps deleted records until purged by hand
 
   // Profile support
   currentProfileId: number;
@@ -40,12 +195,16 @@ interface AppState {
   selectedMonthId: number | null;
   selectedMonthExpenses: Expense[];
 
+  // Undo/redo of expense, category and allowance edits
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  lastChange: LastChange | null;
+
   // --- Loading States ---
   isLoading: boolean;
   isLoadingExpenses: boolean;
 
   // --- Computed Values ---
-  defaultAllowanceCents: number;
   avgAllowanceCents: number;
   totalExcessCents: number;
   totalSpentCents: number;
@@ -60,6 +219,13 @@ interface AppState {
   loadYearData: (year: number) => Promise<void>;
   refreshData: () => Promise<void>;
 
+  // --- Actions: Undo/Redo ---
+  recordChange: (entry: HistoryEntry) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismissLastChange: () => void;
+  clearHistory: () => void;
+
   // --- Actions: Allowance Sources ---
   addAllowanceSource: (dto: CreateAllowanceSourceDTO) => Promise<AllowanceSource>;
   updateAllowanceSource: (id: number, dto: UpdateAllowanceSourceDTO) => Promise<AllowanceSource>;
@@ -68,23 +234,102 @@ interface AppState {
   // --- Actions: Month Allowance Override ---
   setMonthAllowanceOverride: (year: number, month: number, amountCents: number | null) => Promise<void>;
 
+  // --- Actions: Category Budgets ---
+  setCategoryBudget: (
+    categoryId: number,
+    year: number,
+    month: number | null,
+    amountCents: number | null,
+  ) => Promise<void>;
+
+  // --- Actions: Income Entries ---
+  addIncomeEntry: (dto: CreateIncomeEntryDTO) => Promise<IncomeEntry>;
+  updateIncomeEntry: (id: number, dto: UpdateIncomeEntryDTO) => Promise<IncomeEntry>;
+  deleteIncomeEntry: (id: number) => Promise<void>;
+
   // --- Actions: Expenses ---
   addExpense: (dto: CreateExpenseDTO) => Promise<Expense>;
   updateExpense: (id: number, dto: UpdateExpenseDTO) => Promise<Expense>;
   deleteExpense: (id: number) => Promise<void>;
+  duplicateExpense: (id: number) => Promise<Expense>;
+  moveExpense: (id: number, year: number, month: number) => Promise<Expense>;
+  mergeDuplicateExpenses: (keepId: number, removeId: number) => Promise<void>;
+  dismissDuplicate: (expenseId: number, otherExpenseId: number) => Promise<void>;
   bulkUpdateExpensePaidStatus: (ids: number[], isPaid: boolean) => Promise<void>;
   bulkUpdateExpenseVerifiedStatus: (ids: number[], isVerified: boolean) => Promise<void>;
   bulkDeleteExpenses: (ids: number[]) => Promise<void>;
 
+  // --- Actions: Recurring Expenses ---
+  loadRecurringExpenses: () => Promise<void>;
+  addRecurringExpense: (dto: CreateRecurringExpenseDTO) => Promise<RecurringExpense>;
+  updateRecurringExpense: (
+    id: number,
+    dto: UpdateRecurringExpenseDTO,
+    fromYear: number,
+    fromMonth: number,
+    keepExpenseId?: number,
+  ) => Promise<RecurringExpense>;
+  deleteRecurringExpense: (id: number) => Promise<void>;
+
+  // --- Actions: Installment Plans ---
+  loadInstallmentPlans: () => Promise<void>;
+  addInstallmentPlan: (dto: CreateInstallmentPlanDTO) => Promise<InstallmentPlan>;
+  payOffInstallmentPlan: (id: number) => Promise<void>;
+  cancelInstallmentPlan: (id: number) => Promise<void>;
+
+  // --- Actions: Savings Goals ---
+  loadSavingsGoals: () => Promise<void>;
+  addSavingsGoal: (dto: CreateSavingsGoalDTO) => Promise<SavingsGoal>;
+  updateSavingsGoal: (id: number, dto: UpdateSavingsGoalDTO) => Promise<SavingsGoal>;
+  deleteSavingsGoal: (id: number) => Promise<void>;
+  contributeToGoal: (goalId: number, monthId: number, amountCents: number) => Promise<void>;
+  deleteGoalContribution: (id: number) => Promise<void>;
+
+  // --- Actions: Tags ---
+  loadTags: () => Promise<void>;
+  ensureTags: (names: string[]) => Promise<number[]>;
+
+  // --- Actions: Merchants ---
+  loadMerchants: () => Promise<void>;
+  ensureMerchant: (name: string) => Promise<Merchant>;
+
+  // --- Actions: Accounts ---
+  loadAccounts: () => Promise<void>;
+  addAccount: (dto: CreateAccountDTO) => Promise<Account>;
+  updateAccount: (id: number, dto: UpdateAccountDTO) => Promise<Account>;
+  deleteAccount: (id: number) => Promise<void>;
+
+  // --- Actions: Expense Templates ---
+  loadExpenseTemplates: () => Promise<void>;
+  addExpenseTemplate: (dto: CreateExpenseTemplateDTO) => Promise<ExpenseTemplate>;
+  deleteExpenseTemplate: (id: number) => Promise<void>;
+  recordExpenseTemplateUse: (id: number) => Promise<void>;
+  addExpenseFromTemplate: (id: number, monthId: number, expenseDate?: string) => Promise<Expense>;
+
+  // --- Actions: Exchange Rates ---
+  loadExchangeRates: () => Promise<void>;
+  setExchangeRate: (currency: string, rate: number) => Promise<ExchangeRate>;
+  deleteExchangeRate: (id: number) => Promise<void>;
+
   // --- Actions: Categories ---
   loadCategories: () => Promise<void>;
   addCategory: (dto: CreateCategoryDTO) => Promise<Category>;
   updateCategory: (id: number, dto: UpdateCategoryDTO) => Promise<Category>;
   deleteCategory: (id: number) => Promise<void>;
 
+  // --- Actions: Trash ---
+  restoreExpense: (id: number) => Promise<void>;
+  restoreCategory: (id: number) => Promise<void>;
+  restoreAllowanceSource: (id: number) => Promise<void>;
+  purgeExpense: (id: number) => Promise<void>;
+  purgeCategory: (id: number) => Promise<void>;
+  purgeAllowanceSource: (id: number) => Promise<void>;
+  purgeExpiredTrash: () => Promise<void>;
+
   // --- Actions: Settings ---
   setCurrency: (currency: string) => Promise<void>;
   setHideCents: (hideCents: boolean) => Promise<void>;
+  setTrashAutoPurgeDays: (days: number) => Promise<void>;
 
   // --- Actions: Profiles ---
   loadProfiles: () => Promise<void>;
@@ -92,23 +337,38 @@ interface AppState {
   createProfile: (name: string) => Promise<Profile>;
   deleteProfile: (id: number) => Promise<void>;
   renameProfile: (id: number, name: string) => Promise<void>;
+  setRolloverEnabled: (enabled: boolean) => Promise<void>;
 }
 
 export const useAppStore = create<AppState>((set, get) => ({
   // --- Initial State ---
   selectedYear: getCurrentYear(),
   allowanceSources: [],
+  incomeEntries: [],
   categories: [],
+  categoryBudgets: [],
+  recurringExpenses: [],
+  installmentPlans: [],
+  savingsGoals: [],
+  goalContributions: [],
+  tags: [],
+  merchants: [],
+  accounts: [],
+  expenseTemplates: [],
+  exchangeRates: [],
   monthSummaries: [],
   currency: "USD",
   hideCents: false,
+  trashAutoPurgeDays: 0,
   currentProfileId: 1,
   profiles: [],
   selectedMonthId: null,
   selectedMonthExpenses: [],
+  undoStack: [],
+  redoStack: [],
+  lastChange: null,
   isLoading: false,
   isLoadingExpenses: false,
-  defaultAllowanceCents: 0,
   avgAllowanceCents: 0,
   totalExcessCents: 0,
   totalSpentCents: 0,
@@ -126,7 +386,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ isLoadingExpenses: true });
     const profileId = get().currentProfileId;
     try {
-      // Ensure month record exists for this profile
+      // Ensure month record exists for this profile (also generates due recurring expenses)
       const monthRecord = await MonthRepository.getOrCreate(year, month, profileId);
       const expenses = await ExpenseRepository.findByMonthId(monthRecord.id);
 
@@ -145,6 +405,11 @@ export const useAppStore = create<AppState>((set, get) => ({
         monthSummaries: updatedSummaries,
         isLoadingExpenses: false,
       });
+
+      // Generated expenses aren't in the cached summary yet
+      if (monthRecord.generatedCount > 0 && year === get().selectedYear) {
+        await get().loadYearData(year);
+      }
     } catch (error) {
       console.error("Failed to select month:", error);
       set({ isLoadingExpenses: false });
@@ -187,6 +452,22 @@ export const useAppStore = create<AppState>((set, get) => ({
         set({ hideCents: savedHideCents === "true" });
       }
 
+      // Load the trash auto-purge age and drop what has expired before loading data
+      const savedTrashAutoPurgeDays = await SettingsRepository.get("trashAutoPurgeDays");
+      if (savedTrashAutoPurgeDays) {
+        set({ trashAutoPurgeDays: parseInt(savedTrashAutoPurgeDays, 10) || 0 });
+      }
+      await get().purgeExpiredTrash();
+
+      await get().loadRecurringExpenses();
+      await get().loadInstallmentPlans();
+      await get().loadSavingsGoals();
+      await get().loadTags();
+      await get().loadMerchants();
+      await get().loadAccounts();
+      await get().loadExpenseTemplates();
+      await get().loadExchangeRates();
+
       await get().loadYearData(get().selectedYear);
     } finally {
       set({ isLoading: false });
@@ -198,32 +479,19 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ isLoading: true });
     const profileId = get().currentProfileId;
     try {
-      // Load allowance sources for the specific year and profile
-      const sources = await AllowanceRepository.findAllActiveByYear(year, profileId);
-      const defaultAllowance = CalculationService.calculateTotalAllowance(sources);
-
-      // Load months for the year and profile
-      const monthRecords = await MonthRepository.findByYear(year, profileId);
-
-      // Build summaries for all 12 months in parallel
-      const summaryPromises = Array.from({ length: 12 }, async (_, i) => {
-        const m = i + 1;
-        const monthRecord = monthRecords.find((r) => r.month === m) ?? null;
-        let expenses: Expense[] = [];
+      const loaded = await loadYearSummaries(year, profileId);
+      const { sources, incomeEntries, categoryBudgets } = loaded;
 
-        if (monthRecord) {
-          expenses = await ExpenseRepository.findByMonthId(monthRecord.id);
-        }
-
-        return CalculationService.createMonthSummary(year, m, monthRecord, defaultAllowance, expenses);
-      });
-
-      const summaries = await Promise.all(summaryPromises);
+      // Carry remaining balances from month to month when the profile uses rollover
+      const profile = await ProfileRepository.getById(profileId);
+      const rolloverEnabled = profile?.rolloverEnabled ?? false;
+      const summaries = rolloverEnabled
+        ? await applyRolloverToYear(year, loaded.summaries, profileId)
+        : loaded.summaries;
 
       // Calculate excess: only up to the current month for this year
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth() + 1;
+      const currentYear = getCurrentYear();
+      const currentMonth = getCurrentMonth();
 
       let upToMonth: number;
       if (year < currentYear) {
@@ -237,15 +505,19 @@ export const useAppStore = create<AppState>((set, get) => ({
         upToMonth = currentMonth;
       }
 
-      const totalExcess = CalculationService.calculateTotalExcess(summaries, upToMonth);
+      // In rollover mode the balance carried so far already holds every earlier remainder
+      const totalExcess = rolloverEnabled
+        ? CalculationService.calculateRolloverBalance(summaries, upToMonth)
+        : CalculationService.calculateTotalExcess(summaries, upToMonth);
       const totalSpent = summaries.reduce((sum, m) => sum + m.spentCents, 0);
       const avgAllowance = Math.round(summaries.reduce((sum, m) => sum + m.allowanceCents, 0) / 12);
 
       set({
         selectedYear: year,
         allowanceSources: sources,
+        incomeEntries,
+        categoryBudgets,
         monthSummaries: summaries,
-        defaultAllowanceCents: defaultAllowance,
         avgAllowanceCents: avgAllowance,
         totalExcessCents: totalExcess,
         totalSpentCents: totalSpent,
@@ -259,6 +531,14 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   refreshData: async () => {
     await get().loadYearData(get().selectedYear);
+    await get().loadRecurringExpenses();
+    await get().loadInstallmentPlans();
+    await get().loadSavingsGoals();
+    await get().loadTags();
+    await get().loadMerchants();
+    await get().loadAccounts();
+    await get().loadExpenseTemplates();
+    await get().loadExchangeRates();
 
     // If a month is selected, refresh its expenses too
     const { selectedMonthId } = get();
@@ -268,64 +548,532 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  // --- Undo/Redo ---
+  recordChange: (entry: HistoryEntry) => {
+    set((state) => ({
+      undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY),
+      redoStack: [],
+      lastChange: { id: ++lastChangeId, label: entry.label, undone: false },
+    }));
+  },
+
+  undo: async () => {
+    const entry = get().undoStack.at(-1);
+    if (!entry) return;
+    await entry.undo();
+    set((state) => ({
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: [...state.redoStack, entry],
+      lastChange: { id: ++lastChangeId, label: entry.label, undone: true },
+    }));
+    await get().loadCategories();
+    await get().refreshData();
+  },
+
+  redo: async () => {
+    const entry = get().redoStack.at(-1);
+    if (!entry) return;
+    await entry.redo();
+    set((state) => ({
+      undoStack: [...state.undoStack, entry],
+      redoStack: state.redoStack.slice(0, -1),
+      lastChange: { id: ++lastChangeId, label: entry.label, undone: false },
+    }));
+    await get().loadCategories();
+    await get().refreshData();
+  },
+
+  dismissLastChange: () => {
+    set({ lastChange: null });
+  },
+
+  clearHistory: () => {
+    set({ undoStack: [], redoStack: [], lastChange: null });
+  },
+
   // --- Allowance Sources ---
   addAllowanceSource: async (dto: CreateAllowanceSourceDTO) => {
     const profileId = get().currentProfileId;
     const source = await AllowanceRepository.create(dto, profileId);
+    get().recordChange({
+      label: "Allowance source added",
+      undo: () => AllowanceRepository.softDelete(source.id),
+      redo: () => AllowanceRepository.restore(source.id),
+    });
     await get().refreshData();
     return source;
   },
 
   updateAllowanceSource: async (id: number, dto: UpdateAllowanceSourceDTO) => {
+    const before = await AllowanceRepository.findById(id);
     const source = await AllowanceRepository.update(id, dto);
+    if (before) {
+      const toDTO = (s: AllowanceSource): UpdateAllowanceSourceDTO => ({
+        name: s.name,
+        amountCents: s.amountCents,
+        isActive: s.isActive,
+        frequency: s.frequency,
+        startMonth: s.startMonth,
+        endMonth: s.endMonth,
+        firstPayDay: s.firstPayDay,
+      });
+      get().recordChange({
+        label: "Allowance source updated",
+        undo: async () => {
+          await AllowanceRepository.update(id, toDTO(before));
+        },
+        redo: async () => {
+          await AllowanceRepository.update(id, toDTO(source));
+        },
+      });
+    }
     await get().refreshData();
     return source;
   },
 
   deleteAllowanceSource: async (id: number) => {
     await AllowanceRepository.softDelete(id);
+    get().recordChange({
+      label: "Allowance source deleted",
+      undo: () => AllowanceRepository.restore(id),
+      redo: () => AllowanceRepository.softDelete(id),
+    });
     await get().refreshData();
   },
 
   // --- Month Override ---
   setMonthAllowanceOverride: async (year: number, month: number, amountCents: number | null) => {
     const profileId = get().currentProfileId;
+    const before = (await MonthRepository.findByYearMonth(year, month, profileId))?.allowanceOverrideCents ?? null;
     await MonthRepository.setAllowanceOverride(year, month, amountCents, profileId);
+    get().recordChange({
+      label: "Month allowance updated",
+      undo: async () => {
+        await MonthRepository.setAllowanceOverride(year, month, before, profileId);
+      },
+      redo: async () => {
+        await MonthRepository.setAllowanceOverride(year, month, amountCents, profileId);
+      },
+    });
+    await get().refreshData();
+  },
+
+  // --- Category Budgets ---
+  setCategoryBudget: async (categoryId: number, year: number, month: number | null, amountCents: number | null) => {
+    const profileId = get().currentProfileId;
+    const before = await CategoryBudgetRepository.getAmount(categoryId, year, month, profileId);
+    await CategoryBudgetRepository.set(categoryId, year, month, amountCents, profileId);
+    get().recordChange({
+      label: "Budget updated",
+      undo: async () => {
+        await CategoryBudgetRepository.set(categoryId, year, month, before, profileId);
+      },
+      redo: async () => {
+        await CategoryBudgetRepository.set(categoryId, year, month, amountCents, profileId);
+      },
+    });
+    await get().refreshData();
+  },
+
+  // --- Income Entries ---
+  addIncomeEntry: async (dto: CreateIncomeEntryDTO) => {
+    const entry = await IncomeEntryRepository.create(dto);
+    await get().refreshData();
+    return entry;
+  },
+
+  updateIncomeEntry: async (id: number, dto: UpdateIncomeEntryDTO) => {
+    const entry = await IncomeEntryRepository.update(id, dto);
+    await get().refreshData();
+    return entry;
+  },
+
+  deleteIncomeEntry: async (id: number) => {
+    await IncomeEntryRepository.softDelete(id);
     await get().refreshData();
   },
 
   // --- Expenses ---
   addExpense: async (dto: CreateExpenseDTO) => {
-    const expense = await ExpenseRepository.create(dto);
+    const monthId = dto.expenseDate
+      ? await monthIdForDate(dto.monthId, dto.expenseDate, get().currentProfileId)
+      : dto.monthId;
+    const expense = await ExpenseRepository.create({ ...dto, monthId });
+    get().recordChange({
+      label: "Expense added",
+      undo: () => ExpenseRepository.softDelete(expense.id),
+      redo: () => ExpenseRepository.restore(expense.id),
+    });
     await get().refreshData();
     return expense;
   },
 
   updateExpense: async (id: number, dto: UpdateExpenseDTO) => {
+    const before = await snapshotExpenses([id]);
+    const original = before[0];
+    if (original && dto.expenseDate !== undefined && dto.monthId === undefined) {
+      const monthId = await monthIdForDate(original.monthId, dto.expenseDate, get().currentProfileId);
+      if (monthId !== original.monthId) dto = { ...dto, monthId };
+    }
     const expense = await ExpenseRepository.update(id, dto);
+    get().recordChange({
+      label: "Expense updated",
+      undo: () => overwriteExpenses(before),
+      redo: () => overwriteExpenses([expense]),
+    });
     await get().refreshData();
     return expense;
   },
 
   deleteExpense: async (id: number) => {
     await ExpenseRepository.softDelete(id);
+    get().recordChange({
+      label: "Expense deleted",
+      undo: () => ExpenseRepository.restore(id),
+      redo: () => ExpenseRepository.softDelete(id),
+    });
+    await get().refreshData();
+  },
+
+  duplicateExpense: async (id: number) => {
+    const original = await ExpenseRepository.findById(id);
+    if (!original) throw new Error("Expense not found");
+    // The copy starts unpaid and isn't tied to the original's recurring rule or installment plan
+    return get().addExpense({
+      monthId: original.monthId,
+      categoryId: original.categoryId,
+      amountCents: original.amountCents,
+      note: original.note ?? undefined,
+      expenseDate: original.expenseDate,
+      merchantId: original.merchantId,
+      accountId: original.accountId,
+      foreignAmount:
+        original.originalCurrency && original.originalAmountCents !== null && original.exchangeRate !== null
+          ? {
+              currency: original.originalCurrency,
+              amountCents: original.originalAmountCents,
+              rate: original.exchangeRate,
+            }
+          : undefined,
+      kind: original.kind,
+      refundOfExpenseId: original.refundOfExpenseId,
+      lineItems: original.lineItems.map((item) => ({
+        categoryId: item.categoryId,
+        amountCents: item.amountCents,
+        note: item.note ?? undefined,
+      })),
+      tagIds: original.tagIds,
+    });
+  },
+
+  moveExpense: async (id: number, year: number, month: number) => {
+    const before = await snapshotExpenses([id]);
+    const original = before[0];
+    if (!original) throw new Error("Expense not found");
+    const target = await MonthRepository.getOrCreate(year, month, get().currentProfileId);
+    // Keep the day of the month, clamped to the length of the target month
+    const day = Math.min(parseDateString(original.expenseDate)?.day ?? 1, getDaysInMonth(year, month));
+    const expenseDate = toDateString(year, month, day);
+    const expense = await ExpenseRepository.update(id, { monthId: target.id, expenseDate });
+    get().recordChange({
+      label: "Expense moved",
+      undo: () => overwriteExpenses(before),
+      redo: () => overwriteExpenses([expense]),
+    });
+    await get().refreshData();
+    return expense;
+  },
+
+  mergeDuplicateExpenses: async (keepId: number, removeId: number) => {
+    const before = await snapshotExpenses([keepId, removeId]);
+    const kept = before.find((e) => e.id === keepId);
+    const removed = before.find((e) => e.id === removeId);
+    if (!kept || !removed) throw new Error("Expense not found");
+    // The kept expense takes over whatever only the removed one had; its amount and category stay
+    const after = await ExpenseRepository.update(keepId, {
+      note: kept.note ?? removed.note ?? undefined,
+      merchantId: kept.merchantId ?? removed.merchantId,
+      accountId: kept.accountId ?? removed.accountId,
+      isPaid: kept.isPaid || removed.isPaid,
+      tagIds: [...new Set([...kept.tagIds, ...removed.tagIds])],
+    });
+    await ExpenseRepository.softDelete(removeId);
+    get().recordChange({
+      label: "Duplicates merged",
+      undo: () => overwriteExpenses(before),
+      redo: async () => {
+        await overwriteExpenses([after]);
+        await ExpenseRepository.softDelete(removeId);
+      },
+    });
+    await get().refreshData();
+  },
+
+  dismissDuplicate: async (expenseId: number, otherExpenseId: number) => {
+    await DuplicateRepository.dismiss(expenseId, otherExpenseId);
+    get().recordChange({
+      label: "Not a duplicate",
+      undo: () => DuplicateRepository.undismiss(expenseId, otherExpenseId),
+      redo: () => DuplicateRepository.dismiss(expenseId, otherExpenseId),
+    });
     await get().refreshData();
   },
 
   bulkUpdateExpensePaidStatus: async (ids: number[], isPaid: boolean) => {
+    // Un-paying also drops verification, so the whole expense is snapshotted
+    const before = await snapshotExpenses(ids);
     await ExpenseRepository.bulkUpdatePaidStatus(ids, isPaid);
+    const after = await snapshotExpenses(ids);
+    get().recordChange({
+      label: `${ids.length} ${ids.length === 1 ? "expense" : "expenses"} marked ${isPaid ? "paid" : "unpaid"}`,
+      undo: () => overwriteExpenses(before),
+      redo: () => overwriteExpenses(after),
+    });
     await get().refreshData();
   },
   bulkUpdateExpenseVerifiedStatus: async (ids: number[], isVerified: boolean) => {
+    const before = await snapshotExpenses(ids);
     await ExpenseRepository.bulkUpdateVerifiedStatus(ids, isVerified);
+    const after = await snapshotExpenses(ids);
+    get().recordChange({
+      label: `${ids.length} ${ids.length === 1 ? "expense" : "expenses"} marked ${isVerified ? "verified" : "unverified"}`,
+      undo: () => overwriteExpenses(before),
+      redo: () => overwriteExpenses(after),
+    });
     await get().refreshData();
   },
 
   bulkDeleteExpenses: async (ids: number[]) => {
+    // Only expenses that were live come back on undo
+    const deleted = (await snapshotExpenses(ids)).map((e) => e.id);
     await ExpenseRepository.bulkDelete(ids);
+    get().recordChange({
+      label: `${ids.length} ${ids.length === 1 ? "expense" : "expenses"} deleted`,
+      undo: async () => {
+        for (const id of deleted) {
+          await ExpenseRepository.restore(id);
+        }
+      },
+      redo: () => ExpenseRepository.bulkDelete(deleted),
+    });
     await get().refreshData();
   },
 
+  // --- Recurring Expenses ---
+  loadRecurringExpenses: async () => {
+    const recurringExpenses = await RecurringExpenseRepository.findAll(get().currentProfileId);
+    set({ recurringExpenses });
+  },
+
+  addRecurringExpense: async (dto: CreateRecurringExpenseDTO) => {
+    const profileId = get().currentProfileId;
+    const template = await RecurringExpenseRepository.create(dto, profileId);
+
+    // Generate the first occurrence right away if the open month is already due
+    const { selectedMonthId, monthSummaries } = get();
+    const selected = monthSummaries.find((s) => s.monthId === selectedMonthId);
+    if (selected) {
+      await MonthRepository.getOrCreate(selected.year, selected.month, profileId);
+    }
+
+    await get().refreshData();
+    return template;
+  },
+
+  updateRecurringExpense: async (id, dto, fromYear, fromMonth, keepExpenseId) => {
+    const template = await RecurringExpenseRepository.updateFromMonth(id, dto, fromYear, fromMonth, keepExpenseId);
+    await get().refreshData();
+    return template;
+  },
+
+  deleteRecurringExpense: async (id: number) => {
+    await RecurringExpenseRepository.softDelete(id);
+    await get().refreshData();
+  },
+
+  // --- Installment Plans ---
+  loadInstallmentPlans: async () => {
+    const installmentPlans = await InstallmentPlanRepository.findAll(get().currentProfileId);
+    set({ installmentPlans });
+  },
+
+  addInstallmentPlan: async (dto: CreateInstallmentPlanDTO) => {
+    const profileId = get().currentProfileId;
+    const plan = await InstallmentPlanRepository.create(dto, profileId);
+
+    // Generate the first installment right away if the open month is already covered
+    const { selectedMonthId, monthSummaries } = get();
+    const selected = monthSummaries.find((s) => s.monthId === selectedMonthId);
+    if (selected) {
+      await MonthRepository.getOrCreate(selected.year, selected.month, profileId);
+    }
+
+    await get().refreshData();
+    return plan;
+  },
+
+  payOffInstallmentPlan: async (id: number) => {
+    // The outstanding amount is paid in the current calendar month
+    const monthRecord = await MonthRepository.getOrCreate(getCurrentYear(), getCurrentMonth(), get().currentProfileId);
+    await InstallmentPlanRepository.payOff(id, monthRecord);
+    await get().refreshData();
+  },
+
+  cancelInstallmentPlan: async (id: number) => {
+    const monthRecord = await MonthRepository.getOrCreate(getCurrentYear(), getCurrentMonth(), get().currentProfileId);
+    await InstallmentPlanRepository.cancel(id, monthRecord);
+    await get().refreshData();
+  },
+
+  // --- Savings Goals ---
+  loadSavingsGoals: async () => {
+    const profileId = get().currentProfileId;
+    const savingsGoals = await SavingsGoalRepository.findAll(profileId);
+    const goalContributions = await SavingsGoalRepository.findContributions(profileId);
+    set({ savingsGoals, goalContributions });
+  },
+
+  addSavingsGoal: async (dto: CreateSavingsGoalDTO) => {
+    const goal = await SavingsGoalRepository.create(dto, get().currentProfileId);
+    await get().loadSavingsGoals();
+    return goal;
+  },
+
+  updateSavingsGoal: async (id: number, dto: UpdateSavingsGoalDTO) => {
+    const goal = await SavingsGoalRepository.update(id, dto);
+    await get().loadSavingsGoals();
+    return goal;
+  },
+
+  deleteSavingsGoal: async (id: number) => {
+    // Contributions go with the goal, so their amounts return to the months' balances
+    await SavingsGoalRepository.delete(id);
+    await get().refreshData();
+  },
+
+  contributeToGoal: async (goalId: number, monthId: number, amountCents: number) => {
+    const summary = get().monthSummaries.find((s) => s.monthId === monthId);
+    if (summary && amountCents > summary.remainingCents) {
+      throw new Error("Only what is left in the month can be set aside");
+    }
+    let contributionId = await SavingsGoalRepository.addContribution(goalId, monthId, amountCents);
+    get().recordChange({
+      label: "Set aside for goal",
+      undo: async () => {
+        await SavingsGoalRepository.deleteContribution(contributionId);
+      },
+      redo: async () => {
+        contributionId = await SavingsGoalRepository.addContribution(goalId, monthId, amountCents);
+      },
+    });
+    await get().refreshData();
+  },
+
+  deleteGoalContribution: async (id: number) => {
+    await SavingsGoalRepository.deleteContribution(id);
+    await get().refreshData();
+  },
+
+  // --- Tags ---
+  loadTags: async () => {
+    const tags = await TagRepository.findAll(get().currentProfileId);
+    set({ tags });
+  },
+
+  ensureTags: async (names: string[]) => {
+    const ids = await TagRepository.findOrCreateMany(names, get().currentProfileId);
+    await get().loadTags();
+    return ids;
+  },
+
+  // --- Merchants ---
+  loadMerchants: async () => {
+    const merchants = await MerchantRepository.findAll(get().currentProfileId);
+    set({ merchants });
+  },
+
+  ensureMerchant: async (name: string) => {
+    const merchant = await MerchantRepository.findOrCreate(name, get().currentProfileId);
+    await get().loadMerchants();
+    return merchant;
+  },
+
+  // --- Accounts ---
+  loadAccounts: async () => {
+    const accounts = await AccountRepository.findAll(get().currentProfileId);
+    set({ accounts });
+  },
+
+  addAccount: async (dto: CreateAccountDTO) => {
+    const account = await AccountRepository.create(dto, get().currentProfileId);
+    await get().loadAccounts();
+    return account;
+  },
+
+  updateAccount: async (id: number, dto: UpdateAccountDTO) => {
+    const account = await AccountRepository.update(id, dto);
+    await get().loadAccounts();
+    return account;
+  },
+
+  deleteAccount: async (id: number) => {
+    await AccountRepository.softDelete(id);
+    await get().loadAccounts();
+  },
+
+  // --- Expense Templates ---
+  loadExpenseTemplates: async () => {
+    const expenseTemplates = await ExpenseTemplateRepository.findAll(get().currentProfileId);
+    set({ expenseTemplates });
+  },
+
+  addExpenseTemplate: async (dto: CreateExpenseTemplateDTO) => {
+    const template = await ExpenseTemplateRepository.create(dto, get().currentProfileId);
+    await get().loadExpenseTemplates();
+    return template;
+  },
+
+  deleteExpenseTemplate: async (id: number) => {
+    await ExpenseTemplateRepository.delete(id);
+    await get().loadExpenseTemplates();
+  },
+
+  recordExpenseTemplateUse: async (id: number) => {
+    await ExpenseTemplateRepository.recordUse(id);
+    await get().loadExpenseTemplates();
+  },
+
+  addExpenseFromTemplate: async (id: number, monthId: number, expenseDate?: string) => {
+    const template = await ExpenseTemplateRepository.findById(id);
+    if (!template) throw new Error("Template not found");
+    const expense = await get().addExpense({
+      monthId,
+      categoryId: template.categoryId,
+      amountCents: template.amountCents,
+      note: template.note ?? undefined,
+      expenseDate,
+    });
+    await get().recordExpenseTemplateUse(id);
+    return expense;
+  },
+
+  // --- Exchange Rates ---
+  loadExchangeRates: async () => {
+    const exchangeRates = await ExchangeRateRepository.findAll(get().currency);
+    set({ exchangeRates });
+  },
+
+  setExchangeRate: async (currency: string, rate: number) => {
+    const exchangeRate = await ExchangeRateRepository.upsert(get().currency, currency, rate);
+    await get().loadExchangeRates();
+    return exchangeRate;
+  },
+
+  deleteExchangeRate: async (id: number) => {
+    await ExchangeRateRepository.delete(id);
+    await get().loadExchangeRates();
+  },
+
   // --- Categories ---
   loadCategories: async () => {
     const categories = await CategoryRepository.findAll();
@@ -334,24 +1082,95 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   addCategory: async (dto) => {
     const category = await CategoryRepository.create(dto);
+    get().recordChange({
+      label: "Category added",
+      undo: () => CategoryRepository.softDelete(category.id),
+      redo: () => CategoryRepository.restore(category.id),
+    });
     await get().loadCategories();
     return category;
   },
 
   updateCategory: async (id, dto) => {
+    const before = await CategoryRepository.findById(id);
     const category = await CategoryRepository.update(id, dto);
+    if (before) {
+      get().recordChange({
+        label: "Category updated",
+        undo: () => CategoryRepository.overwrite(before),
+        redo: () => CategoryRepository.overwrite(category),
+      });
+    }
     await get().loadCategories();
     return category;
   },
 
   deleteCategory: async (id) => {
     await CategoryRepository.softDelete(id);
+    get().recordChange({
+      label: "Category deleted",
+      undo: () => CategoryRepository.restore(id),
+      redo: () => CategoryRepository.softDelete(id),
+    });
+    await get().loadCategories();
+  },
+
+  // --- Trash ---
+  restoreExpense: async (id) => {
+    await ExpenseRepository.restore(id);
+    await get().loadCategories();
+    await get().refreshData();
+  },
+
+  restoreCategory: async (id) => {
+    await CategoryRepository.restore(id);
+    await get().loadCategories();
+  },
+
+  restoreAllowanceSource: async (id) => {
+    await AllowanceRepository.restore(id);
+    await get().refreshData();
+  },
+
+  purgeExpense: async (id) => {
+    // Attachment rows go with the expense, so their files are removed first
+    await AttachmentService.removeForExpense(id);
+    await ExpenseRepository.hardDelete(id);
     await get().loadCategories();
+    await get().refreshData();
+  },
+
+  purgeCategory: async (id) => {
+    await CategoryRepository.hardDelete(id);
+    await get().loadCategories();
+  },
+
+  purgeAllowanceSource: async (id) => {
+    await AllowanceRepository.hardDelete(id);
+    await get().refreshData();
+  },
+
+  purgeExpiredTrash: async () => {
+    const days = get().trashAutoPurgeDays;
+    if (days <= 0) return;
+    try {
+      // Expenses first, so categories only they still used can go in the same pass
+      const purgedIds = await ExpenseRepository.purgeDeletedOlderThan(days);
+      if (purgedIds.length > 0) {
+        await AttachmentService.cleanupOrphanedFiles();
+      }
+      await AllowanceRepository.purgeDeletedOlderThan(days);
+      await CategoryRepository.purgeDeletedOlderThan(days);
+    } catch (error) {
+      console.error("Failed to purge expired trash:", error);
+    }
   },
 
   setCurrency: async (currency: string) => {
     set({ currency });
     await SettingsRepository.set("currency", currency);
+    // Rates are kept per home currency
+    await get().loadExchangeRates();
   },
 
   setHideCents: async (hideCents: boolean) => {
@@ -359,6 +1178,12 @@ export const useAppStore = create<AppState>((set, get) => ({
     await SettingsRepository.set("hideCents", hideCents ? "true" : "false");
   },
 
+  setTrashAutoPurgeDays: async (days: number) => {
+    set({ trashAutoPurgeDays: days });
+    await SettingsRepository.set("trashAutoPurgeDays", String(days));
+    await get().purgeExpiredTrash();
+  },
+
   // --- Profiles ---
   loadProfiles: async () => {
     const profiles = await ProfileRepository.getAll();
@@ -375,10 +1200,18 @@ export const useAppStore = create<AppState>((set, get) => ({
     // First update the profileId so loadYearData uses the correct one
     set({ currentProfileId: profileId });
     await SettingsRepository.set("currentProfileId", String(profileId));
-    // Clear selected month when switching profiles
+    // Clear selected month and history when switching profiles
     set({ selectedMonthId: null, selectedMonthExpenses: [] });
+    get().clearHistory();
     // Now load data for the new profile
     await get().loadYearData(get().selectedYear);
+    await get().loadRecurringExpenses();
+    await get().loadInstallmentPlans();
+    await get().loadSavingsGoals();
+    await get().loadTags();
+    await get().loadMerchants();
+    await get().loadAccounts();
+    await get().loadExpenseTemplates();
   },
 
   createProfile: async (name: string) => {
@@ -391,6 +1224,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   deleteProfile: async (id: number) => {
     const { currentProfileId } = get();
     await ProfileRepository.delete(id);
+    await AttachmentService.cleanupOrphanedFiles();
     const profiles = await ProfileRepository.getAll();
 
     // If we deleted the current profile, switch to the first available
@@ -405,4 +1239,11 @@ export const useAppStore = create<AppState>((set, get) => ({
     const profiles = await ProfileRepository.getAll();
     set({ profiles });
   },
+
+  setRolloverEnabled: async (enabled: boolean) => {
+    await ProfileRepository.setRolloverEnabled(get().currentProfileId, enabled);
+    const profiles = await ProfileRepository.getAll();
+    set({ profiles });
+    await get().loadYearData(get().selectedYear);
+  },
 }));
@@ -9,10 +9,14 @@ interface UIState {
   isExportImportModalVisible: boolean;
   isProfileSecurityModalVisible: boolean;
   isVerifyExpensesModalVisible: boolean;
+  isCategoryBudgetsModalVisible: boolean;
+  isAllocateToGoalModalVisible: boolean;
 
   // Edit targets
   editingExpenseId: number | null;
   editingAllowanceSourceId: number | null;
+  attachmentsExpenseId: number | null; // Expense whose attachments are shown
+  historyExpenseId: number | null; // Expense whose change history is shown
 
   // Actions
   showAddExpenseModal: () => void;
@@ -35,6 +39,18 @@ interface UIState {
   showVerifyExpensesModal: () => void;
   hideVerifyExpensesModal: () => void;
 
+  showCategoryBudgetsModal: () => void;
+  hideCategoryBudgetsModal: () => void;
+
+  showAllocateToGoalModal: () => void;
+  hideAllocateToGoalModal: () => void;
+
+  showAttachmentsModal: (expenseId: number) => void;
+  hideAttachmentsModal: () => void;
+
+  showHistoryModal: (expenseId: number) => void;
+  hideHistoryModal: () => void;
+
   hideAllModals: () => void;
 }
 
@@ -47,8 +63,12 @@ export const useUIStore = create<UIState>((set) => ({
   isExportImportModalVisible: false,
   isProfileSecurityModalVisible: false,
   isVerifyExpensesModalVisible: false,
+  isCategoryBudgetsModalVisible: false,
+  isAllocateToGoalModalVisible: false,
   editingExpenseId: null,
   editingAllowanceSourceId: null,
+  attachmentsExpenseId: null,
+  historyExpenseId: null,
 
   // Expense modal actions
   showAddExpenseModal: () =>
@@ -103,6 +123,22 @@ export const useUIStore = create<UIState>((set) => ({
   showVerifyExpensesModal: () => set({ isVerifyExpensesModalVisible: true }),
   hideVerifyExpensesModal: () => set({ isVerifyExpensesModalVisible: false }),
 
+  // Category budgets modal
+  showCategoryBudgetsModal: () => set({ isCategoryBudgetsModalVisible: true }),
+  hideCategoryBudgetsModal: () => set({ isCategoryBudgetsModalVisible: false }),
+
+  // Allocate to goal modal
+  showAllocateToGoalModal: () => set({ isAllocateToGoalModalVisible: true }),
+  hideAllocateToGoalModal: () => set({ isAllocateToGoalModalVisible: false }),
+
+  // Attachments modal
+  showAttachmentsModal: (expenseId: number) => set({ attachmentsExpenseId: expenseId }),
+  hideAttachmentsModal: () => set({ attachmentsExpenseId: null }),
+
+  // History modal
+  showHistoryModal: (expenseId: number) => set({ historyExpenseId: expenseId }),
+  hideHistoryModal: () => set({ historyExpenseId: null }),
+
   // Reset all
   hideAllModals: () =>
     set({
@@ -113,7 +149,11 @@ export const useUIStore = create<UIState>((set) => ({
       isExportImportModalVisible: false,
       isProfileSecurityModalVisible: false,
       isVerifyExpensesModalVisible: false,
+      isCategoryBudgetsModalVisible: false,
+      isAllocateToGoalModalVisible: false,
       editingExpenseId: null,
       editingAllowanceSourceId: null,
+      attachmentsExpenseId: null,
+      historyExpenseId: null,
     }),
 }));
@@ -0,0 +1,35 @@
+import type { Expense } from "@/types";
+
+/**
+ * Build a paid, single-category expense for tests
+ * @param overrides - Fields that differ from the defaults
+ */
+export function makeExpense(overrides: Partial<Expense> = {}): Expense {
+  return {
+    id: 1,
+    monthId: 1,
+    categoryId: 1,
+    amountCents: 1000,
+    note: null,
+    expenseDate: "2026-01-01",
+    isPaid: true,
+    isVerified: false,
+    recurringExpenseId: null,
+    installmentPlanId: null,
+    installmentNumber: null,
+    merchantId: null,
+    accountId: null,
+    originalCurrency: null,
+    originalAmountCents: null,
+    exchangeRate: null,
+    kind: "expense",
+    refundOfExpenseId: null,
+    lineItems: [],
+    tagIds: [],
+    attachmentCount: 0,
+    createdAt: "",
+    updatedAt: "",
+    deletedAt: null,
+    ...overrides,
+  };
+}
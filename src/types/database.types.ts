@@ -5,6 +5,10 @@ export interface AllowanceSourceEntity {
   name: string;
   amount_cents: number;
   is_active: number; // SQLite boolean (0 or 1)
+  frequency: string; // AllowanceFrequency
+  start_month: number;
+  end_month: number;
+  first_pay_day: number;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -39,6 +43,193 @@ export interface ExpenseEntity {
   expense_date: string;
   is_paid: number; // SQLite boolean (0 or 1)
   is_verified: number; // SQLite boolean (0 or 1)
+  recurring_expense_id: number | null;
+  installment_plan_id: number | null;
+  installment_number: number | null;
+  merchant_id: number | null;
+  account_id: number | null;
+  original_currency: string | null; // Set when the expense was entered in a foreign currency
+  original_amount_cents: number | null;
+  exchange_rate: number | null; // Rate used to convert into amount_cents
+  kind: string; // 'expense' or 'refund'
+  refund_of_expense_id: number | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface IncomeEntryEntity {
+  id: number;
+  month_id: number;
+  name: string;
+  amount_cents: number;
+  entry_date: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface ExpenseLineItemEntity {
+  id: number;
+  expense_id: number;
+  category_id: number;
+  amount_cents: number;
+  note: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AttachmentEntity {
+  id: number;
+  expense_id: number;
+  file_name: string; // Name of the stored copy inside the attachments directory
+  original_name: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  created_at: string;
+}
+
+export interface AccountEntity {
+  id: number;
+  profile_id: number;
+  name: string;
+  kind: string; // AccountKind
+  starting_balance_cents: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface AccountTransactionEntity {
+  id: number;
+  account_id: number;
+  expense_id: number;
+  amount_cents: number; // Negative for a debit
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExchangeRateEntity {
+  id: number;
+  base_currency: string;
+  currency: string;
+  rate: number; // Units of base_currency per unit of currency
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MerchantEntity {
+  id: number;
+  profile_id: number;
+  name: string;
+  created_at: string;
+}
+
+export interface TagEntity {
+  id: number;
+  profile_id: number;
+  name: string;
+  created_at: string;
+}
+
+export interface ExpenseTagEntity {
+  expense_id: number;
+  tag_id: number;
+}
+
+export interface ExpenseAuditEntryEntity {
+  id: number;
+  expense_id: number;
+  action: string;
+  changes: string; // JSON
+  created_at: string;
+}
+
+export interface ExpenseTemplateEntity {
+  id: number;
+  profile_id: number;
+  category_id: number;
+  amount_cents: number;
+  note: string | null;
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CategoryBudgetEntity {
+  id: number;
+  profile_id: number;
+  category_id: number;
+  year: number;
+  month: number; // 0 = every month of the year
+  amount_cents: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavingsGoalEntity {
+  id: number;
+  profile_id: number;
+  name: string;
+  target_cents: number;
+  target_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GoalContributionEntity {
+  id: number;
+  goal_id: number;
+  month_id: number;
+  amount_cents: number;
+  created_at: string;
+}
+
+export interface DismissedDuplicateEntity {
+  expense_id: number;
+  other_expense_id: number;
+  created_at: string;
+}
+
+export interface GeneratedPeriodEntity {
+  recurring_expense_id: number | null;
+  installment_plan_id: number | null;
+  year: number;
+  month: number;
+  created_at: string;
+}
+
+export interface RecurringExpenseEntity {
+  id: number;
+  profile_id: number;
+  category_id: number;
+  amount_cents: number;
+  note: string | null;
+  day_of_month: number;
+  frequency: string;
+  start_year: number;
+  start_month: number;
+  end_year: number | null;
+  end_month: number | null;
+  is_active: number; // SQLite boolean (0 or 1)
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface InstallmentPlanEntity {
+  id: number;
+  profile_id: number;
+  category_id: number;
+  note: string | null;
+  total_cents: number;
+  installment_count: number;
+  day_of_month: number;
+  start_year: number;
+  start_month: number;
+  status: string;
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -1,16 +1,38 @@
 // DTOs - Data Transfer Objects for create/update operations
+import type { AccountKind, AllowanceFrequency, ExpenseKind, ExpenseSortOrder, RecurringFrequency } from "./ui.types";
 
 export interface CreateAllowanceSourceDTO {
   year: number;
   name: string;
   amountCents: number;
   isActive?: boolean;
+  frequency?: AllowanceFrequency; // Defaults to monthly for the whole year
+  startMonth?: number;
+  endMonth?: number;
+  firstPayDay?: number;
 }
 
 export interface UpdateAllowanceSourceDTO {
   name?: string;
   amountCents?: number;
   isActive?: boolean;
+  frequency?: AllowanceFrequency;
+  startMonth?: number;
+  endMonth?: number;
+  firstPayDay?: number;
+}
+
+export interface CreateIncomeEntryDTO {
+  monthId: number;
+  name: string;
+  amountCents: number;
+  entryDate: string;
+}
+
+export interface UpdateIncomeEntryDTO {
+  name?: string;
+  amountCents?: number;
+  entryDate?: string;
 }
 
 export interface CreateCategoryDTO {
@@ -43,13 +65,130 @@ export interface CreateExpenseDTO {
   amountCents: number;
   note?: string;
   expenseDate?: string;
+  isPaid?: boolean;
+  recurringExpenseId?: number;
+  installmentPlanId?: number;
+  installmentNumber?: number;
+  merchantId?: number | null;
+  accountId?: number | null;
+  foreignAmount?: ForeignAmountDTO;
+  kind?: ExpenseKind;
+  refundOfExpenseId?: number | null;
+  lineItems?: ExpenseLineItemDTO[];
+  tagIds?: number[];
 }
 
 export interface UpdateExpenseDTO {
+  monthId?: number; // Moves the expense to another month
   categoryId?: number;
   amountCents?: number;
-  note?: string;
+  note?: string | null; // null clears the note
   expenseDate?: string;
   isPaid?: boolean;
   isVerified?: boolean;
+  merchantId?: number | null; // null removes the merchant
+  accountId?: number | null; // null removes the account
+  foreignAmount?: ForeignAmountDTO | null; // null marks the expense as entered in the home currency
+  kind?: ExpenseKind;
+  refundOfExpenseId?: number | null; // null unlinks a refund from its original expense
+  lineItems?: ExpenseLineItemDTO[]; // Replaces the split; [] removes it
+  tagIds?: number[]; // Replaces the tags; [] removes them
+}
+
+// Filters of a cross-month expense query; omitted fields don't filter
+export interface ExpenseQueryDTO {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  categoryIds?: number[]; // Split expenses match on any line item
+  isPaid?: boolean;
+  isVerified?: boolean;
+  minAmountCents?: number;
+  maxAmountCents?: number;
+  noteContains?: string;
+  sort?: ExpenseSortOrder; // Defaults to newest first
+}
+
+// Original amount of an expense entered in a foreign currency; `amountCents` holds the converted value
+export interface ForeignAmountDTO {
+  currency: string;
+  amountCents: number;
+  rate: number;
+}
+
+// A part of a split expense; the parts must add up to the expense amount
+export interface ExpenseLineItemDTO {
+  categoryId: number;
+  amountCents: number;
+  note?: string;
+}
+
+export interface CreateAttachmentDTO {
+  expenseId: number;
+  fileName: string;
+  originalName?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+}
+
+export interface CreateRecurringExpenseDTO {
+  categoryId: number;
+  amountCents: number;
+  note?: string;
+  dayOfMonth: number;
+  frequency: RecurringFrequency;
+  startYear: number;
+  startMonth: number;
+  endYear?: number | null;
+  endMonth?: number | null;
+}
+
+export interface UpdateRecurringExpenseDTO {
+  categoryId?: number;
+  amountCents?: number;
+  note?: string | null;
+  dayOfMonth?: number;
+  frequency?: RecurringFrequency;
+  endYear?: number | null;
+  endMonth?: number | null;
+  isActive?: boolean;
+}
+
+export interface CreateInstallmentPlanDTO {
+  categoryId: number;
+  note?: string;
+  totalCents: number;
+  installmentCount: number;
+  dayOfMonth: number;
+  startYear: number;
+  startMonth: number;
+}
+
+export interface CreateExpenseTemplateDTO {
+  categoryId: number;
+  amountCents: number;
+  note?: string | null;
+}
+
+export interface CreateSavingsGoalDTO {
+  name: string;
+  targetCents: number;
+  targetDate: string;
+}
+
+export interface UpdateSavingsGoalDTO {
+  name?: string;
+  targetCents?: number;
+  targetDate?: string;
+}
+
+export interface CreateAccountDTO {
+  name: string;
+  kind: AccountKind;
+  startingBalanceCents?: number;
+}
+
+export interface UpdateAccountDTO {
+  name?: string;
+  kind?: AccountKind;
+  startingBalanceCents?: number;
 }
@@ -4,19 +4,26 @@ export interface AllowanceSource {
   id: number;
   year: number;
   name: string;
-  amountCents: number;
+  amountCents: number; // Amount of each payment
   isActive: boolean;
+  frequency: AllowanceFrequency;
+  startMonth: number; // First and last month (1-12) of `year` the source pays in
+  endMonth: number;
+  firstPayDay: number; // Day of `startMonth` of the first weekly or biweekly payment
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
 }
 
+export type AllowanceFrequency = "weekly" | "biweekly" | "semimonthly" | "monthly" | "quarterly" | "once";
+
 export interface Category {
   id: number;
   name: string;
   icon: string | null;
   color: string | null;
   sortOrder: number;
+  updatedAt: string;
 }
 
 export interface Month {
@@ -37,6 +44,256 @@ export interface Expense {
   expenseDate: string;
   isPaid: boolean;
   isVerified: boolean;
+  recurringExpenseId: number | null;
+  installmentPlanId: number | null;
+  installmentNumber: number | null; // null on the payoff expense of a plan
+  merchantId: number | null;
+  accountId: number | null; // Account the expense is paid from
+  originalCurrency: string | null; // Set when entered in a foreign currency; amountCents is the converted value
+  originalAmountCents: number | null;
+  exchangeRate: number | null;
+  kind: ExpenseKind; // A refund is stored with a positive amount and subtracted from totals
+  refundOfExpenseId: number | null; // Expense a refund gives money back for
+  lineItems: ExpenseLineItem[]; // Empty unless the expense is split across categories
+  tagIds: number[];
+  attachmentCount: number;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export type ExpenseKind = "expense" | "refund";
+
+// Order of cross-month expense query results
+export type ExpenseSortOrder = "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+
+// What an audit log entry records: a toggle of paid or verified alone gets its own action
+export type ExpenseAuditAction = "create" | "update" | "delete" | "restore" | "paid" | "verification";
+
+// Old and new value of each expense field a change touched, keyed by Expense field name
+export type ExpenseAuditChanges = Record<string, { old: unknown; new: unknown }>;
+
+export interface ExpenseAuditEntry {
+  id: number;
+  expenseId: number;
+  action: ExpenseAuditAction;
+  changes: ExpenseAuditChanges;
+  createdAt: string;
+}
+
+// Two expenses that look like the same purchase entered twice
+export interface DuplicatePair {
+  first: ExpenseSearchResult;
+  second: ExpenseSearchResult;
+}
+
+// A pair marked as not being duplicates; expenseId is the lower id
+export interface DismissedDuplicate {
+  expenseId: number;
+  otherExpenseId: number;
+  createdAt: string;
+}
+
+// A month a recurring template or installment plan has generated its expense for
+export interface GeneratedPeriod {
+  recurringExpenseId: number | null;
+  installmentPlanId: number | null;
+  year: number;
+  month: number;
+  createdAt: string;
+}
+
+// A saved expense added again with one tap
+export interface ExpenseTemplate {
+  id: number;
+  categoryId: number;
+  amountCents: number;
+  note: string | null;
+  useCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Spending budget of a category for a year, or for one month of it
+export interface CategoryBudget {
+  id: number;
+  categoryId: number;
+  year: number;
+  month: number | null; // null = every month of the year, 1-12 = override for that month
+  amountCents: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetProgress {
+  budgetCents: number;
+  spentCents: number; // Paid and unpaid expenses, less refunds
+  remainingCents: number; // Negative when over budget
+  ratio: number; // spent / budget, 0-1+ (1 when the budget is 0 and something was spent)
+  isOver: boolean;
+}
+
+export interface BudgetSummary {
+  budgetedCents: number; // Sum of the budgets of the month
+  spentCents: number; // Spent in the budgeted categories
+  overBudgetCount: number; // Categories spent past their budget
+}
+
+export interface SavingsGoal {
+  id: number;
+  name: string;
+  targetCents: number;
+  targetDate: string; // YYYY-MM-DD
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Money set aside for a goal out of a month's remaining allowance
+export interface GoalContribution {
+  id: number;
+  goalId: number;
+  monthId: number;
+  year: number; // Year and month of `monthId`
+  month: number;
+  amountCents: number;
+  createdAt: string;
+}
+
+export interface SavingsGoalProgress {
+  savedCents: number;
+  remainingCents: number; // 0 once the target is reached
+  ratio: number; // saved / target, 0-1+
+  isComplete: boolean;
+  monthsLeft: number; // Months until the target date, counting the current one; 0 when past it
+  requiredMonthlyCents: number | null; // Needed each month to make the date; null when the date has passed
+  projected: { year: number; month: number } | null; // At the pace so far; null without contributions or once complete
+  isOnTrack: boolean | null; // Projected to finish by the target date; null without a projection
+}
+
+export interface IncomeEntry {
+  id: number;
+  monthId: number;
+  name: string;
+  amountCents: number;
+  entryDate: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export interface ExpenseLineItem {
+  id: number;
+  expenseId: number;
+  categoryId: number;
+  amountCents: number;
+  note: string | null;
+}
+
+export interface Attachment {
+  id: number;
+  expenseId: number;
+  fileName: string;
+  originalName: string | null;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  createdAt: string;
+}
+
+export type AccountKind = "cash" | "debit" | "credit";
+
+export interface Account {
+  id: number;
+  name: string;
+  kind: AccountKind;
+  startingBalanceCents: number;
+  balanceCents: number; // Starting balance plus the ledger
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export interface AccountTransaction {
+  id: number;
+  accountId: number;
+  expenseId: number;
+  amountCents: number; // Negative for a debit
+  categoryId: number;
+  note: string | null;
+  expenseDate: string;
+  createdAt: string; // When the expense was marked paid
+}
+
+export interface ExchangeRate {
+  id: number;
+  baseCurrency: string;
+  currency: string;
+  rate: number; // Units of baseCurrency per unit of currency
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Merchant {
+  id: number;
+  name: string;
+  lastCategoryId: number | null; // Category of the merchant's most recent expense
+  createdAt: string;
+}
+
+export interface MerchantTotal {
+  merchantId: number;
+  name: string;
+  totalCents: number;
+  visitCount: number;
+}
+
+export interface Tag {
+  id: number;
+  name: string;
+  createdAt: string;
+}
+
+export interface TagTotal {
+  tagId: number;
+  name: string;
+  totalCents: number;
+  count: number;
+}
+
+export type RecurringFrequency = "monthly" | "quarterly" | "semiannual" | "yearly";
+
+// "month" edits only the generated expense, "future" edits the template from that month onward
+export type RecurringEditScope = "month" | "future";
+
+export interface RecurringExpense {
+  id: number;
+  categoryId: number;
+  amountCents: number;
+  note: string | null;
+  dayOfMonth: number;
+  frequency: RecurringFrequency;
+  startYear: number;
+  startMonth: number;
+  endYear: number | null;
+  endMonth: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export type InstallmentPlanStatus = "active" | "paid_off" | "cancelled";
+
+export interface InstallmentPlan {
+  id: number;
+  categoryId: number;
+  note: string | null;
+  totalCents: number;
+  installmentCount: number;
+  dayOfMonth: number;
+  startYear: number;
+  startMonth: number;
+  status: InstallmentPlanStatus;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
@@ -46,18 +303,29 @@ export interface MonthSummary {
   year: number;
   month: number;
   monthId: number | null;
-  allowanceCents: number;
+  allowanceCents: number; // Default or override, plus income entries
   allowanceOverrideCents: number | null; // null = using default, number = custom override
+  incomeCents: number; // One-off income entries of the month
   spentCents: number; // Total of PAID expenses
   balanceCents: number; // Total of UNPAID expenses
   remainingCents: number;
   expenseCount: number;
+  budget: BudgetSummary | null; // null = no category has a budget this month
+  carryInCents: number | null; // Carried over from the previous month, included in remainingCents; null = rollover off
+  carryOutCents: number | null; // Remaining carried into the next month, null = rollover off
+  allocatedCents: number; // Set aside for savings goals, taken out of remainingCents
 }
 
 export interface ExpenseWithCategory extends Expense {
   category: Category;
 }
 
+// An expense found by search or a cross-month query, with the month it belongs to
+export interface ExpenseSearchResult extends Expense {
+  year: number;
+  month: number;
+}
+
 export interface YearSummary {
   year: number;
   totalAllowanceCents: number;
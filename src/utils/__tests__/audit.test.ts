@@ -0,0 +1,71 @@
+import { makeExpense } from "@/test-utils/fixtures";
+import { buildAuditEntry, diffExpense } from "../audit";
+
+describe("Audit Utilities", () => {
+  describe("diffExpense", () => {
+    it("should record only the fields that changed", () => {
+      const before = makeExpense({ amountCents: 1000, note: "Lunch" });
+      const after = makeExpense({ amountCents: 1250, note: "Lunch", updatedAt: "later" });
+      expect(diffExpense(before, after)).toEqual({ amountCents: { old: 1000, new: 1250 } });
+    });
+
+    it("should record the set fields of a new expense with empty old values", () => {
+      const changes = diffExpense(null, makeExpense({ note: "Taxi" }));
+      expect(changes.note).toEqual({ old: null, new: "Taxi" });
+      expect(changes.amountCents).toEqual({ old: null, new: 1000 });
+      expect(changes.merchantId).toBeUndefined();
+      expect(changes.tagIds).toBeUndefined();
+    });
+
+    it("should ignore line item ids and tag order", () => {
+      const before = makeExpense({
+        lineItems: [{ id: 1, expenseId: 1, categoryId: 2, amountCents: 1000, note: null }],
+        tagIds: [3, 1],
+      });
+      const after = makeExpense({
+        lineItems: [{ id: 7, expenseId: 1, categoryId: 2, amountCents: 1000, note: null }],
+        tagIds: [1, 3],
+      });
+      expect(diffExpense(before, after)).toEqual({});
+    });
+  });
+
+  describe("buildAuditEntry", () => {
+    it("should classify a new expense as create", () => {
+      expect(buildAuditEntry(null, makeExpense())?.action).toBe("create");
+    });
+
+    it("should classify a paid toggle, including the verification it drops", () => {
+      const before = makeExpense({ isPaid: true, isVerified: true });
+      const after = makeExpense({ isPaid: false, isVerified: false });
+      expect(buildAuditEntry(before, after)).toEqual({
+        action: "paid",
+        changes: { isPaid: { old: true, new: false }, isVerified: { old: true, new: false } },
+      });
+    });
+
+    it("should classify a verification on its own", () => {
+      const entry = buildAuditEntry(makeExpense({ isPaid: true }), makeExpense({ isPaid: true, isVerified: true }));
+      expect(entry?.action).toBe("verification");
+    });
+
+    it("should record the verification reset of an edit as part of the update", () => {
+      const before = makeExpense({ isPaid: true, isVerified: true, note: "Gas" });
+      const after = makeExpense({ isPaid: true, isVerified: false, note: "Gas station" });
+      const entry = buildAuditEntry(before, after);
+      expect(entry?.action).toBe("update");
+      expect(entry?.changes.isVerified).toEqual({ old: true, new: false });
+    });
+
+    it("should classify delete and restore by the deleted state", () => {
+      const live = makeExpense();
+      const deleted = makeExpense({ deletedAt: "2026-02-01 10:00:00" });
+      expect(buildAuditEntry(live, deleted)?.action).toBe("delete");
+      expect(buildAuditEntry(deleted, live)?.action).toBe("restore");
+    });
+
+    it("should skip changes to bookkeeping fields only", () => {
+      expect(buildAuditEntry(makeExpense(), makeExpense({ updatedAt: "later", attachmentCount: 2 }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  addDays,
+  formatDate,
+  formatDateTime,
+  getCurrentDateString,
+  getCurrentDay,
+  getCurrentMonth,
+  getCurrentYear,
+  getDaysBetween,
+  getDaysInMonth,
+  isCurrentMonth,
+  parseDateString,
+  toDateString,
+  toLocalDateString,
+} from "../date";
+
+describe("Date Utilities", () => {
+  describe("getDaysInMonth", () => {
+    it("should handle leap years", () => {
+      expect(getDaysInMonth(2024, 2)).toBe(29);
+      expect(getDaysInMonth(2026, 2)).toBe(28);
+      expect(getDaysInMonth(2026, 12)).toBe(31);
+    });
+  });
+
+  describe("toDateString", () => {
+    it("should zero-pad month and day", () => {
+      expect(toDateString(2026, 3, 7)).toBe("2026-03-07");
+    });
+  });
+
+  describe("parseDateString", () => {
+    it("should split a valid date", () => {
+      expect(parseDateString("2026-01-31")).toEqual({ year: 2026, month: 1, day: 31 });
+    });
+
+    it("should reject malformed and impossible dates", () => {
+      expect(parseDateString("2026-1-5")).toBeNull();
+      expect(parseDateString("2026-02-30")).toBeNull();
+      expect(parseDateString("2026-13-01")).toBeNull();
+    });
+  });
+
+  describe("addDays", () => {
+    it("should cross month and year ends", () => {
+      expect(addDays("2026-01-30", 3)).toBe("2026-02-02");
+      expect(addDays("2026-01-02", -3)).toBe("2025-12-30");
+    });
+  });
+
+  describe("getDaysBetween", () => {
+    it("should count calendar days in either direction", () => {
+      expect(getDaysBetween("2026-02-27", "2026-03-02")).toBe(3);
+      expect(getDaysBetween("2026-03-02", "2026-02-27")).toBe(-3);
+      expect(getDaysBetween("2026-03-02", "not a date")).toBeNull();
+    });
+  });
+
+  // Local time depends on the process time zone, which can't change once Jest is running.
+  // `npm run test:tz` runs this file under each of the zones below; any other zone is checked
+  // against Intl's own conversion of the same moment.
+  // 2026-01-31 16:30 UTC is still Jan 31 in the Americas but already Feb 1 in Manila and Kiritimati.
+  const NOW = "2026-01-31T16:30:00Z";
+  const EXPECTED: Record<string, { today: string; createdAt: string }> = {
+    UTC: { today: "2026-01-31", createdAt: "Jan 10, 11:15 AM" },
+    "Asia/Manila": { today: "2026-02-01", createdAt: "Jan 10, 7:15 PM" },
+    "Pacific/Kiritimati": { today: "2026-02-01", createdAt: "Jan 11, 1:15 AM" },
+    "America/New_York": { today: "2026-01-31", createdAt: "Jan 10, 6:15 AM" },
+    "America/Los_Angeles": { today: "2026-01-31", createdAt: "Jan 10, 3:15 AM" },
+  };
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const expected = EXPECTED[process.env.TZ ?? ""] ??
+    EXPECTED[timeZone] ?? {
+      // en-CA formats dates as YYYY-MM-DD
+      today: new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(
+        new Date(NOW),
+      ),
+      createdAt: formatDateTime("2026-01-10T11:15:00Z"),
+    };
+
+  describe(`in the ${timeZone} time zone`, () => {
+    beforeAll(() => {
+      jest.useFakeTimers({ now: new Date(NOW) });
+    });
+
+    afterAll(() => {
+      jest.useRealTimers();
+    });
+
+    it("should take today from the local calendar, not UTC", () => {
+      const [year, month, day] = expected.today.split("-").map(Number);
+      expect(getCurrentDateString()).toBe(expected.today);
+      expect(toLocalDateString(new Date())).toBe(expected.today);
+      expect(getCurrentYear()).toBe(year);
+      expect(getCurrentMonth()).toBe(month);
+      expect(getCurrentDay()).toBe(day);
+      expect(isCurrentMonth(year!, month!)).toBe(true);
+    });
+
+    it("should show a date as the same calendar day", () => {
+      expect(formatDate("2026-01-05")).toBe("Jan 5, 2026");
+      expect(formatDate("2026-03-01")).toBe("Mar 1, 2026");
+    });
+
+    it("should show a stored UTC datetime in local time", () => {
+      expect(formatDateTime("2026-01-10 11:15:00")).toBe(expected.createdAt);
+    });
+  });
+});
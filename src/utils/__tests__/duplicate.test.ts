@@ -0,0 +1,65 @@
+import { makeExpense } from "@/test-utils/fixtures";
+import {
+  findDuplicateMatches,
+  findDuplicatePairs,
+  getDuplicatePairKey,
+  isLikelyDuplicate,
+  isSimilarNote,
+} from "../duplicate";
+
+describe("Duplicate Utilities", () => {
+  describe("isSimilarNote", () => {
+    it("should ignore case and punctuation", () => {
+      expect(isSimilarNote("Groceries @ SM Market", "groceries sm market")).toBe(true);
+    });
+
+    it("should not match different or empty notes", () => {
+      expect(isSimilarNote("Dinner with Ana", "Taxi home")).toBe(false);
+      expect(isSimilarNote(null, "")).toBe(false);
+    });
+  });
+
+  describe("isLikelyDuplicate", () => {
+    it("should match the same amount and category a few days apart", () => {
+      const a = makeExpense({ expenseDate: "2026-01-30" });
+      const b = makeExpense({ id: 2, expenseDate: "2026-02-02" });
+      expect(isLikelyDuplicate(a, b)).toBe(true);
+    });
+
+    it("should match a similar note with a different amount", () => {
+      const a = makeExpense({ note: "Pharmacy - vitamins", amountCents: 1200 });
+      const b = makeExpense({ id: 2, note: "pharmacy vitamins", amountCents: 1250, categoryId: 2 });
+      expect(isLikelyDuplicate(a, b)).toBe(true);
+    });
+
+    it("should not match expenses too far apart", () => {
+      const a = makeExpense({ expenseDate: "2026-01-01" });
+      const b = makeExpense({ id: 2, expenseDate: "2026-01-05" });
+      expect(isLikelyDuplicate(a, b)).toBe(false);
+    });
+
+    it("should not match a refund against the expense it refunds", () => {
+      const a = makeExpense();
+      const b = makeExpense({ id: 2, kind: "refund", refundOfExpenseId: 1 });
+      expect(isLikelyDuplicate(a, b)).toBe(false);
+    });
+  });
+
+  describe("findDuplicateMatches", () => {
+    it("should skip the expense being edited", () => {
+      const saved = makeExpense();
+      expect(findDuplicateMatches(saved, [saved], saved.id)).toEqual([]);
+      expect(findDuplicateMatches(saved, [saved])).toEqual([saved]);
+    });
+  });
+
+  describe("findDuplicatePairs", () => {
+    it("should list each pair once, oldest first, and skip dismissed pairs", () => {
+      const a = makeExpense({ id: 5, expenseDate: "2026-01-11" });
+      const b = makeExpense({ id: 3, expenseDate: "2026-01-10" });
+      const c = makeExpense({ id: 8, expenseDate: "2026-01-12", amountCents: 999 });
+      expect(findDuplicatePairs([a, b, c]).map(([x, y]) => [x.id, y.id])).toEqual([[3, 5]]);
+      expect(findDuplicatePairs([a, b, c], new Set([getDuplicatePairKey(5, 3)]))).toEqual([]);
+    });
+  });
+});
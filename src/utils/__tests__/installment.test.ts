@@ -0,0 +1,94 @@
+import type { InstallmentPlan } from "@/types";
+import {
+  calculateInstallmentCommitment,
+  getInstallmentAmount,
+  getInstallmentDueDate,
+  getInstallmentMonth,
+  getInstallmentNumber,
+} from "../installment";
+
+function makePlan(overrides: Partial<InstallmentPlan> = {}): InstallmentPlan {
+  return {
+    id: 1,
+    categoryId: 1,
+    note: "Laptop",
+    totalCents: 120000,
+    installmentCount: 12,
+    dayOfMonth: 15,
+    startYear: 2026,
+    startMonth: 11,
+    status: "active",
+    createdAt: "",
+    updatedAt: "",
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+describe("Installment Utilities", () => {
+  describe("getInstallmentAmount", () => {
+    it("should split evenly when divisible", () => {
+      expect(getInstallmentAmount(120000, 12, 1)).toBe(10000);
+      expect(getInstallmentAmount(120000, 12, 12)).toBe(10000);
+    });
+
+    it("should give the remainder cents to the first installments", () => {
+      expect(getInstallmentAmount(1000, 3, 1)).toBe(334);
+      expect(getInstallmentAmount(1000, 3, 2)).toBe(333);
+      expect(getInstallmentAmount(1000, 3, 3)).toBe(333);
+    });
+
+    it("should always add up to the total", () => {
+      const total = [1, 2, 3, 4, 5, 6, 7].reduce((sum, n) => sum + getInstallmentAmount(99999, 7, n), 0);
+      expect(total).toBe(99999);
+    });
+
+    it("should return 0 outside the plan", () => {
+      expect(getInstallmentAmount(1000, 3, 0)).toBe(0);
+      expect(getInstallmentAmount(1000, 3, 4)).toBe(0);
+    });
+  });
+
+  describe("getInstallmentNumber", () => {
+    it("should count months from the start across year boundaries", () => {
+      const plan = makePlan();
+      expect(getInstallmentNumber(plan, 2026, 11)).toBe(1);
+      expect(getInstallmentNumber(plan, 2027, 1)).toBe(3);
+      expect(getInstallmentNumber(plan, 2027, 10)).toBe(12);
+    });
+
+    it("should return null before the start and after the last installment", () => {
+      const plan = makePlan();
+      expect(getInstallmentNumber(plan, 2026, 10)).toBeNull();
+      expect(getInstallmentNumber(plan, 2027, 11)).toBeNull();
+    });
+  });
+
+  describe("getInstallmentMonth", () => {
+    it("should map an installment back to its month", () => {
+      expect(getInstallmentMonth(makePlan(), 3)).toEqual({ year: 2027, month: 1 });
+    });
+  });
+
+  describe("getInstallmentDueDate", () => {
+    it("should clamp the day to the end of the month", () => {
+      expect(getInstallmentDueDate(makePlan({ dayOfMonth: 31 }), 2027, 2)).toBe("2027-02-28");
+    });
+  });
+
+  describe("calculateInstallmentCommitment", () => {
+    it("should sum installments after the given month", () => {
+      // Nov 2026 start, viewed from Jan 2027: installments 4-12 remain
+      expect(calculateInstallmentCommitment([makePlan()], 2027, 1)).toBe(90000);
+    });
+
+    it("should include the whole plan when it has not started", () => {
+      expect(calculateInstallmentCommitment([makePlan()], 2026, 1)).toBe(120000);
+    });
+
+    it("should ignore paid off and cancelled plans", () => {
+      const plans = [makePlan({ status: "paid_off" }), makePlan({ status: "cancelled" })];
+      expect(calculateInstallmentCommitment(plans, 2026, 1)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import type { RecurringExpense } from "@/types";
+import { getDueRecurringExpenses, getRecurringDueDate, isRecurringDueInMonth } from "../recurring";
+
+function makeTemplate(overrides: Partial<RecurringExpense> = {}): RecurringExpense {
+  return {
+    id: 1,
+    categoryId: 1,
+    amountCents: 120000,
+    note: "Rent",
+    dayOfMonth: 1,
+    frequency: "monthly",
+    startYear: 2026,
+    startMonth: 3,
+    endYear: null,
+    endMonth: null,
+    isActive: true,
+    createdAt: "",
+    updatedAt: "",
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+describe("Recurring Utilities", () => {
+  describe("isRecurringDueInMonth", () => {
+    it("should not be due before the start month", () => {
+      expect(isRecurringDueInMonth(makeTemplate(), 2026, 2)).toBe(false);
+    });
+
+    it("should be due every month for monthly templates", () => {
+      const template = makeTemplate();
+      expect(isRecurringDueInMonth(template, 2026, 3)).toBe(true);
+      expect(isRecurringDueInMonth(template, 2026, 12)).toBe(true);
+      expect(isRecurringDueInMonth(template, 2027, 1)).toBe(true);
+    });
+
+    it("should respect the interval for quarterly templates across years", () => {
+      const template = makeTemplate({ frequency: "quarterly", startMonth: 11 });
+      expect(isRecurringDueInMonth(template, 2026, 11)).toBe(true);
+      expect(isRecurringDueInMonth(template, 2026, 12)).toBe(false);
+      expect(isRecurringDueInMonth(template, 2027, 2)).toBe(true);
+      expect(isRecurringDueInMonth(template, 2027, 5)).toBe(true);
+    });
+
+    it("should only be due in the start month for yearly templates", () => {
+      const template = makeTemplate({ frequency: "yearly" });
+      expect(isRecurringDueInMonth(template, 2026, 3)).toBe(true);
+      expect(isRecurringDueInMonth(template, 2026, 9)).toBe(false);
+      expect(isRecurringDueInMonth(template, 2027, 3)).toBe(true);
+    });
+
+    it("should stop after the end month", () => {
+      const template = makeTemplate({ endYear: 2026, endMonth: 6 });
+      expect(isRecurringDueInMonth(template, 2026, 6)).toBe(true);
+      expect(isRecurringDueInMonth(template, 2026, 7)).toBe(false);
+    });
+
+    it("should never be due when inactive or deleted", () => {
+      expect(isRecurringDueInMonth(makeTemplate({ isActive: false }), 2026, 4)).toBe(false);
+      expect(isRecurringDueInMonth(makeTemplate({ deletedAt: "2026-04-01" }), 2026, 4)).toBe(false);
+    });
+  });
+
+  describe("getRecurringDueDate", () => {
+    it("should format the date with zero padding", () => {
+      expect(getRecurringDueDate(makeTemplate({ dayOfMonth: 5 }), 2026, 3)).toBe("2026-03-05");
+    });
+
+    it("should clamp the day to the end of short months", () => {
+      const template = makeTemplate({ dayOfMonth: 31 });
+      expect(getRecurringDueDate(template, 2026, 2)).toBe("2026-02-28");
+      expect(getRecurringDueDate(template, 2028, 2)).toBe("2028-02-29");
+      expect(getRecurringDueDate(template, 2026, 4)).toBe("2026-04-30");
+    });
+  });
+
+  describe("getDueRecurringExpenses", () => {
+    it("should return only the templates due in the month", () => {
+      const templates = [
+        makeTemplate({ id: 1 }),
+        makeTemplate({ id: 2, frequency: "yearly" }),
+        makeTemplate({ id: 3, startYear: 2027 }),
+      ];
+      expect(getDueRecurringExpenses(templates, 2026, 4).map((t) => t.id)).toEqual([1]);
+      expect(getDueRecurringExpenses(templates, 2026, 3).map((t) => t.id)).toEqual([1, 2]);
+    });
+  });
+});
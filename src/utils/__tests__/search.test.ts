@@ -0,0 +1,25 @@
+import { buildSearchQuery } from "../search";
+
+describe("Search Utilities", () => {
+  describe("buildSearchQuery", () => {
+    it("should prefix-match every word", () => {
+      expect(buildSearchQuery("vet  bill")).toBe('"vet"* "bill"*');
+    });
+
+    it("should keep decimal points in amounts", () => {
+      expect(buildSearchQuery("45.50")).toBe('"45.50"*');
+    });
+
+    it("should drop punctuation and quotes", () => {
+      expect(buildSearchQuery('$1,200 "rent"')).toBe('"1200"* "rent"*');
+    });
+
+    it("should keep accented letters", () => {
+      expect(buildSearchQuery("Café")).toBe('"Café"*');
+    });
+
+    it("should return null when nothing is searchable", () => {
+      expect(buildSearchQuery("  ... ")).toBeNull();
+    });
+  });
+});
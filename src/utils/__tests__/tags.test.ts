@@ -0,0 +1,21 @@
+import { normalizeTagName } from "../tags";
+
+describe("Tag Utilities", () => {
+  describe("normalizeTagName", () => {
+    it("should lowercase and trim", () => {
+      expect(normalizeTagName("  Work ")).toBe("work");
+    });
+
+    it("should join words with dashes", () => {
+      expect(normalizeTagName("Vacation  2026")).toBe("vacation-2026");
+    });
+
+    it("should drop a leading hash", () => {
+      expect(normalizeTagName("#gift")).toBe("gift");
+    });
+
+    it("should return an empty string for blank input", () => {
+      expect(normalizeTagName("   ")).toBe("");
+    });
+  });
+});
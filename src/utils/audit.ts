@@ -0,0 +1,95 @@
+import type { Expense, ExpenseAuditAction, ExpenseAuditChanges } from "@/types";
+
+// Fields whose changes are recorded; bookkeeping (ids, timestamps, attachment count) is left out
+export const AUDITED_EXPENSE_FIELDS: readonly (keyof Expense)[] = [
+  "monthId",
+  "categoryId",
+  "amountCents",
+  "note",
+  "expenseDate",
+  "isPaid",
+  "isVerified",
+  "merchantId",
+  "accountId",
+  "originalCurrency",
+  "originalAmountCents",
+  "exchangeRate",
+  "kind",
+  "refundOfExpenseId",
+  "lineItems",
+  "tagIds",
+];
+
+/**
+ * Value of a field as recorded in the log
+ * Line items are re-created on every save, so only their content is compared, not their ids.
+ */
+function auditValue(expense: Expense, field: keyof Expense): unknown {
+  if (field === "lineItems") {
+    return expense.lineItems.map((item) => ({
+      categoryId: item.categoryId,
+      amountCents: item.amountCents,
+      note: item.note,
+    }));
+  }
+  if (field === "tagIds") {
+    return [...expense.tagIds].sort((a, b) => a - b);
+  }
+  return expense[field];
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Get the old and new value of every audited field that differs
+ * A missing side (create) counts as empty, so only the fields that were set are recorded.
+ */
+export function diffExpense(before: Expense | null, after: Expense | null): ExpenseAuditChanges {
+  const changes: ExpenseAuditChanges = {};
+  for (const field of AUDITED_EXPENSE_FIELDS) {
+    const oldValue = before ? auditValue(before, field) : null;
+    const newValue = after ? auditValue(after, field) : null;
+    if (!before && isEmptyValue(newValue)) continue;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Classify a change between two snapshots of the same expense
+ * @returns null when nothing worth recording changed
+ */
+export function classifyExpenseChange(
+  before: Expense,
+  after: Expense,
+  changes: ExpenseAuditChanges,
+): ExpenseAuditAction | null {
+  if (before.deletedAt === null && after.deletedAt !== null) return "delete";
+  if (before.deletedAt !== null && after.deletedAt === null) return "restore";
+
+  const fields = Object.keys(changes);
+  if (fields.length === 0) return null;
+  // Un-paying drops verification, which is still just a paid toggle
+  if (fields.every((f) => f === "isPaid" || f === "isVerified") && fields.includes("isPaid")) return "paid";
+  if (fields.length === 1 && fields[0] === "isVerified") return "verification";
+  return "update";
+}
+
+/**
+ * Build the audit entry for a change of an expense
+ * @param before - Snapshot before the change, null when the expense was just created
+ * @returns null when nothing worth recording changed
+ */
+export function buildAuditEntry(
+  before: Expense | null,
+  after: Expense,
+): { action: ExpenseAuditAction; changes: ExpenseAuditChanges } | null {
+  const changes = diffExpense(before, after);
+  if (!before) return { action: "create", changes };
+  const action = classifyExpenseChange(before, after, changes);
+  return action ? { action, changes } : null;
+}
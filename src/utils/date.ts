@@ -0,0 +1,160 @@
+/**
+ * Calendar date utility functions
+ * Expense dates are plain "YYYY-MM-DD" strings with 1-based months, always in the device's local time zone.
+ * Never derive them from toISOString(), which gives the UTC date: east of UTC an evening
+ * expense would land on the next day (or month), west of UTC a morning one on the previous day.
+ */
+
+/**
+ * Number of days in a month
+ * @param month - 1-12
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+/**
+ * Build a "YYYY-MM-DD" date string
+ * @param month - 1-12
+ */
+export function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Split a "YYYY-MM-DD" date string into its parts
+ * @returns null when the string isn't a valid calendar date
+ */
+export function parseDateString(date: string): { year: number; month: number; day: number } | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) return null;
+  return { year, month, day };
+}
+
+/**
+ * Convert a year/month pair to a sequential month index for comparisons
+ * @param month - 1-12
+ */
+export function toMonthIndex(year: number, month: number): number {
+  return year * 12 + (month - 1);
+}
+
+/**
+ * Convert a sequential month index (see toMonthIndex) back to a year/month pair
+ */
+export function fromMonthIndex(index: number): { year: number; month: number } {
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+/**
+ * Shift a "YYYY-MM-DD" date by a number of days, across month and year ends
+ */
+export function addDays(date: string, days: number): string {
+  const parts = parseDateString(date);
+  if (!parts) return date;
+  // UTC arithmetic, so no day is skipped or repeated at a daylight saving change
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return toDateString(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Number of days from one "YYYY-MM-DD" date to another, negative when `to` is earlier
+ * @returns null when either date is invalid
+ */
+export function getDaysBetween(from: string, to: string): number | null {
+  const a = parseDateString(from);
+  const b = parseDateString(to);
+  if (!a || !b) return null;
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86_400_000);
+}
+
+/**
+ * Local calendar date of a moment as "YYYY-MM-DD"
+ */
+export function toLocalDateString(date: Date): string {
+  return toDateString(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+/**
+ * Parse a SQLite datetime ("2026-01-10 11:15:00", stored in UTC without a time zone indicator)
+ * Strings that already carry a "T" or "Z" are taken as ISO timestamps.
+ */
+export function parseDateTime(dateString: string): Date {
+  const normalizedString =
+    dateString.includes("T") || dateString.includes("Z") ? dateString : dateString.replace(" ", "T") + "Z";
+  return new Date(normalizedString);
+}
+
+/**
+ * Get current date as YYYY-MM-DD string
+ */
+export function getCurrentDateString(): string {
+  return toLocalDateString(new Date());
+}
+
+/**
+ * Get current year
+ */
+export function getCurrentYear(): number {
+  return new Date().getFullYear();
+}
+
+/**
+ * Get current month (1-12)
+ */
+export function getCurrentMonth(): number {
+  return new Date().getMonth() + 1;
+}
+
+/**
+ * Get current day of the month (1-31)
+ */
+export function getCurrentDay(): number {
+  return new Date().getDate();
+}
+
+/**
+ * Whether a month is the current local month
+ * @param month - 1-12
+ */
+export function isCurrentMonth(year: number, month: number): boolean {
+  return year === getCurrentYear() && month === getCurrentMonth();
+}
+
+/**
+ * Format a date string for display
+ * Plain "YYYY-MM-DD" dates are shown as that calendar day rather than as UTC midnight.
+ */
+export function formatDate(dateString: string, locale: string = "en-US"): string {
+  const parts = parseDateString(dateString);
+  const date = parts ? new Date(parts.year, parts.month - 1, parts.day) : new Date(dateString);
+  return date.toLocaleDateString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Format a datetime string for display with time in the local time zone (e.g., "Jan 10, 7:15 PM")
+ */
+export function formatDateTime(dateString: string, locale: string = "en-US"): string {
+  const date = parseDateTime(dateString);
+
+  const dateOptions: Intl.DateTimeFormatOptions = {
+    month: "short",
+    day: "numeric",
+  };
+  const timeOptions: Intl.DateTimeFormatOptions = {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  };
+  const datePart = date.toLocaleDateString(locale, dateOptions);
+  const timePart = date.toLocaleTimeString(locale, timeOptions);
+  return `${datePart}, ${timePart}`;
+}
@@ -0,0 +1,91 @@
+import type { Expense } from "@/types";
+import { getDaysBetween } from "./date";
+
+/**
+ * Duplicate expense detection
+ * Flags expenses that look like the same purchase entered twice, e.g. one receipt logged by two family members
+ */
+
+// How many days apart two entries of the same purchase can be dated
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+// Share of words two notes must have in common to count as similar
+const NOTE_SIMILARITY_THRESHOLD = 0.6;
+
+// The fields of an expense, saved or not yet saved, that duplicate detection compares
+export type DuplicateCandidate = Pick<Expense, "categoryId" | "amountCents" | "note" | "expenseDate" | "kind">;
+
+function noteWords(note: string | null): Set<string> {
+  const words = (note ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  return new Set(words);
+}
+
+/**
+ * Whether two notes share most of their words, ignoring case and punctuation
+ * Empty notes are never similar.
+ */
+export function isSimilarNote(a: string | null, b: string | null): boolean {
+  const wordsA = noteWords(a);
+  const wordsB = noteWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return false;
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return shared / total >= NOTE_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Whether two expenses are likely the same purchase
+ * Both must be of the same kind and dated within a few days, and either have the same amount and
+ * category or a similar note.
+ */
+export function isLikelyDuplicate(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  if (a.kind !== b.kind) return false;
+  const days = getDaysBetween(a.expenseDate, b.expenseDate);
+  if (days === null || Math.abs(days) > DUPLICATE_WINDOW_DAYS) return false;
+  if (a.amountCents === b.amountCents && a.categoryId === b.categoryId) return true;
+  return isSimilarNote(a.note, b.note);
+}
+
+/**
+ * Get the expenses a new or edited expense looks like a duplicate of
+ * @param excludeId - Id of the expense itself when it is already saved
+ */
+export function findDuplicateMatches<T extends Expense>(
+  candidate: DuplicateCandidate,
+  expenses: T[],
+  excludeId?: number,
+): T[] {
+  return expenses.filter((expense) => expense.id !== excludeId && isLikelyDuplicate(candidate, expense));
+}
+
+/**
+ * Key of a pair of expenses, the same in either order
+ */
+export function getDuplicatePairKey(expenseId: number, otherExpenseId: number): string {
+  return `${Math.min(expenseId, otherExpenseId)}-${Math.max(expenseId, otherExpenseId)}`;
+}
+
+/**
+ * Get every likely duplicate pair among expenses, oldest first within a pair
+ * @param dismissedKeys - getDuplicatePairKey of the pairs marked as not being duplicates
+ */
+export function findDuplicatePairs<T extends Expense>(expenses: T[], dismissedKeys: Set<string> = new Set()): [T, T][] {
+  const sorted = [...expenses].sort((a, b) => a.expenseDate.localeCompare(b.expenseDate) || a.id - b.id);
+  const pairs: [T, T][] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const first = sorted[i]!;
+      const second = sorted[j]!;
+      // Sorted by date, so nothing further on is close enough
+      const days = getDaysBetween(first.expenseDate, second.expenseDate);
+      if (days !== null && days > DUPLICATE_WINDOW_DAYS) break;
+      if (dismissedKeys.has(getDuplicatePairKey(first.id, second.id))) continue;
+      if (isLikelyDuplicate(first, second)) pairs.push([first, second]);
+    }
+  }
+  return pairs;
+}
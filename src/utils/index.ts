@@ -1,2 +1,9 @@
 // Utils barrel export
+export * from "./audit";
 export * from "./currency";
+export * from "./date";
+export * from "./duplicate";
+export * from "./installment";
+export * from "./recurring";
+export * from "./search";
+export * from "./tags";
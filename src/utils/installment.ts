@@ -0,0 +1,64 @@
+import type { InstallmentPlan } from "@/types";
+import { fromMonthIndex, getDaysInMonth, toDateString, toMonthIndex } from "./date";
+
+/**
+ * Installment plan scheduling
+ * All amounts are integer cents; the remainder of an uneven split goes to the first installments
+ */
+
+/**
+ * Get the amount of a single installment (1-based)
+ * e.g. 1000 over 3 → 334, 333, 333
+ */
+export function getInstallmentAmount(totalCents: number, installmentCount: number, installmentNumber: number): number {
+  if (installmentCount <= 0 || installmentNumber < 1 || installmentNumber > installmentCount) return 0;
+  const base = Math.floor(totalCents / installmentCount);
+  const remainder = totalCents - base * installmentCount;
+  return installmentNumber <= remainder ? base + 1 : base;
+}
+
+/**
+ * Get which installment (1-based) falls in a month, or null if the month is outside the plan
+ */
+export function getInstallmentNumber(plan: InstallmentPlan, year: number, month: number): number | null {
+  const offset = toMonthIndex(year, month) - toMonthIndex(plan.startYear, plan.startMonth);
+  if (offset < 0 || offset >= plan.installmentCount) return null;
+  return offset + 1;
+}
+
+/**
+ * Get the year/month in which an installment (1-based) falls
+ */
+export function getInstallmentMonth(plan: InstallmentPlan, installmentNumber: number): { year: number; month: number } {
+  return fromMonthIndex(toMonthIndex(plan.startYear, plan.startMonth) + installmentNumber - 1);
+}
+
+/**
+ * Get the expense date (YYYY-MM-DD) of a plan's installment in a month
+ * Days past the end of the month are clamped
+ */
+export function getInstallmentDueDate(plan: InstallmentPlan, year: number, month: number): string {
+  const day = Math.min(plan.dayOfMonth, getDaysInMonth(year, month));
+  return toDateString(year, month, day);
+}
+
+/**
+ * Sum the installments of active plans that fall after the given month
+ * @returns Amount still committed in future months, in cents
+ */
+export function calculateInstallmentCommitment(plans: InstallmentPlan[], year: number, month: number): number {
+  const currentIndex = toMonthIndex(year, month);
+  let total = 0;
+
+  for (const plan of plans) {
+    if (plan.status !== "active" || plan.deletedAt) continue;
+    const startIndex = toMonthIndex(plan.startYear, plan.startMonth);
+    for (let n = 1; n <= plan.installmentCount; n++) {
+      if (startIndex + n - 1 > currentIndex) {
+        total += getInstallmentAmount(plan.totalCents, plan.installmentCount, n);
+      }
+    }
+  }
+
+  return total;
+}
@@ -0,0 +1,59 @@
+import type { RecurringExpense, RecurringFrequency } from "@/types";
+import { getDaysInMonth, toDateString, toMonthIndex } from "./date";
+
+/**
+ * Number of months between two occurrences of each frequency
+ */
+export const RECURRING_FREQUENCY_MONTHS: Record<RecurringFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannual: 6,
+  yearly: 12,
+};
+
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  semiannual: "Every 6 months",
+  yearly: "Yearly",
+};
+
+/**
+ * Check whether a recurring expense template produces an expense in the given month
+ * Inactive, deleted, not-yet-started and ended templates are never due
+ */
+export function isRecurringDueInMonth(template: RecurringExpense, year: number, month: number): boolean {
+  if (!template.isActive || template.deletedAt) return false;
+
+  const target = toMonthIndex(year, month);
+  const start = toMonthIndex(template.startYear, template.startMonth);
+  if (target < start) return false;
+
+  if (template.endYear !== null && template.endMonth !== null) {
+    const end = toMonthIndex(template.endYear, template.endMonth);
+    if (target > end) return false;
+  }
+
+  const interval = RECURRING_FREQUENCY_MONTHS[template.frequency] ?? 1;
+  return (target - start) % interval === 0;
+}
+
+/**
+ * Get the expense date (YYYY-MM-DD) for a recurring expense template in a month
+ * Days past the end of the month are clamped (e.g. 31 → Feb 28)
+ */
+export function getRecurringDueDate(template: RecurringExpense, year: number, month: number): string {
+  const day = Math.min(template.dayOfMonth, getDaysInMonth(year, month));
+  return toDateString(year, month, day);
+}
+
+/**
+ * Filter recurring expense templates down to those due in the given month
+ */
+export function getDueRecurringExpenses(
+  templates: RecurringExpense[],
+  year: number,
+  month: number,
+): RecurringExpense[] {
+  return templates.filter((t) => isRecurringDueInMonth(t, year, month));
+}
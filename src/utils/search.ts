@@ -0,0 +1,14 @@
+/**
+ * Turn what the user typed into an FTS5 MATCH expression
+ * Every word must match the start of a token; punctuation is dropped so "1,200" finds 1200.00.
+ * e.g. "vet 45.5" → "vet"* "45.5"*
+ * @returns null when nothing searchable is left
+ */
+export function buildSearchQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map((term) => term.replace(/[^\p{L}\p{N}.]/gu, "").replace(/^\.+|\.+$/g, ""))
+    .filter((term) => term.length > 0);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
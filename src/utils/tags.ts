@@ -0,0 +1,7 @@
+/**
+ * Normalize a tag name: trimmed, lowercase, inner whitespace collapsed to "-" and no leading "#"
+ * e.g. " Vacation 2026 " → "vacation-2026"
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, "").trim().toLowerCase().replace(/\s+/g, "-");
+}